@@ -0,0 +1,247 @@
+import type { ExchangeQuote, MarketTradingConfig } from "../../core/exchange/models";
+import { PositionLedger } from "../../core/pnl/position-ledger";
+import type { GridConfig } from "../../infra/config/schema";
+import { PaperGridExchangeAdapter } from "../../infra/exchange/paper/paper-adapter";
+import type { PaperFill } from "../../infra/exchange/paper/paper-matching-engine";
+import { ManualQuoteSource } from "../../infra/exchange/paper/paper-quote-source";
+import { readQuoteFile } from "../../infra/market-data/quote-file";
+import { GridOrderManager } from "../../services/grid/grid-order-manager";
+import { MarketDataService } from "../../services/market-data/market-data-service";
+import { Decimal } from "../../shared/number";
+import { ManualClock } from "../../shared/time";
+
+/**
+ * 回测参数。
+ */
+export interface BacktestOptions {
+  grid: GridConfig;
+  /** 行情文件（JSONL/CSV） */
+  quoteFile: string;
+  /** 只回放该交易所的行情，未指定时取首条行情的交易所 */
+  quoteExchange?: string;
+  /** 市场配置：步长与 maker/taker 费率 */
+  marketConfig: MarketTradingConfig;
+  /** 初始净仓位，成本按首条行情 mark 计 */
+  initialPosition: Decimal;
+}
+
+/**
+ * 回测报告。
+ */
+export interface BacktestReport {
+  quoteFile: string;
+  quoteCount: number;
+  startTs: number | null;
+  endTs: number | null;
+  fillCount: number;
+  buyCount: number;
+  sellCount: number;
+  makerCount: number;
+  takerCount: number;
+  volume: Decimal;
+  notional: Decimal;
+  realizedPnl: Decimal;
+  fees: Decimal;
+  unrealizedPnl: Decimal;
+  /** 已实现 + 未实现 - 手续费 */
+  netPnl: Decimal;
+  finalPosition: Decimal;
+  avgEntryPrice: Decimal | null;
+  lastMark: Decimal | null;
+  /** 持仓绝对值的最大值 */
+  maxInventory: Decimal;
+  /** 权益（净盈亏）从峰值回撤的最大幅度 */
+  maxDrawdown: Decimal;
+  fills: PaperFill[];
+}
+
+/**
+ * 回测运行器：以虚拟时钟逐条回放行情，驱动生产环境的 GridOrderManager，
+ * 下单由纸面交易适配器本地撮合，统计成交、盈亏与风险指标。
+ */
+export class BacktestRunner {
+  private readonly options: BacktestOptions;
+  private readonly clock = new ManualClock();
+  private readonly quoteSource = new ManualQuoteSource();
+  private readonly adapter: PaperGridExchangeAdapter;
+  private readonly marketData: MarketDataService;
+  private readonly orderManager: GridOrderManager;
+  private readonly fills: PaperFill[] = [];
+  private ledger: PositionLedger | null = null;
+  private maxInventory = Decimal(0);
+  private peakEquity = Decimal(0);
+  private maxDrawdown = Decimal(0);
+
+  constructor(options: BacktestOptions) {
+    this.options = options;
+    this.adapter = new PaperGridExchangeAdapter({
+      symbols: [options.grid.symbol],
+      quoteSource: this.quoteSource,
+      fallbackMarketConfig: options.marketConfig,
+      initialPositions: { [options.grid.symbol.toUpperCase()]: options.initialPosition },
+      clock: this.clock,
+      onFill: (fill) => this.handleFill(fill),
+    });
+    this.marketData = new MarketDataService([
+      {
+        exchange: this.adapter.name,
+        symbol: options.grid.symbol,
+        subscribe: (listener) =>
+          this.adapter.subscribeOrderbook({
+            symbol: options.grid.symbol,
+            onQuote: listener,
+          }),
+      },
+    ]);
+    this.orderManager = new GridOrderManager(this.adapter, this.marketData, options.grid, {
+      clock: this.clock,
+      orderSessionId: "backtest",
+    });
+  }
+
+  /**
+   * 执行回测，回放结束后返回报告。
+   */
+  public async run(): Promise<BacktestReport> {
+    const maintenanceIntervalMs = this.orderManager.getMaintenanceIntervalMs();
+    let quoteCount = 0;
+    let startTs: number | null = null;
+    let lastQuote: ExchangeQuote | null = null;
+    let nextMaintenanceAt = 0;
+
+    try {
+      for await (const quote of readQuoteFile(this.options.quoteFile, {
+        exchange: this.options.quoteExchange,
+      })) {
+        if (lastQuote && quote.ts < lastQuote.ts) {
+          console.warn("行情时间戳倒序，已跳过", { ts: quote.ts, previousTs: lastQuote.ts });
+          continue;
+        }
+        if (startTs === null) {
+          startTs = quote.ts;
+          nextMaintenanceAt = quote.ts + maintenanceIntervalMs;
+          await this.start(quote);
+        }
+        // 先补齐两条行情之间应发生的定时维护，保持与实盘一致的调度节奏。
+        while (nextMaintenanceAt <= quote.ts) {
+          this.clock.set(nextMaintenanceAt);
+          await this.orderManager.runMaintenance();
+          await settle();
+          nextMaintenanceAt += maintenanceIntervalMs;
+        }
+        this.clock.set(quote.ts);
+        this.quoteSource.push(quote);
+        await settle();
+        this.updateEquity(quote.mark);
+        lastQuote = quote;
+        quoteCount += 1;
+      }
+    } finally {
+      await this.stop();
+    }
+
+    return this.buildReport(quoteCount, startTs, lastQuote);
+  }
+
+  /**
+   * 以首条行情时间初始化各组件，并等待订阅建立。
+   */
+  private async start(firstQuote: ExchangeQuote): Promise<void> {
+    this.clock.set(firstQuote.ts);
+    this.ledger = new PositionLedger({
+      position: this.options.initialPosition,
+      avgEntryPrice: firstQuote.mark,
+    });
+    this.maxInventory = this.options.initialPosition.abs();
+    await this.adapter.connect();
+    this.marketData.start();
+    await this.orderManager.start();
+    await settle();
+  }
+
+  private async stop(): Promise<void> {
+    await this.orderManager.stop();
+    this.marketData.stop();
+    await this.adapter.disconnect();
+  }
+
+  /**
+   * 记录成交并更新持仓账本。
+   */
+  private handleFill(fill: PaperFill): void {
+    this.fills.push(fill);
+    const result = this.getLedger().apply(fill);
+    const inventory = result.position.abs();
+    if (inventory.gt(this.maxInventory)) {
+      this.maxInventory = inventory;
+    }
+  }
+
+  /**
+   * 按最新 mark 计算权益并更新最大回撤。
+   */
+  private updateEquity(mark: Decimal): void {
+    const equity = this.calculateNetPnl(mark);
+    if (equity.gt(this.peakEquity)) {
+      this.peakEquity = equity;
+    }
+    const drawdown = this.peakEquity.minus(equity);
+    if (drawdown.gt(this.maxDrawdown)) {
+      this.maxDrawdown = drawdown;
+    }
+  }
+
+  private calculateNetPnl(mark: Decimal): Decimal {
+    const ledger = this.getLedger();
+    const snapshot = ledger.getSnapshot();
+    return snapshot.realizedPnl.plus(ledger.unrealizedPnl(mark)).minus(snapshot.fees);
+  }
+
+  private getLedger(): PositionLedger {
+    if (!this.ledger) {
+      throw new Error("回测尚未开始，持仓账本未初始化");
+    }
+    return this.ledger;
+  }
+
+  private buildReport(
+    quoteCount: number,
+    startTs: number | null,
+    lastQuote: ExchangeQuote | null
+  ): BacktestReport {
+    const ledger = this.ledger ?? new PositionLedger();
+    const snapshot = ledger.getSnapshot();
+    const unrealizedPnl = lastQuote ? ledger.unrealizedPnl(lastQuote.mark) : Decimal(0);
+    return {
+      quoteFile: this.options.quoteFile,
+      quoteCount,
+      startTs,
+      endTs: lastQuote?.ts ?? null,
+      fillCount: this.fills.length,
+      buyCount: this.fills.filter((fill) => fill.side === "BUY").length,
+      sellCount: this.fills.filter((fill) => fill.side === "SELL").length,
+      makerCount: this.fills.filter((fill) => fill.liquidity === "MAKER").length,
+      takerCount: this.fills.filter((fill) => fill.liquidity === "TAKER").length,
+      volume: snapshot.volume,
+      notional: snapshot.notional,
+      realizedPnl: snapshot.realizedPnl,
+      fees: snapshot.fees,
+      unrealizedPnl,
+      netPnl: snapshot.realizedPnl.plus(unrealizedPnl).minus(snapshot.fees),
+      finalPosition: snapshot.position,
+      avgEntryPrice: snapshot.avgEntryPrice,
+      lastMark: lastQuote?.mark ?? null,
+      maxInventory: this.maxInventory,
+      maxDrawdown: this.maxDrawdown,
+      fills: this.fills,
+    };
+  }
+}
+
+/**
+ * 等待当前微任务链全部完成：纸面撮合与订单管理器均不依赖定时器，
+ * 一个宏任务周期即可让下单、回报与平移全部落定，保证回放可复现。
+ */
+function settle(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
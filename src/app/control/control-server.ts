@@ -0,0 +1,267 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { ControlApiConfig, GridPausePolicy } from "../../infra/config/schema";
+import { Decimal } from "../../shared/number";
+import type { GridInstance } from "../grid-instance";
+import type { GridOrchestrator } from "../grid-orchestrator";
+
+/**
+ * 控制接口仅监听本机回环地址，避免暴露到外网。
+ */
+const CONTROL_API_HOST = "127.0.0.1";
+
+/**
+ * 请求参数错误，返回 400。
+ */
+class ControlRequestError extends Error {}
+
+type RouteHandler = (url: URL) => Promise<unknown>;
+
+/**
+ * 运行中网格的本地 HTTP 控制接口：查询状态、暂停/恢复、撤单、紧急平仓与重建。
+ * 所有请求需携带 Authorization: Bearer <token>，响应统一为 { ok, data } 或 { ok, error }。
+ * 多网格运行时通过 grid 参数（策略标识或交易对）指定目标网格。
+ */
+export class GridControlServer {
+  private readonly config: ControlApiConfig;
+  private readonly orchestrator: GridOrchestrator;
+  private readonly tokenDigest: Buffer;
+  private readonly routes: Map<string, RouteHandler>;
+  private server: Server | null = null;
+
+  constructor(config: ControlApiConfig, orchestrator: GridOrchestrator) {
+    this.config = config;
+    this.orchestrator = orchestrator;
+    this.tokenDigest = digestToken(config.token);
+    this.routes = new Map<string, RouteHandler>([
+      ["GET /status", async (url) => this.buildStatus(url)],
+      [
+        "POST /pause",
+        async (url) => {
+          await this.getOrderManager(url).pause(url.searchParams.get("reason") ?? "控制接口暂停", {
+            source: "control",
+            policy: parsePausePolicy(url.searchParams.get("policy")),
+          });
+          return this.getOrderManager(url).getStatus();
+        },
+      ],
+      [
+        "POST /resume",
+        async (url) => {
+          await this.getOrderManager(url).resume();
+          return this.getOrderManager(url).getStatus();
+        },
+      ],
+      [
+        "POST /cancel-all",
+        async (url) => {
+          await this.getOrderManager(url).cancelAllOrders("控制接口撤单", "control");
+          return this.getOrderManager(url).getStatus();
+        },
+      ],
+      [
+        "POST /flatten",
+        async (url) => {
+          const orderManager = this.getOrderManager(url);
+          const result = await orderManager.flattenPosition(
+            url.searchParams.get("reason") ?? "控制接口紧急平仓",
+            "control"
+          );
+          return { result, order: orderManager.getStatus() };
+        },
+      ],
+      [
+        "POST /rebuild",
+        async (url) => {
+          await this.getOrderManager(url).rebuild();
+          return this.getOrderManager(url).getStatus();
+        },
+      ],
+      [
+        "POST /recenter",
+        async (url) => {
+          await this.getOrderManager(url).recenter(parsePrice(url.searchParams.get("price")));
+          return this.getOrderManager(url).getStatus();
+        },
+      ],
+    ]);
+  }
+
+  /**
+   * 启动监听，端口占用等错误直接抛出。
+   */
+  public async start(): Promise<void> {
+    if (this.server) {
+      return;
+    }
+    const server = createServer((req, res) => {
+      void this.handleRequest(req, res);
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.config.port, CONTROL_API_HOST, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    console.info("控制接口已启动", { host: CONTROL_API_HOST, port: this.config.port });
+  }
+
+  /**
+   * 停止监听并关闭现有连接。
+   */
+  public async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+    });
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (!this.isAuthorized(req)) {
+      sendJson(res, 401, { ok: false, error: "未授权" });
+      return;
+    }
+    const url = new URL(req.url ?? "/", `http://${CONTROL_API_HOST}`);
+    const handler = this.routes.get(`${req.method} ${url.pathname}`);
+    if (!handler) {
+      const pathExists = Array.from(this.routes.keys()).some((key) =>
+        key.endsWith(` ${url.pathname}`)
+      );
+      sendJson(res, pathExists ? 405 : 404, {
+        ok: false,
+        error: pathExists ? "请求方法不支持" : "接口不存在",
+      });
+      return;
+    }
+    try {
+      const data = await handler(url);
+      sendJson(res, 200, { ok: true, data });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (error instanceof ControlRequestError) {
+        sendJson(res, 400, { ok: false, error: message });
+        return;
+      }
+      console.warn("控制指令执行失败", { method: req.method, path: url.pathname, error });
+      sendJson(res, 500, { ok: false, error: message });
+    }
+  }
+
+  /**
+   * 比较令牌摘要，避免按字符提前返回带来的时序差异。
+   */
+  private isAuthorized(req: IncomingMessage): boolean {
+    const header = req.headers.authorization ?? "";
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    if (!match) {
+      return false;
+    }
+    return timingSafeEqual(digestToken(match[1].trim()), this.tokenDigest);
+  }
+
+  /**
+   * 指定 grid 时返回该网格状态，否则返回整体健康报告、组合敞口、账户摘要与全部网格状态。
+   */
+  private buildStatus(url: URL): unknown {
+    const health = this.orchestrator.getHealthReport();
+    if (url.searchParams.has("grid")) {
+      const grid = this.resolveGrid(url);
+      return {
+        health: health.grids.find((report) => report.strategyId === grid.strategyId) ?? null,
+        ...buildGridStatus(grid),
+      };
+    }
+    const runtime = this.orchestrator.getRuntime();
+    return {
+      health,
+      portfolio: runtime.getPortfolioRisk()?.getSnapshot() ?? null,
+      account: runtime.getAccountMonitor()?.getStatus() ?? null,
+      grids: runtime.getGrids().map(buildGridStatus),
+    };
+  }
+
+  /**
+   * 指令仅下发给运行中的网格，启动失败的网格没有行情与账户订阅。
+   */
+  private getOrderManager(url: URL) {
+    const grid = this.resolveGrid(url);
+    if (!grid.isRunning()) {
+      throw new ControlRequestError(`网格未运行: ${grid.strategyId} (${grid.getState()})`);
+    }
+    return grid.getOrderManager();
+  }
+
+  private resolveGrid(url: URL): GridInstance {
+    const id = url.searchParams.get("grid") ?? undefined;
+    const grid = this.orchestrator.getRuntime().findGrid(id);
+    if (!grid) {
+      throw new ControlRequestError(
+        id === undefined ? "运行多个网格时必须提供 grid 参数" : `网格不存在: ${id}`
+      );
+    }
+    return grid;
+  }
+}
+
+/**
+ * 单个网格的状态：订单管理器状态、价格线与盈亏。
+ */
+function buildGridStatus(grid: GridInstance) {
+  const orderManager = grid.getOrderManager();
+  const order = orderManager.getStatus();
+  return {
+    strategyId: grid.strategyId,
+    symbol: grid.symbol,
+    state: grid.getState(),
+    order,
+    netPosition: order.netPosition,
+    levels: orderManager.getLevels(),
+    pnl: grid.getPnlService()?.getSnapshot() ?? null,
+  };
+}
+
+/**
+ * 解析中心价参数，必须为正数。
+ */
+function parsePrice(raw: string | null): Decimal {
+  if (!raw) {
+    throw new ControlRequestError("缺少 price 参数");
+  }
+  const price = Decimal(raw);
+  if (!price.isFinite() || !price.gt(0)) {
+    throw new ControlRequestError(`price 参数无效: ${raw}`);
+  }
+  return price;
+}
+
+/**
+ * 解析暂停策略参数，缺省时沿用配置。
+ */
+function parsePausePolicy(raw: string | null): GridPausePolicy | undefined {
+  if (raw === null) {
+    return undefined;
+  }
+  if (raw !== "keep" && raw !== "cancel") {
+    throw new ControlRequestError(`policy 参数无效: ${raw}`);
+  }
+  return raw;
+}
+
+function digestToken(token: string): Buffer {
+  return createHash("sha256").update(token).digest();
+}
+
+/**
+ * Decimal 自带 toJSON，序列化时输出字符串，保持精度。
+ */
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "content-type": "application/json; charset=utf-8" });
+  res.end(JSON.stringify(body));
+}
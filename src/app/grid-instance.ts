@@ -0,0 +1,101 @@
+import type { GridConfig } from "../infra/config/schema";
+import type { GridOrderManager } from "../services/grid/grid-order-manager";
+import type { GridPnlService } from "../services/pnl/grid-pnl-service";
+
+/**
+ * 网格实例运行状态：未启动、运行中、启动失败或已停止。
+ */
+export type GridInstanceState = "idle" | "running" | "failed" | "stopped";
+
+/**
+ * 单个网格实例：一个交易对与策略标识对应的订单管理器与盈亏服务。
+ * 同一进程内的多个实例共享交易所连接与行情服务，启动失败只影响自身。
+ */
+export class GridInstance {
+  private readonly config: GridConfig;
+  private readonly orderManager: GridOrderManager;
+  private readonly pnl: GridPnlService | null;
+  private state: GridInstanceState = "idle";
+  private failure: string | null = null;
+
+  constructor(config: GridConfig, orderManager: GridOrderManager, pnl: GridPnlService | null) {
+    this.config = config;
+    this.orderManager = orderManager;
+    this.pnl = pnl;
+  }
+
+  public get strategyId(): string {
+    return this.config.strategyId;
+  }
+
+  public get symbol(): string {
+    return this.config.symbol;
+  }
+
+  /**
+   * 启动实例，失败时释放已建立的订阅并记录原因后抛出。
+   */
+  public async start(): Promise<void> {
+    try {
+      // 先重放历史成交，订单管理器启动时的成交回补才能正确去重。
+      await this.pnl?.start();
+      await this.orderManager.start();
+      this.state = "running";
+      this.failure = null;
+    } catch (error) {
+      this.state = "failed";
+      this.failure = error instanceof Error ? error.message : String(error);
+      try {
+        await this.orderManager.stop();
+      } catch (stopError) {
+        console.warn("释放启动失败的网格失败", { strategyId: this.strategyId, error: stopError });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 停止实例：按退出策略处理挂单与仓位后释放订阅，未运行时直接返回。
+   */
+  public async stop(): Promise<void> {
+    if (this.state !== "running") {
+      return;
+    }
+    try {
+      await this.orderManager.shutdown();
+      await this.orderManager.stop();
+    } finally {
+      this.state = "stopped";
+    }
+  }
+
+  public isRunning(): boolean {
+    return this.state === "running";
+  }
+
+  public getState(): GridInstanceState {
+    return this.state;
+  }
+
+  /**
+   * 最近一次启动失败的原因，未失败时为 null。
+   */
+  public getFailure(): string | null {
+    return this.failure;
+  }
+
+  public getConfig(): GridConfig {
+    return this.config;
+  }
+
+  public getOrderManager(): GridOrderManager {
+    return this.orderManager;
+  }
+
+  /**
+   * 盈亏服务，未启用成交记录时为 null。
+   */
+  public getPnlService(): GridPnlService | null {
+    return this.pnl;
+  }
+}
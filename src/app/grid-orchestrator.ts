@@ -1,5 +1,6 @@
-import { GridHealthChecker } from "./health/grid-health-checker";
-import { TickDriver } from "./schedulers/tick-driver";
+import { GridHealthChecker, type GridHealthReport } from "./health/grid-health-checker";
+import { TickDriver, type TickTask } from "./schedulers/tick-driver";
+import type { GridInstance } from "./grid-instance";
 import type { GridRuntime } from "./grid-runtime";
 
 /**
@@ -8,10 +9,22 @@ import type { GridRuntime } from "./grid-runtime";
 export interface GridOrchestratorOptions {
   /** 健康检查间隔（毫秒） */
   healthCheckIntervalMs: number;
+  /** 盈亏汇总日志间隔（毫秒） */
+  pnlReportIntervalMs: number;
+}
+
+/**
+ * 运行时整体健康报告，任一网格异常即视为异常。
+ */
+export interface GridRuntimeHealthReport {
+  ok: boolean;
+  now: number;
+  grids: GridHealthReport[];
 }
 
 const DEFAULT_OPTIONS: GridOrchestratorOptions = {
   healthCheckIntervalMs: 10000,
+  pnlReportIntervalMs: 60000,
 };
 
 /**
@@ -19,34 +32,53 @@ const DEFAULT_OPTIONS: GridOrchestratorOptions = {
  */
 export class GridOrchestrator {
   private readonly runtime: GridRuntime;
-  private readonly healthChecker: GridHealthChecker;
+  private readonly healthCheckers: GridHealthChecker[];
   private readonly tickDriver: TickDriver;
   private started = false;
 
   constructor(runtime: GridRuntime, options?: Partial<GridOrchestratorOptions>) {
     this.runtime = runtime;
-    const orderManager = runtime.getOrderManager();
+    const grids = runtime.getGrids();
     const resolvedOptions = { ...DEFAULT_OPTIONS, ...options };
 
-    this.healthChecker = new GridHealthChecker(runtime, {
-      maintenanceStaleMs: orderManager.getMaintenanceIntervalMs() * 3,
-      reconcileStaleMs: orderManager.getReconcileIntervalMs() * 3,
+    this.healthCheckers = grids.map((grid) => {
+      const orderManager = grid.getOrderManager();
+      return new GridHealthChecker(runtime, grid, {
+        maintenanceStaleMs: orderManager.getMaintenanceIntervalMs() * 3,
+        reconcileStaleMs: orderManager.getReconcileIntervalMs() * 3,
+      });
     });
 
-    this.tickDriver = new TickDriver([
-      {
-        name: "order-maintenance",
-        intervalMs: orderManager.getMaintenanceIntervalMs(),
-        run: () => orderManager.runMaintenance(),
-        runOnStart: true,
-      },
-      {
-        name: "health-check",
-        intervalMs: resolvedOptions.healthCheckIntervalMs,
-        run: () => this.reportHealth(),
+    // 每个网格独立的维护任务，单个网格的维护耗时或失败不阻塞其他网格。
+    const tasks: TickTask[] = grids.map((grid) => ({
+      name: `order-maintenance:${grid.strategyId}`,
+      intervalMs: grid.getOrderManager().getMaintenanceIntervalMs(),
+      run: () => this.runMaintenance(grid),
+      runOnStart: true,
+    }));
+    tasks.push({
+      name: "health-check",
+      intervalMs: resolvedOptions.healthCheckIntervalMs,
+      run: () => this.reportHealth(),
+      runOnStart: true,
+    });
+    const accountMonitor = runtime.getAccountMonitor();
+    if (accountMonitor) {
+      tasks.push({
+        name: "account-poll",
+        intervalMs: accountMonitor.getPollIntervalMs(),
+        run: () => accountMonitor.refresh(),
         runOnStart: true,
-      },
-    ]);
+      });
+    }
+    if (grids.some((grid) => grid.getPnlService())) {
+      tasks.push({
+        name: "pnl-report",
+        intervalMs: resolvedOptions.pnlReportIntervalMs,
+        run: () => this.reportPnl(),
+      });
+    }
+    this.tickDriver = new TickDriver(tasks);
   }
 
   /**
@@ -70,22 +102,87 @@ export class GridOrchestrator {
     }
     this.tickDriver.stop();
     await this.runtime.stop();
+    this.reportPnl();
     this.started = false;
   }
 
+  /**
+   * 获取当前健康检查报告，供控制接口查询。
+   */
+  public getHealthReport(): GridRuntimeHealthReport {
+    const grids = this.healthCheckers.map((checker) => checker.check());
+    return {
+      ok: grids.every((report) => report.ok),
+      now: Date.now(),
+      grids,
+    };
+  }
+
+  /**
+   * 暴露运行时，供控制接口下发指令。
+   */
+  public getRuntime(): GridRuntime {
+    return this.runtime;
+  }
+
+  /**
+   * 维护任务仅驱动运行中的网格，启动失败的网格保持静止。
+   */
+  private async runMaintenance(grid: GridInstance): Promise<void> {
+    if (!grid.isRunning()) {
+      return;
+    }
+    await grid.getOrderManager().runMaintenance();
+  }
+
   /**
    * 输出健康检查结果，异常时升级为 warn。
    */
   private reportHealth(): void {
-    const report = this.healthChecker.check();
-    if (report.ok) {
+    for (const checker of this.healthCheckers) {
+      const report = checker.check();
+      if (report.ok) {
+        continue;
+      }
+      const payload = {
+        strategyId: report.strategyId,
+        symbol: report.symbol,
+        market: report.market,
+        order: report.order,
+        warnings: report.warnings,
+      };
+      console.warn("健康检查异常", payload);
+    }
+  }
+
+  /**
+   * 输出各网格盈亏汇总，金额统一转为字符串便于日志检索。
+   */
+  private reportPnl(): void {
+    for (const grid of this.runtime.getGrids()) {
+      this.reportGridPnl(grid);
+    }
+  }
+
+  private reportGridPnl(grid: GridInstance): void {
+    const pnl = grid.getPnlService();
+    if (!pnl) {
       return;
     }
-    const payload = {
-      market: report.market,
-      order: report.order,
-      warnings: report.warnings,
-    };
-    console.warn("健康检查异常", payload);
+    const snapshot = pnl.getSnapshot();
+    console.info("盈亏汇总", {
+      strategyId: grid.strategyId,
+      symbol: grid.symbol,
+      position: snapshot.position.toString(),
+      avgEntryPrice: snapshot.avgEntryPrice?.toString() ?? null,
+      realizedPnl: snapshot.realizedPnl.toString(),
+      fees: snapshot.fees.toString(),
+      netRealizedPnl: snapshot.netRealizedPnl.toString(),
+      unrealizedPnl: snapshot.unrealizedPnl?.toString() ?? null,
+      totalPnl: snapshot.totalPnl?.toString() ?? null,
+      fillCount: snapshot.fillCount,
+      roundTripCount: snapshot.roundTripCount,
+      roundTripNetPnl: snapshot.roundTripNetPnl.toString(),
+    });
   }
 }
@@ -1,45 +1,120 @@
 import type { GridExchangeAdapter } from "../core/exchange/adapter";
 import type { AppConfig } from "../infra/config/schema";
-import { createExchangeAdapter } from "../infra/exchange/factory";
+import type { OrderIdMappingRepository } from "../infra/db/order-id-repo";
+import {
+  createExchangeAdapter,
+  createReferenceAdapters,
+  type ReferenceAdapter,
+} from "../infra/exchange/factory";
+import { SharedAccountStreamAdapter } from "../infra/exchange/shared-account-stream";
 import { NotificationService } from "../infra/notification/notification-service";
 import { GridOrderManager } from "../services/grid/grid-order-manager";
+import type { FlattenJournal } from "../services/grid/flatten-journal";
+import type { GridPairStore } from "../services/grid/grid-pair-store";
+import type { GridStateStore } from "../services/grid/grid-state-store";
+import { AccountMonitor } from "../services/risk/account-monitor";
+import { DrawdownGuard } from "../services/risk/drawdown-guard";
+import type { DrawdownStore } from "../services/risk/drawdown-store";
+import { MarginGuard } from "../services/risk/margin-guard";
+import { PortfolioRiskManager } from "../services/risk/portfolio-risk-manager";
+import type { FillStore } from "../services/pnl/fill-store";
+import { GridPnlService } from "../services/pnl/grid-pnl-service";
 import type { OrderRecorder } from "../services/recorder/order-recorder";
-import { MarketDataService } from "../services/market-data/market-data-service";
+import { MarketDataService, type QuoteListener } from "../services/market-data/market-data-service";
+import { GridInstance } from "./grid-instance";
 
 /**
- * 网格运行时，负责装配交易所、行情服务与订单管理器。
+ * 网格运行时，负责装配交易所、行情服务与各网格实例。
+ * 多个网格共享同一交易所连接与行情服务，单个网格启动或停止失败不影响其他网格。
  */
 export class GridRuntime {
   private readonly exchange: GridExchangeAdapter;
   private readonly marketData: MarketDataService;
-  private readonly orderManager: GridOrderManager;
+  private readonly grids: GridInstance[];
+  private readonly referenceExchanges: GridExchangeAdapter[];
+  private readonly notifier: NotificationService | null;
+  private readonly portfolioRisk: PortfolioRiskManager | null;
+  private readonly accountMonitor: AccountMonitor | null;
 
   constructor(
     exchange: GridExchangeAdapter,
     marketData: MarketDataService,
-    orderManager: GridOrderManager
+    grids: GridInstance[],
+    referenceExchanges: GridExchangeAdapter[] = [],
+    notifier: NotificationService | null = null,
+    portfolioRisk: PortfolioRiskManager | null = null,
+    accountMonitor: AccountMonitor | null = null
   ) {
     this.exchange = exchange;
     this.marketData = marketData;
-    this.orderManager = orderManager;
+    this.grids = grids;
+    this.referenceExchanges = referenceExchanges;
+    this.notifier = notifier;
+    this.portfolioRisk = portfolioRisk;
+    this.accountMonitor = accountMonitor;
   }
 
   /**
-   * 启动运行时：连接交易所、启动行情订阅。
+   * 启动运行时：连接交易所、启动行情与账户摘要订阅，再逐个启动网格。
+   * 启动失败的网格记录原因并通知，其余网格继续运行；全部失败时抛出。
    */
   public async start(): Promise<void> {
     await this.exchange.connect();
     this.marketData.start();
-    await this.orderManager.start();
+    this.accountMonitor?.start();
+    const errors: unknown[] = [];
+    for (const grid of this.grids) {
+      try {
+        await grid.start();
+      } catch (error) {
+        errors.push(error);
+        console.error("网格启动失败", {
+          strategyId: grid.strategyId,
+          symbol: grid.symbol,
+          error,
+        });
+        void this.notifier
+          ?.notify({
+            title: "网格启动失败",
+            body: [
+              `策略: ${grid.strategyId}`,
+              `交易对: ${grid.symbol}`,
+              `错误: ${grid.getFailure() ?? ""}`,
+            ].join("\n"),
+          })
+          .catch((notifyError) => {
+            console.warn("发送通知失败", notifyError);
+          });
+      }
+    }
+    if (this.grids.some((grid) => grid.isRunning())) {
+      return;
+    }
+    if (errors.length === 1) {
+      throw errors[0];
+    }
+    throw new Error(
+      `全部网格启动失败: ${this.grids.map((grid) => `${grid.strategyId}(${grid.getFailure() ?? ""})`).join("; ")}`
+    );
   }
 
   /**
-   * 停止运行时：停止行情订阅并断开交易所。
+   * 停止运行时：逐个按退出策略处理各网格的挂单与仓位，再停止行情订阅并断开交易所。
    */
   public async stop(): Promise<void> {
-    await this.orderManager.stop();
+    for (const grid of this.grids) {
+      try {
+        await grid.stop();
+      } catch (error) {
+        console.error("网格停止失败", { strategyId: grid.strategyId, error });
+      }
+    }
+    this.accountMonitor?.stop();
     this.marketData.stop();
     await this.exchange.disconnect();
+    for (const reference of this.referenceExchanges) {
+      await reference.disconnect();
+    }
   }
 
   /**
@@ -57,18 +132,75 @@ export class GridRuntime {
   }
 
   /**
-   * 暴露订单管理器，供编排层驱动维护与对账。
+   * 组合风控，未配置组合限额时为 null。
    */
-  public getOrderManager(): GridOrderManager {
-    return this.orderManager;
+  public getPortfolioRisk(): PortfolioRiskManager | null {
+    return this.portfolioRisk;
   }
+
+  /**
+   * 账户监控，未配置保证金风控时为 null。
+   */
+  public getAccountMonitor(): AccountMonitor | null {
+    return this.accountMonitor;
+  }
+
+  /**
+   * 全部网格实例，按配置顺序排列。
+   */
+  public getGrids(): GridInstance[] {
+    return this.grids;
+  }
+
+  /**
+   * 按策略标识或交易对查找网格，未指定时仅在单网格运行时返回该网格。
+   */
+  public findGrid(id?: string): GridInstance | null {
+    if (id === undefined) {
+      return this.grids.length === 1 ? this.grids[0] : null;
+    }
+    const normalized = id.toUpperCase();
+    return (
+      this.grids.find((grid) => grid.strategyId === id) ??
+      this.grids.find((grid) => grid.symbol.toUpperCase() === normalized) ??
+      null
+    );
+  }
+}
+
+/**
+ * 运行时可选依赖，由启动层按需注入持久化实现。
+ */
+export interface GridRuntimeDependencies {
+  orderRecorder?: OrderRecorder;
+  stateStore?: GridStateStore;
+  orderIdRepository?: OrderIdMappingRepository;
+  fillStore?: FillStore;
+  flattenJournal?: FlattenJournal;
+  pairStore?: GridPairStore;
+  drawdownStore?: DrawdownStore;
 }
 
 /**
  * 创建网格运行时，并检查交易所能力要求。
  */
-export function createGridRuntime(config: AppConfig, orderRecorder?: OrderRecorder): GridRuntime {
-  const exchange = createExchangeAdapter(config);
+export function createGridRuntime(
+  config: AppConfig,
+  dependencies: GridRuntimeDependencies = {}
+): GridRuntime {
+  const {
+    orderRecorder,
+    stateStore,
+    orderIdRepository,
+    fillStore,
+    flattenJournal,
+    pairStore,
+    drawdownStore,
+  } = dependencies;
+  // 各网格共用一条账户订阅，事件由各订单管理器按订单前缀与交易对过滤。
+  const exchange = new SharedAccountStreamAdapter(
+    createExchangeAdapter(config, { orderIdRepository })
+  );
   if (!exchange.capabilities.supportsMarkPrice) {
     throw new Error("交易所不支持 mark 价格，无法启动网格");
   }
@@ -76,25 +208,94 @@ export function createGridRuntime(config: AppConfig, orderRecorder?: OrderRecord
     throw new Error("交易所不支持订单簿行情，无法启动网格");
   }
 
-  const marketData = new MarketDataService([
-    {
-      exchange: exchange.name,
-      subscribe: (listener) =>
-        exchange.subscribeOrderbook({
-          symbol: config.grid.symbol,
-          onQuote: listener,
-        }),
-    },
-  ]);
+  // 参考价取多交易所中位数时，其他交易所行情也汇入同一行情服务。
+  const references = createReferenceAdapters(config);
+  const feeds: ReferenceAdapter[] = [
+    { adapter: exchange, symbols: config.grids.map((grid) => grid.symbol) },
+    ...references,
+  ];
+  const marketData = new MarketDataService(
+    feeds.flatMap(({ adapter, symbols }) =>
+      symbols.map((symbol) => ({
+        exchange: adapter.name,
+        symbol,
+        subscribe: (listener: QuoteListener) =>
+          adapter.subscribeOrderbook({
+            symbol,
+            onQuote: listener,
+          }),
+      }))
+    )
+  );
 
   const notifier = new NotificationService(config.notification);
-  const orderManager = new GridOrderManager(
+  // 组合限额在同一账户的全部网格之间共享。
+  const portfolioRisk = config.portfolioRisk
+    ? new PortfolioRiskManager(config.portfolioRisk)
+    : null;
+  // 保证金率与强平距离按账户整体判断，各网格共用同一份账户摘要与规则。
+  const accountMonitor = config.marginRisk
+    ? new AccountMonitor(exchange, { pollIntervalMs: config.marginRisk.pollIntervalMs })
+    : null;
+  const marginGuard =
+    config.marginRisk && accountMonitor
+      ? new MarginGuard({
+          monitor: accountMonitor,
+          limits: {
+            maxMarginRatio: config.marginRisk.maxMarginRatio,
+            minLiquidationDistance: config.marginRisk.minLiquidationDistance,
+          },
+          action: config.marginRisk.action,
+        })
+      : undefined;
+  const grids = config.grids.map((grid) => {
+    const pnl = fillStore
+      ? new GridPnlService({
+          key: {
+            strategyId: grid.strategyId,
+            exchange: exchange.name,
+            symbol: grid.symbol,
+          },
+          store: fillStore,
+          loadTradingConfig: () => exchange.getMarketConfig(grid.symbol),
+          markProvider: () => marketData.getLatestQuote(exchange.name, grid.symbol)?.mark ?? null,
+        })
+      : null;
+    // 亏损熔断以成交记账的累计净盈亏为权益，未启用成交记录时无法计算。
+    if (grid.drawdown && !pnl) {
+      console.warn("未启用成交记录，亏损熔断不生效", { strategyId: grid.strategyId });
+    }
+    const drawdownGuard =
+      grid.drawdown && pnl
+        ? new DrawdownGuard({
+            key: { strategyId: grid.strategyId, exchange: exchange.name, symbol: grid.symbol },
+            limits: grid.drawdown,
+            action: grid.drawdown.action,
+            equity: () => pnl.getSnapshot().totalPnl,
+            store: drawdownStore,
+          })
+        : undefined;
+    const orderManager = new GridOrderManager(exchange, marketData, grid, {
+      recorder: orderRecorder,
+      notifier,
+      stateStore,
+      pnl: pnl ?? undefined,
+      flattenJournal,
+      pairStore,
+      portfolioRisk: portfolioRisk ?? undefined,
+      drawdownGuard,
+      marginGuard,
+    });
+    return new GridInstance(grid, orderManager, pnl);
+  });
+
+  return new GridRuntime(
     exchange,
     marketData,
-    config.grid,
-    orderRecorder,
-    notifier
+    grids,
+    references.map((reference) => reference.adapter),
+    notifier,
+    portfolioRisk,
+    accountMonitor
   );
-
-  return new GridRuntime(exchange, marketData, orderManager);
 }
@@ -1,3 +1,4 @@
+import type { GridInstance, GridInstanceState } from "../grid-instance";
 import type { GridRuntime } from "../grid-runtime";
 
 /**
@@ -22,6 +23,9 @@ export interface GridHealthThresholds {
 export interface GridHealthReport {
   ok: boolean;
   now: number;
+  strategyId: string;
+  symbol: string;
+  state: GridInstanceState;
   warnings: string[];
   market: {
     exchange: string | null;
@@ -38,6 +42,10 @@ export interface GridHealthReport {
     maintenanceAgeMs: number | null;
     lastReconcileAt: number | null;
     reconcileAgeMs: number | null;
+    paused: boolean;
+    pauseReason: string | null;
+    pauseSource: string | null;
+    pausedAt: number | null;
   };
 }
 
@@ -50,16 +58,22 @@ const DEFAULT_THRESHOLDS: GridHealthThresholds = {
 };
 
 /**
- * 网格运行健康检查器，输出关键状态与告警提示。
+ * 单个网格的健康检查器，输出关键状态与告警提示。
  */
 export class GridHealthChecker {
   private readonly runtime: GridRuntime;
+  private readonly grid: GridInstance;
   private readonly thresholds: GridHealthThresholds;
   // 记录健康检查器启动时间，用于过滤启动初期的无行情告警。
   private readonly startedAt: number;
 
-  constructor(runtime: GridRuntime, thresholds?: Partial<GridHealthThresholds>) {
+  constructor(
+    runtime: GridRuntime,
+    grid: GridInstance,
+    thresholds?: Partial<GridHealthThresholds>
+  ) {
     this.runtime = runtime;
+    this.grid = grid;
     this.thresholds = { ...DEFAULT_THRESHOLDS, ...thresholds };
     this.startedAt = Date.now();
   }
@@ -69,8 +83,9 @@ export class GridHealthChecker {
    */
   public check(): GridHealthReport {
     const now = Date.now();
-    const snapshot = this.runtime.getMarketData().getLatestSnapshot();
-    const orderStatus = this.runtime.getOrderManager().getStatus();
+    const snapshot = this.runtime.getMarketData().getLatestSnapshot(this.grid.symbol);
+    const orderStatus = this.grid.getOrderManager().getStatus();
+    const state = this.grid.getState();
 
     const lastQuoteAt = snapshot?.source.ts ?? null;
     const quoteAgeMs = ageFrom(now, lastQuoteAt);
@@ -80,6 +95,9 @@ export class GridHealthChecker {
     const reconcileAgeMs = ageFrom(now, orderStatus.lastReconcileAt);
 
     const warnings: string[] = [];
+    if (state === "failed") {
+      warnings.push(`网格启动失败: ${this.grid.getFailure() ?? ""}`);
+    }
     if (quoteAgeMs === null) {
       const uptimeMs = now - this.startedAt;
       if (uptimeMs > this.thresholds.marketMissingGraceMs) {
@@ -97,10 +115,24 @@ export class GridHealthChecker {
     if (reconcileAgeMs !== null && reconcileAgeMs > this.thresholds.reconcileStaleMs) {
       warnings.push(`对账任务延迟: ${reconcileAgeMs}ms`);
     }
+    if (orderStatus.paused) {
+      warnings.push(
+        `网格已暂停(${orderStatus.pauseSource ?? "unknown"}): ${orderStatus.pauseReason ?? ""}`
+      );
+    }
+    if (orderStatus.portfolioDeferral) {
+      warnings.push(`组合限额阻止补单: ${orderStatus.portfolioDeferral.message}`);
+    }
+    if (orderStatus.margin?.stale) {
+      warnings.push(`账户摘要未更新: ${orderStatus.margin.lastError ?? "未收到账户摘要"}`);
+    }
 
     return {
       ok: warnings.length === 0,
       now,
+      strategyId: this.grid.strategyId,
+      symbol: this.grid.symbol,
+      state,
       warnings,
       market: {
         exchange: snapshot?.source.exchange ?? null,
@@ -117,6 +149,10 @@ export class GridHealthChecker {
         maintenanceAgeMs,
         lastReconcileAt: orderStatus.lastReconcileAt,
         reconcileAgeMs,
+        paused: orderStatus.paused,
+        pauseReason: orderStatus.pauseReason,
+        pauseSource: orderStatus.pauseSource,
+        pausedAt: orderStatus.pausedAt,
       },
     };
   }
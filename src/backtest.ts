@@ -0,0 +1,6 @@
+import { startBacktest } from "./bootstrap/backtest";
+
+startBacktest(process.argv.slice(2)).catch((error) => {
+  console.error("回测失败", error);
+  process.exit(1);
+});
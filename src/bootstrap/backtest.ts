@@ -0,0 +1,105 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { type BacktestReport, BacktestRunner } from "../app/backtest/backtest-runner";
+import { loadBacktestConfig } from "../infra/config/env";
+import { Decimal } from "../shared/number";
+
+/**
+ * 回测命令行参数。
+ */
+type BacktestArgs = {
+  from: string;
+  exchange?: string;
+  out?: string;
+};
+
+/**
+ * 启动回测：读取网格配置，回放行情文件并输出报告。
+ */
+export async function startBacktest(argv: string[]): Promise<void> {
+  const args = parseBacktestArgs(argv);
+  const config = loadBacktestConfig(args.from);
+  const initialPosition =
+    config.paper.initialPositions[config.grid.symbol.toUpperCase()] ?? Decimal(0);
+  console.info("回测配置", {
+    quoteFile: args.from,
+    quoteExchange: args.exchange ?? null,
+    grid: config.grid,
+    makerFee: config.paper.makerFee.toString(),
+    takerFee: config.paper.takerFee.toString(),
+    initialPosition: initialPosition.toString(),
+  });
+  const runner = new BacktestRunner({
+    grid: config.grid,
+    quoteFile: args.from,
+    quoteExchange: args.exchange,
+    marketConfig: {
+      minPriceChange: config.paper.minPriceChange,
+      minOrderSizeChange: config.paper.minOrderSizeChange,
+      makerFee: config.paper.makerFee,
+      takerFee: config.paper.takerFee,
+    },
+    initialPosition,
+  });
+  const report = await runner.run();
+  console.info("回测完成", summarizeReport(report));
+  if (args.out) {
+    writeReport(args.out, report);
+    console.info("回测报告已写入", { path: args.out });
+  }
+}
+
+/**
+ * 解析命令行参数，--from 为必填。
+ */
+function parseBacktestArgs(argv: string[]): BacktestArgs {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      from: { type: "string" },
+      exchange: { type: "string" },
+      out: { type: "string" },
+    },
+    allowPositionals: false,
+  });
+  if (!values.from) {
+    throw new Error("缺少参数 --from <行情文件>");
+  }
+  return { from: values.from, exchange: values.exchange, out: values.out };
+}
+
+/**
+ * 汇总报告关键指标，便于终端查看。
+ */
+function summarizeReport(report: BacktestReport): Record<string, string | number | null> {
+  return {
+    quoteCount: report.quoteCount,
+    start: report.startTs ? new Date(report.startTs).toISOString() : null,
+    end: report.endTs ? new Date(report.endTs).toISOString() : null,
+    fillCount: report.fillCount,
+    buyCount: report.buyCount,
+    sellCount: report.sellCount,
+    makerCount: report.makerCount,
+    takerCount: report.takerCount,
+    volume: report.volume.toString(),
+    notional: report.notional.toFixed(2),
+    realizedPnl: report.realizedPnl.toFixed(4),
+    fees: report.fees.toFixed(4),
+    unrealizedPnl: report.unrealizedPnl.toFixed(4),
+    netPnl: report.netPnl.toFixed(4),
+    finalPosition: report.finalPosition.toString(),
+    avgEntryPrice: report.avgEntryPrice?.toString() ?? null,
+    lastMark: report.lastMark?.toString() ?? null,
+    maxInventory: report.maxInventory.toString(),
+    maxDrawdown: report.maxDrawdown.toFixed(4),
+  };
+}
+
+/**
+ * 写出完整报告（含逐笔成交），Decimal 序列化为字符串。
+ */
+function writeReport(filePath: string, report: BacktestReport): void {
+  mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+  writeFileSync(filePath, `${JSON.stringify(report, null, 2)}\n`, "utf8");
+}
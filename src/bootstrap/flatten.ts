@@ -0,0 +1,84 @@
+import { parseArgs } from "node:util";
+import { createGridRuntime } from "../app/grid-runtime";
+import { loadAppConfig } from "../infra/config/env";
+import { createDbClient } from "../infra/db";
+import { FillRepository } from "../infra/db/fill-repo";
+import { FlattenEventRepository } from "../infra/db/flatten-event-repo";
+import { OrderIdMappingRepository } from "../infra/db/order-id-repo";
+import { OrderRepository } from "../infra/db/order-repo";
+import { DbFlattenJournal } from "../services/grid/flatten-journal";
+import { DbFillStore } from "../services/pnl/fill-store";
+import { DbOrderRecorder } from "../services/recorder/order-recorder";
+
+/**
+ * 紧急平仓命令行参数。
+ */
+type FlattenArgs = {
+  reason: string;
+  /** 目标网格（策略标识或交易对），未指定时平掉全部网格 */
+  grid?: string;
+};
+
+/**
+ * 命令行紧急平仓：按当前配置连接交易所，撤销本策略全部挂单并平掉净仓位，返回是否全部已平。
+ * 网格进程仍在运行时应改用控制接口 POST /flatten，否则网格可能在撤单后继续补单。
+ */
+export async function runFlattenCommand(argv: string[]): Promise<boolean> {
+  const args = parseFlattenArgs(argv);
+  const loaded = loadAppConfig();
+  // 紧急平仓不调整杠杆，避免设置失败阻塞平仓。
+  const config = {
+    ...loaded,
+    grids: loaded.grids.map((grid) => ({ ...grid, leverage: undefined })),
+  };
+  const dbClient = createDbClient(config.db);
+  const runtime = createGridRuntime(config, {
+    orderRecorder: new DbOrderRecorder(new OrderRepository(dbClient.db)),
+    orderIdRepository: new OrderIdMappingRepository(dbClient.db),
+    fillStore: new DbFillStore(new FillRepository(dbClient.db)),
+    flattenJournal: new DbFlattenJournal(new FlattenEventRepository(dbClient.db)),
+  });
+  const exchange = runtime.getExchange();
+  const marketData = runtime.getMarketData();
+  const grids = args.grid === undefined ? runtime.getGrids() : [runtime.findGrid(args.grid)];
+  try {
+    await exchange.connect();
+    marketData.start();
+    let allFlat = true;
+    for (const grid of grids) {
+      if (!grid) {
+        throw new Error(`网格不存在: ${args.grid}`);
+      }
+      // 重放历史成交，使平仓成交按同一口径计入盈亏
+      await grid.getPnlService()?.start();
+      console.info("开始命令行紧急平仓", {
+        exchange: exchange.name,
+        strategyId: grid.strategyId,
+        symbol: grid.symbol,
+        reason: args.reason,
+      });
+      const result = await grid.getOrderManager().flattenPosition(args.reason, "cli");
+      allFlat &&= result.flat;
+    }
+    return allFlat;
+  } finally {
+    marketData.stop();
+    await exchange.disconnect();
+    dbClient.sqlite.close();
+  }
+}
+
+/**
+ * 解析命令行参数，--reason 与 --grid 可选。
+ */
+function parseFlattenArgs(argv: string[]): FlattenArgs {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      reason: { type: "string" },
+      grid: { type: "string" },
+    },
+    allowPositionals: false,
+  });
+  return { reason: values.reason ?? "命令行紧急平仓", grid: values.grid };
+}
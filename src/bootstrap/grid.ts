@@ -1,53 +1,42 @@
 import { loadAppConfig } from "../infra/config/env";
 import type { AppConfig } from "../infra/config/schema";
+import { GridControlServer } from "../app/control/control-server";
 import { createGridRuntime } from "../app/grid-runtime";
 import { GridOrchestrator } from "../app/grid-orchestrator";
 import { createDbClient, type DbClient } from "../infra/db";
+import { DrawdownStateRepository } from "../infra/db/drawdown-state-repo";
+import { FillRepository } from "../infra/db/fill-repo";
+import { FlattenEventRepository } from "../infra/db/flatten-event-repo";
+import { GridPairRepository } from "../infra/db/grid-pair-repo";
+import { GridStateRepository } from "../infra/db/grid-state-repo";
+import { OrderIdMappingRepository } from "../infra/db/order-id-repo";
 import { OrderRepository } from "../infra/db/order-repo";
+import { createCaptureWriter } from "../infra/market-data/capture-writer";
+import type { GridRuntime } from "../app/grid-runtime";
+import { DbFlattenJournal } from "../services/grid/flatten-journal";
+import { DbGridPairStore } from "../services/grid/grid-pair-store";
+import { DbGridStateStore } from "../services/grid/grid-state-store";
+import { DbFillStore } from "../services/pnl/fill-store";
+import { DbDrawdownStore } from "../services/risk/drawdown-store";
+import { MarketDataCapture } from "../services/recorder/market-data-capture";
 import { DbOrderRecorder } from "../services/recorder/order-recorder";
 
 /**
  * 脱敏输出配置，避免日志泄露敏感信息。
+ * 纸面交易可能同时携带行情来源交易所的凭据，因此按字段逐一脱敏。
  */
 function maskConfig(config: AppConfig): AppConfig {
-  if (config.exchange.name === "extended" && config.exchange.extended) {
-    return {
-      ...config,
-      exchange: {
-        ...config.exchange,
-        extended: {
-          ...config.exchange.extended,
-          apiKey: "***",
-          l2PrivateKey: "***",
-        },
-      },
-    };
-  }
-  if (config.exchange.name === "nado" && config.exchange.nado) {
-    return {
-      ...config,
-      exchange: {
-        ...config.exchange,
-        nado: {
-          ...config.exchange.nado,
-          privateKey: "***",
-        },
-      },
-    };
-  }
-  if (config.exchange.name === "hyperliquid" && config.exchange.hyperliquid) {
-    return {
-      ...config,
-      exchange: {
-        ...config.exchange,
-        hyperliquid: {
-          ...config.exchange.hyperliquid,
-          privateKey: "***",
-        },
-      },
-    };
-  }
-  return config;
+  const { extended, nado, hyperliquid } = config.exchange;
+  return {
+    ...config,
+    exchange: {
+      ...config.exchange,
+      extended: extended ? { ...extended, apiKey: "***", l2PrivateKey: "***" } : undefined,
+      nado: nado ? { ...nado, privateKey: "***" } : undefined,
+      hyperliquid: hyperliquid ? { ...hyperliquid, privateKey: "***" } : undefined,
+    },
+    control: { ...config.control, token: config.control.token ? "***" : "" },
+  };
 }
 
 /**
@@ -60,16 +49,66 @@ export async function startGridApp(): Promise<void> {
   const dbClient = createDbClient(config.db);
   const orderRepository = new OrderRepository(dbClient.db);
   const orderRecorder = new DbOrderRecorder(orderRepository);
-  const runtime = createGridRuntime(config, orderRecorder);
+  const stateStore = new DbGridStateStore(new GridStateRepository(dbClient.db), orderRepository);
+  const runtime = createGridRuntime(config, {
+    orderRecorder,
+    stateStore,
+    orderIdRepository: new OrderIdMappingRepository(dbClient.db),
+    fillStore: new DbFillStore(new FillRepository(dbClient.db)),
+    flattenJournal: new DbFlattenJournal(new FlattenEventRepository(dbClient.db)),
+    pairStore: new DbGridPairStore(new GridPairRepository(dbClient.db)),
+    drawdownStore: new DbDrawdownStore(new DrawdownStateRepository(dbClient.db)),
+  });
   const orchestrator = new GridOrchestrator(runtime);
+  const captures = createMarketDataCaptures(config, runtime);
+  // 录制先于运行时启动，保证首条行情与启动时的订单事件都能落盘。
+  for (const capture of captures) {
+    capture.start();
+  }
   await orchestrator.start();
   console.info("交易所接入完成", {
     exchange: runtime.getExchange().name,
-    symbol: config.grid.symbol,
+    grids: runtime.getGrids().map((grid) => ({
+      strategyId: grid.strategyId,
+      symbol: grid.symbol,
+      state: grid.getState(),
+    })),
   });
+  const controlServer = config.control.enabled
+    ? new GridControlServer(config.control, orchestrator)
+    : null;
+  await controlServer?.start();
+  registerPauseSignal(runtime);
   registerProcessHooks(async (reason) => {
-    await shutdownApp(orchestrator, dbClient, reason);
+    await shutdownApp(orchestrator, dbClient, captures, controlServer, reason);
+  });
+}
+
+/**
+ * 按配置为每个网格创建行情录制服务（每个交易对单独成文件），未启用时返回空列表。
+ */
+function createMarketDataCaptures(config: AppConfig, runtime: GridRuntime): MarketDataCapture[] {
+  if (!config.capture.enabled) {
+    return [];
+  }
+  const exchange = runtime.getExchange();
+  const captures = runtime.getGrids().map((grid) => {
+    const prefix = `${exchange.name}-${grid.symbol}`.replace(/[^A-Za-z0-9_-]/g, "_");
+    const writer = createCaptureWriter(config.capture.format, {
+      dir: config.capture.dir,
+      prefix,
+      maxFileBytes: config.capture.maxFileBytes,
+    });
+    return new MarketDataCapture(runtime.getMarketData(), exchange, writer, {
+      symbol: grid.symbol,
+      clientOrderIdPrefix: grid.getOrderManager().getClientOrderIdPrefix(),
+    });
   });
+  console.info("行情录制已启用", {
+    format: config.capture.format,
+    dir: config.capture.dir,
+  });
+  return captures;
 }
 
 /**
@@ -78,6 +117,8 @@ export async function startGridApp(): Promise<void> {
 async function shutdownApp(
   orchestrator: GridOrchestrator,
   dbClient: DbClient,
+  captures: MarketDataCapture[],
+  controlServer: GridControlServer | null,
   reason: ShutdownReason
 ): Promise<void> {
   if (reason.error) {
@@ -85,11 +126,23 @@ async function shutdownApp(
   } else {
     console.info("收到退出信号，准备退出", { reason: reason.reason });
   }
+  try {
+    await controlServer?.stop();
+  } catch (error) {
+    console.warn("停止控制接口失败", error);
+  }
   try {
     await orchestrator.stop();
   } catch (error) {
     console.error("停止运行编排失败", error);
   }
+  for (const capture of captures) {
+    try {
+      capture.stop();
+    } catch (error) {
+      console.warn("停止行情录制失败", error);
+    }
+  }
   try {
     dbClient.sqlite.close();
   } catch (error) {
@@ -99,6 +152,28 @@ async function shutdownApp(
   process.exit(reason.error ? 1 : 0);
 }
 
+/**
+ * SIGUSR2 在暂停与恢复之间切换，暂停时沿用配置的暂停策略。
+ * 多网格时以是否存在未暂停的网格决定方向：存在则全部暂停，否则全部恢复。
+ */
+function registerPauseSignal(runtime: GridRuntime): void {
+  process.on("SIGUSR2", () => {
+    const orderManagers = runtime
+      .getGrids()
+      .filter((grid) => grid.isRunning())
+      .map((grid) => grid.getOrderManager());
+    const shouldPause = orderManagers.some((orderManager) => !orderManager.getStatus().paused);
+    for (const orderManager of orderManagers) {
+      const task = shouldPause
+        ? orderManager.pause("收到 SIGUSR2", { source: "signal" })
+        : orderManager.resume();
+      task.catch((error) => {
+        console.warn("处理 SIGUSR2 失败", error);
+      });
+    }
+  });
+}
+
 /**
  * 注册进程信号与异常处理入口。
  */
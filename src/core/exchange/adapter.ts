@@ -1,8 +1,10 @@
 import type { Decimal } from "../../shared/number";
 import type {
+  AccountSummary,
   ExchangeOrder,
   ExchangePosition,
   ExchangeQuote,
+  LeverageSetting,
   MarketTradingConfig,
   OrderSide,
   OrderStatus,
@@ -38,6 +40,8 @@ export interface OrderbookSubscribeParams {
 export interface AccountSubscribeParams {
   onOrderUpdates: (updates: OrderUpdate[]) => void;
   onPositionUpdates?: (positions: ExchangePosition[]) => void;
+  /** 账户保证金摘要推送，交易所无推送时由账户变动事件触发查询后回调 */
+  onAccountSummary?: (summary: AccountSummary) => void;
 }
 
 /**
@@ -77,6 +81,10 @@ export interface PlaceOrderResult {
   statusReason?: string;
   errorCode?: string;
   errorMessage?: string;
+  /** 按交易所精度取整后实际提交的价格，未提供时视为与请求一致 */
+  submittedPrice?: Decimal;
+  /** 按交易所精度取整后实际提交的数量，未提供时视为与请求一致 */
+  submittedQuantity?: Decimal;
   updatedAt: number;
 }
 
@@ -94,6 +102,12 @@ export interface GridExchangeAdapter {
   subscribeAccount(params: AccountSubscribeParams): Unsubscribe;
   getMarketConfig(symbol: string): Promise<MarketTradingConfig>;
   getNetPosition(symbol: string): Promise<Decimal>;
+  /** 获取账户权益、保证金与各仓位强平价 */
+  getAccountSummary(): Promise<AccountSummary>;
+  /** 获取交易对当前的杠杆与保证金模式 */
+  getLeverage(symbol: string): Promise<LeverageSetting>;
+  /** 设置交易对的杠杆与保证金模式，交易所不支持时抛出 */
+  setLeverage(symbol: string, setting: LeverageSetting): Promise<void>;
   getOrderByClientOrderId(clientOrderId: string): Promise<ExchangeOrder | null>;
   getOpenOrders(symbol: string): Promise<ExchangeOrder[]>;
   getOrdersHistory(query: OrderHistoryQuery): Promise<ExchangeOrder[]>;
@@ -0,0 +1,39 @@
+import type { LeverageSetting, MarginMode } from "./models";
+
+/**
+ * 策略要求的杠杆设置，未指定的项沿用交易所当前值。
+ */
+export interface LeverageTarget {
+  leverage?: number;
+  marginMode?: MarginMode;
+}
+
+/**
+ * 以当前设置补齐未指定的项，得到需要写入交易所的设置。
+ */
+export function resolveLeverageSetting(
+  current: LeverageSetting,
+  target: LeverageTarget
+): LeverageSetting {
+  return {
+    leverage: target.leverage ?? current.leverage,
+    marginMode: target.marginMode ?? current.marginMode,
+  };
+}
+
+/**
+ * 比较当前设置与策略要求，不一致时返回差异描述，一致时返回 null。
+ */
+export function describeLeverageMismatch(
+  current: LeverageSetting,
+  target: LeverageTarget
+): string | null {
+  const mismatches: string[] = [];
+  if (target.leverage !== undefined && current.leverage !== target.leverage) {
+    mismatches.push(`杠杆 ${current.leverage ?? "未知"}x，要求 ${target.leverage}x`);
+  }
+  if (target.marginMode !== undefined && current.marginMode !== target.marginMode) {
+    mismatches.push(`保证金模式 ${current.marginMode}，要求 ${target.marginMode}`);
+  }
+  return mismatches.length > 0 ? mismatches.join("；") : null;
+}
@@ -25,13 +25,17 @@ export type OrderStatus =
 export type PositionSide = "LONG" | "SHORT";
 
 /**
- * 统一输出的行情快照，mark 价格用于网格中心价。
+ * 统一输出的行情快照，网格中心价默认取 mark，可按参考价配置改用盘口价格。
  */
 export interface ExchangeQuote {
   exchange: string;
   bid: Decimal;
   ask: Decimal;
   mark: Decimal;
+  /** 最优买价挂单量，交易所未提供时为 undefined */
+  bidSize?: Decimal;
+  /** 最优卖价挂单量，交易所未提供时为 undefined */
+  askSize?: Decimal;
   ts: number;
 }
 
@@ -43,6 +47,8 @@ export interface MarketTradingConfig {
   minOrderSizeChange: Decimal;
   makerFee: Decimal;
   takerFee: Decimal;
+  /** 单笔订单最小名义金额（计价币），交易所无此限制或未知时为 undefined */
+  minNotional?: Decimal;
 }
 
 /**
@@ -55,6 +61,54 @@ export interface ExchangePosition {
   updatedAt: number;
 }
 
+/**
+ * 保证金模式：全仓或逐仓。
+ */
+export type MarginMode = "cross" | "isolated";
+
+/**
+ * 单个市场的杠杆设置。
+ */
+export interface LeverageSetting {
+  /** 杠杆倍数，交易所不按市场设置杠杆时为 null（如 Nado 按账户健康度计算保证金） */
+  leverage: number | null;
+  marginMode: MarginMode;
+}
+
+/**
+ * 账户内单个仓位的风险信息。
+ */
+export interface AccountPositionRisk {
+  symbol: string;
+  /** 净仓位（多为正，空为负） */
+  size: Decimal;
+  entryPrice?: Decimal;
+  /** 交易所估值价格，用于计算与强平价的距离 */
+  markPrice?: Decimal;
+  /** 杠杆倍数，交易所未提供时为 undefined */
+  leverage?: Decimal;
+  /** 强平价格，无仓位或交易所无法给出时为 null */
+  liquidationPrice: Decimal | null;
+}
+
+/**
+ * 账户保证金摘要（计价币），覆盖账户下全部仓位而不仅是网格交易对。
+ */
+export interface AccountSummary {
+  /** 账户权益，交易所未提供时为 null（如纸面交易） */
+  equity: Decimal | null;
+  /** 可用于开仓的保证金，未提供时为 null */
+  availableMargin: Decimal | null;
+  /** 已占用初始保证金，未提供时为 null */
+  initialMargin: Decimal | null;
+  /** 维持保证金，未提供时为 null */
+  maintenanceMargin: Decimal | null;
+  /** 保证金率：维持保证金 / 权益，达到 1 即触发强平；未知时为 null */
+  marginRatio: Decimal | null;
+  positions: AccountPositionRisk[];
+  updatedAt: number;
+}
+
 /**
  * 交易所订单快照，供对账与状态同步使用。
  */
@@ -0,0 +1,61 @@
+import { alignToStep, type Decimal } from "../../shared/number";
+import type { GridLevel, GridQuantityProfile, GridQuantityUnit } from "./types";
+
+/**
+ * 每档数量计算参数。
+ */
+export interface GridQuantitySchedule {
+  /** 首档数量，单位由 unit 决定 */
+  quantity: Decimal;
+  profile: GridQuantityProfile;
+  unit: GridQuantityUnit;
+  /** 最小下单步长，数量按此向下取整，未知时不取整 */
+  lotSize?: Decimal;
+}
+
+/**
+ * 计算指定档位的下单数量（基础币），scale 为库存偏移的数量倍数。
+ * 中心档按首档计算；quote 单位时以档位价把名义金额折算为数量。结果按最小下单步长向下取整，
+ * 取整后不足一个步长时返回 0，由调用方按名义金额不足处理。
+ */
+export function buildLevelQuantity(
+  schedule: GridQuantitySchedule,
+  index: number,
+  price: Decimal,
+  scale?: Decimal
+): Decimal {
+  const scheduled = scheduleAmount(schedule, Math.max(Math.abs(index), 1));
+  const amount = scale ? scheduled.multipliedBy(scale) : scheduled;
+  if (schedule.unit === "quote" && price.lte(0)) {
+    throw new Error("档位价格必须大于 0，无法按名义金额折算数量");
+  }
+  const quantity = schedule.unit === "quote" ? amount.dividedBy(price) : amount;
+  return schedule.lotSize ? alignToStep(quantity, schedule.lotSize) : quantity;
+}
+
+/**
+ * 判断档位订单是否低于交易所最小名义金额；数量为 0 视为不足。
+ */
+export function isBelowMinNotional(level: GridLevel, minNotional?: Decimal): boolean {
+  if (!level.quantity.gt(0)) {
+    return true;
+  }
+  return minNotional ? level.price.multipliedBy(level.quantity).lt(minNotional) : false;
+}
+
+/**
+ * 按分布计算第 distance 档的数量或名义金额（distance 从 1 开始）。
+ */
+function scheduleAmount(schedule: GridQuantitySchedule, distance: number): Decimal {
+  const profile = schedule.profile;
+  switch (profile.type) {
+    case "flat":
+      return schedule.quantity;
+    case "linear":
+      return schedule.quantity.plus(profile.step.multipliedBy(distance - 1));
+    case "geometric":
+      return schedule.quantity.multipliedBy(profile.ratio.pow(distance - 1));
+    case "list":
+      return profile.values[Math.min(distance, profile.values.length) - 1] ?? schedule.quantity;
+  }
+}
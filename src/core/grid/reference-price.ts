@@ -0,0 +1,121 @@
+import type { Decimal } from "../../shared/number";
+import type { ExchangeQuote } from "../exchange/models";
+import type { GridReferencePriceConfig } from "./types";
+
+/**
+ * 网格参考价计算器：按配置的来源把行情换算为网格中心价的依据。
+ * ema 在每次 resolve 时按行情时间推进，需按行情顺序调用。
+ */
+export class ReferencePriceResolver {
+  private readonly config: GridReferencePriceConfig;
+  private ema: Decimal | null = null;
+  private emaTs = 0;
+
+  constructor(config: GridReferencePriceConfig) {
+    this.config = config;
+  }
+
+  /**
+   * 计算参考价；latest 为各交易所最新行情，仅 median 使用。
+   * touch 需要当前中心价判断方向，尚未建立中心价时取中间价。
+   */
+  public resolve(
+    quote: ExchangeQuote,
+    latest: Record<string, ExchangeQuote>,
+    centerPrice: Decimal | null
+  ): Decimal {
+    switch (this.config.source) {
+      case "mark":
+        return quote.mark;
+      case "mid":
+        return midPrice(quote);
+      case "touch":
+        return touchPrice(quote, centerPrice);
+      case "microprice":
+        return microPrice(quote);
+      case "ema":
+        return this.updateEma(quote);
+      case "median":
+        return this.medianMid(quote, latest);
+    }
+  }
+
+  /**
+   * 按行情间隔计算衰减系数，间隔不规则时仍保持一致的时间常数；乱序行情不推进均线。
+   */
+  private updateEma(quote: ExchangeQuote): Decimal {
+    const mid = midPrice(quote);
+    if (!this.ema) {
+      this.ema = mid;
+      this.emaTs = quote.ts;
+      return mid;
+    }
+    const elapsed = quote.ts - this.emaTs;
+    if (elapsed <= 0) {
+      return this.ema;
+    }
+    const alpha = 1 - Math.exp(-elapsed / this.config.emaPeriodMs);
+    this.ema = this.ema.plus(mid.minus(this.ema).multipliedBy(alpha));
+    this.emaTs = quote.ts;
+    return this.ema;
+  }
+
+  /**
+   * 下单交易所与配置交易所中未过期行情的中间价中位数，偶数个时取中间两者的均值。
+   */
+  private medianMid(quote: ExchangeQuote, latest: Record<string, ExchangeQuote>): Decimal {
+    const mids = [midPrice(quote)];
+    for (const exchange of this.config.exchanges) {
+      const other = latest[exchange];
+      if (
+        !other ||
+        other.exchange === quote.exchange ||
+        quote.ts - other.ts > this.config.maxQuoteAgeMs
+      ) {
+        continue;
+      }
+      mids.push(midPrice(other));
+    }
+    mids.sort((a, b) => a.comparedTo(b) ?? 0);
+    const middle = Math.floor(mids.length / 2);
+    if (mids.length % 2 === 1) {
+      return mids[middle];
+    }
+    return mids[middle - 1].plus(mids[middle]).dividedBy(2);
+  }
+}
+
+function midPrice(quote: ExchangeQuote): Decimal {
+  return quote.bid.plus(quote.ask).dividedBy(2);
+}
+
+/**
+ * 最优买价高于中心价时取买价、最优卖价低于中心价时取卖价，即只有盘口整体越过中心价才视为偏移；
+ * 中心价落在买卖价之间时取中间价。
+ */
+function touchPrice(quote: ExchangeQuote, centerPrice: Decimal | null): Decimal {
+  if (centerPrice) {
+    if (quote.bid.gt(centerPrice)) {
+      return quote.bid;
+    }
+    if (quote.ask.lt(centerPrice)) {
+      return quote.ask;
+    }
+  }
+  return midPrice(quote);
+}
+
+/**
+ * 按对侧挂单量加权：买量大时价格偏向卖价。交易所未提供最优档挂单量时退化为中间价。
+ */
+function microPrice(quote: ExchangeQuote): Decimal {
+  const { bidSize, askSize } = quote;
+  if (!bidSize || !askSize) {
+    return midPrice(quote);
+  }
+  const total = bidSize.plus(askSize);
+  if (!total.gt(0)) {
+    return midPrice(quote);
+  }
+  return quote.bid.multipliedBy(askSize).plus(quote.ask.multipliedBy(bidSize)).dividedBy(total);
+}
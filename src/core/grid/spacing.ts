@@ -1,10 +1,25 @@
-import { Decimal } from "../../shared/number";
-import type { GridSpacingConfig } from "./types";
+import { alignToStep, Decimal, type RoundingMode } from "../../shared/number";
+import type { OrderSide } from "../exchange/models";
+import type { GridSideSpacing, GridSpacingConfig } from "./types";
+
+/**
+ * 获取指定方向的间距：买方对应中心以下档位，卖方对应中心以上档位，未单独配置时沿用基础间距。
+ */
+export function resolveSideSpacing(config: GridSpacingConfig, side: OrderSide): GridSideSpacing {
+  const override = side === "BUY" ? config.buy : config.sell;
+  return (
+    override ?? {
+      mode: config.mode,
+      spacing: config.spacing,
+      spacingPercent: config.spacingPercent,
+    }
+  );
+}
 
 /**
  * 校验并获取绝对价差配置。
  */
-function requireAbsSpacing(config: GridSpacingConfig): Decimal {
+function requireAbsSpacing(config: GridSideSpacing): Decimal {
   if (!config.spacing) {
     throw new Error("缺少绝对价差配置 spacing");
   }
@@ -17,7 +32,7 @@ function requireAbsSpacing(config: GridSpacingConfig): Decimal {
 /**
  * 校验并获取百分比间距配置。
  */
-function requirePercentSpacing(config: GridSpacingConfig): Decimal {
+function requirePercentSpacing(config: GridSideSpacing): Decimal {
   if (!config.spacingPercent) {
     throw new Error("缺少百分比间距配置 spacingPercent");
   }
@@ -30,7 +45,7 @@ function requirePercentSpacing(config: GridSpacingConfig): Decimal {
 /**
  * 计算百分比网格的倍率基数。
  */
-function getPercentBase(config: GridSpacingConfig): Decimal {
+function getPercentBase(config: GridSideSpacing): Decimal {
   const spacingPercent = requirePercentSpacing(config);
   const base = Decimal(1).plus(spacingPercent);
   if (base.lte(1)) {
@@ -40,7 +55,18 @@ function getPercentBase(config: GridSpacingConfig): Decimal {
 }
 
 /**
- * 计算指定档位价格。
+ * 按单边间距从基准价移动 offset 档，正数向上、负数向下。
+ */
+function offsetPrice(base: Decimal, offset: number, spacing: GridSideSpacing): Decimal {
+  if (spacing.mode === "ABS") {
+    return base.plus(requireAbsSpacing(spacing).multipliedBy(offset));
+  }
+  const factor = getPercentBase(spacing).pow(Math.abs(offset));
+  return offset > 0 ? base.multipliedBy(factor) : base.dividedBy(factor);
+}
+
+/**
+ * 计算指定档位价格，负档位使用买方间距，正档位使用卖方间距。
  */
 export function buildLevelPrice(
   center: Decimal,
@@ -50,20 +76,37 @@ export function buildLevelPrice(
   if (index === 0) {
     return center;
   }
-  if (config.mode === "ABS") {
-    const spacing = requireAbsSpacing(config);
-    return center.plus(spacing.multipliedBy(index));
+  return offsetPrice(center, index, resolveSideSpacing(config, index < 0 ? "BUY" : "SELL"));
+}
+
+/**
+ * 买方最外档与中心价的价差，仅买方为绝对价差时有值；百分比间距按倍率下移，价格始终为正。
+ */
+export function absoluteBuyDepth(config: GridSpacingConfig, buyLevels: number): Decimal | null {
+  const spacing = resolveSideSpacing(config, "BUY");
+  if (spacing.mode !== "ABS" || !spacing.spacing) {
+    return null;
   }
-  const base = getPercentBase(config);
-  const exponent = Math.abs(index);
-  const factor = base.pow(exponent);
-  return index > 0 ? center.multipliedBy(factor) : center.dividedBy(factor);
+  return spacing.spacing.multipliedBy(buyLevels);
 }
 
 /**
- * 根据平移步数计算新的中心价。
+ * 将档位价格对齐到价格步长：买档向下、卖档向上取整，避免向中心靠拢；中心档四舍五入。
  */
-export function shiftCenterPrice(
+export function snapLevelPrice(price: Decimal, index: number, tickSize: Decimal): Decimal {
+  let mode: RoundingMode = Decimal.ROUND_HALF_UP;
+  if (index < 0) {
+    mode = Decimal.ROUND_DOWN;
+  } else if (index > 0) {
+    mode = Decimal.ROUND_UP;
+  }
+  return alignToStep(price, tickSize, mode);
+}
+
+/**
+ * 按小数档数偏移中心价，用于库存偏移：向上按卖方间距、向下按买方间距。
+ */
+export function skewCenterPrice(
   center: Decimal,
   steps: number,
   config: GridSpacingConfig
@@ -71,18 +114,31 @@ export function shiftCenterPrice(
   if (steps === 0) {
     return center;
   }
-  if (config.mode === "ABS") {
-    const spacing = requireAbsSpacing(config);
-    return center.plus(spacing.multipliedBy(steps));
+  const spacing = resolveSideSpacing(config, steps < 0 ? "BUY" : "SELL");
+  if (spacing.mode === "ABS") {
+    return center.plus(requireAbsSpacing(spacing).multipliedBy(steps));
   }
-  const base = getPercentBase(config);
-  const exponent = Math.abs(steps);
-  const factor = base.pow(exponent);
-  return steps > 0 ? center.multipliedBy(factor) : center.dividedBy(factor);
+  // Decimal 不支持小数次幂，偏移量级很小，按浮点计算倍率即可
+  const factor = getPercentBase(spacing).toNumber() ** steps;
+  return center.multipliedBy(factor);
 }
 
 /**
- * 计算跨档步数，使用 mark 相对中心价的距离判断。
+ * 根据平移步数计算新的中心价：向上按卖方间距、向下按买方间距移动。
+ */
+export function shiftCenterPrice(
+  center: Decimal,
+  steps: number,
+  config: GridSpacingConfig
+): Decimal {
+  if (steps === 0) {
+    return center;
+  }
+  return offsetPrice(center, steps, resolveSideSpacing(config, steps < 0 ? "BUY" : "SELL"));
+}
+
+/**
+ * 计算跨档步数，使用 mark 相对中心价的距离判断；mark 在中心以上按卖方间距、以下按买方间距计步。
  */
 export function calculateShiftSteps(
   center: Decimal,
@@ -92,8 +148,9 @@ export function calculateShiftSteps(
   if (center.lte(0) || mark.lte(0)) {
     throw new Error("中心价与 mark 价格必须大于 0");
   }
-  if (config.mode === "ABS") {
-    const spacing = requireAbsSpacing(config);
+  const sideSpacing = resolveSideSpacing(config, mark.lt(center) ? "BUY" : "SELL");
+  if (sideSpacing.mode === "ABS") {
+    const spacing = requireAbsSpacing(sideSpacing);
     const diff = mark.minus(center);
     if (diff.isZero()) {
       return 0;
@@ -103,7 +160,7 @@ export function calculateShiftSteps(
     return diff.isNegative() ? -steps : steps;
   }
 
-  const base = getPercentBase(config).toNumber();
+  const base = getPercentBase(sideSpacing).toNumber();
   const ratio = mark.dividedBy(center).toNumber();
   if (ratio === 1) {
     return 0;
@@ -114,3 +171,36 @@ export function calculateShiftSteps(
   }
   return -Math.floor(Math.log(1 / ratio) / Math.log(base));
 }
+
+/**
+ * 构建区间网格的全部价格线（升序，含上下边界）。
+ * ABS 为等差分布，PERCENT 为等比分布；最后一条线固定为上边界，避免累计误差。
+ */
+export function buildRangePrices(
+  lower: Decimal,
+  upper: Decimal,
+  count: number,
+  mode: GridSpacingConfig["mode"]
+): Decimal[] {
+  if (lower.lte(0) || upper.lte(lower)) {
+    throw new Error("区间网格要求 0 < 下边界 < 上边界");
+  }
+  if (!Number.isInteger(count) || count < 2) {
+    throw new Error("区间网格价格线数量至少为 2");
+  }
+  const prices: Decimal[] = [];
+  if (mode === "ABS") {
+    const step = upper.minus(lower).dividedBy(count - 1);
+    for (let i = 0; i < count - 1; i += 1) {
+      prices.push(lower.plus(step.multipliedBy(i)));
+    }
+  } else {
+    // 非整数次幂只能借助浮点计算倍率，档位价最终由交易所按最小价格步长对齐
+    const ratio = Decimal(upper.dividedBy(lower).toNumber() ** (1 / (count - 1)));
+    for (let i = 0; i < count - 1; i += 1) {
+      prices.push(lower.multipliedBy(ratio.pow(i)));
+    }
+  }
+  prices.push(upper);
+  return prices;
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { Decimal } from "../../shared/number";
+import type { OrderSide, OrderStatus } from "../exchange/models";
+import { GridState } from "./state";
+import type { GridOrderState } from "./types";
+
+function createPairedState(): GridState {
+  const state = new GridState({
+    strategyId: "test",
+    symbol: "BTC",
+    levels: 3,
+    mode: "ABS",
+    spacing: Decimal(10),
+    quantity: Decimal(1),
+    fillMode: "paired",
+  });
+  state.reset(Decimal(100));
+  return state;
+}
+
+function order(
+  state: GridState,
+  clientOrderId: string,
+  levelIndex: number,
+  side: OrderSide,
+  status: OrderStatus
+): GridOrderState {
+  const level = state.getLevel(levelIndex);
+  if (!level) {
+    throw new Error(`档位不存在: ${levelIndex}`);
+  }
+  return {
+    clientOrderId,
+    status,
+    side,
+    price: level.price,
+    quantity: Decimal(1),
+    levelIndex,
+    placedAt: 0,
+    updatedAt: 0,
+  };
+}
+
+describe("GridState.applyPairedFill", () => {
+  it("开仓后在相邻档位挂止盈，并撤销止盈档位上原方向的挂单", () => {
+    const state = createPairedState();
+    const conflicting = order(state, "buy-2", -2, "BUY", "ACKED");
+    state.upsertOrder(conflicting);
+
+    const result = state.applyPairedFill(order(state, "buy-3", -3, "BUY", "FILLED"), 1);
+
+    expect(result.opened?.exitLevelIndex).toBe(-2);
+    expect(result.opened?.exitPrice.toString()).toBe("80");
+    expect(state.getLevel(-2)?.targetSide).toBe("SELL");
+    expect(state.getLevel(-3)?.targetSide).toBeNull();
+    expect(result.conflictingOrders.map((item) => item.clientOrderId)).toEqual(["buy-2"]);
+  });
+
+  it("止盈档位成交时闭合配对并按委托价计算价差", () => {
+    const state = createPairedState();
+    state.applyPairedFill(order(state, "buy-3", -3, "BUY", "FILLED"), 1);
+
+    const result = state.applyPairedFill(order(state, "exit-2", -2, "SELL", "FILLED"), 2);
+
+    expect(result.opened).toBeNull();
+    expect(result.closed?.spread.toString()).toBe("10");
+    expect(state.getPairs()).toEqual([]);
+  });
+
+  it("价格跳过止盈档位时与配对对冲，并撤销遗留的止盈挂单", () => {
+    const state = createPairedState();
+    state.applyPairedFill(order(state, "buy-3", -3, "BUY", "FILLED"), 1);
+    const staleExit = order(state, "exit-2", -2, "SELL", "ACKED");
+    state.upsertOrder(staleExit);
+
+    const result = state.applyPairedFill(order(state, "sell-1", -1, "SELL", "FILLED"), 2);
+
+    expect(result.opened).toBeNull();
+    expect(result.closed?.exitClientOrderId).toBe("sell-1");
+    expect(result.closed?.spread.toString()).toBe("20");
+    expect(result.conflictingOrders.map((item) => item.clientOrderId)).toEqual(["exit-2"]);
+    expect(state.getPairs()).toEqual([]);
+  });
+
+  it("跳档闭合时不撤销止盈档位上的反向挂单与已终态订单", () => {
+    const state = createPairedState();
+    state.applyPairedFill(order(state, "buy-3", -3, "BUY", "FILLED"), 1);
+    state.upsertOrder(order(state, "exit-2", -2, "SELL", "CANCELLED"));
+    state.upsertOrder(order(state, "buy-2", -2, "BUY", "ACKED"));
+
+    const result = state.applyPairedFill(order(state, "sell-1", -1, "SELL", "FILLED"), 2);
+
+    expect(result.closed).not.toBeNull();
+    expect(result.conflictingOrders).toEqual([]);
+  });
+});
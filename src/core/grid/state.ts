@@ -1,7 +1,35 @@
-import type { Decimal } from "../../shared/number";
+import { Decimal } from "../../shared/number";
+import { type Clock, systemClock } from "../../shared/time";
 import { isTerminalOrderStatus } from "../exchange/order-status";
-import { buildLevelPrice, shiftCenterPrice } from "./spacing";
-import type { GridLevel, GridOrderState, GridShiftResult, GridStateConfig } from "./types";
+import { buildLevelQuantity, type GridQuantitySchedule } from "./quantity";
+import {
+  absoluteBuyDepth,
+  buildLevelPrice,
+  buildRangePrices,
+  shiftCenterPrice,
+  skewCenterPrice,
+  snapLevelPrice,
+} from "./spacing";
+import type { OrderSide } from "../exchange/models";
+import type {
+  GridClosedPair,
+  GridFillMode,
+  GridLayoutIssues,
+  GridLevel,
+  GridMarketSteps,
+  GridOrderState,
+  GridPair,
+  GridPairedFillResult,
+  GridShiftResult,
+  GridSkew,
+  GridSpacingConfig,
+  GridStateConfig,
+} from "./types";
+
+/**
+ * 无库存偏移。
+ */
+const NO_SKEW: GridSkew = { centerSteps: 0, buyScale: Decimal(1), sellScale: Decimal(1) };
 
 /**
  * GridState 负责维护网格档位与订单的内存状态。
@@ -10,35 +38,79 @@ export class GridState {
   public readonly strategyId: string;
   public readonly symbol: string;
   public readonly levels: number;
+  public readonly buyLevels: number;
+  public readonly sellLevels: number;
   public readonly spacingMode: GridStateConfig["mode"];
-  public readonly spacing: GridStateConfig["spacing"];
-  public readonly spacingPercent: GridStateConfig["spacingPercent"];
+  public spacing: GridStateConfig["spacing"];
+  public spacingPercent: GridStateConfig["spacingPercent"];
   public readonly quantity: Decimal;
+  public readonly fillMode: GridFillMode;
   public centerPrice: Decimal | null = null;
   public lastMark: Decimal | null = null;
   public lastQuoteAt: number | null = null;
   public lastRebuildAt: number | null = null;
+  private readonly clock: Clock;
+  private spacingConfig: GridSpacingConfig;
+  private quantitySchedule: GridQuantitySchedule;
+  private marketSteps: GridMarketSteps | null = null;
+  private layoutIssues: GridLayoutIssues = {
+    collapsedLevels: [],
+    subTickSpacing: false,
+    nonPositiveLevels: [],
+  };
+  private skew: GridSkew = NO_SKEW;
+  // 区间网格的固定价格线（升序），滑动网格为 null
+  private readonly rangePrices: Decimal[] | null;
+  // 区间网格中心所在价格线的下标
+  private centerLine = 0;
   private levelMap: Map<number, GridLevel> = new Map();
   private orderMap: Map<string, GridOrderState> = new Map();
+  // 配对止盈模式下未闭合的配对，按止盈档位索引存放
+  private pairMap: Map<number, GridPair> = new Map();
 
   constructor(config: GridStateConfig) {
     this.strategyId = config.strategyId;
     this.symbol = config.symbol;
     this.levels = config.levels;
+    this.buyLevels = config.buyLevels ?? config.levels;
+    this.sellLevels = config.sellLevels ?? config.levels;
     this.spacingMode = config.mode;
     this.spacing = config.spacing;
     this.spacingPercent = config.spacingPercent;
     this.quantity = config.quantity;
+    this.quantitySchedule = {
+      quantity: config.quantity,
+      profile: config.quantityProfile ?? { type: "flat" },
+      unit: config.quantityUnit ?? "base",
+    };
+    this.fillMode = config.fillMode ?? "shift";
+    this.clock = config.clock ?? systemClock;
+    this.spacingConfig = {
+      mode: config.mode,
+      spacing: config.spacing,
+      spacingPercent: config.spacingPercent,
+      buy: config.buy,
+      sell: config.sell,
+    };
+    this.rangePrices = config.range
+      ? buildRangePrices(config.range.lower, config.range.upper, config.range.levels, config.mode)
+      : null;
   }
 
   /**
-   * 重建网格档位并清空订单状态。
+   * 重建网格档位并清空订单与配对状态；区间网格的中心吸附到最近的价格线。
    */
   public reset(centerPrice: Decimal): void {
-    this.centerPrice = centerPrice;
-    this.levelMap = this.buildLevels(centerPrice);
+    if (this.rangePrices) {
+      this.centerLine = this.findNearestLine(centerPrice);
+      this.centerPrice = this.rangePrices[this.centerLine];
+    } else {
+      this.centerPrice = centerPrice;
+    }
+    this.pairMap.clear();
+    this.levelMap = this.buildLevels(this.centerPrice);
     this.orderMap.clear();
-    this.lastRebuildAt = Date.now();
+    this.lastRebuildAt = this.clock.now();
   }
 
   /**
@@ -63,6 +135,68 @@ export class GridState {
     return this.levelMap.get(index) ?? null;
   }
 
+  /**
+   * 设置交易所价格与数量步长，之后构建的档位按步长对齐；需在首次 reset 之前调用。
+   */
+  public setMarketSteps(steps: GridMarketSteps): void {
+    this.marketSteps = steps;
+    this.quantitySchedule = { ...this.quantitySchedule, lotSize: steps.lotSize };
+  }
+
+  /**
+   * 更新间距配置，之后的重建与平移按新间距计算；当前档位保持不变，需由调用方重建网格。
+   */
+  public setSpacing(spacing: GridSpacingConfig): void {
+    this.spacingConfig = spacing;
+    this.spacing = spacing.spacing;
+    this.spacingPercent = spacing.spacingPercent;
+  }
+
+  /**
+   * 买方最外档与中心价的价差，买方为百分比间距或区间网格时为 null。
+   */
+  public getAbsoluteBuyDepth(): Decimal | null {
+    return this.rangePrices ? null : absoluteBuyDepth(this.spacingConfig, this.buyLevels);
+  }
+
+  /**
+   * 获取最近一次构建档位时发现的步长问题。
+   */
+  public getLayoutIssues(): GridLayoutIssues {
+    return this.layoutIssues;
+  }
+
+  /**
+   * 按方向与价格匹配档位，优先使用给定档位索引。
+   * 价格与档位价的偏差需小于相邻档位间距的一半，否则视为不在网格上。
+   */
+  public matchLevel(
+    side: GridLevel["targetSide"],
+    price: Decimal,
+    preferredIndex?: number | null
+  ): GridLevel | null {
+    if (preferredIndex !== undefined && preferredIndex !== null) {
+      const preferred = this.levelMap.get(preferredIndex);
+      if (
+        preferred &&
+        preferred.targetSide === side &&
+        this.isPriceOnLevel(this.levelMap, preferred, price)
+      ) {
+        return preferred;
+      }
+    }
+    let matched: GridLevel | null = null;
+    for (const level of this.levelMap.values()) {
+      if (level.targetSide !== side || !this.isPriceOnLevel(this.levelMap, level, price)) {
+        continue;
+      }
+      if (!matched || level.price.minus(price).abs().lt(matched.price.minus(price).abs())) {
+        matched = level;
+      }
+    }
+    return matched;
+  }
+
   /**
    * 获取指定订单。
    */
@@ -114,6 +248,78 @@ export class GridState {
     this.orderMap.delete(clientOrderId);
   }
 
+  /**
+   * 获取未闭合的配对（按止盈档位排序）。
+   */
+  public getPairs(): GridPair[] {
+    return Array.from(this.pairMap.values()).sort((a, b) => a.exitLevelIndex - b.exitLevelIndex);
+  }
+
+  /**
+   * 热重启时恢复未闭合的配对，需在 reset 之后、接管订单之前调用。
+   * 止盈档位不在当前网格内的配对被忽略，返回实际恢复的数量。
+   */
+  public restorePairs(pairs: GridPair[]): number {
+    let restored = 0;
+    for (const pair of pairs) {
+      if (!this.levelMap.has(pair.exitLevelIndex) || this.pairMap.has(pair.exitLevelIndex)) {
+        continue;
+      }
+      this.pairMap.set(pair.exitLevelIndex, pair);
+      restored += 1;
+    }
+    this.refreshPairedLevels();
+    return restored;
+  }
+
+  /**
+   * 配对模式处理一笔完全成交：
+   * 成交档位为某配对的止盈档且方向相反时闭合该配对；否则开立新配对，
+   * 买单在上一档挂卖出止盈、卖单在下一档挂买入止盈，开仓档位在配对闭合前不再补单。
+   */
+  public applyPairedFill(order: GridOrderState, filledAt: number): GridPairedFillResult {
+    const pairAtLevel = this.pairMap.get(order.levelIndex);
+    if (pairAtLevel && pairAtLevel.entrySide !== order.side) {
+      return {
+        opened: null,
+        closed: this.closePair(pairAtLevel, order, filledAt),
+        conflictingOrders: [],
+      };
+    }
+    const exitLevelIndex = order.side === "BUY" ? order.levelIndex + 1 : order.levelIndex - 1;
+    const exitLevel = this.levelMap.get(exitLevelIndex);
+    const pairAtExit = this.pairMap.get(exitLevelIndex);
+    if (pairAtExit && pairAtExit.entrySide !== order.side) {
+      // 价格跳过了反向配对的止盈档，本次成交直接与该配对对冲；
+      // 该配对遗留的止盈挂单需撤销，否则占住档位阻挡正常补单，成交后还会开出多余的配对
+      return {
+        opened: null,
+        closed: this.closePair(pairAtExit, order, filledAt),
+        conflictingOrders: this.getActiveOrdersAt(exitLevelIndex, order.side),
+      };
+    }
+    if (!exitLevel || pairAtExit) {
+      return { opened: null, closed: null, conflictingOrders: [] };
+    }
+    const pair: GridPair = {
+      entryClientOrderId: order.clientOrderId,
+      entrySide: order.side,
+      entryLevelIndex: order.levelIndex,
+      entryPrice: order.price,
+      exitLevelIndex,
+      exitPrice: exitLevel.price,
+      quantity: order.quantity,
+      openedAt: filledAt,
+    };
+    this.pairMap.set(exitLevelIndex, pair);
+    this.refreshPairedLevels();
+    return {
+      opened: pair,
+      closed: null,
+      conflictingOrders: this.getActiveOrdersAt(exitLevelIndex, order.side),
+    };
+  }
+
   /**
    * 网格中心价平移，返回需要撤单的订单列表。
    */
@@ -126,26 +332,93 @@ export class GridState {
         centerPrice: this.centerPrice,
         steps,
         outOfRangeOrders: [],
+        droppedPairs: [],
       };
     }
-    const newCenter = shiftCenterPrice(this.centerPrice, steps, {
-      mode: this.spacingMode,
-      spacing: this.spacing,
-      spacingPercent: this.spacingPercent,
-    });
+    let newCenter: Decimal;
+    let appliedSteps = steps;
+    if (this.rangePrices) {
+      // 区间网格只在固定价格线之间移动中心，不越过边界
+      const nextLine = Math.min(Math.max(this.centerLine + steps, 0), this.rangePrices.length - 1);
+      appliedSteps = nextLine - this.centerLine;
+      this.centerLine = nextLine;
+      newCenter = this.rangePrices[nextLine];
+    } else {
+      // 绝对价差下移可能越过零，中心价至多移到仍为正的最后一档
+      newCenter = shiftCenterPrice(this.centerPrice, steps, this.spacingConfig);
+      while (appliedSteps < 0 && !newCenter.gt(0)) {
+        appliedSteps += 1;
+        newCenter = shiftCenterPrice(this.centerPrice, appliedSteps, this.spacingConfig);
+      }
+      if (appliedSteps === 0) {
+        return {
+          centerPrice: this.centerPrice,
+          steps: 0,
+          outOfRangeOrders: [],
+          droppedPairs: [],
+        };
+      }
+    }
+    return this.relayLevels(newCenter, appliedSteps);
+  }
+
+  /**
+   * 更新库存偏移并按当前中心价重新铺设档位，返回偏离新档位价需要撤单的订单。
+   * 区间网格的价格线固定，仅调整数量倍数。
+   */
+  public applySkew(skew: GridSkew): GridShiftResult {
+    this.skew = skew;
+    if (!this.centerPrice) {
+      return { centerPrice: Decimal(0), steps: 0, outOfRangeOrders: [], droppedPairs: [] };
+    }
+    return this.relayLevels(this.centerPrice, 0);
+  }
+
+  /**
+   * 获取当前库存偏移。
+   */
+  public getSkew(): GridSkew {
+    return this.skew;
+  }
+
+  /**
+   * 以新中心价重建档位，并把配对与订单按平移步数映射到新档位。
+   */
+  private relayLevels(newCenter: Decimal, appliedSteps: number): GridShiftResult {
     const newLevelMap = this.buildLevels(newCenter);
+    const droppedPairs: GridPair[] = [];
+    const nextPairMap = new Map<number, GridPair>();
+    this.pairMap.forEach((pair) => {
+      const shifted: GridPair = {
+        ...pair,
+        entryLevelIndex: pair.entryLevelIndex - appliedSteps,
+        exitLevelIndex: pair.exitLevelIndex - appliedSteps,
+      };
+      if (!newLevelMap.has(shifted.exitLevelIndex)) {
+        droppedPairs.push(shifted);
+        return;
+      }
+      nextPairMap.set(shifted.exitLevelIndex, shifted);
+    });
+    this.pairMap = nextPairMap;
+    this.applyPairSides(newLevelMap);
     const outOfRangeOrders: GridOrderState[] = [];
     const nextOrderMap = new Map<string, GridOrderState>();
 
     this.orderMap.forEach((order) => {
-      const newIndex = order.levelIndex - steps;
+      const newIndex = order.levelIndex - appliedSteps;
       const updatedOrder: GridOrderState = {
         ...order,
         levelIndex: newIndex,
       };
       nextOrderMap.set(order.clientOrderId, updatedOrder);
       const level = newLevelMap.get(newIndex);
-      if (!level || !level.targetSide || level.targetSide !== updatedOrder.side) {
+      // 买卖间距不同时平移后档位价会变化，偏离新档位价的挂单同样需要撤销
+      if (
+        !level?.targetSide ||
+        level.targetSide !== updatedOrder.side ||
+        !this.isPriceOnLevel(newLevelMap, level, updatedOrder.price)
+      ) {
         outOfRangeOrders.push(updatedOrder);
         return;
       }
@@ -155,46 +428,250 @@ export class GridState {
     this.centerPrice = newCenter;
     this.levelMap = newLevelMap;
     this.orderMap = nextOrderMap;
-    this.lastRebuildAt = Date.now();
+    this.lastRebuildAt = this.clock.now();
 
     return {
       centerPrice: newCenter,
-      steps,
+      steps: appliedSteps,
       outOfRangeOrders,
+      droppedPairs,
     };
   }
 
   /**
-   * 构建对称网格档位（中心上下各 levels 档）。
+   * 指定档位上某一方向的未终态挂单。
+   */
+  private getActiveOrdersAt(levelIndex: number, side: OrderSide): GridOrderState[] {
+    return this.getOrders().filter(
+      (item) =>
+        item.levelIndex === levelIndex && item.side === side && !isTerminalOrderStatus(item.status)
+    );
+  }
+
+  /**
+   * 闭合配对并按委托价计算已实现价差。
+   */
+  private closePair(pair: GridPair, exitOrder: GridOrderState, closedAt: number): GridClosedPair {
+    this.pairMap.delete(pair.exitLevelIndex);
+    this.refreshPairedLevels();
+    const priceDiff =
+      pair.entrySide === "BUY"
+        ? exitOrder.price.minus(pair.entryPrice)
+        : pair.entryPrice.minus(exitOrder.price);
+    return {
+      ...pair,
+      exitClientOrderId: exitOrder.clientOrderId,
+      closePrice: exitOrder.price,
+      spread: priceDiff.multipliedBy(pair.quantity),
+      closedAt,
+    };
+  }
+
+  /**
+   * 配对变化后重新计算档位方向，并按新方向重新绑定挂单。
+   */
+  private refreshPairedLevels(): void {
+    this.applyPairSides(this.levelMap);
+    for (const level of this.levelMap.values()) {
+      if (level.order && level.order.side !== level.targetSide) {
+        level.order = undefined;
+      }
+    }
+    for (const order of this.orderMap.values()) {
+      const level = this.levelMap.get(order.levelIndex);
+      if (level && !level.order && level.targetSide === order.side) {
+        level.order = order;
+      }
+    }
+  }
+
+  /**
+   * 按配对覆盖档位方向：止盈档挂开仓的反方向，开仓档在配对闭合前留空，其余档位沿用基础方向。
+   */
+  private applyPairSides(levelMap: Map<number, GridLevel>): void {
+    if (this.fillMode !== "paired") {
+      return;
+    }
+    const entryLevels = new Set(Array.from(this.pairMap.values(), (pair) => pair.entryLevelIndex));
+    for (const level of levelMap.values()) {
+      const pair = this.pairMap.get(level.index);
+      // 止盈单数量与开仓成交数量一致，保证配对闭合后仓位回到开仓前
+      level.quantity = pair ? pair.quantity : this.buildQuantity(level.index, level.price);
+      if (pair) {
+        level.targetSide = oppositeSide(pair.entrySide);
+      } else if (entryLevels.has(level.index)) {
+        level.targetSide = null;
+      } else {
+        level.targetSide = baseSide(level.index);
+      }
+    }
+  }
+
+  /**
+   * 判断价格是否落在档位容差内（相邻档位间距的一半）。
+   */
+  private isPriceOnLevel(
+    levelMap: Map<number, GridLevel>,
+    level: GridLevel,
+    price: Decimal
+  ): boolean {
+    const neighbors = [levelMap.get(level.index - 1), levelMap.get(level.index + 1)];
+    let tolerance: Decimal | null = null;
+    for (const neighbor of neighbors) {
+      if (!neighbor) {
+        continue;
+      }
+      const half = neighbor.price.minus(level.price).abs().dividedBy(2);
+      if (!tolerance || half.lt(tolerance)) {
+        tolerance = half;
+      }
+    }
+    if (!tolerance) {
+      return level.price.eq(price);
+    }
+    return level.price.minus(price).abs().lt(tolerance);
+  }
+
+  /**
+   * 区间网格中距离给定价格最近的价格线下标。
+   */
+  private findNearestLine(price: Decimal): number {
+    const prices = this.rangePrices ?? [];
+    let nearest = 0;
+    for (let i = 1; i < prices.length; i += 1) {
+      if (prices[i].minus(price).abs().lt(prices[nearest].minus(price).abs())) {
+        nearest = i;
+      }
+    }
+    return nearest;
+  }
+
+  /**
+   * 区间网格档位：中心价格线为 0 档，下方价格线挂买单，上方价格线挂卖单。
+   */
+  private buildRangeLevels(prices: Decimal[]): Map<number, GridLevel> {
+    const rawPrices = new Map<number, Decimal>();
+    prices.forEach((price, line) => {
+      rawPrices.set(line - this.centerLine, price);
+    });
+    return this.assembleLevels(rawPrices);
+  }
+
+  /**
+   * 构建滑动网格档位：中心以下 buyLevels 档买单、以上 sellLevels 档卖单。
    */
   private buildLevels(centerPrice: Decimal): Map<number, GridLevel> {
-    const map = new Map<number, GridLevel>();
+    if (this.rangePrices) {
+      return this.buildRangeLevels(this.rangePrices);
+    }
+    // 库存偏移只移动档位价格，逻辑中心价不变，跨档判断仍以中心价为准
+    const layoutCenter =
+      this.skew.centerSteps === 0
+        ? centerPrice
+        : skewCenterPrice(centerPrice, this.skew.centerSteps, this.spacingConfig);
     // 0 档位仅作为参考，不挂单
-    map.set(0, {
-      index: 0,
-      targetSide: null,
-      price: centerPrice,
-    });
-    for (let i = 1; i <= this.levels; i += 1) {
-      map.set(-i, {
-        index: -i,
-        targetSide: "BUY",
-        price: buildLevelPrice(centerPrice, -i, {
-          mode: this.spacingMode,
-          spacing: this.spacing,
-          spacingPercent: this.spacingPercent,
-        }),
-      });
-      map.set(i, {
-        index: i,
-        targetSide: "SELL",
-        price: buildLevelPrice(centerPrice, i, {
-          mode: this.spacingMode,
-          spacing: this.spacing,
-          spacingPercent: this.spacingPercent,
-        }),
-      });
+    const rawPrices = new Map<number, Decimal>([[0, layoutCenter]]);
+    // 绝对价差的买档可能铺过零，价格不为正的档位及更外侧档位不再构建
+    for (let i = 1; i <= this.buyLevels; i += 1) {
+      const price = buildLevelPrice(layoutCenter, -i, this.spacingConfig);
+      if (!price.gt(0)) {
+        break;
+      }
+      rawPrices.set(-i, price);
+    }
+    for (let i = 1; i <= this.sellLevels; i += 1) {
+      rawPrices.set(i, buildLevelPrice(layoutCenter, i, this.spacingConfig));
+    }
+    return this.assembleLevels(rawPrices);
+  }
+
+  /**
+   * 由原始档位价格构建档位：价格按步长对齐后，从中心向两侧去除与更靠近中心的档位重合的档位，
+   * 同时记录小于一个价格步长的原始间距。价格不为正的档位及更外侧档位一并去除。
+   * rawPrices 需包含 0 档且两侧索引连续。
+   */
+  private assembleLevels(rawPrices: Map<number, Decimal>): Map<number, GridLevel> {
+    const tickSize = this.marketSteps?.tickSize;
+    const centerRaw = rawPrices.get(0);
+    if (!centerRaw) {
+      throw new Error("缺少中心档位价格");
+    }
+    const center = this.createLevel(0, centerRaw);
+    const map = new Map<number, GridLevel>([[0, center]]);
+    const collapsedLevels: number[] = [];
+    const nonPositiveLevels: number[] = [];
+    let subTickSpacing = false;
+    for (const direction of [-1, 1]) {
+      let previousRaw = centerRaw;
+      let previousPrice = center.price;
+      for (let index = direction; rawPrices.has(index); index += direction) {
+        const raw = rawPrices.get(index) as Decimal;
+        if (tickSize && raw.minus(previousRaw).abs().lt(tickSize)) {
+          subTickSpacing = true;
+        }
+        previousRaw = raw;
+        const level = this.createLevel(index, raw);
+        if (!level.price.gt(0)) {
+          for (let rest = index; rawPrices.has(rest); rest += direction) {
+            nonPositiveLevels.push(rest);
+          }
+          break;
+        }
+        if (level.price.eq(previousPrice)) {
+          collapsedLevels.push(index);
+          continue;
+        }
+        previousPrice = level.price;
+        map.set(index, level);
+      }
     }
+    this.layoutIssues = {
+      collapsedLevels: collapsedLevels.sort((a, b) => a - b),
+      subTickSpacing,
+      nonPositiveLevels: nonPositiveLevels.sort((a, b) => a - b),
+    };
     return map;
   }
+
+  /**
+   * 按基础方向与数量分布创建档位，价格与数量按交易所步长对齐；价格不为正时数量记为 0，由调用方去除。
+   */
+  private createLevel(index: number, rawPrice: Decimal): GridLevel {
+    const price = this.marketSteps
+      ? snapLevelPrice(rawPrice, index, this.marketSteps.tickSize)
+      : rawPrice;
+    return {
+      index,
+      targetSide: baseSide(index),
+      price,
+      quantity: price.gt(0) ? this.buildQuantity(index, price) : Decimal(0),
+    };
+  }
+
+  /**
+   * 按数量分布计算档位数量，并按库存偏移缩放买卖两侧。
+   */
+  private buildQuantity(index: number, price: Decimal): Decimal {
+    let scale: Decimal | undefined;
+    if (index < 0) {
+      scale = this.skew.buyScale;
+    } else if (index > 0) {
+      scale = this.skew.sellScale;
+    }
+    return buildLevelQuantity(this.quantitySchedule, index, price, scale);
+  }
+}
+
+/**
+ * 档位的基础方向：中心以下买、以上卖，中心档不挂单。
+ */
+function baseSide(index: number): OrderSide | null {
+  if (index < 0) {
+    return "BUY";
+  }
+  return index > 0 ? "SELL" : null;
+}
+
+function oppositeSide(side: OrderSide): OrderSide {
+  return side === "BUY" ? "SELL" : "BUY";
 }
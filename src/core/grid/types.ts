@@ -1,4 +1,5 @@
 import type { Decimal } from "../../shared/number";
+import type { Clock } from "../../shared/time";
 import type { OrderSide, OrderStatus } from "../exchange/models";
 
 /**
@@ -7,29 +8,131 @@ import type { OrderSide, OrderStatus } from "../exchange/models";
 export type GridSpacingMode = "ABS" | "PERCENT";
 
 /**
- * 网格间距配置。
+ * 网格形态：sliding 为跟随 mark 的对称滑动网格，range 为固定上下边界的静态区间网格。
  */
-export interface GridSpacingConfig {
+export type GridMode = "sliding" | "range";
+
+/**
+ * 成交后的处理方式：shift 按成交档位平移中心价，paired 在相邻档位挂出配对止盈单。
+ */
+export type GridFillMode = "shift" | "paired";
+
+/**
+ * 每档数量的计量单位：base 为基础币数量，quote 为计价币名义金额（按档位价折算为数量）。
+ */
+export type GridQuantityUnit = "base" | "quote";
+
+/**
+ * 每档数量分布，distance 为档位距中心的档数（从 1 开始）：
+ * flat 各档相同；linear 每远离一档增加 step；geometric 每远离一档乘以 ratio；
+ * list 按 values 逐档指定，超出部分沿用最后一个值。
+ */
+export type GridQuantityProfile =
+  | { type: "flat" }
+  | { type: "linear"; step: Decimal }
+  | { type: "geometric"; ratio: Decimal }
+  | { type: "list"; values: Decimal[] };
+
+/**
+ * 自适应间距的波动率来源：ATR 按平均真实波幅给出绝对价差，VOL 按对数收益率标准差给出百分比间距。
+ */
+export type GridVolatilitySource = "ATR" | "VOL";
+
+/**
+ * 自适应间距参数：按固定时长把 mark 聚合为 K 线，取最近 window 根计算波动率，乘以 multiplier 后限制在 [min, max]。
+ */
+export interface GridAdaptiveSpacingConfig {
+  source: GridVolatilitySource;
+  /** 单根 K 线时长（毫秒） */
+  barMs: number;
+  /** 滚动窗口的 K 线数量 */
+  window: number;
+  multiplier: Decimal;
+  /** 间距下限，ATR 为价差、VOL 为比例 */
+  min: Decimal;
+  /** 间距上限，单位同 min */
+  max: Decimal;
+  /** 新间距相对当前间距的变化比例超过该值时重新铺设网格 */
+  tolerance: Decimal;
+}
+
+/**
+ * 网格参考价来源：mark、盘口中间价、按方向取最优买/卖价（touch）、按挂单量加权的微观价格、
+ * 中间价的时间指数均线（ema）或多个交易所中间价的中位数（median）。
+ */
+export type GridReferencePriceSource = "mark" | "mid" | "touch" | "microprice" | "ema" | "median";
+
+/**
+ * 参考价参数，决定网格中心价的建立与平移依据。
+ */
+export interface GridReferencePriceConfig {
+  source: GridReferencePriceSource;
+  /** ema 的时间常数（毫秒） */
+  emaPeriodMs: number;
+  /** median 额外参与计算的交易所，下单交易所始终参与 */
+  exchanges: string[];
+  /** median 中其他交易所行情的最大时效（毫秒），过期行情不参与计算 */
+  maxQuoteAgeMs: number;
+}
+
+/**
+ * 区间网格参数，价格线按间距模式在上下边界之间等差（ABS）或等比（PERCENT）分布。
+ */
+export interface GridRangeLayout {
+  lower: Decimal;
+  upper: Decimal;
+  /** 价格线数量（含上下边界） */
+  levels: number;
+}
+
+/**
+ * 单边网格间距：绝对价差或几何百分比。
+ */
+export interface GridSideSpacing {
   mode: GridSpacingMode;
   spacing?: Decimal;
   spacingPercent?: Decimal;
 }
 
+/**
+ * 网格间距配置，基础间距可按买卖方向分别覆盖。
+ */
+export interface GridSpacingConfig extends GridSideSpacing {
+  /** 买方（中心以下）间距，未提供时沿用基础间距 */
+  buy?: GridSideSpacing;
+  /** 卖方（中心以上）间距，未提供时沿用基础间距 */
+  sell?: GridSideSpacing;
+}
+
 /**
  * 网格策略配置。
  */
 export interface GridStrategyConfig extends GridSpacingConfig {
   levels: number;
+  /** 买方档位数，未提供时沿用 levels */
+  buyLevels?: number;
+  /** 卖方档位数，未提供时沿用 levels */
+  sellLevels?: number;
 }
 
 /**
  * 网格状态初始化配置。
  */
-export interface GridStateConfig extends GridSpacingConfig {
+export interface GridStateConfig extends GridStrategyConfig {
   strategyId: string;
   symbol: string;
-  levels: number;
+  /** 首档数量，单位由 quantityUnit 决定 */
   quantity: Decimal;
+  /** 每档数量分布，默认 flat */
+  quantityProfile?: GridQuantityProfile;
+  /** 数量单位，默认 base */
+  quantityUnit?: GridQuantityUnit;
+  /** 区间网格参数，提供时档位固定在区间价格线上，忽略 levels 与间距 */
+  range?: GridRangeLayout;
+  /** 成交处理方式，默认 shift */
+  fillMode?: GridFillMode;
+  /** 时间来源，默认系统时间 */
+  clock?: Clock;
 }
 
 /**
@@ -39,9 +142,54 @@ export interface GridLevel {
   index: number;
   targetSide: OrderSide | null;
   price: Decimal;
+  /** 该档下单数量（基础币） */
+  quantity: Decimal;
   order?: GridOrderState;
 }
 
+/**
+ * 库存偏移：档位价格整体偏移 centerSteps 档（可为小数，负数向下），买卖两侧数量分别乘以对应倍数。
+ */
+export interface GridSkew {
+  centerSteps: number;
+  buyScale: Decimal;
+  sellScale: Decimal;
+}
+
+/**
+ * 库存偏移参数：净仓位占最大持仓的比例 ratio（限制在 [-1, 1]）决定偏移幅度。
+ */
+export interface GridInventorySkewConfig {
+  /** 满仓时档位价格偏移的档数，多头向下、空头向上 */
+  centerLevels: number;
+  /** 满仓时数量缩放比例：减仓一侧乘以 1 + sizeFactor × |ratio|，加仓一侧乘以 1 - sizeFactor × |ratio| */
+  sizeFactor: Decimal;
+  /** ratio 变化超过该值才重新铺设档位 */
+  minChange: Decimal;
+}
+
+/**
+ * 交易所价格与数量步长，档位价格与数量按此对齐。
+ */
+export interface GridMarketSteps {
+  /** 最小价格变动 */
+  tickSize: Decimal;
+  /** 最小下单数量变动 */
+  lotSize: Decimal;
+}
+
+/**
+ * 最近一次构建档位时发现的步长问题。
+ */
+export interface GridLayoutIssues {
+  /** 取整后与更靠近中心的档位价格重合而被去除的档位 */
+  collapsedLevels: number[];
+  /** 是否存在小于一个价格步长的相邻档位间距 */
+  subTickSpacing: boolean;
+  /** 价格不为正（绝对价差铺过零或取整为 0）而被去除的档位 */
+  nonPositiveLevels: number[];
+}
+
 /**
  * 网格订单状态。
  */
@@ -64,4 +212,40 @@ export interface GridShiftResult {
   centerPrice: Decimal;
   steps: number;
   outOfRangeOrders: GridOrderState[];
+  /** 止盈档位移出网格、不再跟踪的配对 */
+  droppedPairs: GridPair[];
+}
+
+/**
+ * 配对止盈：一笔已成交的开仓单及其止盈档位，档位索引随中心价平移更新。
+ */
+export interface GridPair {
+  entryClientOrderId: string;
+  entrySide: OrderSide;
+  entryLevelIndex: number;
+  entryPrice: Decimal;
+  exitLevelIndex: number;
+  exitPrice: Decimal;
+  quantity: Decimal;
+  openedAt: number;
+}
+
+/**
+ * 已闭合的配对往返，spread 为按委托价计算的已实现价差（计价币，未扣手续费）。
+ */
+export interface GridClosedPair extends GridPair {
+  exitClientOrderId: string;
+  closePrice: Decimal;
+  spread: Decimal;
+  closedAt: number;
+}
+
+/**
+ * 配对模式下单笔成交的处理结果。
+ */
+export interface GridPairedFillResult {
+  opened: GridPair | null;
+  closed: GridClosedPair | null;
+  /** 止盈档位上方向相反、需撤销的挂单 */
+  conflictingOrders: GridOrderState[];
 }
@@ -0,0 +1,101 @@
+import { Decimal } from "../../shared/number";
+import type { GridAdaptiveSpacingConfig } from "./types";
+
+/**
+ * 由 mark 聚合的 K 线。
+ */
+interface VolatilityBar {
+  startAt: number;
+  high: Decimal;
+  low: Decimal;
+  close: Decimal;
+}
+
+/**
+ * 波动率间距估计器：按 barMs 把 mark 聚合为 K 线，仅使用已收盘的 K 线计算，
+ * ATR 返回平均真实波幅对应的价差，VOL 返回对数收益率标准差对应的比例，均乘以 multiplier 并限制在上下限内。
+ */
+export class VolatilitySpacingEstimator {
+  private readonly config: GridAdaptiveSpacingConfig;
+  private readonly bars: VolatilityBar[] = [];
+
+  constructor(config: GridAdaptiveSpacingConfig) {
+    this.config = config;
+  }
+
+  /**
+   * 记录一次 mark；时间早于当前 K 线的乱序行情直接忽略。
+   */
+  public observe(mark: Decimal, ts: number): void {
+    const startAt = Math.floor(ts / this.config.barMs) * this.config.barMs;
+    const current = this.bars[this.bars.length - 1];
+    if (current && startAt < current.startAt) {
+      return;
+    }
+    if (current && startAt === current.startAt) {
+      current.high = Decimal.max(current.high, mark);
+      current.low = Decimal.min(current.low, mark);
+      current.close = mark;
+      return;
+    }
+    this.bars.push({ startAt, high: mark, low: mark, close: mark });
+    // 保留 window 根已收盘 K 线、一根前收盘价与当前 K 线
+    const keep = this.config.window + 2;
+    if (this.bars.length > keep) {
+      this.bars.splice(0, this.bars.length - keep);
+    }
+  }
+
+  /**
+   * 已收盘 K 线不足一个窗口时返回 null。
+   */
+  public estimate(): Decimal | null {
+    const closed = this.bars.slice(0, -1);
+    if (closed.length < this.config.window + 1) {
+      return null;
+    }
+    const raw = this.config.source === "ATR" ? averageTrueRange(closed) : logReturnStdDev(closed);
+    if (raw === null) {
+      return null;
+    }
+    const spacing = raw.multipliedBy(this.config.multiplier);
+    return Decimal.min(Decimal.max(spacing, this.config.min), this.config.max);
+  }
+}
+
+/**
+ * 平均真实波幅：首根 K 线仅作为前收盘价。
+ */
+function averageTrueRange(bars: VolatilityBar[]): Decimal {
+  let sum = Decimal(0);
+  for (let i = 1; i < bars.length; i += 1) {
+    const bar = bars[i];
+    const previousClose = bars[i - 1].close;
+    const trueRange = Decimal.max(
+      bar.high.minus(bar.low),
+      bar.high.minus(previousClose).abs(),
+      bar.low.minus(previousClose).abs()
+    );
+    sum = sum.plus(trueRange);
+  }
+  return sum.dividedBy(bars.length - 1);
+}
+
+/**
+ * 相邻收盘价对数收益率的样本标准差，价格非正时返回 null。
+ */
+function logReturnStdDev(bars: VolatilityBar[]): Decimal | null {
+  const returns: number[] = [];
+  for (let i = 1; i < bars.length; i += 1) {
+    const previous = bars[i - 1].close.toNumber();
+    const current = bars[i].close.toNumber();
+    if (previous <= 0 || current <= 0) {
+      return null;
+    }
+    returns.push(Math.log(current / previous));
+  }
+  const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+  const variance =
+    returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) / Math.max(returns.length - 1, 1);
+  return Decimal(Math.sqrt(variance));
+}
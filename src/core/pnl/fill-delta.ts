@@ -0,0 +1,46 @@
+import { Decimal } from "../../shared/number";
+
+/**
+ * 订单累计成交进度，交易所回报与快照中的 filledQuantity / avgFillPrice 均为累计口径。
+ */
+export interface FillProgress {
+  filledQuantity: Decimal;
+  avgFillPrice: Decimal | null;
+}
+
+/**
+ * 两次累计成交进度之间的增量成交。
+ */
+export interface FillDelta {
+  quantity: Decimal;
+  price: Decimal;
+}
+
+/**
+ * 根据前后两次累计成交进度计算增量成交。
+ * 增量价格由累计成交额之差推导；缺少均价或推导结果异常时回退为最新均价或委托价。
+ */
+export function computeFillDelta(
+  previous: FillProgress | null,
+  next: FillProgress,
+  fallbackPrice: Decimal
+): FillDelta | null {
+  const previousQuantity = previous?.filledQuantity ?? Decimal(0);
+  const quantity = next.filledQuantity.minus(previousQuantity);
+  if (!quantity.gt(0)) {
+    return null;
+  }
+  const latestPrice = next.avgFillPrice ?? fallbackPrice;
+  if (previousQuantity.isZero()) {
+    return { quantity, price: latestPrice };
+  }
+  const previousPrice = previous?.avgFillPrice ?? fallbackPrice;
+  const price = latestPrice
+    .multipliedBy(next.filledQuantity)
+    .minus(previousPrice.multipliedBy(previousQuantity))
+    .dividedBy(quantity);
+  if (!price.isFinite() || !price.gt(0)) {
+    return { quantity, price: latestPrice };
+  }
+  return { quantity, price };
+}
@@ -0,0 +1,131 @@
+import type { OrderSide } from "../exchange/models";
+import { Decimal } from "../../shared/number";
+
+/**
+ * 记账所需的成交信息，fee 为正表示支出、为负表示返佣。
+ */
+export interface LedgerFill {
+  side: OrderSide;
+  price: Decimal;
+  quantity: Decimal;
+  fee: Decimal;
+}
+
+/**
+ * 单笔成交的记账结果。
+ */
+export interface LedgerFillResult {
+  /** 本次成交平仓部分实现的盈亏（未扣手续费） */
+  realizedPnl: Decimal;
+  /** 本次成交平掉的数量 */
+  closedQuantity: Decimal;
+  /** 成交后的净仓位 */
+  position: Decimal;
+  /** 成交后的持仓均价，空仓时为 null */
+  avgEntryPrice: Decimal | null;
+}
+
+/**
+ * 持仓账本快照。
+ */
+export interface LedgerSnapshot {
+  position: Decimal;
+  avgEntryPrice: Decimal | null;
+  realizedPnl: Decimal;
+  fees: Decimal;
+  volume: Decimal;
+  notional: Decimal;
+  fillCount: number;
+}
+
+/**
+ * 按平均成本法维护净仓位与已实现盈亏。
+ * 同向成交摊薄均价，反向成交先平仓再按剩余数量反手开仓。
+ */
+export class PositionLedger {
+  private position: Decimal;
+  private avgEntryPrice: Decimal | null;
+  private realizedPnl = Decimal(0);
+  private fees = Decimal(0);
+  private volume = Decimal(0);
+  private notional = Decimal(0);
+  private fillCount = 0;
+
+  constructor(initial?: { position: Decimal; avgEntryPrice: Decimal | null }) {
+    this.position = initial?.position ?? Decimal(0);
+    this.avgEntryPrice = this.position.isZero() ? null : (initial?.avgEntryPrice ?? null);
+  }
+
+  /**
+   * 记入一笔成交。
+   */
+  public apply(fill: LedgerFill): LedgerFillResult {
+    const signedQuantity = fill.side === "BUY" ? fill.quantity : fill.quantity.negated();
+    let realizedPnl = Decimal(0);
+    let closedQuantity = Decimal(0);
+
+    const isReducing =
+      !this.position.isZero() && this.position.isNegative() !== signedQuantity.isNegative();
+    if (isReducing && this.avgEntryPrice) {
+      closedQuantity = Decimal.min(this.position.abs(), fill.quantity);
+      const direction = this.position.isNegative() ? -1 : 1;
+      realizedPnl = fill.price
+        .minus(this.avgEntryPrice)
+        .multipliedBy(closedQuantity)
+        .multipliedBy(direction);
+    }
+
+    const nextPosition = this.position.plus(signedQuantity);
+    if (nextPosition.isZero()) {
+      this.avgEntryPrice = null;
+    } else if (!isReducing || !this.avgEntryPrice) {
+      // 同向加仓：按数量加权计算新均价。
+      const previousCost = (this.avgEntryPrice ?? Decimal(0)).multipliedBy(this.position.abs());
+      this.avgEntryPrice = previousCost
+        .plus(fill.price.multipliedBy(fill.quantity))
+        .dividedBy(nextPosition.abs());
+    } else if (nextPosition.isNegative() !== this.position.isNegative()) {
+      // 反手：剩余部分以本次成交价开仓。
+      this.avgEntryPrice = fill.price;
+    }
+
+    this.position = nextPosition;
+    this.realizedPnl = this.realizedPnl.plus(realizedPnl);
+    this.fees = this.fees.plus(fill.fee);
+    this.volume = this.volume.plus(fill.quantity);
+    this.notional = this.notional.plus(fill.price.multipliedBy(fill.quantity));
+    this.fillCount += 1;
+
+    return {
+      realizedPnl,
+      closedQuantity,
+      position: this.position,
+      avgEntryPrice: this.avgEntryPrice,
+    };
+  }
+
+  /**
+   * 按指定价格计算未实现盈亏。
+   */
+  public unrealizedPnl(markPrice: Decimal): Decimal {
+    if (!this.avgEntryPrice || this.position.isZero()) {
+      return Decimal(0);
+    }
+    return markPrice.minus(this.avgEntryPrice).multipliedBy(this.position);
+  }
+
+  /**
+   * 获取账本快照。
+   */
+  public getSnapshot(): LedgerSnapshot {
+    return {
+      position: this.position,
+      avgEntryPrice: this.avgEntryPrice,
+      realizedPnl: this.realizedPnl,
+      fees: this.fees,
+      volume: this.volume,
+      notional: this.notional,
+      fillCount: this.fillCount,
+    };
+  }
+}
@@ -0,0 +1,137 @@
+import type { OrderSide } from "../exchange/models";
+import { Decimal } from "../../shared/number";
+
+/**
+ * 参与配对的成交。
+ */
+export interface RoundTripFill {
+  clientOrderId: string;
+  side: OrderSide;
+  price: Decimal;
+  quantity: Decimal;
+  fee: Decimal;
+  levelIndex: number | null;
+  filledAt: number;
+}
+
+/**
+ * 一次完整的网格往返：开仓成交与反向平仓成交配对。
+ */
+export interface RoundTrip {
+  /** 开仓方向，BUY 表示先买后卖 */
+  openSide: OrderSide;
+  openClientOrderId: string;
+  closeClientOrderId: string;
+  openPrice: Decimal;
+  closePrice: Decimal;
+  quantity: Decimal;
+  /** 价差收益（未扣手续费） */
+  grossPnl: Decimal;
+  /** 两腿按配对数量分摊的手续费 */
+  fees: Decimal;
+  netPnl: Decimal;
+  openLevelIndex: number | null;
+  closeLevelIndex: number | null;
+  openedAt: number;
+  closedAt: number;
+}
+
+type OpenLot = {
+  fill: RoundTripFill;
+  remaining: Decimal;
+};
+
+/**
+ * 网格往返配对器。
+ * 反向成交优先匹配价格最近且有利的未平开仓（例如卖单匹配其下方最近的买单，即买 N 档后卖 N+1 档），
+ * 没有有利开仓时按先进先出平掉最早的开仓。
+ */
+export class RoundTripMatcher {
+  private readonly lots: OpenLot[] = [];
+
+  /**
+   * 记入一笔成交，返回本次成交闭合的往返列表。
+   */
+  public apply(fill: RoundTripFill): RoundTrip[] {
+    const trips: RoundTrip[] = [];
+    let remaining = fill.quantity;
+    while (remaining.gt(0)) {
+      const lot = this.pickLot(fill);
+      if (!lot) {
+        break;
+      }
+      const quantity = Decimal.min(lot.remaining, remaining);
+      trips.push(this.buildTrip(lot, fill, quantity));
+      lot.remaining = lot.remaining.minus(quantity);
+      remaining = remaining.minus(quantity);
+      if (lot.remaining.isZero()) {
+        this.lots.splice(this.lots.indexOf(lot), 1);
+      }
+    }
+    if (remaining.gt(0)) {
+      this.lots.push({ fill, remaining });
+    }
+    return trips;
+  }
+
+  /**
+   * 获取未闭合的开仓数量（按方向汇总）。
+   */
+  public getOpenQuantity(): { buy: Decimal; sell: Decimal } {
+    let buy = Decimal(0);
+    let sell = Decimal(0);
+    for (const lot of this.lots) {
+      if (lot.fill.side === "BUY") {
+        buy = buy.plus(lot.remaining);
+      } else {
+        sell = sell.plus(lot.remaining);
+      }
+    }
+    return { buy, sell };
+  }
+
+  private pickLot(fill: RoundTripFill): OpenLot | null {
+    let best: OpenLot | null = null;
+    let oldest: OpenLot | null = null;
+    for (const lot of this.lots) {
+      if (lot.fill.side === fill.side) {
+        continue;
+      }
+      oldest ??= lot;
+      const profitable =
+        fill.side === "SELL" ? lot.fill.price.lt(fill.price) : lot.fill.price.gt(fill.price);
+      if (!profitable) {
+        continue;
+      }
+      const distance = lot.fill.price.minus(fill.price).abs();
+      if (!best || distance.lt(best.fill.price.minus(fill.price).abs())) {
+        best = lot;
+      }
+    }
+    return best ?? oldest;
+  }
+
+  private buildTrip(lot: OpenLot, close: RoundTripFill, quantity: Decimal): RoundTrip {
+    const open = lot.fill;
+    const direction = open.side === "BUY" ? 1 : -1;
+    const grossPnl = close.price.minus(open.price).multipliedBy(quantity).multipliedBy(direction);
+    const fees = open.fee
+      .multipliedBy(quantity.dividedBy(open.quantity))
+      .plus(close.fee.multipliedBy(quantity.dividedBy(close.quantity)));
+    return {
+      openSide: open.side,
+      openClientOrderId: open.clientOrderId,
+      closeClientOrderId: close.clientOrderId,
+      openPrice: open.price,
+      closePrice: close.price,
+      quantity,
+      grossPnl,
+      fees,
+      netPnl: grossPnl.minus(fees),
+      openLevelIndex: open.levelIndex,
+      closeLevelIndex: close.levelIndex,
+      openedAt: open.filledAt,
+      closedAt: close.filledAt,
+    };
+  }
+}
@@ -0,0 +1,67 @@
+import type { Decimal } from "../../shared/number";
+
+/**
+ * 亏损熔断阈值（计价币），未配置的项不检查。
+ */
+export interface DrawdownLimits {
+  /** 当日（UTC）亏损上限：日初权益 - 当前权益 */
+  maxDailyLoss?: Decimal;
+  /** 回撤上限：历史峰值权益 - 当前权益 */
+  maxDrawdown?: Decimal;
+}
+
+/**
+ * 权益水位：当日日初权益与历史峰值权益。
+ * 权益为策略累计净盈亏（扣费后的已实现盈亏 + 按 mark 计算的未实现盈亏）。
+ */
+export interface EquityWatermark {
+  /** UTC 日期，格式 YYYY-MM-DD */
+  day: string;
+  dayStartEquity: Decimal;
+  peakEquity: Decimal;
+}
+
+/**
+ * 时间戳对应的 UTC 日期。
+ */
+export function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+/**
+ * 以最新权益推进水位：跨日时以当前权益作为新的日初权益，峰值只升不降。
+ */
+export function advanceWatermark(
+  previous: EquityWatermark | null,
+  equity: Decimal,
+  now: number
+): EquityWatermark {
+  const day = utcDay(now);
+  if (!previous) {
+    return { day, dayStartEquity: equity, peakEquity: equity };
+  }
+  return {
+    day,
+    dayStartEquity: previous.day === day ? previous.dayStartEquity : equity,
+    peakEquity: equity.gt(previous.peakEquity) ? equity : previous.peakEquity,
+  };
+}
+
+/**
+ * 判断当日亏损或峰值回撤是否超过阈值，超过时返回原因，否则返回 null。
+ */
+export function evaluateDrawdown(
+  watermark: EquityWatermark,
+  equity: Decimal,
+  limits: DrawdownLimits
+): string | null {
+  const dailyLoss = watermark.dayStartEquity.minus(equity);
+  if (limits.maxDailyLoss && dailyLoss.gt(limits.maxDailyLoss)) {
+    return `当日亏损 ${dailyLoss.toFixed(2)} 超过上限 ${limits.maxDailyLoss.toString()}`;
+  }
+  const drawdown = watermark.peakEquity.minus(equity);
+  if (limits.maxDrawdown && drawdown.gt(limits.maxDrawdown)) {
+    return `峰值回撤 ${drawdown.toFixed(2)} 超过上限 ${limits.maxDrawdown.toString()}`;
+  }
+  return null;
+}
@@ -0,0 +1,69 @@
+import type { AccountPositionRisk, AccountSummary } from "../exchange/models";
+import { Decimal } from "../../shared/number";
+
+/**
+ * 账户保证金阈值，未配置的项不检查。
+ */
+export interface MarginLimits {
+  /** 保证金率上限（维持保证金 / 权益），如 0.5 表示维持保证金占权益一半时停止挂单 */
+  maxMarginRatio?: Decimal;
+  /** 与强平价的最小距离（相对估值价格的比例），如 0.1 表示价格再不利变动 10% 即强平 */
+  minLiquidationDistance?: Decimal;
+}
+
+/**
+ * 计算保证金率：维持保证金 / 权益。权益非正而仍有维持保证金时视为无穷大。
+ */
+export function computeMarginRatio(maintenanceMargin: Decimal, equity: Decimal): Decimal {
+  if (maintenanceMargin.lte(0)) {
+    return Decimal(0);
+  }
+  if (equity.lte(0)) {
+    return Decimal(Number.POSITIVE_INFINITY);
+  }
+  return maintenanceMargin.div(equity);
+}
+
+/**
+ * 仓位与强平价的距离：|估值价格 - 强平价| / 估值价格，缺少价格时为 null。
+ */
+export function liquidationDistance(position: AccountPositionRisk): Decimal | null {
+  const mark = position.markPrice;
+  const liquidation = position.liquidationPrice;
+  if (position.size.isZero() || !mark || !mark.gt(0) || !liquidation) {
+    return null;
+  }
+  return mark.minus(liquidation).abs().div(mark);
+}
+
+/**
+ * 找出距强平价最近的仓位，无可计算仓位时返回 null。
+ */
+export function nearestLiquidation(
+  summary: AccountSummary
+): { position: AccountPositionRisk; distance: Decimal } | null {
+  let nearest: { position: AccountPositionRisk; distance: Decimal } | null = null;
+  for (const position of summary.positions) {
+    const distance = liquidationDistance(position);
+    if (distance && (!nearest || distance.lt(nearest.distance))) {
+      nearest = { position, distance };
+    }
+  }
+  return nearest;
+}
+
+/**
+ * 判断保证金率或强平距离是否越过阈值，越过时返回原因，否则返回 null。
+ */
+export function evaluateMargin(summary: AccountSummary, limits: MarginLimits): string | null {
+  const ratio = summary.marginRatio;
+  if (limits.maxMarginRatio && ratio?.gt(limits.maxMarginRatio)) {
+    return `保证金率 ${ratio.toFixed(4)} 超过上限 ${limits.maxMarginRatio.toString()}`;
+  }
+  const nearest = limits.minLiquidationDistance ? nearestLiquidation(summary) : null;
+  if (limits.minLiquidationDistance && nearest?.distance.lt(limits.minLiquidationDistance)) {
+    const { position, distance } = nearest;
+    return `${position.symbol} 距强平价 ${position.liquidationPrice?.toString()} 仅 ${distance.multipliedBy(100).toFixed(2)}%，低于下限 ${limits.minLiquidationDistance.multipliedBy(100).toString()}%`;
+  }
+  return null;
+}
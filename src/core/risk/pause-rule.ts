@@ -0,0 +1,46 @@
+import type { Decimal } from "../../shared/number";
+
+/**
+ * 风控暂停规则的评估输入。
+ */
+export interface RiskRuleContext {
+  symbol: string;
+  /** 净仓位（多为正，空为负），未获取时为 null */
+  netPosition: Decimal | null;
+  markPrice: Decimal | null;
+  maxPosition: Decimal;
+  now: number;
+}
+
+/**
+ * 风控触发后的动作：仅暂停、暂停并撤销挂单，或撤单并紧急平仓。
+ */
+export type RiskAction = "pause" | "cancel" | "flatten";
+
+/**
+ * 风控暂停规则：返回暂停原因表示触发，返回 null 表示正常。
+ * 规则在订单管理器的维护任务中周期评估，触发后网格进入暂停，需人工恢复。
+ */
+export interface RiskPauseRule {
+  readonly name: string;
+  /** 触发动作，未指定时使用配置的 riskAction */
+  readonly action?: RiskAction;
+  evaluate(context: RiskRuleContext): string | null;
+  /** 网格暂停期间代替 evaluate 调用，只推进规则内部状态，不判断是否触发 */
+  observe?(context: RiskRuleContext): void;
+}
+
+/**
+ * 仓位越界规则：净仓位绝对值超过 maxPosition。
+ * 正常补单已按最坏情况约束仓位，越界通常意味着外部成交或人工干预，继续挂单会放大风险。
+ */
+export const positionBreachRule: RiskPauseRule = {
+  name: "position-breach",
+  evaluate(context) {
+    const netPosition = context.netPosition;
+    if (netPosition === null || netPosition.abs().lte(context.maxPosition)) {
+      return null;
+    }
+    return `净仓位 ${netPosition.toString()} 超过最大持仓 ${context.maxPosition.toString()}`;
+  },
+};
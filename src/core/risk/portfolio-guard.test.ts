@@ -0,0 +1,175 @@
+import { describe, expect, it } from "vitest";
+import { Decimal } from "../../shared/number";
+import {
+  checkPortfolioLimits,
+  type PortfolioExposure,
+  type PortfolioLimits,
+  type PortfolioOrderCheckInput,
+  summarizePortfolioExposure,
+} from "./portfolio-guard";
+
+function exposure(
+  symbol: string,
+  netPosition: number,
+  pendingBuy: number,
+  pendingSell: number,
+  markPrice: number | null,
+  openOrders = 0
+): PortfolioExposure {
+  return {
+    symbol,
+    netPosition: Decimal(netPosition),
+    pendingBuy: Decimal(pendingBuy),
+    pendingSell: Decimal(pendingSell),
+    openOrders,
+    markPrice: markPrice === null ? null : Decimal(markPrice),
+  };
+}
+
+function check(
+  exposures: PortfolioExposure[],
+  order: Pick<PortfolioOrderCheckInput, "symbol" | "side"> & { quantity: number; price: number },
+  limits: Partial<PortfolioLimits>
+) {
+  return checkPortfolioLimits({
+    exposures,
+    symbol: order.symbol,
+    side: order.side,
+    quantity: Decimal(order.quantity),
+    price: Decimal(order.price),
+    limits: { symbolMaxNotional: {}, ...limits },
+  });
+}
+
+describe("summarizePortfolioExposure", () => {
+  it("按同向挂单全部成交的最坏情况汇总名义金额", () => {
+    const totals = summarizePortfolioExposure([
+      exposure("BTC", 1, 2, 1, 100, 3),
+      exposure("eth", -2, 1, 3, 10, 4),
+    ]);
+
+    // BTC: 多头最坏 (1+2)*100=300，空头最坏 (1-1)*100=0
+    expect(totals.symbolNotional.get("BTC")?.toString()).toBe("300");
+    // ETH: 多头最坏 (-2+1)*10=-10，空头最坏 (-2-3)*10=-50
+    expect(totals.symbolNotional.get("ETH")?.toString()).toBe("50");
+    expect(totals.grossNotional.toString()).toBe("350");
+    expect(totals.longNotional.toString()).toBe("290");
+    expect(totals.shortNotional.toString()).toBe("-50");
+    expect(totals.openOrders).toBe(7);
+  });
+
+  it("未收到行情的敞口只计入挂单数量", () => {
+    const totals = summarizePortfolioExposure([exposure("BTC", 1, 1, 1, null, 2)]);
+
+    expect(totals.grossNotional.toString()).toBe("0");
+    expect(totals.symbolNotional.size).toBe(0);
+    expect(totals.openOrders).toBe(2);
+  });
+});
+
+describe("checkPortfolioLimits", () => {
+  it("未配置限额时放行", () => {
+    expect(
+      check(
+        [exposure("BTC", 5, 5, 5, 100)],
+        { symbol: "BTC", side: "BUY", quantity: 1, price: 100 },
+        {}
+      )
+    ).toBeNull();
+  });
+
+  it("挂单数量达到上限时拒绝", () => {
+    const breach = check(
+      [exposure("BTC", 0, 1, 1, 100, 2), exposure("ETH", 0, 1, 0, 10, 1)],
+      { symbol: "BTC", side: "BUY", quantity: 1, price: 100 },
+      { maxOpenOrders: 3 }
+    );
+
+    expect(breach?.limit).toBe("open-orders");
+  });
+
+  it("单交易对名义金额超限时拒绝，交易对不区分大小写", () => {
+    const breach = check(
+      [exposure("btc", 1, 0, 0, 100)],
+      { symbol: "BTC", side: "BUY", quantity: 1, price: 100 },
+      { symbolMaxNotional: { BTC: Decimal(150) } }
+    );
+
+    expect(breach?.limit).toBe("symbol-notional");
+    expect(breach?.message).toContain("200.00");
+  });
+
+  it("总名义金额按全部交易对合计检查", () => {
+    const exposures = [exposure("BTC", 1, 0, 0, 100), exposure("ETH", 5, 0, 0, 10)];
+
+    expect(
+      check(
+        exposures,
+        { symbol: "ETH", side: "BUY", quantity: 5, price: 10 },
+        { maxGrossNotional: Decimal(180) }
+      )?.limit
+    ).toBe("gross-notional");
+    expect(
+      check(
+        exposures,
+        { symbol: "ETH", side: "BUY", quantity: 5, price: 10 },
+        { maxGrossNotional: Decimal(180), symbolMaxNotional: { ETH: Decimal(80) } }
+      )?.limit
+    ).toBe("symbol-notional");
+  });
+
+  it("净名义金额超限时拒绝同向订单，反向对冲的订单放行", () => {
+    const exposures = [exposure("BTC", 1, 0, 0, 100), exposure("ETH", -5, 0, 0, 10)];
+    const limits = { maxNetDelta: Decimal(60) };
+
+    expect(
+      check(exposures, { symbol: "BTC", side: "BUY", quantity: 0.2, price: 100 }, limits)?.limit
+    ).toBe("net-delta");
+    expect(
+      check(exposures, { symbol: "ETH", side: "BUY", quantity: 1, price: 10 }, limits)
+    ).toBeNull();
+  });
+
+  it("已超限时减仓方向的挂单仍放行，加仓方向的挂单拒绝", () => {
+    const exposures = [exposure("BTC", 3, 0, 0, 100)];
+    const limits = {
+      symbolMaxNotional: { BTC: Decimal(200) },
+      maxGrossNotional: Decimal(200),
+      maxNetDelta: Decimal(200),
+    };
+
+    expect(
+      check(exposures, { symbol: "BTC", side: "SELL", quantity: 1, price: 100 }, limits)
+    ).toBeNull();
+    expect(
+      check(exposures, { symbol: "BTC", side: "BUY", quantity: 1, price: 100 }, limits)?.limit
+    ).toBe("symbol-notional");
+  });
+
+  it("下单交易对未收到行情时按委托价估值", () => {
+    const breach = check(
+      [exposure("BTC", 1, 0, 0, null)],
+      { symbol: "BTC", side: "BUY", quantity: 1, price: 100 },
+      { maxGrossNotional: Decimal(150) }
+    );
+
+    expect(breach?.limit).toBe("gross-notional");
+  });
+
+  it("新交易对没有敞口时按委托价计入", () => {
+    expect(
+      check(
+        [],
+        { symbol: "SOL", side: "SELL", quantity: 3, price: 50 },
+        { symbolMaxNotional: { SOL: Decimal(100) } }
+      )?.limit
+    ).toBe("symbol-notional");
+    expect(
+      check(
+        [],
+        { symbol: "SOL", side: "SELL", quantity: 1, price: 50 },
+        { symbolMaxNotional: { SOL: Decimal(100) } }
+      )
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,203 @@
+import { Decimal } from "../../shared/number";
+import type { OrderSide } from "../exchange/models";
+
+/**
+ * 单个网格在账户上的风险敞口。
+ */
+export interface PortfolioExposure {
+  symbol: string;
+  /** 净仓位（多为正，空为负） */
+  netPosition: Decimal;
+  pendingBuy: Decimal;
+  pendingSell: Decimal;
+  /** 未终态挂单数量 */
+  openOrders: number;
+  /** 估值价格，未收到行情时为 null，此时该敞口不计入名义金额类限额 */
+  markPrice: Decimal | null;
+}
+
+/**
+ * 组合限额，未配置的项不检查。
+ */
+export interface PortfolioLimits {
+  /** 全部交易对最坏情况名义金额之和上限（计价币） */
+  maxGrossNotional?: Decimal;
+  /** 全部交易对最坏情况净名义金额（多为正，空为负）绝对值上限（计价币） */
+  maxNetDelta?: Decimal;
+  /** 单交易对最坏情况名义金额上限，键为大写交易对 */
+  symbolMaxNotional: Record<string, Decimal>;
+  /** 全部网格未终态挂单数量上限 */
+  maxOpenOrders?: number;
+}
+
+/**
+ * 组合限额类型：挂单数量、单交易对名义金额、总名义金额、净名义金额。
+ */
+export type PortfolioLimitKind = "open-orders" | "symbol-notional" | "gross-notional" | "net-delta";
+
+/**
+ * 限额检查未通过的原因。
+ */
+export interface PortfolioLimitBreach {
+  limit: PortfolioLimitKind;
+  message: string;
+}
+
+/**
+ * 组合限额检查输入：exposures 为账户上全部网格的当前敞口（含下单网格自身）。
+ */
+export interface PortfolioOrderCheckInput {
+  exposures: PortfolioExposure[];
+  symbol: string;
+  side: OrderSide;
+  quantity: Decimal;
+  /** 下单网格未收到行情时用于估值的价格 */
+  price: Decimal;
+  limits: PortfolioLimits;
+}
+
+/**
+ * 组合最坏情况敞口：同向挂单全部成交后的名义金额。
+ */
+export interface PortfolioExposureTotals {
+  /** 各交易对最坏情况名义金额，键为大写交易对 */
+  symbolNotional: Map<string, Decimal>;
+  grossNotional: Decimal;
+  /** 全部买单成交后的净名义金额 */
+  longNotional: Decimal;
+  /** 全部卖单成交后的净名义金额 */
+  shortNotional: Decimal;
+  openOrders: number;
+}
+
+/**
+ * 汇总最坏情况敞口。
+ * 规则：单交易对取 净仓位+买单 与 净仓位-卖单 中绝对值较大者按估值价格折算，
+ * 净名义金额分别按全部买单成交与全部卖单成交两种情形计算。
+ */
+export function summarizePortfolioExposure(
+  exposures: PortfolioExposure[]
+): PortfolioExposureTotals {
+  const totals: PortfolioExposureTotals = {
+    symbolNotional: new Map(),
+    grossNotional: Decimal(0),
+    longNotional: Decimal(0),
+    shortNotional: Decimal(0),
+    openOrders: 0,
+  };
+  for (const exposure of exposures) {
+    totals.openOrders += exposure.openOrders;
+    const price = exposure.markPrice;
+    if (!price) {
+      continue;
+    }
+    const longWorst = exposure.netPosition.plus(exposure.pendingBuy).multipliedBy(price);
+    const shortWorst = exposure.netPosition.minus(exposure.pendingSell).multipliedBy(price);
+    const notional = Decimal.max(longWorst.abs(), shortWorst.abs());
+    const key = exposure.symbol.toUpperCase();
+    totals.symbolNotional.set(key, (totals.symbolNotional.get(key) ?? Decimal(0)).plus(notional));
+    totals.grossNotional = totals.grossNotional.plus(notional);
+    totals.longNotional = totals.longNotional.plus(longWorst);
+    totals.shortNotional = totals.shortNotional.plus(shortWorst);
+  }
+  return totals;
+}
+
+/**
+ * 判断新订单是否会突破组合限额，通过时返回 null。
+ * 名义金额类限额只拦截使指标变大的订单：已超限时减仓方向的挂单仍可放行。
+ */
+export function checkPortfolioLimits(input: PortfolioOrderCheckInput): PortfolioLimitBreach | null {
+  const { limits } = input;
+  const exposures = withOrderSymbol(input);
+  const before = summarizePortfolioExposure(exposures);
+  if (limits.maxOpenOrders !== undefined && before.openOrders + 1 > limits.maxOpenOrders) {
+    return {
+      limit: "open-orders",
+      message: `组合挂单数量已达上限 ${limits.maxOpenOrders}`,
+    };
+  }
+  const after = summarizePortfolioExposure(applyOrder(exposures, input));
+  const symbol = input.symbol.toUpperCase();
+  const symbolCap = limits.symbolMaxNotional[symbol];
+  const symbolBefore = before.symbolNotional.get(symbol) ?? Decimal(0);
+  const symbolAfter = after.symbolNotional.get(symbol) ?? Decimal(0);
+  if (symbolCap && exceeds(symbolBefore, symbolAfter, symbolCap)) {
+    return {
+      limit: "symbol-notional",
+      message: `${symbol} 名义金额 ${symbolAfter.toFixed(2)} 超过上限 ${symbolCap.toString()}`,
+    };
+  }
+  if (
+    limits.maxGrossNotional &&
+    exceeds(before.grossNotional, after.grossNotional, limits.maxGrossNotional)
+  ) {
+    return {
+      limit: "gross-notional",
+      message: `组合总名义金额 ${after.grossNotional.toFixed(2)} 超过上限 ${limits.maxGrossNotional.toString()}`,
+    };
+  }
+  if (limits.maxNetDelta) {
+    const netBefore = Decimal.max(before.longNotional.abs(), before.shortNotional.abs());
+    const netAfter = Decimal.max(after.longNotional.abs(), after.shortNotional.abs());
+    if (exceeds(netBefore, netAfter, limits.maxNetDelta)) {
+      return {
+        limit: "net-delta",
+        message: `组合净名义金额 ${netAfter.toFixed(2)} 超过上限 ${limits.maxNetDelta.toString()}`,
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * 补齐下单交易对的敞口与估值价格，保证下单前后按同一价格比较。
+ */
+function withOrderSymbol(input: PortfolioOrderCheckInput): PortfolioExposure[] {
+  const symbol = input.symbol.toUpperCase();
+  const exposures = input.exposures.map((exposure) =>
+    exposure.symbol.toUpperCase() === symbol && !exposure.markPrice
+      ? { ...exposure, markPrice: input.price }
+      : exposure
+  );
+  if (!exposures.some((exposure) => exposure.symbol.toUpperCase() === symbol)) {
+    exposures.push({
+      symbol: input.symbol,
+      netPosition: Decimal(0),
+      pendingBuy: Decimal(0),
+      pendingSell: Decimal(0),
+      openOrders: 0,
+      markPrice: input.price,
+    });
+  }
+  return exposures;
+}
+
+/**
+ * 将新订单计入下单交易对的同向挂单。
+ */
+function applyOrder(
+  exposures: PortfolioExposure[],
+  input: PortfolioOrderCheckInput
+): PortfolioExposure[] {
+  const symbol = input.symbol.toUpperCase();
+  const index = exposures.findIndex((exposure) => exposure.symbol.toUpperCase() === symbol);
+  return exposures.map((exposure, i) =>
+    i === index
+      ? {
+          ...exposure,
+          pendingBuy:
+            input.side === "BUY" ? exposure.pendingBuy.plus(input.quantity) : exposure.pendingBuy,
+          pendingSell:
+            input.side === "SELL"
+              ? exposure.pendingSell.plus(input.quantity)
+              : exposure.pendingSell,
+          openOrders: exposure.openOrders + 1,
+        }
+      : exposure
+  );
+}
+
+function exceeds(before: Decimal, after: Decimal, limit: Decimal): boolean {
+  return after.gt(limit) && after.gt(before);
+}
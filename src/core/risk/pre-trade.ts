@@ -0,0 +1,104 @@
+import type { ExchangeQuote, OrderSide } from "../exchange/models";
+import type { Decimal } from "../../shared/number";
+
+/**
+ * 下单前检查阈值，未配置的项不检查；盘口交叉检查始终启用。
+ */
+export interface PreTradeLimits {
+  /** 委托价相对 mark 与盘口中间价的最大偏离比例，如 0.05 表示 5% */
+  maxPriceDeviation?: Decimal;
+  /** 行情最大时延（毫秒），超过时视为过期 */
+  maxQuoteAgeMs?: number;
+  /** 单笔订单名义金额上限（计价币） */
+  maxOrderNotional?: Decimal;
+}
+
+/**
+ * 下单前检查的拒绝原因，写入订单记录的 status_reason。
+ */
+export type PreTradeRejectReason =
+  | "PRE_TRADE_NO_QUOTE"
+  | "PRE_TRADE_STALE_QUOTE"
+  | "PRE_TRADE_CROSSED_BOOK"
+  | "PRE_TRADE_PRICE_DEVIATION"
+  | "PRE_TRADE_MAX_NOTIONAL";
+
+/**
+ * 下单前检查拒绝结果。
+ */
+export interface PreTradeRejection {
+  reason: PreTradeRejectReason;
+  message: string;
+}
+
+/**
+ * 待检查的订单。
+ */
+export interface PreTradeOrder {
+  side: OrderSide;
+  price: Decimal;
+  quantity: Decimal;
+}
+
+/**
+ * 委托价相对参考价的偏离比例。
+ */
+function deviation(price: Decimal, reference: Decimal): Decimal {
+  return price.minus(reference).abs().div(reference);
+}
+
+/**
+ * 按最新行情检查订单：行情缺失或过期、盘口交叉、委托价偏离 mark 或中间价过大、名义金额超限时拒绝。
+ * mark 与中间价分别检查，任一路行情出现异常价格时不会按其铺开整张网格。
+ */
+export function checkPreTrade(
+  order: PreTradeOrder,
+  quote: ExchangeQuote | null,
+  limits: PreTradeLimits,
+  now: number
+): PreTradeRejection | null {
+  const notional = order.price.multipliedBy(order.quantity);
+  if (limits.maxOrderNotional && notional.gt(limits.maxOrderNotional)) {
+    return {
+      reason: "PRE_TRADE_MAX_NOTIONAL",
+      message: `名义金额 ${notional.toFixed(2)} 超过单笔上限 ${limits.maxOrderNotional.toString()}`,
+    };
+  }
+  if (!quote) {
+    return limits.maxQuoteAgeMs !== undefined || limits.maxPriceDeviation
+      ? { reason: "PRE_TRADE_NO_QUOTE", message: "尚未收到行情" }
+      : null;
+  }
+  const age = now - quote.ts;
+  if (limits.maxQuoteAgeMs !== undefined && age > limits.maxQuoteAgeMs) {
+    return {
+      reason: "PRE_TRADE_STALE_QUOTE",
+      message: `行情已 ${age}ms 未更新，超过上限 ${limits.maxQuoteAgeMs}ms`,
+    };
+  }
+  if (quote.bid.gte(quote.ask)) {
+    return {
+      reason: "PRE_TRADE_CROSSED_BOOK",
+      message: `盘口交叉：买一 ${quote.bid.toString()} 不低于卖一 ${quote.ask.toString()}`,
+    };
+  }
+  if (limits.maxPriceDeviation) {
+    const mid = quote.bid.plus(quote.ask).div(2);
+    for (const [label, reference] of [
+      ["mark", quote.mark],
+      ["中间价", mid],
+    ] as const) {
+      if (!reference.gt(0)) {
+        continue;
+      }
+      const ratio = deviation(order.price, reference);
+      if (ratio.gt(limits.maxPriceDeviation)) {
+        return {
+          reason: "PRE_TRADE_PRICE_DEVIATION",
+          message: `委托价 ${order.price.toString()} 偏离${label} ${reference.toString()} ${ratio.multipliedBy(100).toFixed(2)}%，超过上限 ${limits.maxPriceDeviation.multipliedBy(100).toString()}%`,
+        };
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,10 @@
+import { runFlattenCommand } from "./bootstrap/flatten";
+
+runFlattenCommand(process.argv.slice(2))
+  .then((flat) => {
+    process.exit(flat ? 0 : 1);
+  })
+  .catch((error) => {
+    console.error("紧急平仓失败", error);
+    process.exit(1);
+  });
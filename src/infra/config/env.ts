@@ -2,15 +2,36 @@ import { existsSync } from "node:fs";
 import path from "node:path";
 import dotenv from "dotenv";
 import { z } from "zod";
-import type { GridSpacingMode } from "../../core/grid/types";
+import type { MarginMode } from "../../core/exchange/models";
+import type {
+  GridAdaptiveSpacingConfig,
+  GridInventorySkewConfig,
+  GridQuantityProfile,
+  GridSideSpacing,
+  GridSpacingMode,
+  GridVolatilitySource,
+} from "../../core/grid/types";
+import type { PreTradeLimits } from "../../core/risk/pre-trade";
 import { Decimal } from "../../shared/number";
 import type {
   AppConfig,
+  BacktestConfig,
+  CaptureConfig,
+  ControlApiConfig,
   DbConfig,
   DebugConfig,
   ExchangeConfig,
+  ExtendedConfig,
   GridConfig,
+  GridDrawdownConfig,
+  GridRecoveryMode,
+  HyperliquidConfig,
+  LiveExchangeName,
+  MarginRiskConfig,
+  NadoConfig,
   NotificationConfig,
+  PaperConfig,
+  PortfolioRiskConfig,
 } from "./schema";
 
 let loaded = false;
@@ -107,6 +128,26 @@ function intField(key: string, minValue: number) {
   });
 }
 
+/**
+ * 可选整数字段校验，未提供时返回 undefined，由调用方按场景判断是否必填。
+ */
+function optionalIntegerField(key: string, minValue: number) {
+  return optionalString().transform((value, ctx) => {
+    if (value === undefined) {
+      return undefined;
+    }
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < minValue) {
+      ctx.addIssue({
+        code: "custom",
+        message: `环境变量 ${key} 必须为不小于 ${minValue} 的整数: ${value}`,
+      });
+      return z.NEVER;
+    }
+    return parsed;
+  });
+}
+
 /**
  * Decimal 字段校验，支持最小值约束。
  */
@@ -248,37 +289,415 @@ function exchangeNameField() {
         }
         return trimmed.toLowerCase();
       },
-      z.enum(["extended", "nado", "hyperliquid"], "暂不支持交易所")
+      z.enum(["extended", "nado", "hyperliquid", "paper"], "暂不支持交易所")
     )
     .default("extended");
 }
 
+/**
+ * 纸面交易行情来源校验，统一为小写并提供默认值。
+ */
+function paperQuoteSourceField() {
+  return z
+    .preprocess(
+      (value) => {
+        if (typeof value !== "string") {
+          return value;
+        }
+        const trimmed = value.trim();
+        if (!trimmed) {
+          return undefined;
+        }
+        return trimmed.toLowerCase();
+      },
+      z.enum(["extended", "nado", "hyperliquid", "file"], "PAPER_QUOTE_SOURCE 不支持该行情来源")
+    )
+    .default("hyperliquid");
+}
+
+/**
+ * 逗号分隔的真实交易所列表（不区分大小写），未提供时为空列表。
+ */
+function liveExchangeListField(key: string) {
+  return optionalString().transform((value, ctx) => {
+    if (value === undefined) {
+      return [];
+    }
+    const allowed: LiveExchangeName[] = ["extended", "nado", "hyperliquid"];
+    const names: LiveExchangeName[] = [];
+    for (const item of value.split(",")) {
+      const normalized = item.trim().toLowerCase();
+      if (!normalized) {
+        continue;
+      }
+      const matched = allowed.find((name) => name === normalized);
+      if (!matched) {
+        ctx.addIssue({
+          code: "custom",
+          message: `${key} 仅支持 ${allowed.join("、")}: ${item.trim()}`,
+        });
+        return z.NEVER;
+      }
+      if (!names.includes(matched)) {
+        names.push(matched);
+      }
+    }
+    return names;
+  });
+}
+
+/**
+ * 可选枚举字段校验（不区分大小写），未提供时返回默认值。
+ */
+function optionalEnumField<T extends string>(key: string, allowed: readonly T[], defaultValue: T) {
+  return optionalString()
+    .default(defaultValue)
+    .transform((value, ctx) => {
+      const normalized = value.toLowerCase();
+      const matched = allowed.find((item) => item.toLowerCase() === normalized);
+      if (!matched) {
+        ctx.addIssue({
+          code: "custom",
+          message: `${key} 仅支持 ${allowed.join(" 或 ")}: ${value}`,
+        });
+        return z.NEVER;
+      }
+      return matched;
+    });
+}
+
+/**
+ * 可选间距模式字段（ABS 或 PERCENT，不区分大小写），未提供时返回 undefined。
+ */
+function optionalSpacingModeField(key: string) {
+  return optionalString().transform((value, ctx) => {
+    if (value === undefined) {
+      return undefined;
+    }
+    const normalized = value.toUpperCase();
+    if (normalized !== "ABS" && normalized !== "PERCENT") {
+      ctx.addIssue({
+        code: "custom",
+        message: `${key} 仅支持 ABS 或 PERCENT: ${value}`,
+      });
+      return z.NEVER;
+    }
+    return normalized as GridSpacingMode;
+  });
+}
+
+/**
+ * 可选保证金模式字段（cross 或 isolated，不区分大小写），未提供时返回 undefined。
+ */
+function optionalMarginModeField(key: string) {
+  return optionalString().transform((value, ctx) => {
+    if (value === undefined) {
+      return undefined;
+    }
+    const normalized = value.toLowerCase();
+    if (normalized !== "cross" && normalized !== "isolated") {
+      ctx.addIssue({
+        code: "custom",
+        message: `${key} 仅支持 cross 或 isolated: ${value}`,
+      });
+      return z.NEVER;
+    }
+    return normalized as MarginMode;
+  });
+}
+
+/**
+ * 可选 Decimal 列表字段（逗号分隔，每项必须大于 0），未提供时返回 undefined。
+ */
+function optionalDecimalListField(key: string) {
+  return optionalString().transform((value, ctx) => {
+    if (value === undefined) {
+      return undefined;
+    }
+    const items = value.split(",").map((item) => item.trim());
+    const values = items.map((item) => Decimal(item));
+    const invalidIndex = values.findIndex((item) => item.isNaN() || !item.gt(0));
+    if (invalidIndex >= 0) {
+      ctx.addIssue({
+        code: "custom",
+        message: `环境变量 ${key} 每项必须为大于 0 的数字: ${items[invalidIndex]}`,
+      });
+      return z.NEVER;
+    }
+    return values;
+  });
+}
+
+/**
+ * 纸面交易初始仓位字段：单个数字（仅单网格）或逗号分隔的 SYMBOL:数量（可为负），键转为大写。
+ */
+function optionalPaperPositionField(key: string) {
+  return optionalString().transform((value, ctx): Decimal | Record<string, Decimal> | undefined => {
+    if (value === undefined) {
+      return undefined;
+    }
+    if (!value.includes(":")) {
+      const amount = Decimal(value);
+      if (amount.isNaN()) {
+        ctx.addIssue({ code: "custom", message: `环境变量 ${key} 必须为数字: ${value}` });
+        return z.NEVER;
+      }
+      return amount;
+    }
+    const result: Record<string, Decimal> = {};
+    for (const item of value.split(",")) {
+      const trimmed = item.trim();
+      if (!trimmed) {
+        continue;
+      }
+      const separator = trimmed.lastIndexOf(":");
+      const symbol = trimmed.slice(0, separator).trim().toUpperCase();
+      const amount = Decimal(trimmed.slice(separator + 1).trim());
+      if (separator <= 0 || !symbol || amount.isNaN()) {
+        ctx.addIssue({
+          code: "custom",
+          message: `环境变量 ${key} 每项必须为 交易对:数量: ${trimmed}`,
+        });
+        return z.NEVER;
+      }
+      if (result[symbol]) {
+        ctx.addIssue({
+          code: "custom",
+          message: `环境变量 ${key} 存在重复的交易对: ${symbol}`,
+        });
+        return z.NEVER;
+      }
+      result[symbol] = amount;
+    }
+    return result;
+  });
+}
+
+/**
+ * 可选的交易对数值映射字段（逗号分隔的 SYMBOL:VALUE，每项必须大于 0），键转为大写，未提供时为空对象。
+ */
+function optionalSymbolDecimalMapField(key: string) {
+  return optionalString().transform((value, ctx) => {
+    const result: Record<string, Decimal> = {};
+    for (const item of (value ?? "").split(",")) {
+      const trimmed = item.trim();
+      if (!trimmed) {
+        continue;
+      }
+      const separator = trimmed.lastIndexOf(":");
+      const symbol = trimmed.slice(0, separator).trim().toUpperCase();
+      const amount = Decimal(trimmed.slice(separator + 1).trim());
+      if (separator <= 0 || !symbol || amount.isNaN() || !amount.gt(0)) {
+        ctx.addIssue({
+          code: "custom",
+          message: `环境变量 ${key} 每项必须为 交易对:大于 0 的数字: ${trimmed}`,
+        });
+        return z.NEVER;
+      }
+      if (result[symbol]) {
+        ctx.addIssue({
+          code: "custom",
+          message: `环境变量 ${key} 存在重复的交易对: ${symbol}`,
+        });
+        return z.NEVER;
+      }
+      result[symbol] = amount;
+    }
+    return result;
+  });
+}
+
+/**
+ * 可选整数字段校验，未提供时返回默认值。
+ */
+function optionalIntField(key: string, defaultValue: number, minValue: number) {
+  return optionalString().transform((value, ctx) => {
+    if (value === undefined) {
+      return defaultValue;
+    }
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed)) {
+      ctx.addIssue({
+        code: "custom",
+        message: `环境变量 ${key} 不是有效整数: ${value}`,
+      });
+      return z.NEVER;
+    }
+    if (parsed < minValue) {
+      ctx.addIssue({
+        code: "custom",
+        message: `环境变量 ${key} 必须大于等于 ${minValue}: ${parsed}`,
+      });
+      return z.NEVER;
+    }
+    return parsed;
+  });
+}
+
+/**
+ * 可选数值字段校验（允许小数），未提供时返回默认值。
+ */
+function optionalNumberField(key: string, defaultValue: number, minValue: number) {
+  return optionalString().transform((value, ctx) => {
+    if (value === undefined) {
+      return defaultValue;
+    }
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) {
+      ctx.addIssue({
+        code: "custom",
+        message: `环境变量 ${key} 不是有效数字: ${value}`,
+      });
+      return z.NEVER;
+    }
+    if (parsed < minValue) {
+      ctx.addIssue({
+        code: "custom",
+        message: `环境变量 ${key} 必须大于等于 ${minValue}: ${parsed}`,
+      });
+      return z.NEVER;
+    }
+    return parsed;
+  });
+}
+
+/**
+ * 未配置 GRID_STRATEGY_ID 时的默认策略标识。
+ */
+const DEFAULT_STRATEGY_ID = "grid-default";
+
+/**
+ * 仅滑动网格使用的档位与间距参数。
+ */
+const SLIDING_ONLY_KEYS = [
+  "GRID_LEVELS",
+  "GRID_BUY_LEVELS",
+  "GRID_SELL_LEVELS",
+  "GRID_SPACING",
+  "GRID_SPACING_PERCENT",
+  "GRID_BUY_SPACING_MODE",
+  "GRID_BUY_SPACING",
+  "GRID_BUY_SPACING_PERCENT",
+  "GRID_SELL_SPACING_MODE",
+  "GRID_SELL_SPACING",
+  "GRID_SELL_SPACING_PERCENT",
+] as const;
+
 /**
  * 解析并校验环境变量，返回结构化的配置数据。
  */
 const envSchema = z
   .object({
-    GRID_STRATEGY_ID: optionalString().default("grid-default"),
+    GRID_STRATEGY_ID: optionalString().default(DEFAULT_STRATEGY_ID),
     GRID_SYMBOL: requiredString("GRID_SYMBOL"),
-    GRID_LEVELS: intField("GRID_LEVELS", 1),
+    GRID_LEVELS: optionalIntegerField("GRID_LEVELS", 1),
     GRID_SPACING_MODE: requiredString("GRID_SPACING_MODE").transform((value, ctx) => {
       const normalized = value.toUpperCase();
-      if (normalized !== "ABS" && normalized !== "PERCENT") {
+      if (!["ABS", "PERCENT", "ATR", "VOL"].includes(normalized)) {
         ctx.addIssue({
           code: "custom",
-          message: `GRID_SPACING_MODE 仅支持 ABS 或 PERCENT: ${value}`,
+          message: `GRID_SPACING_MODE 仅支持 ABS、PERCENT、ATR 或 VOL: ${value}`,
         });
         return z.NEVER;
       }
-      return normalized as GridSpacingMode;
+      return normalized as GridSpacingMode | GridVolatilitySource;
     }),
+    GRID_VOL_BAR_MS: optionalIntField("GRID_VOL_BAR_MS", 60000, 1000),
+    GRID_VOL_WINDOW: optionalIntField("GRID_VOL_WINDOW", 30, 2),
+    GRID_VOL_MULTIPLIER: optionalDecimalField("GRID_VOL_MULTIPLIER", { minExclusive: 0 }),
+    GRID_VOL_MIN_SPACING: optionalDecimalField("GRID_VOL_MIN_SPACING", { minExclusive: 0 }),
+    GRID_VOL_MAX_SPACING: optionalDecimalField("GRID_VOL_MAX_SPACING", { minExclusive: 0 }),
+    GRID_VOL_TOLERANCE: optionalDecimalField("GRID_VOL_TOLERANCE", { minExclusive: 0 }),
+    GRID_REFERENCE_PRICE: optionalEnumField(
+      "GRID_REFERENCE_PRICE",
+      ["mark", "mid", "touch", "microprice", "ema", "median"] as const,
+      "mark"
+    ),
+    GRID_REFERENCE_EMA_MS: optionalIntField("GRID_REFERENCE_EMA_MS", 10000, 1),
+    GRID_REFERENCE_EXCHANGES: liveExchangeListField("GRID_REFERENCE_EXCHANGES"),
+    GRID_REFERENCE_MAX_AGE_MS: optionalIntField("GRID_REFERENCE_MAX_AGE_MS", 5000, 1),
+    GRID_MODE: optionalEnumField("GRID_MODE", ["sliding", "range"] as const, "sliding"),
+    GRID_FILL_MODE: optionalEnumField("GRID_FILL_MODE", ["shift", "paired"] as const, "shift"),
+    GRID_RANGE_LOWER: optionalDecimalField("GRID_RANGE_LOWER", { minExclusive: 0 }),
+    GRID_RANGE_UPPER: optionalDecimalField("GRID_RANGE_UPPER", { minExclusive: 0 }),
+    GRID_RANGE_LEVELS: optionalIntegerField("GRID_RANGE_LEVELS", 2),
+    GRID_RANGE_EXIT_POLICY: optionalEnumField(
+      "GRID_RANGE_EXIT_POLICY",
+      ["stop", "cancel", "close"] as const,
+      "stop"
+    ),
     GRID_SPACING: optionalDecimalField("GRID_SPACING", { minExclusive: 0 }),
     GRID_SPACING_PERCENT: optionalDecimalField("GRID_SPACING_PERCENT", { minExclusive: 0 }),
-    GRID_QUANTITY: decimalField("GRID_QUANTITY", { minExclusive: 0 }),
+    GRID_BUY_LEVELS: optionalIntegerField("GRID_BUY_LEVELS", 1),
+    GRID_SELL_LEVELS: optionalIntegerField("GRID_SELL_LEVELS", 1),
+    GRID_BUY_SPACING_MODE: optionalSpacingModeField("GRID_BUY_SPACING_MODE"),
+    GRID_BUY_SPACING: optionalDecimalField("GRID_BUY_SPACING", { minExclusive: 0 }),
+    GRID_BUY_SPACING_PERCENT: optionalDecimalField("GRID_BUY_SPACING_PERCENT", {
+      minExclusive: 0,
+    }),
+    GRID_SELL_SPACING_MODE: optionalSpacingModeField("GRID_SELL_SPACING_MODE"),
+    GRID_SELL_SPACING: optionalDecimalField("GRID_SELL_SPACING", { minExclusive: 0 }),
+    GRID_SELL_SPACING_PERCENT: optionalDecimalField("GRID_SELL_SPACING_PERCENT", {
+      minExclusive: 0,
+    }),
+    GRID_QUANTITY: optionalDecimalField("GRID_QUANTITY", { minExclusive: 0 }),
+    GRID_QUANTITY_UNIT: optionalEnumField("GRID_QUANTITY_UNIT", ["base", "quote"] as const, "base"),
+    GRID_QUANTITY_PROFILE: optionalEnumField(
+      "GRID_QUANTITY_PROFILE",
+      ["flat", "linear", "geometric", "list"] as const,
+      "flat"
+    ),
+    GRID_QUANTITY_STEP: optionalDecimalField("GRID_QUANTITY_STEP", { minInclusive: 0 }),
+    GRID_QUANTITY_RATIO: optionalDecimalField("GRID_QUANTITY_RATIO", { minExclusive: 0 }),
+    GRID_QUANTITY_LIST: optionalDecimalListField("GRID_QUANTITY_LIST"),
     GRID_POST_ONLY: booleanField("GRID_POST_ONLY"),
     GRID_CANCEL_TIMEOUT_MS: intField("GRID_CANCEL_TIMEOUT_MS", 1),
     GRID_MAX_POSITION: decimalField("GRID_MAX_POSITION", { minInclusive: 0 }),
+    GRID_SKEW_CENTER_LEVELS: optionalNumberField("GRID_SKEW_CENTER_LEVELS", 0, 0),
+    GRID_SKEW_SIZE_FACTOR: optionalDecimalField("GRID_SKEW_SIZE_FACTOR", { minInclusive: 0 }),
+    GRID_SKEW_MIN_CHANGE: optionalDecimalField("GRID_SKEW_MIN_CHANGE", { minExclusive: 0 }),
     GRID_MAX_OPEN_ORDERS: intField("GRID_MAX_OPEN_ORDERS", 1),
+    GRID_RECOVERY_MODE: optionalString()
+      .default("rebuild")
+      .transform((value, ctx) => {
+        const normalized = value.toLowerCase();
+        if (normalized !== "rebuild" && normalized !== "adopt") {
+          ctx.addIssue({
+            code: "custom",
+            message: `GRID_RECOVERY_MODE 仅支持 rebuild 或 adopt: ${value}`,
+          });
+          return z.NEVER;
+        }
+        return normalized as GridRecoveryMode;
+      }),
+    GRID_PAUSE_POLICY: optionalEnumField("GRID_PAUSE_POLICY", ["keep", "cancel"] as const, "keep"),
+    GRID_SHUTDOWN_POLICY: optionalEnumField(
+      "GRID_SHUTDOWN_POLICY",
+      ["keep", "cancel", "flatten"] as const,
+      "keep"
+    ),
+    GRID_SHUTDOWN_TIMEOUT_MS: optionalIntField("GRID_SHUTDOWN_TIMEOUT_MS", 30000, 1000),
+    GRID_FLATTEN_SLIPPAGE: optionalDecimalField("GRID_FLATTEN_SLIPPAGE", { minExclusive: 0 }),
+    GRID_FLATTEN_TIMEOUT_MS: optionalIntField("GRID_FLATTEN_TIMEOUT_MS", 60000, 1000),
+    GRID_RISK_ACTION: optionalEnumField(
+      "GRID_RISK_ACTION",
+      ["pause", "cancel", "flatten"] as const,
+      "pause"
+    ),
+    GRID_MAX_DAILY_LOSS: optionalDecimalField("GRID_MAX_DAILY_LOSS", { minExclusive: 0 }),
+    GRID_MAX_DRAWDOWN: optionalDecimalField("GRID_MAX_DRAWDOWN", { minExclusive: 0 }),
+    GRID_DRAWDOWN_ACTION: optionalEnumField(
+      "GRID_DRAWDOWN_ACTION",
+      ["pause", "cancel", "flatten"] as const,
+      "pause"
+    ),
+    GRID_MAX_PRICE_DEVIATION: optionalDecimalField("GRID_MAX_PRICE_DEVIATION", {
+      minExclusive: 0,
+    }),
+    GRID_MAX_QUOTE_AGE_MS: optionalIntegerField("GRID_MAX_QUOTE_AGE_MS", 1),
+    GRID_MAX_ORDER_NOTIONAL: optionalDecimalField("GRID_MAX_ORDER_NOTIONAL", { minExclusive: 0 }),
+    GRID_LEVERAGE: optionalIntegerField("GRID_LEVERAGE", 1),
+    GRID_MARGIN_MODE: optionalMarginModeField("GRID_MARGIN_MODE"),
     EXCHANGE: exchangeNameField(),
     EXTENDED_API_KEY: optionalString(),
     EXTENDED_L2_PRIVATE_KEY: optionalString(),
@@ -317,52 +736,295 @@ const envSchema = z
     HYPERLIQUID_MIN_NOTIONAL: optionalDecimalField("HYPERLIQUID_MIN_NOTIONAL", {
       minExclusive: 0,
     }),
+    PAPER_QUOTE_SOURCE: paperQuoteSourceField(),
+    PAPER_QUOTE_FILE: optionalString(),
+    PAPER_REPLAY_SPEED: optionalNumberField("PAPER_REPLAY_SPEED", 1, 0),
+    PAPER_INITIAL_POSITION: optionalPaperPositionField("PAPER_INITIAL_POSITION"),
+    PAPER_MIN_PRICE_CHANGE: optionalDecimalField("PAPER_MIN_PRICE_CHANGE", { minExclusive: 0 }),
+    PAPER_MIN_ORDER_SIZE_CHANGE: optionalDecimalField("PAPER_MIN_ORDER_SIZE_CHANGE", {
+      minExclusive: 0,
+    }),
+    PAPER_MAKER_FEE: optionalDecimalField("PAPER_MAKER_FEE", {}),
+    PAPER_TAKER_FEE: optionalDecimalField("PAPER_TAKER_FEE", {}),
     DB_PATH: optionalString().default("data/perp-grid.db"),
     DEBUG_MARKET_LOG: optionalBooleanField("DEBUG_MARKET_LOG", false),
+    CAPTURE_ENABLED: optionalBooleanField("CAPTURE_ENABLED", false),
+    CAPTURE_FORMAT: optionalString()
+      .default("jsonl")
+      .transform((value, ctx) => {
+        const normalized = value.toLowerCase();
+        if (normalized !== "jsonl" && normalized !== "sqlite") {
+          ctx.addIssue({
+            code: "custom",
+            message: `CAPTURE_FORMAT 仅支持 jsonl 或 sqlite: ${value}`,
+          });
+          return z.NEVER;
+        }
+        return normalized as "jsonl" | "sqlite";
+      }),
+    CAPTURE_DIR: optionalString().default("data/capture"),
+    CAPTURE_MAX_FILE_MB: optionalNumberField("CAPTURE_MAX_FILE_MB", 100, 1),
+    CONTROL_API_ENABLED: optionalBooleanField("CONTROL_API_ENABLED", false),
+    CONTROL_API_PORT: optionalIntField("CONTROL_API_PORT", 8787, 1),
+    CONTROL_API_TOKEN: optionalString(),
+    PORTFOLIO_MAX_GROSS_NOTIONAL: optionalDecimalField("PORTFOLIO_MAX_GROSS_NOTIONAL", {
+      minExclusive: 0,
+    }),
+    PORTFOLIO_MAX_NET_DELTA_USD: optionalDecimalField("PORTFOLIO_MAX_NET_DELTA_USD", {
+      minExclusive: 0,
+    }),
+    PORTFOLIO_SYMBOL_MAX_NOTIONAL: optionalSymbolDecimalMapField("PORTFOLIO_SYMBOL_MAX_NOTIONAL"),
+    PORTFOLIO_MAX_OPEN_ORDERS: optionalIntegerField("PORTFOLIO_MAX_OPEN_ORDERS", 1),
+    ACCOUNT_MAX_MARGIN_RATIO: optionalDecimalField("ACCOUNT_MAX_MARGIN_RATIO", {
+      minExclusive: 0,
+    }),
+    ACCOUNT_MIN_LIQUIDATION_DISTANCE: optionalDecimalField("ACCOUNT_MIN_LIQUIDATION_DISTANCE", {
+      minExclusive: 0,
+    }),
+    ACCOUNT_MARGIN_ACTION: optionalEnumField(
+      "ACCOUNT_MARGIN_ACTION",
+      ["pause", "cancel", "flatten"] as const,
+      "pause"
+    ),
+    ACCOUNT_POLL_INTERVAL_MS: optionalIntField("ACCOUNT_POLL_INTERVAL_MS", 15000, 1000),
     BARK_SERVER: optionalString(),
     BARK_KEYS: optionalString(),
   })
   .superRefine((data, ctx) => {
-    if (data.GRID_SPACING_MODE === "ABS" && !data.GRID_SPACING) {
+    if (data.GRID_SKEW_SIZE_FACTOR?.gt(1)) {
+      ctx.addIssue({
+        code: "custom",
+        message: "GRID_SKEW_SIZE_FACTOR 不能大于 1",
+        path: ["GRID_SKEW_SIZE_FACTOR"],
+      });
+    }
+    if (data.GRID_FLATTEN_SLIPPAGE?.gte(1)) {
+      ctx.addIssue({
+        code: "custom",
+        message: "GRID_FLATTEN_SLIPPAGE 必须小于 1",
+        path: ["GRID_FLATTEN_SLIPPAGE"],
+      });
+    }
+    if (data.ACCOUNT_MIN_LIQUIDATION_DISTANCE?.gte(1)) {
+      ctx.addIssue({
+        code: "custom",
+        message: "ACCOUNT_MIN_LIQUIDATION_DISTANCE 必须小于 1",
+        path: ["ACCOUNT_MIN_LIQUIDATION_DISTANCE"],
+      });
+    }
+    // list 分布的首档数量取列表第一项，其余分布以 GRID_QUANTITY 作为首档数量
+    const profile = data.GRID_QUANTITY_PROFILE;
+    const requiredQuantityKeys = {
+      flat: ["GRID_QUANTITY"],
+      linear: ["GRID_QUANTITY", "GRID_QUANTITY_STEP"],
+      geometric: ["GRID_QUANTITY", "GRID_QUANTITY_RATIO"],
+      list: ["GRID_QUANTITY_LIST"],
+    } as const;
+    for (const key of requiredQuantityKeys[profile]) {
+      if (data[key] === undefined) {
+        ctx.addIssue({
+          code: "custom",
+          message: `GRID_QUANTITY_PROFILE=${profile} 时必须提供 ${key}`,
+          path: [key],
+        });
+      }
+    }
+    // 区间网格的间距由上下边界与价格线数量推导，无需单独配置
+    const isRange = data.GRID_MODE === "range";
+    if (isRange) {
+      for (const key of ["GRID_RANGE_LOWER", "GRID_RANGE_UPPER", "GRID_RANGE_LEVELS"] as const) {
+        if (data[key] === undefined) {
+          ctx.addIssue({
+            code: "custom",
+            message: `GRID_MODE=range 时必须提供 ${key}`,
+            path: [key],
+          });
+        }
+      }
+      if (
+        data.GRID_RANGE_LOWER &&
+        data.GRID_RANGE_UPPER &&
+        data.GRID_RANGE_LOWER.gte(data.GRID_RANGE_UPPER)
+      ) {
+        ctx.addIssue({
+          code: "custom",
+          message: "GRID_RANGE_LOWER 必须小于 GRID_RANGE_UPPER",
+          path: ["GRID_RANGE_LOWER"],
+        });
+      }
+      // 区间网格的档位与间距均由价格线决定，滑动网格参数不生效，设置时报错以免误以为生效
+      for (const key of SLIDING_ONLY_KEYS) {
+        if (data[key] !== undefined) {
+          ctx.addIssue({
+            code: "custom",
+            message: `GRID_MODE=range 时不支持 ${key}，档位由 GRID_RANGE_* 决定`,
+            path: [key],
+          });
+        }
+      }
+    } else if (data.GRID_LEVELS === undefined) {
+      ctx.addIssue({
+        code: "custom",
+        message: "GRID_MODE=sliding 时必须提供 GRID_LEVELS",
+        path: ["GRID_LEVELS"],
+      });
+    }
+    const isAdaptive = data.GRID_SPACING_MODE === "ATR" || data.GRID_SPACING_MODE === "VOL";
+    if (isAdaptive) {
+      // 自适应间距统一作用于两侧，且区间网格的价格线固定，二者均不兼容
+      const conflicts = [
+        "GRID_BUY_SPACING_MODE",
+        "GRID_BUY_SPACING",
+        "GRID_BUY_SPACING_PERCENT",
+        "GRID_SELL_SPACING_MODE",
+        "GRID_SELL_SPACING",
+        "GRID_SELL_SPACING_PERCENT",
+      ] as const;
+      for (const key of conflicts) {
+        if (data[key] !== undefined) {
+          ctx.addIssue({
+            code: "custom",
+            message: `GRID_SPACING_MODE=${data.GRID_SPACING_MODE} 时不支持 ${key}`,
+            path: [key],
+          });
+        }
+      }
+      if (isRange) {
+        ctx.addIssue({
+          code: "custom",
+          message: "GRID_MODE=range 时 GRID_SPACING_MODE 仅支持 ABS 或 PERCENT",
+          path: ["GRID_SPACING_MODE"],
+        });
+      }
+      for (const key of ["GRID_VOL_MIN_SPACING", "GRID_VOL_MAX_SPACING"] as const) {
+        if (data[key] === undefined) {
+          ctx.addIssue({
+            code: "custom",
+            message: `GRID_SPACING_MODE=${data.GRID_SPACING_MODE} 时必须提供 ${key}`,
+            path: [key],
+          });
+        }
+      }
+      if (
+        data.GRID_VOL_MIN_SPACING &&
+        data.GRID_VOL_MAX_SPACING &&
+        data.GRID_VOL_MIN_SPACING.gt(data.GRID_VOL_MAX_SPACING)
+      ) {
+        ctx.addIssue({
+          code: "custom",
+          message: "GRID_VOL_MIN_SPACING 不能大于 GRID_VOL_MAX_SPACING",
+          path: ["GRID_VOL_MIN_SPACING"],
+        });
+      }
+    }
+    if (!isRange && data.GRID_SPACING_MODE === "ABS" && !data.GRID_SPACING) {
       ctx.addIssue({
         code: "custom",
         message: "GRID_SPACING_MODE=ABS 时必须提供 GRID_SPACING",
         path: ["GRID_SPACING"],
       });
     }
-    if (data.GRID_SPACING_MODE === "PERCENT" && !data.GRID_SPACING_PERCENT) {
+    if (!isRange && data.GRID_SPACING_MODE === "PERCENT" && !data.GRID_SPACING_PERCENT) {
       ctx.addIssue({
         code: "custom",
         message: "GRID_SPACING_MODE=PERCENT 时必须提供 GRID_SPACING_PERCENT",
         path: ["GRID_SPACING_PERCENT"],
       });
     }
-    if (data.EXCHANGE === "extended" && !data.EXTENDED_API_KEY) {
+    // 单边间距未提供的字段沿用基础间距，按该侧最终生效的模式检查间距是否齐全
+    for (const side of ["BUY", "SELL"] as const) {
+      const spacing = isRange ? undefined : loadSideSpacing(data, side);
+      if (spacing?.mode === "ABS" && !spacing.spacing) {
+        ctx.addIssue({
+          code: "custom",
+          message: `GRID_${side}_SPACING_MODE=ABS 时必须提供 GRID_${side}_SPACING 或 GRID_SPACING`,
+          path: [`GRID_${side}_SPACING`],
+        });
+      }
+      if (spacing?.mode === "PERCENT" && !spacing.spacingPercent) {
+        ctx.addIssue({
+          code: "custom",
+          message: `GRID_${side}_SPACING_MODE=PERCENT 时必须提供 GRID_${side}_SPACING_PERCENT 或 GRID_SPACING_PERCENT`,
+          path: [`GRID_${side}_SPACING_PERCENT`],
+        });
+      }
+    }
+    if (data.GRID_REFERENCE_PRICE === "median" && data.GRID_REFERENCE_EXCHANGES.length === 0) {
       ctx.addIssue({
         code: "custom",
-        message: "EXCHANGE=extended 时必须提供 EXTENDED_API_KEY",
-        path: ["EXTENDED_API_KEY"],
+        message: "GRID_REFERENCE_PRICE=median 时必须提供 GRID_REFERENCE_EXCHANGES",
+        path: ["GRID_REFERENCE_EXCHANGES"],
       });
     }
-    if (data.EXCHANGE === "extended" && !data.EXTENDED_L2_PRIVATE_KEY) {
+    if (data.GRID_REFERENCE_EXCHANGES.some((name) => name === data.EXCHANGE)) {
+      ctx.addIssue({
+        code: "custom",
+        message: `GRID_REFERENCE_EXCHANGES 无需包含下单交易所 ${data.EXCHANGE}`,
+        path: ["GRID_REFERENCE_EXCHANGES"],
+      });
+    }
+    // 纸面交易使用真实行情、参考价使用其他交易所行情时，同样需要对应交易所的凭据。
+    const liveExchanges: Array<[LiveExchangeName, string]> = [];
+    if (data.EXCHANGE !== "paper") {
+      liveExchanges.push([data.EXCHANGE, `EXCHANGE=${data.EXCHANGE}`]);
+    } else if (data.PAPER_QUOTE_SOURCE !== "file") {
+      liveExchanges.push([
+        data.PAPER_QUOTE_SOURCE,
+        `PAPER_QUOTE_SOURCE=${data.PAPER_QUOTE_SOURCE}`,
+      ]);
+    }
+    for (const name of data.GRID_REFERENCE_EXCHANGES) {
+      liveExchanges.push([name, `GRID_REFERENCE_EXCHANGES 包含 ${name}`]);
+    }
+    for (const [liveExchange, liveLabel] of liveExchanges) {
+      if (liveExchange === "extended" && !data.EXTENDED_API_KEY) {
+        ctx.addIssue({
+          code: "custom",
+          message: `${liveLabel} 时必须提供 EXTENDED_API_KEY`,
+          path: ["EXTENDED_API_KEY"],
+        });
+      }
+      if (liveExchange === "extended" && !data.EXTENDED_L2_PRIVATE_KEY) {
+        ctx.addIssue({
+          code: "custom",
+          message: `${liveLabel} 时必须提供 EXTENDED_L2_PRIVATE_KEY`,
+          path: ["EXTENDED_L2_PRIVATE_KEY"],
+        });
+      }
+      if (liveExchange === "nado" && !data.NADO_PRIVATE_KEY) {
+        ctx.addIssue({
+          code: "custom",
+          message: `${liveLabel} 时必须提供 NADO_PRIVATE_KEY`,
+          path: ["NADO_PRIVATE_KEY"],
+        });
+      }
+      if (liveExchange === "hyperliquid" && !data.HYPERLIQUID_PRIVATE_KEY) {
+        ctx.addIssue({
+          code: "custom",
+          message: `${liveLabel} 时必须提供 HYPERLIQUID_PRIVATE_KEY`,
+          path: ["HYPERLIQUID_PRIVATE_KEY"],
+        });
+      }
+    }
+    if (data.CONTROL_API_ENABLED && (data.CONTROL_API_TOKEN?.length ?? 0) < 16) {
       ctx.addIssue({
         code: "custom",
-        message: "EXCHANGE=extended 时必须提供 EXTENDED_L2_PRIVATE_KEY",
-        path: ["EXTENDED_L2_PRIVATE_KEY"],
+        message: "CONTROL_API_ENABLED=true 时必须提供至少 16 位的 CONTROL_API_TOKEN",
+        path: ["CONTROL_API_TOKEN"],
       });
     }
-    if (data.EXCHANGE === "nado" && !data.NADO_PRIVATE_KEY) {
+    if (data.CONTROL_API_PORT > 65535) {
       ctx.addIssue({
         code: "custom",
-        message: "EXCHANGE=nado 时必须提供 NADO_PRIVATE_KEY",
-        path: ["NADO_PRIVATE_KEY"],
+        message: `CONTROL_API_PORT 超出端口范围: ${data.CONTROL_API_PORT}`,
+        path: ["CONTROL_API_PORT"],
       });
     }
-    if (data.EXCHANGE === "hyperliquid" && !data.HYPERLIQUID_PRIVATE_KEY) {
+    if (data.EXCHANGE === "paper" && data.PAPER_QUOTE_SOURCE === "file" && !data.PAPER_QUOTE_FILE) {
       ctx.addIssue({
         code: "custom",
-        message: "EXCHANGE=hyperliquid 时必须提供 HYPERLIQUID_PRIVATE_KEY",
-        path: ["HYPERLIQUID_PRIVATE_KEY"],
+        message: "PAPER_QUOTE_SOURCE=file 时必须提供 PAPER_QUOTE_FILE",
+        path: ["PAPER_QUOTE_FILE"],
       });
     }
   });
@@ -377,17 +1039,118 @@ function formatZodError(error: z.ZodError): string {
 }
 
 /**
- * 读取环境变量并转换为结构化配置。
+ * 读取环境变量并转换为结构化配置，overrides 优先于进程环境变量。
  */
-function readEnv(): EnvValues {
+function readEnv(overrides?: Record<string, string>): EnvValues {
   ensureEnvLoaded();
-  const result = envSchema.safeParse(process.env);
+  const result = envSchema.safeParse({ ...process.env, ...overrides });
   if (!result.success) {
     throw new Error(formatZodError(result.error));
   }
   return result.data;
 }
 
+/**
+ * 解析 GRID_INSTANCES：逗号分隔的网格标识，仅允许字母与数字，不区分大小写去重。
+ */
+function parseGridInstances(raw: string | undefined): string[] {
+  const ids: string[] = [];
+  for (const item of (raw ?? "").split(",")) {
+    const id = item.trim();
+    if (!id) {
+      continue;
+    }
+    if (!/^[A-Za-z0-9]+$/.test(id)) {
+      throw new Error(`GRID_INSTANCES 的网格标识仅支持字母与数字: ${id}`);
+    }
+    if (ids.some((existing) => existing.toUpperCase() === id.toUpperCase())) {
+      throw new Error(`GRID_INSTANCES 存在重复的网格标识: ${id}`);
+    }
+    ids.push(id);
+  }
+  return ids;
+}
+
+/**
+ * 构建单个网格实例的环境变量覆盖：{ID}_GRID_* 覆盖同名 GRID_* 变量，
+ * 未覆盖时交易对取网格标识，策略标识取 GRID_STRATEGY_ID 加网格标识后缀。
+ */
+function buildInstanceOverrides(id: string): Record<string, string> {
+  const prefix = `${id.toUpperCase()}_`;
+  const overrides: Record<string, string> = {};
+  for (const [key, value] of Object.entries(process.env)) {
+    if (value !== undefined && key.startsWith(`${prefix}GRID_`)) {
+      overrides[key.slice(prefix.length)] = value;
+    }
+  }
+  overrides.GRID_SYMBOL ??= id;
+  const baseStrategyId = process.env.GRID_STRATEGY_ID?.trim() || DEFAULT_STRATEGY_ID;
+  overrides.GRID_STRATEGY_ID ??= `${baseStrategyId}-${id.toLowerCase()}`;
+  return overrides;
+}
+
+/**
+ * 读取各网格实例的环境变量；未配置 GRID_INSTANCES 时按单网格读取。
+ */
+function readGridEnvs(): EnvValues[] {
+  ensureEnvLoaded();
+  const ids = parseGridInstances(process.env.GRID_INSTANCES);
+  if (ids.length === 0) {
+    return [readEnv()];
+  }
+  return ids.map((id) => {
+    try {
+      return readEnv(buildInstanceOverrides(id));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`网格 ${id} 配置无效: ${message}`);
+    }
+  });
+}
+
+/**
+ * 校验多网格之间的约束：策略标识与交易对不可重复，录制文件回放仅支持单网格。
+ */
+function validateGrids(grids: GridConfig[], env: EnvValues): void {
+  const strategyIds = new Set<string>();
+  const symbols = new Set<string>();
+  for (const grid of grids) {
+    if (strategyIds.has(grid.strategyId)) {
+      throw new Error(`网格策略标识重复: ${grid.strategyId}`);
+    }
+    strategyIds.add(grid.strategyId);
+    const symbol = grid.symbol.toUpperCase();
+    if (symbols.has(symbol)) {
+      throw new Error(`网格交易对重复: ${grid.symbol}`);
+    }
+    symbols.add(symbol);
+  }
+  if (grids.length > 1 && env.EXCHANGE === "paper" && env.PAPER_QUOTE_SOURCE === "file") {
+    throw new Error("PAPER_QUOTE_SOURCE=file 仅支持单个网格");
+  }
+  for (const symbol of Object.keys(env.PORTFOLIO_SYMBOL_MAX_NOTIONAL)) {
+    if (!symbols.has(symbol)) {
+      throw new Error(`PORTFOLIO_SYMBOL_MAX_NOTIONAL 包含未配置网格的交易对: ${symbol}`);
+    }
+  }
+  for (const grid of grids) {
+    if (!grid.leverage) {
+      continue;
+    }
+    if (env.EXCHANGE === "nado") {
+      throw new Error(`Nado 不支持按市场设置杠杆或保证金模式: ${grid.strategyId}`);
+    }
+    if (env.EXCHANGE === "extended" && grid.leverage.marginMode === "isolated") {
+      throw new Error(`Extended 仅支持全仓模式: ${grid.strategyId}`);
+    }
+  }
+}
+
+/**
+ * 平仓单相对盘口的默认滑点上限（0.5%）。
+ */
+const DEFAULT_FLATTEN_SLIPPAGE = "0.005";
+
 /**
  * 构建网格配置。
  */
@@ -395,69 +1158,333 @@ function loadGridConfig(env: EnvValues): GridConfig {
   const baseConfig: GridConfig = {
     strategyId: env.GRID_STRATEGY_ID,
     symbol: env.GRID_SYMBOL,
-    levels: env.GRID_LEVELS,
-    spacingMode: env.GRID_SPACING_MODE,
+    mode: env.GRID_MODE,
+    range:
+      env.GRID_MODE === "range" &&
+      env.GRID_RANGE_LOWER &&
+      env.GRID_RANGE_UPPER &&
+      env.GRID_RANGE_LEVELS !== undefined
+        ? {
+            lower: env.GRID_RANGE_LOWER,
+            upper: env.GRID_RANGE_UPPER,
+            levels: env.GRID_RANGE_LEVELS,
+            exitPolicy: env.GRID_RANGE_EXIT_POLICY,
+          }
+        : undefined,
+    fillMode: env.GRID_FILL_MODE,
+    // 区间网格的档位数取价格线数量
+    levels: env.GRID_LEVELS ?? env.GRID_RANGE_LEVELS ?? 0,
+    spacingMode: resolveSpacingMode(env.GRID_SPACING_MODE),
+    adaptiveSpacing: loadAdaptiveSpacing(env),
+    referencePrice: loadReferencePrice(env),
     spacing: undefined,
     spacingPercent: undefined,
-    quantity: env.GRID_QUANTITY,
+    buyLevels: env.GRID_BUY_LEVELS,
+    sellLevels: env.GRID_SELL_LEVELS,
+    buySpacing: loadSideSpacing(env, "BUY"),
+    sellSpacing: loadSideSpacing(env, "SELL"),
+    quantity: env.GRID_QUANTITY ?? env.GRID_QUANTITY_LIST?.[0] ?? Decimal(0),
+    quantityUnit: env.GRID_QUANTITY_UNIT,
+    quantityProfile: loadQuantityProfile(env),
     postOnly: env.GRID_POST_ONLY,
     cancelTimeoutMs: env.GRID_CANCEL_TIMEOUT_MS,
     maxPosition: env.GRID_MAX_POSITION,
+    inventorySkew: loadInventorySkew(env),
     maxOpenOrders: env.GRID_MAX_OPEN_ORDERS,
+    recoveryMode: env.GRID_RECOVERY_MODE,
+    pausePolicy: env.GRID_PAUSE_POLICY,
+    shutdownPolicy: env.GRID_SHUTDOWN_POLICY,
+    shutdownTimeoutMs: env.GRID_SHUTDOWN_TIMEOUT_MS,
+    flattenSlippage: env.GRID_FLATTEN_SLIPPAGE ?? Decimal(DEFAULT_FLATTEN_SLIPPAGE),
+    flattenTimeoutMs: env.GRID_FLATTEN_TIMEOUT_MS,
+    riskAction: env.GRID_RISK_ACTION,
+    drawdown: loadDrawdown(env),
+    preTrade: loadPreTrade(env),
+    leverage:
+      env.GRID_LEVERAGE !== undefined || env.GRID_MARGIN_MODE !== undefined
+        ? { leverage: env.GRID_LEVERAGE, marginMode: env.GRID_MARGIN_MODE }
+        : undefined,
   };
 
-  if (env.GRID_SPACING_MODE === "ABS") {
+  // 自适应间距在波动率窗口填满前使用固定间距，未配置时取下限
+  const warmupSpacing = baseConfig.adaptiveSpacing?.min;
+  if (baseConfig.spacingMode === "ABS") {
     return {
       ...baseConfig,
-      spacing: env.GRID_SPACING,
+      spacing: env.GRID_SPACING ?? warmupSpacing,
     };
   }
 
   return {
     ...baseConfig,
-    spacingPercent: env.GRID_SPACING_PERCENT,
+    spacingPercent: env.GRID_SPACING_PERCENT ?? warmupSpacing,
   };
 }
 
 /**
- * 构建交易所配置，按交易所类型组装对应配置。
+ * 构建亏损熔断参数，当日亏损与峰值回撤均未配置时返回 undefined。
  */
-function loadExchangeConfig(env: EnvValues): ExchangeConfig {
-  if (env.EXCHANGE === "extended") {
-    // Extended 凭据已在环境校验阶段保证存在。
-    const extendedApiKey = env.EXTENDED_API_KEY as string;
-    const extendedL2PrivateKey = env.EXTENDED_L2_PRIVATE_KEY as string;
-    return {
-      name: env.EXCHANGE,
-      extended: {
-        apiKey: extendedApiKey,
-        l2PrivateKey: extendedL2PrivateKey,
-        network: env.EXTENDED_NETWORK,
-      },
-    };
+function loadDrawdown(
+  env: Pick<EnvValues, "GRID_MAX_DAILY_LOSS" | "GRID_MAX_DRAWDOWN" | "GRID_DRAWDOWN_ACTION">
+): GridDrawdownConfig | undefined {
+  if (!env.GRID_MAX_DAILY_LOSS && !env.GRID_MAX_DRAWDOWN) {
+    return undefined;
   }
-  // Nado 私钥已在环境校验阶段保证存在。
-  if (env.EXCHANGE === "nado") {
-    const nadoPrivateKey = env.NADO_PRIVATE_KEY as string;
-    return {
-      name: env.EXCHANGE,
-      nado: {
-        rpcUrl: env.NADO_RPC_URL,
-        privateKey: nadoPrivateKey,
-        subaccountNames: parseSubaccountNames(env.NADO_SUBACCOUNT_NAMES),
-      },
-    };
+  return {
+    maxDailyLoss: env.GRID_MAX_DAILY_LOSS,
+    maxDrawdown: env.GRID_MAX_DRAWDOWN,
+    action: env.GRID_DRAWDOWN_ACTION,
+  };
+}
+
+/**
+ * 构建下单前检查阈值，均未配置时返回 undefined。
+ */
+function loadPreTrade(
+  env: Pick<
+    EnvValues,
+    "GRID_MAX_PRICE_DEVIATION" | "GRID_MAX_QUOTE_AGE_MS" | "GRID_MAX_ORDER_NOTIONAL"
+  >
+): PreTradeLimits | undefined {
+  if (
+    !env.GRID_MAX_PRICE_DEVIATION &&
+    env.GRID_MAX_QUOTE_AGE_MS === undefined &&
+    !env.GRID_MAX_ORDER_NOTIONAL
+  ) {
+    return undefined;
+  }
+  return {
+    maxPriceDeviation: env.GRID_MAX_PRICE_DEVIATION,
+    maxQuoteAgeMs: env.GRID_MAX_QUOTE_AGE_MS,
+    maxOrderNotional: env.GRID_MAX_ORDER_NOTIONAL,
+  };
+}
+
+/**
+ * 构建库存偏移参数，价格偏移与数量缩放均未启用时返回 undefined。
+ */
+function loadInventorySkew(
+  env: Pick<EnvValues, "GRID_SKEW_CENTER_LEVELS" | "GRID_SKEW_SIZE_FACTOR" | "GRID_SKEW_MIN_CHANGE">
+): GridInventorySkewConfig | undefined {
+  const sizeFactor = env.GRID_SKEW_SIZE_FACTOR ?? Decimal(0);
+  if (env.GRID_SKEW_CENTER_LEVELS === 0 && sizeFactor.isZero()) {
+    return undefined;
+  }
+  return {
+    centerLevels: env.GRID_SKEW_CENTER_LEVELS,
+    sizeFactor,
+    minChange: env.GRID_SKEW_MIN_CHANGE ?? Decimal("0.1"),
+  };
+}
+
+/**
+ * 自适应间距按波动率来源换算为实际间距模式：ATR 为绝对价差，VOL 为百分比。
+ */
+function resolveSpacingMode(mode: GridSpacingMode | GridVolatilitySource): GridSpacingMode {
+  if (mode === "ATR") {
+    return "ABS";
+  }
+  return mode === "VOL" ? "PERCENT" : mode;
+}
+
+/**
+ * 构建参考价参数。
+ */
+function loadReferencePrice(
+  env: Pick<
+    EnvValues,
+    | "GRID_REFERENCE_PRICE"
+    | "GRID_REFERENCE_EMA_MS"
+    | "GRID_REFERENCE_EXCHANGES"
+    | "GRID_REFERENCE_MAX_AGE_MS"
+  >
+): GridConfig["referencePrice"] {
+  return {
+    source: env.GRID_REFERENCE_PRICE,
+    emaPeriodMs: env.GRID_REFERENCE_EMA_MS,
+    exchanges: env.GRID_REFERENCE_EXCHANGES,
+    maxQuoteAgeMs: env.GRID_REFERENCE_MAX_AGE_MS,
+  };
+}
+
+/**
+ * 构建自适应间距参数，固定间距模式返回 undefined；上下限已在环境校验阶段保证存在。
+ */
+function loadAdaptiveSpacing(
+  env: Pick<
+    EnvValues,
+    | "GRID_SPACING_MODE"
+    | "GRID_VOL_BAR_MS"
+    | "GRID_VOL_WINDOW"
+    | "GRID_VOL_MULTIPLIER"
+    | "GRID_VOL_MIN_SPACING"
+    | "GRID_VOL_MAX_SPACING"
+    | "GRID_VOL_TOLERANCE"
+  >
+): GridAdaptiveSpacingConfig | undefined {
+  if (env.GRID_SPACING_MODE !== "ATR" && env.GRID_SPACING_MODE !== "VOL") {
+    return undefined;
+  }
+  return {
+    source: env.GRID_SPACING_MODE,
+    barMs: env.GRID_VOL_BAR_MS,
+    window: env.GRID_VOL_WINDOW,
+    multiplier: env.GRID_VOL_MULTIPLIER ?? Decimal(1),
+    min: env.GRID_VOL_MIN_SPACING as Decimal,
+    max: env.GRID_VOL_MAX_SPACING as Decimal,
+    tolerance: env.GRID_VOL_TOLERANCE ?? Decimal("0.2"),
+  };
+}
+
+/**
+ * 构建每档数量分布，分布参数已在环境校验阶段保证存在。
+ */
+function loadQuantityProfile(
+  env: Pick<
+    EnvValues,
+    "GRID_QUANTITY_PROFILE" | "GRID_QUANTITY_STEP" | "GRID_QUANTITY_RATIO" | "GRID_QUANTITY_LIST"
+  >
+): GridQuantityProfile {
+  switch (env.GRID_QUANTITY_PROFILE) {
+    case "flat":
+      return { type: "flat" };
+    case "linear":
+      return { type: "linear", step: env.GRID_QUANTITY_STEP as Decimal };
+    case "geometric":
+      return { type: "geometric", ratio: env.GRID_QUANTITY_RATIO as Decimal };
+    case "list":
+      return { type: "list", values: env.GRID_QUANTITY_LIST as Decimal[] };
+  }
+}
+
+/**
+ * 构建单边间距：该侧未配置任何间距变量时返回 undefined（沿用基础间距），
+ * 否则缺省的模式与数值回退到基础配置。
+ */
+function loadSideSpacing(
+  env: Pick<
+    EnvValues,
+    | "GRID_SPACING_MODE"
+    | "GRID_SPACING"
+    | "GRID_SPACING_PERCENT"
+    | "GRID_BUY_SPACING_MODE"
+    | "GRID_BUY_SPACING"
+    | "GRID_BUY_SPACING_PERCENT"
+    | "GRID_SELL_SPACING_MODE"
+    | "GRID_SELL_SPACING"
+    | "GRID_SELL_SPACING_PERCENT"
+  >,
+  side: "BUY" | "SELL"
+): GridSideSpacing | undefined {
+  const mode = side === "BUY" ? env.GRID_BUY_SPACING_MODE : env.GRID_SELL_SPACING_MODE;
+  const spacing = side === "BUY" ? env.GRID_BUY_SPACING : env.GRID_SELL_SPACING;
+  const spacingPercent =
+    side === "BUY" ? env.GRID_BUY_SPACING_PERCENT : env.GRID_SELL_SPACING_PERCENT;
+  if (mode === undefined && spacing === undefined && spacingPercent === undefined) {
+    return undefined;
   }
-  const hyperliquidPrivateKey = env.HYPERLIQUID_PRIVATE_KEY as string;
+  const resolvedMode = mode ?? resolveSpacingMode(env.GRID_SPACING_MODE);
+  if (resolvedMode === "ABS") {
+    return { mode: resolvedMode, spacing: spacing ?? env.GRID_SPACING };
+  }
+  return { mode: resolvedMode, spacingPercent: spacingPercent ?? env.GRID_SPACING_PERCENT };
+}
+
+/**
+ * 构建 Extended 配置，凭据已在环境校验阶段保证存在。
+ */
+function loadExtendedConfig(env: EnvValues): ExtendedConfig {
+  return {
+    apiKey: env.EXTENDED_API_KEY as string,
+    l2PrivateKey: env.EXTENDED_L2_PRIVATE_KEY as string,
+    network: env.EXTENDED_NETWORK,
+  };
+}
+
+/**
+ * 构建 Nado 配置，私钥已在环境校验阶段保证存在。
+ */
+function loadNadoConfig(env: EnvValues): NadoConfig {
+  return {
+    rpcUrl: env.NADO_RPC_URL,
+    privateKey: env.NADO_PRIVATE_KEY as string,
+    subaccountNames: parseSubaccountNames(env.NADO_SUBACCOUNT_NAMES),
+  };
+}
+
+/**
+ * 构建 Hyperliquid 配置，私钥已在环境校验阶段保证存在。
+ */
+function loadHyperliquidConfig(env: EnvValues): HyperliquidConfig {
+  return {
+    privateKey: env.HYPERLIQUID_PRIVATE_KEY as string,
+    userAddress: env.HYPERLIQUID_USER_ADDRESS,
+    network: env.HYPERLIQUID_NETWORK,
+    dex: env.HYPERLIQUID_DEX || undefined,
+    minNotional: env.HYPERLIQUID_MIN_NOTIONAL,
+  };
+}
+
+/**
+ * 构建纸面交易配置，file 模式下的步长与费率提供保守默认值。
+ */
+function loadPaperConfig(env: EnvValues, grids: GridConfig[]): PaperConfig {
+  return {
+    quoteSource: env.PAPER_QUOTE_SOURCE,
+    quoteFile: env.PAPER_QUOTE_FILE,
+    replaySpeed: env.PAPER_REPLAY_SPEED,
+    initialPositions: loadPaperInitialPositions(env.PAPER_INITIAL_POSITION, grids),
+    minPriceChange: env.PAPER_MIN_PRICE_CHANGE ?? Decimal("0.01"),
+    minOrderSizeChange: env.PAPER_MIN_ORDER_SIZE_CHANGE ?? Decimal("0.0001"),
+    makerFee: env.PAPER_MAKER_FEE ?? Decimal(0),
+    takerFee: env.PAPER_TAKER_FEE ?? Decimal(0),
+  };
+}
+
+/**
+ * 按交易对展开纸面交易初始仓位：单个数字仅在单网格时使用，按交易对配置时不得包含未配置网格的交易对。
+ */
+function loadPaperInitialPositions(
+  value: EnvValues["PAPER_INITIAL_POSITION"],
+  grids: GridConfig[]
+): Record<string, Decimal> {
+  const symbols = grids.map((grid) => grid.symbol.toUpperCase());
+  if (value === undefined) {
+    return {};
+  }
+  if (Decimal.isBigNumber(value)) {
+    if (value.isZero()) {
+      return {};
+    }
+    if (symbols.length > 1) {
+      throw new Error(
+        "多网格时 PAPER_INITIAL_POSITION 须按 交易对:数量 配置，如 BTC:0.01,ETH:-0.1"
+      );
+    }
+    return { [symbols[0]]: value };
+  }
+  for (const symbol of Object.keys(value)) {
+    if (!symbols.includes(symbol)) {
+      throw new Error(`PAPER_INITIAL_POSITION 包含未配置网格的交易对: ${symbol}`);
+    }
+  }
+  return value;
+}
+
+/**
+ * 构建交易所配置，按交易所类型组装对应配置。
+ */
+function loadExchangeConfig(env: EnvValues, grids: GridConfig[]): ExchangeConfig {
+  // 纸面交易仅装配行情来源对应的交易所配置，各网格参考价使用的其他交易所同样需要装配。
+  const paper = env.EXCHANGE === "paper" ? loadPaperConfig(env, grids) : undefined;
+  const required = new Set<string>(grids.flatMap((grid) => grid.referencePrice.exchanges));
+  required.add(paper ? paper.quoteSource : env.EXCHANGE);
   return {
     name: env.EXCHANGE,
-    hyperliquid: {
-      privateKey: hyperliquidPrivateKey,
-      userAddress: env.HYPERLIQUID_USER_ADDRESS,
-      network: env.HYPERLIQUID_NETWORK,
-      dex: env.HYPERLIQUID_DEX || undefined,
-      minNotional: env.HYPERLIQUID_MIN_NOTIONAL,
-    },
+    paper,
+    extended: required.has("extended") ? loadExtendedConfig(env) : undefined,
+    nado: required.has("nado") ? loadNadoConfig(env) : undefined,
+    hyperliquid: required.has("hyperliquid") ? loadHyperliquidConfig(env) : undefined,
   };
 }
 
@@ -495,16 +1522,96 @@ function loadDebugConfig(env: EnvValues): DebugConfig {
   };
 }
 
+/**
+ * 构建行情录制配置。
+ */
+function loadCaptureConfig(env: EnvValues): CaptureConfig {
+  return {
+    enabled: env.CAPTURE_ENABLED,
+    format: env.CAPTURE_FORMAT,
+    dir: env.CAPTURE_DIR,
+    maxFileBytes: Math.floor(env.CAPTURE_MAX_FILE_MB * 1024 * 1024),
+  };
+}
+
+/**
+ * 构建控制接口配置。
+ */
+function loadControlApiConfig(env: EnvValues): ControlApiConfig {
+  return {
+    enabled: env.CONTROL_API_ENABLED,
+    port: env.CONTROL_API_PORT,
+    token: env.CONTROL_API_TOKEN ?? "",
+  };
+}
+
+/**
+ * 构建组合风控配置，未配置任何限额时返回 undefined。
+ */
+function loadPortfolioRiskConfig(env: EnvValues): PortfolioRiskConfig | undefined {
+  const config: PortfolioRiskConfig = {
+    maxGrossNotional: env.PORTFOLIO_MAX_GROSS_NOTIONAL,
+    maxNetDelta: env.PORTFOLIO_MAX_NET_DELTA_USD,
+    symbolMaxNotional: env.PORTFOLIO_SYMBOL_MAX_NOTIONAL,
+    maxOpenOrders: env.PORTFOLIO_MAX_OPEN_ORDERS,
+  };
+  const enabled =
+    config.maxGrossNotional !== undefined ||
+    config.maxNetDelta !== undefined ||
+    config.maxOpenOrders !== undefined ||
+    Object.keys(config.symbolMaxNotional).length > 0;
+  return enabled ? config : undefined;
+}
+
+/**
+ * 构建账户保证金风控配置，未配置任何阈值时返回 undefined。
+ */
+function loadMarginRiskConfig(env: EnvValues): MarginRiskConfig | undefined {
+  if (!env.ACCOUNT_MAX_MARGIN_RATIO && !env.ACCOUNT_MIN_LIQUIDATION_DISTANCE) {
+    return undefined;
+  }
+  return {
+    maxMarginRatio: env.ACCOUNT_MAX_MARGIN_RATIO,
+    minLiquidationDistance: env.ACCOUNT_MIN_LIQUIDATION_DISTANCE,
+    action: env.ACCOUNT_MARGIN_ACTION,
+    pollIntervalMs: env.ACCOUNT_POLL_INTERVAL_MS,
+  };
+}
+
 /**
  * 加载应用配置，供启动流程统一使用。
  */
 export function loadAppConfig(): AppConfig {
-  const env = readEnv();
+  const envs = readGridEnvs();
+  // 网格覆盖仅涉及 GRID_* 变量，其余配置各实例一致，取首个即可。
+  const env = envs[0];
+  const grids = envs.map((item) => loadGridConfig(item));
+  validateGrids(grids, env);
   return {
-    grid: loadGridConfig(env),
-    exchange: loadExchangeConfig(env),
+    grids,
+    exchange: loadExchangeConfig(env, grids),
     notification: loadNotificationConfig(env),
     db: loadDbConfig(env),
     debug: loadDebugConfig(env),
+    capture: loadCaptureConfig(env),
+    control: loadControlApiConfig(env),
+    portfolioRisk: loadPortfolioRiskConfig(env),
+    marginRisk: loadMarginRiskConfig(env),
+  };
+}
+
+/**
+ * 加载回测配置：强制使用纸面交易 file 模式，不要求交易所凭据。
+ */
+export function loadBacktestConfig(quoteFile: string): BacktestConfig {
+  const env = readEnv({
+    EXCHANGE: "paper",
+    PAPER_QUOTE_SOURCE: "file",
+    PAPER_QUOTE_FILE: quoteFile,
+  });
+  const grid = loadGridConfig(env);
+  return {
+    grid,
+    paper: loadPaperConfig(env, [grid]),
   };
 }
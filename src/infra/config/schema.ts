@@ -1,11 +1,33 @@
 import type { Decimal } from "../../shared/number";
-import type { GridSpacingMode } from "../../core/grid/types";
+import type { RiskAction } from "../../core/risk/pause-rule";
+import type { LeverageTarget } from "../../core/exchange/leverage";
+import type { DrawdownLimits } from "../../core/risk/drawdown-guard";
+import type { PreTradeLimits } from "../../core/risk/pre-trade";
+import type { MarginLimits } from "../../core/risk/margin-guard";
+import type { PortfolioLimits } from "../../core/risk/portfolio-guard";
+import type {
+  GridAdaptiveSpacingConfig,
+  GridFillMode,
+  GridInventorySkewConfig,
+  GridMode,
+  GridQuantityProfile,
+  GridQuantityUnit,
+  GridReferencePriceConfig,
+  GridRangeLayout,
+  GridSideSpacing,
+  GridSpacingMode,
+} from "../../core/grid/types";
 
 /**
  * 支持的交易所名称。
- * 当前已接入 extended、nado、hyperliquid。
+ * 当前已接入 extended、nado、hyperliquid，paper 为本地模拟撮合。
  */
-export type ExchangeName = "extended" | "nado" | "hyperliquid";
+export type ExchangeName = "extended" | "nado" | "hyperliquid" | "paper";
+
+/**
+ * 可提供真实行情的交易所名称。
+ */
+export type LiveExchangeName = Exclude<ExchangeName, "paper">;
 
 /**
  * 网格配置，包含策略与风控所需的全部参数。
@@ -15,26 +37,106 @@ export interface GridConfig {
   strategyId: string;
   /** 交易对标识，例如 BTC */
   symbol: string;
+  /** 网格形态：sliding 滑动网格，range 固定区间网格 */
+  mode: GridMode;
+  /** 区间网格参数，仅 range 模式有效 */
+  range?: GridRangeConfig;
+  /** 成交处理：shift 按成交档位平移中心价，paired 在相邻档位挂配对止盈单 */
+  fillMode: GridFillMode;
   /** 单边档位数量 */
   levels: number;
-  /** 间距模式：绝对价差或几何百分比 */
+  /** 间距模式：绝对价差或几何百分比，自适应间距时 ATR 对应 ABS、VOL 对应 PERCENT */
   spacingMode: GridSpacingMode;
+  /** 自适应间距参数，未配置时使用固定间距 */
+  adaptiveSpacing?: GridAdaptiveSpacingConfig;
+  /** 网格中心价的参考价来源，median 额外订阅的交易所限定为真实交易所 */
+  referencePrice: Omit<GridReferencePriceConfig, "exchanges"> & { exchanges: LiveExchangeName[] };
   /** 绝对价差 */
   spacing?: Decimal;
   /** 几何百分比间距 */
   spacingPercent?: Decimal;
-  /** 每档下单数量 */
+  /** 买方档位数，未配置时沿用 levels */
+  buyLevels?: number;
+  /** 卖方档位数，未配置时沿用 levels */
+  sellLevels?: number;
+  /** 买方间距，未配置时沿用基础间距 */
+  buySpacing?: GridSideSpacing;
+  /** 卖方间距，未配置时沿用基础间距 */
+  sellSpacing?: GridSideSpacing;
+  /** 首档下单数量，单位由 quantityUnit 决定 */
   quantity: Decimal;
+  /** 数量单位：base 基础币数量，quote 计价币名义金额 */
+  quantityUnit: GridQuantityUnit;
+  /** 每档数量分布，按距中心档位数计算 */
+  quantityProfile: GridQuantityProfile;
   /** 是否使用 post-only */
   postOnly: boolean;
   /** 撤单超时（毫秒） */
   cancelTimeoutMs: number;
   /** 最大持仓绝对值 */
   maxPosition: Decimal;
+  /** 库存偏移参数，未配置时档位不随仓位偏移 */
+  inventorySkew?: GridInventorySkewConfig;
   /** 最大挂单数量 */
   maxOpenOrders: number;
+  /** 启动恢复模式：rebuild 撤单重建，adopt 接管仍在有效档位的挂单 */
+  recoveryMode: GridRecoveryMode;
+  /** 暂停时的挂单处理：keep 保留挂单，cancel 撤销全部挂单 */
+  pausePolicy: GridPausePolicy;
+  /** 退出时的处理：keep 保留挂单与仓位，cancel 撤销挂单，flatten 撤单并平仓 */
+  shutdownPolicy: GridShutdownPolicy;
+  /** 退出处理的总超时（毫秒） */
+  shutdownTimeoutMs: number;
+  /** 平仓单相对盘口的最大滑点比例 */
+  flattenSlippage: Decimal;
+  /** 紧急平仓的总超时（毫秒） */
+  flattenTimeoutMs: number;
+  /** 风控规则触发后的默认动作 */
+  riskAction: RiskAction;
+  /** 亏损熔断参数，未配置阈值时不启用 */
+  drawdown?: GridDrawdownConfig;
+  /** 下单前检查阈值，未配置时仅检查盘口交叉 */
+  preTrade?: PreTradeLimits;
+  /** 连接时写入并在首次下单前校验的杠杆与保证金模式，均未配置时不调整 */
+  leverage?: LeverageTarget;
+}
+
+/**
+ * 亏损熔断配置，金额单位为计价币。
+ */
+export interface GridDrawdownConfig extends DrawdownLimits {
+  /** 熔断触发后的动作 */
+  action: RiskAction;
+}
+
+/**
+ * 区间网格配置。
+ */
+export interface GridRangeConfig extends GridRangeLayout {
+  /** 价格离开区间时的处理 */
+  exitPolicy: GridRangeExitPolicy;
 }
 
+/**
+ * 价格离开区间时的处理：stop 停止挂新单，cancel 撤销全部挂单，close 撤单并平仓后暂停。
+ */
+export type GridRangeExitPolicy = "stop" | "cancel" | "close";
+
+/**
+ * 网格启动恢复模式。
+ */
+export type GridRecoveryMode = "rebuild" | "adopt";
+
+/**
+ * 网格暂停时的挂单处理策略。
+ */
+export type GridPausePolicy = "keep" | "cancel";
+
+/**
+ * 网格退出时的挂单与仓位处理策略。
+ */
+export type GridShutdownPolicy = "keep" | "cancel" | "flatten";
+
 /**
  * Extended 账户与网络配置。
  */
@@ -72,6 +174,28 @@ export interface HyperliquidConfig {
   minNotional?: Decimal;
 }
 
+/**
+ * 纸面交易配置，行情来自真实交易所或录制文件，撮合在本地完成。
+ */
+export interface PaperConfig {
+  /** 行情来源：真实交易所名称或 file */
+  quoteSource: LiveExchangeName | "file";
+  /** 录制行情文件路径（JSONL/CSV），仅 file 模式使用 */
+  quoteFile?: string;
+  /** 回放倍速，0 表示不等待直接回放 */
+  replaySpeed: number;
+  /** 各交易对初始净仓位（多为正，空为负），键为大写交易对，未列出的交易对为 0 */
+  initialPositions: Record<string, Decimal>;
+  /** 价格最小步长，仅 file 模式使用 */
+  minPriceChange: Decimal;
+  /** 数量最小步长，仅 file 模式使用 */
+  minOrderSizeChange: Decimal;
+  /** maker 费率，仅 file 模式使用 */
+  makerFee: Decimal;
+  /** taker 费率，仅 file 模式使用 */
+  takerFee: Decimal;
+}
+
 /**
  * 交易所配置。
  */
@@ -80,6 +204,7 @@ export interface ExchangeConfig {
   extended?: ExtendedConfig;
   nado?: NadoConfig;
   hyperliquid?: HyperliquidConfig;
+  paper?: PaperConfig;
 }
 
 /**
@@ -98,6 +223,47 @@ export interface DbConfig {
   path: string;
 }
 
+/**
+ * 行情录制配置。
+ */
+export interface CaptureConfig {
+  /** 是否启用录制 */
+  enabled: boolean;
+  /** 录制格式：jsonl 或 sqlite */
+  format: "jsonl" | "sqlite";
+  /** 录制文件目录 */
+  dir: string;
+  /** 单文件最大字节数，超过后提前轮转 */
+  maxFileBytes: number;
+}
+
+/**
+ * 本地控制接口配置，仅监听 127.0.0.1。
+ */
+export interface ControlApiConfig {
+  /** 是否启用控制接口 */
+  enabled: boolean;
+  /** 监听端口 */
+  port: number;
+  /** 访问令牌，请求需携带 Authorization: Bearer <token> */
+  token: string;
+}
+
+/**
+ * 组合风控配置：同一账户上全部网格共享的限额。
+ */
+export type PortfolioRiskConfig = PortfolioLimits;
+
+/**
+ * 账户保证金风控配置：同一账户上全部网格共享。
+ */
+export interface MarginRiskConfig extends MarginLimits {
+  /** 越限后的动作 */
+  action: RiskAction;
+  /** 账户摘要轮询间隔（毫秒） */
+  pollIntervalMs: number;
+}
+
 /**
  * 调试配置。
  */
@@ -110,9 +276,24 @@ export interface DebugConfig {
  * 应用总配置。
  */
 export interface AppConfig {
-  grid: GridConfig;
+  /** 网格实例，同一进程内共享交易所连接、行情服务与数据库 */
+  grids: GridConfig[];
   exchange: ExchangeConfig;
   notification: NotificationConfig;
   db: DbConfig;
   debug: DebugConfig;
+  capture: CaptureConfig;
+  control: ControlApiConfig;
+  /** 组合风控限额，未配置任何限额时为 undefined */
+  portfolioRisk?: PortfolioRiskConfig;
+  /** 账户保证金风控，未配置任何阈值时为 undefined */
+  marginRisk?: MarginRiskConfig;
+}
+
+/**
+ * 回测配置：网格参数沿用实盘环境变量，市场参数沿用纸面交易 file 模式。
+ */
+export interface BacktestConfig {
+  grid: GridConfig;
+  paper: PaperConfig;
 }
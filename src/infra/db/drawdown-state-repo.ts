@@ -0,0 +1,68 @@
+import { and, eq } from "drizzle-orm";
+import type { BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import { drawdownStates } from "./schema";
+import type * as schema from "./schema";
+
+/**
+ * 亏损熔断状态写入结构。
+ */
+export type DrawdownStateInsert = typeof drawdownStates.$inferInsert;
+
+/**
+ * 亏损熔断状态查询结构。
+ */
+export type DrawdownStateRow = typeof drawdownStates.$inferSelect;
+
+/**
+ * 亏损熔断状态仓储，每个策略 + 交易所 + 交易对仅保留一行。
+ */
+export class DrawdownStateRepository {
+  private readonly db: BetterSQLite3Database<typeof schema>;
+
+  constructor(db: BetterSQLite3Database<typeof schema>) {
+    this.db = db;
+  }
+
+  /**
+   * 写入或覆盖熔断状态。
+   */
+  public async upsertState(values: DrawdownStateInsert): Promise<void> {
+    this.db
+      .insert(drawdownStates)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [drawdownStates.strategyId, drawdownStates.exchange, drawdownStates.symbol],
+        set: {
+          day: values.day,
+          dayStartEquity: values.dayStartEquity,
+          peakEquity: values.peakEquity,
+          trippedAt: values.trippedAt ?? null,
+          tripReason: values.tripReason ?? null,
+          updatedAt: values.updatedAt,
+        },
+      })
+      .run();
+  }
+
+  /**
+   * 查询熔断状态，不存在时返回 null。
+   */
+  public async findState(params: {
+    strategyId: string;
+    exchange: string;
+    symbol: string;
+  }): Promise<DrawdownStateRow | null> {
+    const row = this.db
+      .select()
+      .from(drawdownStates)
+      .where(
+        and(
+          eq(drawdownStates.strategyId, params.strategyId),
+          eq(drawdownStates.exchange, params.exchange),
+          eq(drawdownStates.symbol, params.symbol)
+        )
+      )
+      .get();
+    return row ?? null;
+  }
+}
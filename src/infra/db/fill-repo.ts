@@ -0,0 +1,55 @@
+import { and, asc, eq } from "drizzle-orm";
+import type { BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import { fills } from "./schema";
+import type * as schema from "./schema";
+
+/**
+ * 成交明细写入结构。
+ */
+export type FillInsert = typeof fills.$inferInsert;
+
+/**
+ * 成交明细查询结构。
+ */
+export type FillRow = typeof fills.$inferSelect;
+
+/**
+ * 成交明细仓储。
+ */
+export class FillRepository {
+  private readonly db: BetterSQLite3Database<typeof schema>;
+
+  constructor(db: BetterSQLite3Database<typeof schema>) {
+    this.db = db;
+  }
+
+  /**
+   * 写入成交，同一订单同一累计成交量已存在时忽略，返回是否实际写入。
+   */
+  public async insertFill(values: FillInsert): Promise<boolean> {
+    const result = this.db.insert(fills).values(values).onConflictDoNothing().run();
+    return result.changes > 0;
+  }
+
+  /**
+   * 按成交时间升序查询指定策略在交易所与交易对上的全部成交。
+   */
+  public async findFills(params: {
+    strategyId: string;
+    exchange: string;
+    symbol: string;
+  }): Promise<FillRow[]> {
+    return this.db
+      .select()
+      .from(fills)
+      .where(
+        and(
+          eq(fills.strategyId, params.strategyId),
+          eq(fills.exchange, params.exchange),
+          eq(fills.symbol, params.symbol)
+        )
+      )
+      .orderBy(asc(fills.filledAt), asc(fills.id))
+      .all();
+  }
+}
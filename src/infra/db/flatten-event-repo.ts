@@ -0,0 +1,44 @@
+import { asc, eq } from "drizzle-orm";
+import type { BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import { flattenEvents } from "./schema";
+import type * as schema from "./schema";
+
+/**
+ * 平仓事件写入结构。
+ */
+export type FlattenEventInsert = typeof flattenEvents.$inferInsert;
+
+/**
+ * 平仓事件查询结构。
+ */
+export type FlattenEventRow = typeof flattenEvents.$inferSelect;
+
+/**
+ * 平仓流程事件仓储。
+ */
+export class FlattenEventRepository {
+  private readonly db: BetterSQLite3Database<typeof schema>;
+
+  constructor(db: BetterSQLite3Database<typeof schema>) {
+    this.db = db;
+  }
+
+  /**
+   * 追加一条平仓事件。
+   */
+  public async insertEvent(values: FlattenEventInsert): Promise<void> {
+    this.db.insert(flattenEvents).values(values).run();
+  }
+
+  /**
+   * 按写入顺序查询一次平仓的全部事件。
+   */
+  public async findByRunId(runId: string): Promise<FlattenEventRow[]> {
+    return this.db
+      .select()
+      .from(flattenEvents)
+      .where(eq(flattenEvents.runId, runId))
+      .orderBy(asc(flattenEvents.id))
+      .all();
+  }
+}
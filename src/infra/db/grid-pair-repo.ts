@@ -0,0 +1,105 @@
+import { and, asc, eq } from "drizzle-orm";
+import type { BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import { gridPairs } from "./schema";
+import type * as schema from "./schema";
+
+/**
+ * 配对止盈写入结构。
+ */
+export type GridPairInsert = typeof gridPairs.$inferInsert;
+
+/**
+ * 配对止盈查询结构。
+ */
+export type GridPairRow = typeof gridPairs.$inferSelect;
+
+/**
+ * 配对止盈仓储，以交易所 + 开仓 clientOrderId 唯一定位一笔配对。
+ */
+export class GridPairRepository {
+  private readonly db: BetterSQLite3Database<typeof schema>;
+
+  constructor(db: BetterSQLite3Database<typeof schema>) {
+    this.db = db;
+  }
+
+  /**
+   * 写入或更新配对，已闭合的配对不会被改回未闭合。
+   */
+  public async upsertPair(values: GridPairInsert): Promise<void> {
+    const existing = this.db
+      .select({ status: gridPairs.status })
+      .from(gridPairs)
+      .where(
+        and(
+          eq(gridPairs.exchange, values.exchange),
+          eq(gridPairs.entryClientOrderId, values.entryClientOrderId)
+        )
+      )
+      .get();
+    if (existing && existing.status !== "OPEN") {
+      return;
+    }
+    this.db
+      .insert(gridPairs)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [gridPairs.exchange, gridPairs.entryClientOrderId],
+        set: {
+          entryLevelIndex: values.entryLevelIndex,
+          exitLevelIndex: values.exitLevelIndex,
+          status: values.status,
+          exitClientOrderId: values.exitClientOrderId ?? null,
+          closePrice: values.closePrice ?? null,
+          spread: values.spread ?? null,
+          closedAt: values.closedAt ?? null,
+          updatedAt: values.updatedAt,
+        },
+      })
+      .run();
+  }
+
+  /**
+   * 按开仓时间升序查询未闭合的配对。
+   */
+  public async findOpenPairs(params: {
+    strategyId: string;
+    exchange: string;
+    symbol: string;
+  }): Promise<GridPairRow[]> {
+    return this.db
+      .select()
+      .from(gridPairs)
+      .where(
+        and(
+          eq(gridPairs.strategyId, params.strategyId),
+          eq(gridPairs.exchange, params.exchange),
+          eq(gridPairs.symbol, params.symbol),
+          eq(gridPairs.status, "OPEN")
+        )
+      )
+      .orderBy(asc(gridPairs.openedAt), asc(gridPairs.id))
+      .all();
+  }
+
+  /**
+   * 将未闭合的配对全部标记为放弃跟踪。
+   */
+  public async abandonOpenPairs(
+    params: { strategyId: string; exchange: string; symbol: string },
+    updatedAt: number
+  ): Promise<void> {
+    this.db
+      .update(gridPairs)
+      .set({ status: "ABANDONED", updatedAt })
+      .where(
+        and(
+          eq(gridPairs.strategyId, params.strategyId),
+          eq(gridPairs.exchange, params.exchange),
+          eq(gridPairs.symbol, params.symbol),
+          eq(gridPairs.status, "OPEN")
+        )
+      )
+      .run();
+  }
+}
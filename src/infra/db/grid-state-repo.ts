@@ -0,0 +1,79 @@
+import { and, eq } from "drizzle-orm";
+import type { BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import { gridStates } from "./schema";
+import type * as schema from "./schema";
+
+/**
+ * 网格状态写入结构。
+ */
+export type GridStateInsert = typeof gridStates.$inferInsert;
+
+/**
+ * 网格状态查询结构。
+ */
+export type GridStateRow = typeof gridStates.$inferSelect;
+
+/**
+ * 网格状态仓储，每个策略 + 交易所 + 交易对仅保留一行。
+ */
+export class GridStateRepository {
+  private readonly db: BetterSQLite3Database<typeof schema>;
+
+  constructor(db: BetterSQLite3Database<typeof schema>) {
+    this.db = db;
+  }
+
+  /**
+   * 写入或覆盖网格状态。
+   */
+  public async upsertState(values: GridStateInsert): Promise<void> {
+    this.db
+      .insert(gridStates)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [gridStates.strategyId, gridStates.exchange, gridStates.symbol],
+        set: {
+          centerPrice: values.centerPrice,
+          levels: values.levels,
+          spacingMode: values.spacingMode,
+          spacing: values.spacing ?? null,
+          spacingPercent: values.spacingPercent ?? null,
+          buyLevels: values.buyLevels ?? null,
+          sellLevels: values.sellLevels ?? null,
+          buySpacingMode: values.buySpacingMode ?? null,
+          buySpacing: values.buySpacing ?? null,
+          buySpacingPercent: values.buySpacingPercent ?? null,
+          sellSpacingMode: values.sellSpacingMode ?? null,
+          sellSpacing: values.sellSpacing ?? null,
+          sellSpacingPercent: values.sellSpacingPercent ?? null,
+          gridMode: values.gridMode,
+          rangeLower: values.rangeLower ?? null,
+          rangeUpper: values.rangeUpper ?? null,
+          updatedAt: values.updatedAt,
+        },
+      })
+      .run();
+  }
+
+  /**
+   * 查询网格状态，不存在时返回 null。
+   */
+  public async findState(params: {
+    strategyId: string;
+    exchange: string;
+    symbol: string;
+  }): Promise<GridStateRow | null> {
+    const row = this.db
+      .select()
+      .from(gridStates)
+      .where(
+        and(
+          eq(gridStates.strategyId, params.strategyId),
+          eq(gridStates.exchange, params.exchange),
+          eq(gridStates.symbol, params.symbol)
+        )
+      )
+      .get();
+    return row ?? null;
+  }
+}
@@ -45,6 +45,142 @@ export function ensureDbSchema(sqlite: Database.Database): void {
 
     CREATE INDEX IF NOT EXISTS orders_exchange_symbol_status
       ON orders (exchange, symbol, status);
+
+    CREATE TABLE IF NOT EXISTS grid_states (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      strategy_id TEXT NOT NULL,
+      exchange TEXT NOT NULL,
+      symbol TEXT NOT NULL,
+      center_price TEXT NOT NULL,
+      levels INTEGER NOT NULL,
+      spacing_mode TEXT NOT NULL,
+      spacing TEXT,
+      spacing_percent TEXT,
+      grid_mode TEXT NOT NULL DEFAULT 'sliding',
+      range_lower TEXT,
+      range_upper TEXT,
+      buy_levels INTEGER,
+      sell_levels INTEGER,
+      buy_spacing_mode TEXT,
+      buy_spacing TEXT,
+      buy_spacing_percent TEXT,
+      sell_spacing_mode TEXT,
+      sell_spacing TEXT,
+      sell_spacing_percent TEXT,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE UNIQUE INDEX IF NOT EXISTS grid_states_strategy_exchange_symbol
+      ON grid_states (strategy_id, exchange, symbol);
+
+    CREATE TABLE IF NOT EXISTS order_id_mappings (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      exchange TEXT NOT NULL,
+      client_order_id TEXT NOT NULL,
+      client_order_num INTEGER,
+      exchange_ref TEXT,
+      account_id TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE UNIQUE INDEX IF NOT EXISTS order_id_mappings_exchange_client_order_id
+      ON order_id_mappings (exchange, client_order_id);
+
+    CREATE INDEX IF NOT EXISTS order_id_mappings_exchange_client_order_num
+      ON order_id_mappings (exchange, client_order_num);
+
+    CREATE INDEX IF NOT EXISTS order_id_mappings_exchange_ref
+      ON order_id_mappings (exchange, exchange_ref);
+
+    CREATE TABLE IF NOT EXISTS fills (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      strategy_id TEXT NOT NULL,
+      exchange TEXT NOT NULL,
+      symbol TEXT NOT NULL,
+      client_order_id TEXT NOT NULL,
+      exchange_order_id TEXT,
+      side TEXT NOT NULL,
+      price TEXT NOT NULL,
+      quantity TEXT NOT NULL,
+      cumulative_quantity TEXT NOT NULL,
+      fee TEXT NOT NULL,
+      liquidity TEXT NOT NULL,
+      realized_pnl TEXT NOT NULL,
+      grid_level_index INTEGER,
+      source TEXT NOT NULL,
+      filled_at INTEGER NOT NULL,
+      record_created_at INTEGER NOT NULL
+    );
+
+    CREATE UNIQUE INDEX IF NOT EXISTS fills_exchange_client_order_cumulative
+      ON fills (exchange, client_order_id, cumulative_quantity);
+
+    CREATE INDEX IF NOT EXISTS fills_strategy_exchange_symbol_filled_at
+      ON fills (strategy_id, exchange, symbol, filled_at);
+
+    CREATE TABLE IF NOT EXISTS flatten_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      run_id TEXT NOT NULL,
+      strategy_id TEXT NOT NULL,
+      exchange TEXT NOT NULL,
+      symbol TEXT NOT NULL,
+      source TEXT NOT NULL,
+      step TEXT NOT NULL,
+      position TEXT,
+      client_order_id TEXT,
+      detail TEXT,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS flatten_events_run_id
+      ON flatten_events (run_id);
+
+    CREATE INDEX IF NOT EXISTS flatten_events_strategy_exchange_symbol_created_at
+      ON flatten_events (strategy_id, exchange, symbol, created_at);
+
+    CREATE TABLE IF NOT EXISTS grid_pairs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      strategy_id TEXT NOT NULL,
+      exchange TEXT NOT NULL,
+      symbol TEXT NOT NULL,
+      entry_client_order_id TEXT NOT NULL,
+      entry_side TEXT NOT NULL,
+      entry_level_index INTEGER NOT NULL,
+      entry_price TEXT NOT NULL,
+      exit_level_index INTEGER NOT NULL,
+      exit_price TEXT NOT NULL,
+      quantity TEXT NOT NULL,
+      status TEXT NOT NULL,
+      exit_client_order_id TEXT,
+      close_price TEXT,
+      spread TEXT,
+      opened_at INTEGER NOT NULL,
+      closed_at INTEGER,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE UNIQUE INDEX IF NOT EXISTS grid_pairs_exchange_entry_client_order_id
+      ON grid_pairs (exchange, entry_client_order_id);
+
+    CREATE INDEX IF NOT EXISTS grid_pairs_strategy_exchange_symbol_status
+      ON grid_pairs (strategy_id, exchange, symbol, status);
+
+    CREATE TABLE IF NOT EXISTS drawdown_states (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      strategy_id TEXT NOT NULL,
+      exchange TEXT NOT NULL,
+      symbol TEXT NOT NULL,
+      day TEXT NOT NULL,
+      day_start_equity TEXT NOT NULL,
+      peak_equity TEXT NOT NULL,
+      tripped_at INTEGER,
+      trip_reason TEXT,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE UNIQUE INDEX IF NOT EXISTS drawdown_states_strategy_exchange_symbol
+      ON drawdown_states (strategy_id, exchange, symbol);
   `);
 
   // 兼容旧表结构，补齐 client_order_num 字段
@@ -55,4 +191,30 @@ export function ensureDbSchema(sqlite: Database.Database): void {
   if (!hasClientOrderNum) {
     sqlite.exec("ALTER TABLE orders ADD COLUMN client_order_num INTEGER");
   }
+
+  // 兼容旧表结构，补齐区间网格字段
+  const gridStateColumns = sqlite.prepare("PRAGMA table_info(grid_states)").all() as Array<{
+    name: string;
+  }>;
+  if (!gridStateColumns.some((column) => column.name === "grid_mode")) {
+    sqlite.exec("ALTER TABLE grid_states ADD COLUMN grid_mode TEXT NOT NULL DEFAULT 'sliding'");
+    sqlite.exec("ALTER TABLE grid_states ADD COLUMN range_lower TEXT");
+    sqlite.exec("ALTER TABLE grid_states ADD COLUMN range_upper TEXT");
+  }
+
+  // 兼容旧表结构，补齐单边档位与间距字段
+  if (!gridStateColumns.some((column) => column.name === "buy_levels")) {
+    for (const column of [
+      "buy_levels INTEGER",
+      "sell_levels INTEGER",
+      "buy_spacing_mode TEXT",
+      "buy_spacing TEXT",
+      "buy_spacing_percent TEXT",
+      "sell_spacing_mode TEXT",
+      "sell_spacing TEXT",
+      "sell_spacing_percent TEXT",
+    ]) {
+      sqlite.exec(`ALTER TABLE grid_states ADD COLUMN ${column}`);
+    }
+  }
 }
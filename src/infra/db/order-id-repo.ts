@@ -0,0 +1,117 @@
+import { and, eq, max } from "drizzle-orm";
+import type { BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import { orderIdMappings } from "./schema";
+import type * as schema from "./schema";
+
+/**
+ * 订单编号映射查询结构。
+ */
+export type OrderIdMappingRow = typeof orderIdMappings.$inferSelect;
+
+/**
+ * 订单编号映射写入字段，未提供的字段保持原值。
+ */
+export interface OrderIdMappingUpsert {
+  exchange: string;
+  clientOrderId: string;
+  clientOrderNum?: number;
+  exchangeRef?: string;
+  accountId?: string;
+}
+
+/**
+ * 订单编号映射仓储。
+ * 映射在下单与回报解析的同步路径上读写，因此接口保持同步（better-sqlite3 本身为同步驱动）。
+ */
+export class OrderIdMappingRepository {
+  private readonly db: BetterSQLite3Database<typeof schema>;
+
+  constructor(db: BetterSQLite3Database<typeof schema>) {
+    this.db = db;
+  }
+
+  /**
+   * 以 exchange + clientOrderId 为唯一键写入映射，仅覆盖本次提供的字段。
+   */
+  public upsertMapping(values: OrderIdMappingUpsert): void {
+    const now = Date.now();
+    const updateSet: Partial<typeof orderIdMappings.$inferInsert> = { updatedAt: now };
+    if (values.clientOrderNum !== undefined) {
+      updateSet.clientOrderNum = values.clientOrderNum;
+    }
+    if (values.exchangeRef !== undefined) {
+      updateSet.exchangeRef = values.exchangeRef;
+    }
+    if (values.accountId !== undefined) {
+      updateSet.accountId = values.accountId;
+    }
+    this.db
+      .insert(orderIdMappings)
+      .values({ ...values, createdAt: now, updatedAt: now })
+      .onConflictDoUpdate({
+        target: [orderIdMappings.exchange, orderIdMappings.clientOrderId],
+        set: updateSet,
+      })
+      .run();
+  }
+
+  /**
+   * 按 clientOrderId 查询映射。
+   */
+  public findByClientOrderId(exchange: string, clientOrderId: string): OrderIdMappingRow | null {
+    const row = this.db
+      .select()
+      .from(orderIdMappings)
+      .where(
+        and(
+          eq(orderIdMappings.exchange, exchange),
+          eq(orderIdMappings.clientOrderId, clientOrderId)
+        )
+      )
+      .get();
+    return row ?? null;
+  }
+
+  /**
+   * 按数值订单号查询映射。
+   */
+  public findByClientOrderNum(exchange: string, clientOrderNum: number): OrderIdMappingRow | null {
+    const row = this.db
+      .select()
+      .from(orderIdMappings)
+      .where(
+        and(
+          eq(orderIdMappings.exchange, exchange),
+          eq(orderIdMappings.clientOrderNum, clientOrderNum)
+        )
+      )
+      .get();
+    return row ?? null;
+  }
+
+  /**
+   * 按交易所侧订单引用（digest / cloid）查询映射。
+   */
+  public findByExchangeRef(exchange: string, exchangeRef: string): OrderIdMappingRow | null {
+    const row = this.db
+      .select()
+      .from(orderIdMappings)
+      .where(
+        and(eq(orderIdMappings.exchange, exchange), eq(orderIdMappings.exchangeRef, exchangeRef))
+      )
+      .get();
+    return row ?? null;
+  }
+
+  /**
+   * 查询已分配的最大数值订单号，无记录时返回 0。
+   */
+  public findMaxClientOrderNum(exchange: string): number {
+    const row = this.db
+      .select({ value: max(orderIdMappings.clientOrderNum) })
+      .from(orderIdMappings)
+      .where(eq(orderIdMappings.exchange, exchange))
+      .get();
+    return row?.value ?? 0;
+  }
+}
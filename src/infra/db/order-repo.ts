@@ -1,3 +1,4 @@
+import { and, eq, notInArray } from "drizzle-orm";
 import type { BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
 import type { SQLiteUpdateSetSource } from "drizzle-orm/sqlite-core";
 import { orders } from "./schema";
@@ -8,6 +9,16 @@ import type * as schema from "./schema";
  */
 export type OrderInsert = typeof orders.$inferInsert;
 
+/**
+ * 订单表查询结构。
+ */
+export type OrderRow = typeof orders.$inferSelect;
+
+/**
+ * 终态订单状态，查询未完结订单时排除。
+ */
+const TERMINAL_STATUSES = ["FILLED", "CANCELLED", "REJECTED", "EXPIRED"] as const;
+
 /**
  * 订单仓储，封装 upsert 逻辑。
  */
@@ -33,6 +44,28 @@ export class OrderRepository {
       .run();
   }
 
+  /**
+   * 查询指定策略在交易所与交易对上的未终态订单。
+   */
+  public async findActiveOrders(params: {
+    strategyId: string;
+    exchange: string;
+    symbol: string;
+  }): Promise<OrderRow[]> {
+    return this.db
+      .select()
+      .from(orders)
+      .where(
+        and(
+          eq(orders.strategyId, params.strategyId),
+          eq(orders.exchange, params.exchange),
+          eq(orders.symbol, params.symbol),
+          notInArray(orders.status, [...TERMINAL_STATUSES])
+        )
+      )
+      .all();
+  }
+
   /**
    * 构建更新字段，避免覆盖 recordCreatedAt 等不可变字段。
    */
@@ -30,6 +30,26 @@ export const orderTypeEnum = ["LIMIT", "MARKET"] as const;
  */
 export const timeInForceEnum = ["GTT", "IOC", "FOK", "GTC"] as const;
 
+/**
+ * 成交流动性类型枚举。
+ */
+export const fillLiquidityEnum = ["MAKER", "TAKER"] as const;
+
+/**
+ * 成交来源枚举：实时回报、对账快照或历史订单回补。
+ */
+export const fillSourceEnum = ["UPDATE", "SNAPSHOT", "HISTORY"] as const;
+
+/**
+ * 平仓流程步骤枚举：开始、撤单、仓位查询、下单、完成或失败。
+ */
+export const flattenStepEnum = ["START", "CANCEL", "POSITION", "ORDER", "DONE", "FAILED"] as const;
+
+/**
+ * 配对止盈状态枚举：持仓待止盈、已闭合或因网格重建放弃跟踪。
+ */
+export const gridPairStatusEnum = ["OPEN", "CLOSED", "ABANDONED"] as const;
+
 /**
  * 订单记录表，存储网格订单全生命周期状态。
  */
@@ -81,3 +101,214 @@ export const orders = sqliteTable(
     ),
   })
 );
+
+/**
+ * 网格状态表，持久化中心价与档位参数，用于重启后恢复档位映射。
+ */
+export const gridStates = sqliteTable(
+  "grid_states",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    strategyId: text("strategy_id").notNull(),
+    exchange: text("exchange").notNull(),
+    symbol: text("symbol").notNull(),
+    centerPrice: text("center_price").notNull(),
+    levels: integer("levels").notNull(),
+    spacingMode: text("spacing_mode").notNull(),
+    spacing: text("spacing"),
+    spacingPercent: text("spacing_percent"),
+    // 网格形态，range 模式下 levels 为价格线数量并记录区间边界
+    gridMode: text("grid_mode").notNull().default("sliding"),
+    rangeLower: text("range_lower"),
+    rangeUpper: text("range_upper"),
+    // 单边档位数与间距，仅在买卖两侧单独配置时有值
+    buyLevels: integer("buy_levels"),
+    sellLevels: integer("sell_levels"),
+    buySpacingMode: text("buy_spacing_mode"),
+    buySpacing: text("buy_spacing"),
+    buySpacingPercent: text("buy_spacing_percent"),
+    sellSpacingMode: text("sell_spacing_mode"),
+    sellSpacing: text("sell_spacing"),
+    sellSpacingPercent: text("sell_spacing_percent"),
+    updatedAt: integer("updated_at").notNull(),
+  },
+  (table) => ({
+    strategyExchangeSymbol: uniqueIndex("grid_states_strategy_exchange_symbol").on(
+      table.strategyId,
+      table.exchange,
+      table.symbol
+    ),
+  })
+);
+
+/**
+ * 交易所订单编号映射表，保存 clientOrderId 与交易所侧编号（数值订单号、digest、cloid）的对应关系，
+ * 使重启后仍能解析上一会话订单的回报与撤单。
+ */
+export const orderIdMappings = sqliteTable(
+  "order_id_mappings",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    exchange: text("exchange").notNull(),
+    clientOrderId: text("client_order_id").notNull(),
+    clientOrderNum: integer("client_order_num"),
+    // 交易所侧订单引用：Nado 为 digest，Hyperliquid 为 cloid
+    exchangeRef: text("exchange_ref"),
+    accountId: text("account_id"),
+    createdAt: integer("created_at").notNull(),
+    updatedAt: integer("updated_at").notNull(),
+  },
+  (table) => ({
+    exchangeClientOrderId: uniqueIndex("order_id_mappings_exchange_client_order_id").on(
+      table.exchange,
+      table.clientOrderId
+    ),
+    exchangeClientOrderNum: index("order_id_mappings_exchange_client_order_num").on(
+      table.exchange,
+      table.clientOrderNum
+    ),
+    exchangeRef: index("order_id_mappings_exchange_ref").on(table.exchange, table.exchangeRef),
+  })
+);
+
+/**
+ * 成交明细表，由订单累计成交的增量推导，每行对应一次增量成交。
+ * cumulative_quantity 为该次成交后的订单累计成交量，与 clientOrderId 一起保证重复回报不重复入账。
+ */
+export const fills = sqliteTable(
+  "fills",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    strategyId: text("strategy_id").notNull(),
+    exchange: text("exchange").notNull(),
+    symbol: text("symbol").notNull(),
+    clientOrderId: text("client_order_id").notNull(),
+    exchangeOrderId: text("exchange_order_id"),
+    side: text("side", { enum: orderSideEnum }).notNull(),
+    price: text("price").notNull(),
+    quantity: text("quantity").notNull(),
+    cumulativeQuantity: text("cumulative_quantity").notNull(),
+    fee: text("fee").notNull(),
+    liquidity: text("liquidity", { enum: fillLiquidityEnum }).notNull(),
+    // 按平均成本法计算的本次成交已实现盈亏（未扣手续费）
+    realizedPnl: text("realized_pnl").notNull(),
+    gridLevelIndex: integer("grid_level_index"),
+    source: text("source", { enum: fillSourceEnum }).notNull(),
+    filledAt: integer("filled_at").notNull(),
+    recordCreatedAt: integer("record_created_at").notNull(),
+  },
+  (table) => ({
+    exchangeClientOrderCumulative: uniqueIndex("fills_exchange_client_order_cumulative").on(
+      table.exchange,
+      table.clientOrderId,
+      table.cumulativeQuantity
+    ),
+    strategyExchangeSymbolFilledAt: index("fills_strategy_exchange_symbol_filled_at").on(
+      table.strategyId,
+      table.exchange,
+      table.symbol,
+      table.filledAt
+    ),
+  })
+);
+
+/**
+ * 平仓流程事件表，每次平仓以 run_id 串联撤单、仓位查询、下单与结果等全部步骤，便于事后复盘。
+ */
+export const flattenEvents = sqliteTable(
+  "flatten_events",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    runId: text("run_id").notNull(),
+    strategyId: text("strategy_id").notNull(),
+    exchange: text("exchange").notNull(),
+    symbol: text("symbol").notNull(),
+    // 触发来源：cli、control、risk、shutdown 等
+    source: text("source").notNull(),
+    step: text("step", { enum: flattenStepEnum }).notNull(),
+    position: text("position"),
+    clientOrderId: text("client_order_id"),
+    // 步骤明细 JSON
+    detail: text("detail"),
+    createdAt: integer("created_at").notNull(),
+  },
+  (table) => ({
+    runId: index("flatten_events_run_id").on(table.runId),
+    strategyExchangeSymbolCreatedAt: index("flatten_events_strategy_exchange_symbol_created_at").on(
+      table.strategyId,
+      table.exchange,
+      table.symbol,
+      table.createdAt
+    ),
+  })
+);
+
+/**
+ * 配对止盈记录表，每行对应一笔开仓成交及其止盈单；未闭合配对的档位索引随中心价平移更新，
+ * 闭合后记录止盈单与已实现价差。
+ */
+export const gridPairs = sqliteTable(
+  "grid_pairs",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    strategyId: text("strategy_id").notNull(),
+    exchange: text("exchange").notNull(),
+    symbol: text("symbol").notNull(),
+    entryClientOrderId: text("entry_client_order_id").notNull(),
+    entrySide: text("entry_side", { enum: orderSideEnum }).notNull(),
+    entryLevelIndex: integer("entry_level_index").notNull(),
+    entryPrice: text("entry_price").notNull(),
+    exitLevelIndex: integer("exit_level_index").notNull(),
+    exitPrice: text("exit_price").notNull(),
+    quantity: text("quantity").notNull(),
+    status: text("status", { enum: gridPairStatusEnum }).notNull(),
+    exitClientOrderId: text("exit_client_order_id"),
+    closePrice: text("close_price"),
+    // 按委托价计算的已实现价差（计价币，未扣手续费）
+    spread: text("spread"),
+    openedAt: integer("opened_at").notNull(),
+    closedAt: integer("closed_at"),
+    updatedAt: integer("updated_at").notNull(),
+  },
+  (table) => ({
+    exchangeEntryClientOrderId: uniqueIndex("grid_pairs_exchange_entry_client_order_id").on(
+      table.exchange,
+      table.entryClientOrderId
+    ),
+    strategyExchangeSymbolStatus: index("grid_pairs_strategy_exchange_symbol_status").on(
+      table.strategyId,
+      table.exchange,
+      table.symbol,
+      table.status
+    ),
+  })
+);
+
+/**
+ * 亏损熔断状态表，每个策略 + 交易所 + 交易对仅保留一行，记录权益水位与未解除的熔断，
+ * 使重启后沿用峰值并保持熔断暂停。
+ */
+export const drawdownStates = sqliteTable(
+  "drawdown_states",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    strategyId: text("strategy_id").notNull(),
+    exchange: text("exchange").notNull(),
+    symbol: text("symbol").notNull(),
+    // UTC 日期（YYYY-MM-DD）与当日日初权益
+    day: text("day").notNull(),
+    dayStartEquity: text("day_start_equity").notNull(),
+    peakEquity: text("peak_equity").notNull(),
+    // 熔断时间与原因，人工恢复后清空
+    trippedAt: integer("tripped_at"),
+    tripReason: text("trip_reason"),
+    updatedAt: integer("updated_at").notNull(),
+  },
+  (table) => ({
+    strategyExchangeSymbol: uniqueIndex("drawdown_states_strategy_exchange_symbol").on(
+      table.strategyId,
+      table.exchange,
+      table.symbol
+    ),
+  })
+);
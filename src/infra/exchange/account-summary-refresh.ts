@@ -0,0 +1,63 @@
+import type { AccountSummary } from "../../core/exchange/models";
+
+const DEFAULT_MIN_INTERVAL_MS = 2000;
+
+/**
+ * 账户摘要刷新器：交易所不推送保证金数据时，收到仓位或余额变动事件后重新查询摘要。
+ * 短时间内的多次触发合并为一次查询，两次查询间隔不少于 minIntervalMs。
+ */
+export class AccountSummaryRefresher {
+  private readonly load: () => Promise<AccountSummary>;
+  private readonly emit: (summary: AccountSummary) => void;
+  private readonly minIntervalMs: number;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private lastLoadAt = 0;
+  private stopped = false;
+
+  constructor(
+    load: () => Promise<AccountSummary>,
+    emit: (summary: AccountSummary) => void,
+    minIntervalMs = DEFAULT_MIN_INTERVAL_MS
+  ) {
+    this.load = load;
+    this.emit = emit;
+    this.minIntervalMs = minIntervalMs;
+  }
+
+  /**
+   * 请求一次刷新，已有待执行的刷新时忽略。
+   */
+  public trigger(): void {
+    if (this.stopped || this.timer) {
+      return;
+    }
+    const delay = Math.max(0, this.lastLoadAt + this.minIntervalMs - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.refresh();
+    }, delay);
+  }
+
+  /**
+   * 停止刷新，丢弃待执行的查询。
+   */
+  public stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async refresh(): Promise<void> {
+    this.lastLoadAt = Date.now();
+    try {
+      const summary = await this.load();
+      if (!this.stopped) {
+        this.emit(summary);
+      }
+    } catch (error) {
+      console.warn("刷新账户摘要失败", error);
+    }
+  }
+}
@@ -10,8 +10,10 @@ import type {
   Unsubscribe,
 } from "../../../core/exchange/adapter";
 import type {
+  AccountSummary,
   ExchangeOrder,
   ExchangePosition,
+  LeverageSetting,
   MarketTradingConfig,
   OrderUpdate,
 } from "../../../core/exchange/models";
@@ -23,6 +25,16 @@ import { ExtendedOrderbookStream } from "./extended-orderbook";
 import { BUILDER_FEE_CAP, BUILDER_ID, normalizeOrderStatus, roundToStep } from "./extended-utils";
 import { extendedSymbolMapper } from "./extended-symbol-mapper";
 import { extractRetryAfterMs, isRateLimitError, RateLimitGuard } from "./extended-rate-limit";
+import { AccountSummaryRefresher } from "../account-summary-refresh";
+
+/**
+ * 单个市场的交易配置与费率。
+ */
+interface ExtendedMarket {
+  symbol: string;
+  marketInfo: schemas.Market;
+  fees: schemas.Fees;
+}
 
 /**
  * Extended 交易所适配器实现。
@@ -35,20 +47,18 @@ export class ExtendedGridExchangeAdapter implements GridExchangeAdapter {
     supportsOrderbook: true,
     supportsMarkPrice: true,
   };
-  private readonly symbol: string;
-  private readonly marketName: string;
+  private readonly symbols: string[];
   private readonly clients: ExtendedApiClients;
   private accountInfo: Awaited<ReturnType<typeof loadAccountInfo>> | null = null;
-  private marketInfo: schemas.Market | null = null;
-  private fees: schemas.Fees | null = null;
+  // 已连接的市场信息与费率，键为交易所格式市场名。
+  private readonly markets = new Map<string, ExtendedMarket>();
   private starknetDomain: StarknetDomain | null = null;
   private connectPromise: Promise<void> | null = null;
   // REST 请求全局限流守卫，避免 429 时继续高频打点。
   private readonly rateLimitGuard = new RateLimitGuard();
 
-  constructor(config: ExtendedConfig, symbol: string) {
-    this.symbol = symbol;
-    this.marketName = extendedSymbolMapper.toExchangeSymbol(symbol);
+  constructor(config: ExtendedConfig, symbols: string[]) {
+    this.symbols = symbols;
     this.clients = createExtendedClients(config);
   }
 
@@ -70,12 +80,16 @@ export class ExtendedGridExchangeAdapter implements GridExchangeAdapter {
       this.accountInfo = await this.withRateLimit(() =>
         loadAccountInfo(this.clients.privateClient)
       );
-      this.marketInfo = await this.withRateLimit(() =>
-        loadMarketInfo(this.clients.publicClient, this.marketName)
-      );
-      this.fees = await this.withRateLimit(() =>
-        loadFees(this.clients.privateClient, this.marketName, BUILDER_ID)
-      );
+      for (const symbol of this.symbols) {
+        const marketName = extendedSymbolMapper.toExchangeSymbol(symbol);
+        const marketInfo = await this.withRateLimit(() =>
+          loadMarketInfo(this.clients.publicClient, marketName)
+        );
+        const fees = await this.withRateLimit(() =>
+          loadFees(this.clients.privateClient, marketName, BUILDER_ID)
+        );
+        this.markets.set(marketName, { symbol, marketInfo, fees });
+      }
       this.starknetDomain = this.clients.endpoint.starknetDomain ?? null;
     })();
     try {
@@ -90,8 +104,7 @@ export class ExtendedGridExchangeAdapter implements GridExchangeAdapter {
    */
   public async disconnect(): Promise<void> {
     this.accountInfo = null;
-    this.marketInfo = null;
-    this.fees = null;
+    this.markets.clear();
     this.starknetDomain = null;
   }
 
@@ -102,7 +115,7 @@ export class ExtendedGridExchangeAdapter implements GridExchangeAdapter {
     this.ensureSymbol(params.symbol);
     const stream = new ExtendedOrderbookStream(
       this.clients.streamClient,
-      this.marketName,
+      extendedSymbolMapper.toExchangeSymbol(params.symbol),
       this.name
     );
     let unsubscribe: Unsubscribe = () => {
@@ -126,14 +139,23 @@ export class ExtendedGridExchangeAdapter implements GridExchangeAdapter {
   }
 
   /**
-   * 订阅账户订单回报。
+   * 订阅账户订单回报、仓位变动与账户摘要。
    */
   public subscribeAccount(params: AccountSubscribeParams): Unsubscribe {
     let stopped = false;
     let subscription: Subscription | null = null;
     let resubscribeTimer: ReturnType<typeof setTimeout> | null = null;
+    // 余额推送不含仓位强平价，余额或仓位变动后重新查询完整摘要。
+    const refresher = params.onAccountSummary
+      ? new AccountSummaryRefresher(() => this.getAccountSummary(), params.onAccountSummary)
+      : null;
 
     const handleMessage = (message: schemas.AccountUpdateMessage) => {
+      if (message.type === "BALANCE") {
+        refresher?.trigger();
+        return;
+      }
+
       if (message.type === "ORDER") {
         const updates = message.data.orders.map((order) => this.mapOrderUpdate(order));
         if (updates.length === 0) {
@@ -144,11 +166,12 @@ export class ExtendedGridExchangeAdapter implements GridExchangeAdapter {
       }
 
       if (message.type === "POSITION") {
+        refresher?.trigger();
         if (!params.onPositionUpdates) {
           return;
         }
         const positions = message.data.positions
-          .filter((position) => position.market === this.marketName)
+          .filter((position) => this.markets.has(position.market))
           .map((position) => this.mapExchangePosition(position));
         if (positions.length === 0) {
           return;
@@ -199,6 +222,7 @@ export class ExtendedGridExchangeAdapter implements GridExchangeAdapter {
         subscription.failureSignal.addEventListener("abort", () => {
           scheduleResubscribe("账户订阅中断");
         });
+        refresher?.trigger();
       } catch (error) {
         scheduleResubscribe("账户订阅失败", error);
       }
@@ -209,6 +233,7 @@ export class ExtendedGridExchangeAdapter implements GridExchangeAdapter {
     return () => {
       stopped = true;
       clearResubscribeTimer();
+      refresher?.stop();
       void unsubscribeCurrent();
     };
   }
@@ -219,14 +244,12 @@ export class ExtendedGridExchangeAdapter implements GridExchangeAdapter {
   public async getMarketConfig(symbol: string): Promise<MarketTradingConfig> {
     this.ensureSymbol(symbol);
     await this.connect();
-    if (!this.marketInfo || !this.fees) {
-      throw new Error("市场信息未初始化");
-    }
+    const { marketInfo, fees } = this.getMarket(symbol);
     return {
-      minPriceChange: Decimal(this.marketInfo.tradingConfig.minPriceChange),
-      minOrderSizeChange: Decimal(this.marketInfo.tradingConfig.minOrderSizeChange),
-      makerFee: Decimal(this.fees.makerFeeRate),
-      takerFee: Decimal(this.fees.takerFeeRate),
+      minPriceChange: Decimal(marketInfo.tradingConfig.minPriceChange),
+      minOrderSizeChange: Decimal(marketInfo.tradingConfig.minOrderSizeChange),
+      makerFee: Decimal(fees.makerFeeRate),
+      takerFee: Decimal(fees.takerFeeRate),
     };
   }
 
@@ -236,12 +259,13 @@ export class ExtendedGridExchangeAdapter implements GridExchangeAdapter {
   public async getNetPosition(symbol: string): Promise<Decimal> {
     this.ensureSymbol(symbol);
     await this.connect();
+    const marketName = extendedSymbolMapper.toExchangeSymbol(symbol);
     const positions = await this.withRateLimit(() =>
       this.clients.privateClient.account.getPositions({
-        market: [this.marketName],
+        market: [marketName],
       })
     );
-    const position = positions.find((item) => item.market === this.marketName);
+    const position = positions.find((item) => item.market === marketName);
     if (!position) {
       return Decimal(0);
     }
@@ -252,6 +276,59 @@ export class ExtendedGridExchangeAdapter implements GridExchangeAdapter {
     return position.side === "LONG" ? size : size.negated();
   }
 
+  /**
+   * 获取账户保证金摘要，仓位覆盖账户下全部市场。
+   * 交易所直接给出保证金率（维持保证金 / 权益），维持保证金据此反推。
+   */
+  public async getAccountSummary(): Promise<AccountSummary> {
+    await this.connect();
+    const balance = await this.withRateLimit(() => this.clients.privateClient.account.getBalance());
+    const positions = await this.withRateLimit(() =>
+      this.clients.privateClient.account.getPositions({})
+    );
+    const equity = Decimal(balance.equity);
+    const marginRatio = Decimal(balance.marginRatio);
+    return {
+      equity,
+      availableMargin: Decimal(balance.availableForTrade),
+      initialMargin: Decimal(balance.initialMargin),
+      maintenanceMargin: marginRatio.multipliedBy(equity),
+      marginRatio,
+      positions: positions
+        .filter((position) => !Decimal(position.size).isZero())
+        .map((position) => {
+          const size = Decimal(position.size);
+          return {
+            symbol: this.markets.get(position.market)?.symbol ?? position.market,
+            size: position.side === "LONG" ? size : size.negated(),
+            entryPrice: Decimal(position.openPrice),
+            markPrice: Decimal(position.markPrice),
+            leverage: Decimal(position.leverage),
+            liquidationPrice: position.liquidationPrice ? Decimal(position.liquidationPrice) : null,
+          };
+        }),
+      updatedAt: balance.updatedTime,
+    };
+  }
+
+  /**
+   * 获取交易对当前杠杆，Extended 仅支持全仓。
+   */
+  public async getLeverage(symbol: string): Promise<LeverageSetting> {
+    this.ensureSymbol(symbol);
+    await this.connect();
+    return this.readLeverage(symbol);
+  }
+
+  /**
+   * 设置交易对杠杆，逐仓模式不支持。
+   */
+  public async setLeverage(symbol: string, setting: LeverageSetting): Promise<void> {
+    this.ensureSymbol(symbol);
+    await this.connect();
+    await this.writeLeverage(symbol, setting);
+  }
+
   /**
    * 根据 clientOrderId 获取订单最新状态。
    */
@@ -260,7 +337,7 @@ export class ExtendedGridExchangeAdapter implements GridExchangeAdapter {
     const orders = await this.withRateLimit(() =>
       this.clients.privateClient.orders.getOrdersByExternalId(clientOrderId)
     );
-    const matches = orders.filter((order) => order.market === this.marketName);
+    const matches = orders.filter((order) => this.markets.has(order.market));
     if (matches.length === 0) {
       return null;
     }
@@ -278,7 +355,7 @@ export class ExtendedGridExchangeAdapter implements GridExchangeAdapter {
     await this.connect();
     const orders = await this.withRateLimit(() =>
       this.clients.privateClient.orders.getOpenOrders({
-        market: [this.marketName],
+        market: [extendedSymbolMapper.toExchangeSymbol(symbol)],
       })
     );
     return orders.map((order) => this.mapExchangeOrder(order));
@@ -292,7 +369,7 @@ export class ExtendedGridExchangeAdapter implements GridExchangeAdapter {
     await this.connect();
     const result = await this.withRateLimit(() =>
       this.clients.privateClient.orders.getOrdersHistory({
-        market: [this.marketName],
+        market: [extendedSymbolMapper.toExchangeSymbol(query.symbol)],
         limit: 100,
       })
     );
@@ -308,37 +385,36 @@ export class ExtendedGridExchangeAdapter implements GridExchangeAdapter {
   public async placeOrder(req: PlaceOrderRequest): Promise<PlaceOrderResult> {
     this.ensureSymbol(req.symbol);
     await this.connect();
-    if (!this.marketInfo || !this.fees || !this.starknetDomain || !this.accountInfo) {
+    if (!this.starknetDomain || !this.accountInfo) {
       throw new Error("Extended 上下文未准备好");
     }
+    const { marketInfo, fees } = this.getMarket(req.symbol);
     const normalizedPrice = roundToStep(
       Decimal(req.price),
-      Decimal(this.marketInfo.tradingConfig.minPriceChange)
+      Decimal(marketInfo.tradingConfig.minPriceChange)
     );
     const normalizedQty = roundToStep(
       Decimal(req.quantity),
-      Decimal(this.marketInfo.tradingConfig.minOrderSizeChange)
+      Decimal(marketInfo.tradingConfig.minOrderSizeChange)
     );
     if (normalizedPrice.lte(0) || normalizedQty.lte(0)) {
       throw new Error("下单价格或数量无效，可能小于最小步长");
     }
 
     const isPostOnly = req.type === "LIMIT" && req.postOnly === true;
-    const selectedFeeRate = isPostOnly
-      ? Decimal(this.fees.makerFeeRate)
-      : Decimal(this.fees.takerFeeRate);
+    const selectedFeeRate = isPostOnly ? Decimal(fees.makerFeeRate) : Decimal(fees.takerFeeRate);
     const feesForOrder: schemas.Fees = {
-      ...this.fees,
+      ...fees,
       makerFeeRate: selectedFeeRate,
       takerFeeRate: selectedFeeRate,
     };
 
-    const builderFee = Decimal.min(Decimal(this.fees.builderFeeRate), BUILDER_FEE_CAP);
+    const builderFee = Decimal.min(Decimal(fees.builderFeeRate), BUILDER_FEE_CAP);
 
     const timeInForce = req.timeInForce === "GTC" ? "GTT" : req.timeInForce;
     const orderRequest = await createOrderRequest({
       id: req.clientOrderId,
-      market: this.marketInfo,
+      market: marketInfo,
       fees: feesForOrder,
       signer: this.clients.signer,
       vaultId: this.accountInfo.l2Vault,
@@ -361,6 +437,8 @@ export class ExtendedGridExchangeAdapter implements GridExchangeAdapter {
     return {
       status: "ACKED",
       exchangeOrderId: String(result.id),
+      submittedPrice: normalizedPrice,
+      submittedQuantity: normalizedQty,
       updatedAt: Date.now(),
     };
   }
@@ -383,7 +461,7 @@ export class ExtendedGridExchangeAdapter implements GridExchangeAdapter {
     await this.connect();
     await this.withRateLimit(() =>
       this.clients.privateClient.orders.massCancel({
-        markets: [this.marketName],
+        markets: [extendedSymbolMapper.toExchangeSymbol(symbol)],
       })
     );
   }
@@ -406,9 +484,20 @@ export class ExtendedGridExchangeAdapter implements GridExchangeAdapter {
   }
 
   private ensureSymbol(symbol: string): void {
-    if (!extendedSymbolMapper.isSameMarket(symbol, this.marketName)) {
-      throw new Error(`交易对不匹配: ${symbol} vs ${this.symbol}`);
+    const configured = this.symbols.some((item) =>
+      extendedSymbolMapper.isSameMarket(symbol, extendedSymbolMapper.toExchangeSymbol(item))
+    );
+    if (!configured) {
+      throw new Error(`交易对未配置: ${symbol} (已配置: ${this.symbols.join(", ")})`);
+    }
+  }
+
+  private getMarket(symbol: string): ExtendedMarket {
+    const market = this.markets.get(extendedSymbolMapper.toExchangeSymbol(symbol));
+    if (!market) {
+      throw new Error(`市场信息未初始化: ${symbol}`);
     }
+    return market;
   }
 
   private mapExchangeOrder(order: schemas.UserOrder): ExchangeOrder {
@@ -442,6 +531,29 @@ export class ExtendedGridExchangeAdapter implements GridExchangeAdapter {
     };
   }
 
+  private async readLeverage(symbol: string): Promise<LeverageSetting> {
+    const marketName = extendedSymbolMapper.toExchangeSymbol(symbol);
+    const leverages = await this.withRateLimit(() =>
+      this.clients.privateClient.account.getLeverage({ market: [marketName] })
+    );
+    const match = leverages.find((item) => item.market === marketName);
+    if (!match) {
+      throw new Error(`未获取到市场 ${marketName} 的杠杆设置`);
+    }
+    return { leverage: Number(match.leverage), marginMode: "cross" };
+  }
+
+  private async writeLeverage(symbol: string, setting: LeverageSetting): Promise<void> {
+    if (setting.marginMode !== "cross" || setting.leverage === null) {
+      throw new Error("Extended 仅支持全仓模式，且必须指定杠杆倍数");
+    }
+    const marketName = extendedSymbolMapper.toExchangeSymbol(symbol);
+    const leverage = String(setting.leverage);
+    await this.withRateLimit(() =>
+      this.clients.privateClient.account.updateLeverage({ market: marketName, leverage })
+    );
+  }
+
   private mapExchangePosition(
     position: Extract<
       schemas.AccountUpdateMessage,
@@ -449,7 +561,7 @@ export class ExtendedGridExchangeAdapter implements GridExchangeAdapter {
     >["data"]["positions"][number]
   ): ExchangePosition {
     return {
-      symbol: this.symbol,
+      symbol: this.markets.get(position.market)?.symbol ?? position.market,
       side: position.side,
       size: Decimal(position.size),
       updatedAt: position.updatedAt,
@@ -1,35 +1,131 @@
 import type { GridExchangeAdapter } from "../../core/exchange/adapter";
-import type { AppConfig } from "../config/schema";
+import type { AppConfig, LiveExchangeName } from "../config/schema";
+import type { OrderIdMappingRepository } from "../db/order-id-repo";
 import { ExtendedGridExchangeAdapter } from "./extended/extended-adapter";
 import { HyperliquidGridExchangeAdapter } from "./hyperliquid/hyperliquid-adapter";
 import { NadoGridExchangeAdapter } from "./nado/nado-adapter";
+import { PaperGridExchangeAdapter } from "./paper/paper-adapter";
+import {
+  AdapterQuoteSource,
+  FileQuoteSource,
+  type PaperQuoteSource,
+} from "./paper/paper-quote-source";
 
 /**
- * 交易所适配器工厂，按配置创建对应的实现。
+ * 适配器可选依赖。
  */
-export function createExchangeAdapter(config: AppConfig): GridExchangeAdapter {
-  // 目前已接入 Extended 与 Nado，新增交易所在此分支扩展即可。
-  if (config.exchange.name === "extended") {
+export interface ExchangeAdapterDependencies {
+  /** 订单编号映射仓储，用于重启后解析上一会话的订单 */
+  orderIdRepository?: OrderIdMappingRepository;
+}
+
+/**
+ * 参考价交易所适配器及其需要订阅的交易对。
+ */
+export interface ReferenceAdapter {
+  adapter: GridExchangeAdapter;
+  symbols: string[];
+}
+
+/**
+ * 交易所适配器工厂，按配置创建对应的实现，全部网格的交易对共用同一适配器。
+ */
+export function createExchangeAdapter(
+  config: AppConfig,
+  dependencies: ExchangeAdapterDependencies = {}
+): GridExchangeAdapter {
+  const symbols = config.grids.map((grid) => grid.symbol);
+  if (config.exchange.name === "paper") {
+    return createPaperAdapter(config, symbols);
+  }
+  return createLiveAdapter(config.exchange.name, config, symbols, dependencies);
+}
+
+/**
+ * 创建参考价所需的其他交易所适配器，仅用于订阅行情，不会触达下单接口。
+ * 每个交易所只创建一个适配器，承载引用它的全部网格的交易对。
+ */
+export function createReferenceAdapters(config: AppConfig): ReferenceAdapter[] {
+  const symbolsByExchange = new Map<LiveExchangeName, string[]>();
+  for (const grid of config.grids) {
+    for (const name of grid.referencePrice.exchanges) {
+      const symbols = symbolsByExchange.get(name) ?? [];
+      symbols.push(grid.symbol);
+      symbolsByExchange.set(name, symbols);
+    }
+  }
+  return Array.from(symbolsByExchange, ([name, symbols]) => ({
+    adapter: createLiveAdapter(name, config, symbols),
+    symbols,
+  }));
+}
+
+/**
+ * 创建真实交易所适配器，新增交易所在此分支扩展即可。
+ */
+function createLiveAdapter(
+  name: LiveExchangeName,
+  config: AppConfig,
+  symbols: string[],
+  dependencies: ExchangeAdapterDependencies = {}
+): GridExchangeAdapter {
+  if (name === "extended") {
     const extendedConfig = config.exchange.extended;
     if (!extendedConfig) {
       throw new Error("未提供 Extended 交易所配置");
     }
     // symbol 由配置统一传入，适配器内部负责市场名称解析。
-    return new ExtendedGridExchangeAdapter(extendedConfig, config.grid.symbol);
+    return new ExtendedGridExchangeAdapter(extendedConfig, symbols);
   }
-  if (config.exchange.name === "nado") {
+  if (name === "nado") {
     const nadoConfig = config.exchange.nado;
     if (!nadoConfig) {
       throw new Error("未提供 Nado 交易所配置");
     }
-    return new NadoGridExchangeAdapter(nadoConfig, config.grid.symbol);
+    return new NadoGridExchangeAdapter(nadoConfig, symbols, dependencies.orderIdRepository);
   }
-  if (config.exchange.name === "hyperliquid") {
+  if (name === "hyperliquid") {
     const hyperliquidConfig = config.exchange.hyperliquid;
     if (!hyperliquidConfig) {
       throw new Error("未提供 Hyperliquid 交易所配置");
     }
-    return new HyperliquidGridExchangeAdapter(hyperliquidConfig, config.grid.symbol);
+    return new HyperliquidGridExchangeAdapter(
+      hyperliquidConfig,
+      symbols,
+      dependencies.orderIdRepository
+    );
+  }
+  throw new Error(`暂不支持交易所: ${name}`);
+}
+
+/**
+ * 创建纸面交易适配器，行情来源为真实交易所或录制文件。
+ */
+function createPaperAdapter(config: AppConfig, symbols: string[]): GridExchangeAdapter {
+  const paperConfig = config.exchange.paper;
+  if (!paperConfig) {
+    throw new Error("未提供纸面交易配置");
+  }
+  let quoteSource: PaperQuoteSource;
+  if (paperConfig.quoteSource === "file") {
+    if (!paperConfig.quoteFile) {
+      throw new Error("纸面交易 file 模式未提供行情文件");
+    }
+    quoteSource = new FileQuoteSource(paperConfig.quoteFile, paperConfig.replaySpeed);
+  } else {
+    quoteSource = new AdapterQuoteSource(
+      createLiveAdapter(paperConfig.quoteSource, config, symbols)
+    );
   }
-  throw new Error(`暂不支持交易所: ${config.exchange.name}`);
+  return new PaperGridExchangeAdapter({
+    symbols,
+    quoteSource,
+    fallbackMarketConfig: {
+      minPriceChange: paperConfig.minPriceChange,
+      minOrderSizeChange: paperConfig.minOrderSizeChange,
+      makerFee: paperConfig.makerFee,
+      takerFee: paperConfig.takerFee,
+    },
+    initialPositions: paperConfig.initialPositions,
+  });
 }
@@ -8,14 +8,19 @@ import type {
   Unsubscribe,
 } from "../../../core/exchange/adapter";
 import type {
+  AccountPositionRisk,
+  AccountSummary,
   ExchangeOrder,
   ExchangePosition,
+  LeverageSetting,
   MarketTradingConfig,
   OrderStatus,
   OrderUpdate,
 } from "../../../core/exchange/models";
+import { computeMarginRatio } from "../../../core/risk/margin-guard";
 import { Decimal } from "../../../shared/number";
 import type { HyperliquidConfig } from "../../config/schema";
+import type { OrderIdMappingRepository } from "../../db/order-id-repo";
 import { createHyperliquidClients, type HyperliquidClients } from "./hyperliquid-client";
 import { loadHyperliquidMarketContext, type HyperliquidMarketContext } from "./hyperliquid-context";
 import { HyperliquidOrderbookStream } from "./hyperliquid-orderbook";
@@ -40,7 +45,17 @@ import type {
 } from "@nktkas/hyperliquid/api/info";
 
 /**
- * Hyperliquid 交易所适配器实现。
+ * 单个交易对的市场信息与动态最小下单金额。
+ */
+interface HyperliquidMarket {
+  symbol: string;
+  context: HyperliquidMarketContext;
+  // 最小下单金额（USD），会在运行时根据报错动态调整。
+  minNotional: Decimal;
+}
+
+/**
+ * Hyperliquid 交易所适配器实现，一个实例可承载同一账户下的多个交易对。
  */
 export class HyperliquidGridExchangeAdapter implements GridExchangeAdapter {
   public readonly name = "hyperliquid";
@@ -51,29 +66,31 @@ export class HyperliquidGridExchangeAdapter implements GridExchangeAdapter {
     supportsMarkPrice: true,
   };
 
-  private readonly symbol: string;
-  private readonly exchangeSymbol: string;
+  private readonly symbols: string[];
   private readonly config: HyperliquidConfig;
   private readonly clients: HyperliquidClients;
-  private readonly orderIds = new HyperliquidOrderIdStore();
+  private readonly orderIds: HyperliquidOrderIdStore;
   // Info 端点与账户订阅使用的用户地址，agent key 场景需显式配置真实账户地址。
   private readonly userAddress: string;
-  // 当前交易对最小下单金额（USD），会在运行时根据报错动态调整。
-  private minNotional: Decimal;
   // REST 请求全局限流守卫，避免 429 时继续高频打点。
   private readonly rateLimitGuard = new RateLimitGuard();
-
-  private marketContext: HyperliquidMarketContext | null = null;
+  // 已连接的市场信息，键为交易所格式交易对。
+  private readonly markets = new Map<string, HyperliquidMarket>();
+  // 订单所属资产编号，撤单时需要携带。
+  private readonly orderAssets = new Map<string, number>();
   private connectPromise: Promise<void> | null = null;
 
-  constructor(config: HyperliquidConfig, symbol: string) {
+  constructor(
+    config: HyperliquidConfig,
+    symbols: string[],
+    orderIdRepository?: OrderIdMappingRepository
+  ) {
     this.config = config;
-    this.symbol = symbol;
-    this.exchangeSymbol = hyperliquidSymbolMapper.toExchangeSymbol(symbol, config.dex);
+    this.orderIds = new HyperliquidOrderIdStore(orderIdRepository);
+    this.symbols = symbols;
     this.clients = createHyperliquidClients(config);
     // 未配置时回退到签名钱包地址，保持默认行为。
     this.userAddress = config.userAddress ?? this.clients.accountAddress;
-    this.minNotional = config.minNotional ?? Decimal(10);
   }
 
   /**
@@ -87,7 +104,7 @@ export class HyperliquidGridExchangeAdapter implements GridExchangeAdapter {
    * 初始化市场元数据与费率信息。
    */
   public async connect(): Promise<void> {
-    if (this.marketContext) {
+    if (this.markets.size > 0) {
       return;
     }
     if (this.connectPromise) {
@@ -100,15 +117,27 @@ export class HyperliquidGridExchangeAdapter implements GridExchangeAdapter {
           dexs: this.config.dex ? [this.config.dex] : undefined,
         })
       );
-      this.marketContext = await this.withRateLimit(() =>
-        loadHyperliquidMarketContext({
-          infoClient: this.clients.infoClient,
-          symbol: this.symbol,
-          userAddress: this.userAddress,
-          symbolConverter,
-          dex: this.config.dex,
-        })
-      );
+      const markets: HyperliquidMarket[] = [];
+      for (const symbol of this.symbols) {
+        const context = await this.withRateLimit(() =>
+          loadHyperliquidMarketContext({
+            infoClient: this.clients.infoClient,
+            symbol,
+            userAddress: this.userAddress,
+            symbolConverter,
+            dex: this.config.dex,
+          })
+        );
+        markets.push({
+          symbol,
+          context,
+          minNotional: this.config.minNotional ?? Decimal(10),
+        });
+      }
+      // 全部交易对加载成功后再写入，避免部分失败时被视为已连接。
+      for (const market of markets) {
+        this.markets.set(market.context.exchangeSymbol, market);
+      }
     })();
     try {
       await this.connectPromise;
@@ -122,7 +151,7 @@ export class HyperliquidGridExchangeAdapter implements GridExchangeAdapter {
    */
   public async disconnect(): Promise<void> {
     this.clients.wsTransport.socket.close();
-    this.marketContext = null;
+    this.markets.clear();
   }
 
   /**
@@ -139,11 +168,11 @@ export class HyperliquidGridExchangeAdapter implements GridExchangeAdapter {
         if (stopped) {
           return;
         }
-        const context = this.getMarketContext();
+        const { context } = this.getMarket(params.symbol);
         const stream = new HyperliquidOrderbookStream({
           subscriptionClient: this.clients.subscriptionClient,
           exchange: this.name,
-          symbol: this.exchangeSymbol,
+          symbol: context.exchangeSymbol,
           assetId: context.assetId,
           dex: this.config.dex,
         });
@@ -159,7 +188,7 @@ export class HyperliquidGridExchangeAdapter implements GridExchangeAdapter {
   }
 
   /**
-   * 订阅订单更新与仓位快照。
+   * 订阅订单更新、仓位快照与账户保证金摘要（均来自 clearinghouseState 推送）。
    */
   public subscribeAccount(params: AccountSubscribeParams): Unsubscribe {
     let stopped = false;
@@ -176,10 +205,13 @@ export class HyperliquidGridExchangeAdapter implements GridExchangeAdapter {
       );
       unsubscribes.push(() => void orderSub.unsubscribe());
 
-      if (params.onPositionUpdates) {
+      if (params.onPositionUpdates || params.onAccountSummary) {
         const positionSub = await this.clients.subscriptionClient.clearinghouseState(
           { user: this.userAddress, dex: this.config.dex },
-          (event) => this.handlePositionUpdate(event.clearinghouseState, params)
+          (event) => {
+            this.handlePositionUpdate(event.clearinghouseState, params);
+            params.onAccountSummary?.(this.mapAccountSummary(event.clearinghouseState));
+          }
         );
         unsubscribes.push(() => void positionSub.unsubscribe());
       }
@@ -198,12 +230,13 @@ export class HyperliquidGridExchangeAdapter implements GridExchangeAdapter {
   }
 
   /**
-   * 获取市场交易配置。
+   * 获取市场交易配置，最小名义金额取当前生效值（可能已按拒单信息更新）。
    */
   public async getMarketConfig(symbol: string): Promise<MarketTradingConfig> {
     this.ensureSymbol(symbol);
     await this.connect();
-    return this.getMarketContext().tradingConfig;
+    const market = this.getMarket(symbol);
+    return { ...market.context.tradingConfig, minNotional: market.minNotional };
   }
 
   /**
@@ -218,13 +251,45 @@ export class HyperliquidGridExchangeAdapter implements GridExchangeAdapter {
         dex: this.config.dex,
       })
     );
-    const position = this.findPosition(state);
+    const position = this.findPosition(state, this.getMarket(symbol).context.exchangeSymbol);
     if (!position) {
       return Decimal(0);
     }
     return Decimal(position.position.szi);
   }
 
+  /**
+   * 获取账户保证金摘要，覆盖当前 dex 下的全部仓位。
+   */
+  public async getAccountSummary(): Promise<AccountSummary> {
+    await this.connect();
+    const state = await this.withRateLimit(() =>
+      this.clients.infoClient.clearinghouseState({
+        user: this.userAddress,
+        dex: this.config.dex,
+      })
+    );
+    return this.mapAccountSummary(state);
+  }
+
+  /**
+   * 获取交易对当前的杠杆与保证金模式。
+   */
+  public async getLeverage(symbol: string): Promise<LeverageSetting> {
+    this.ensureSymbol(symbol);
+    await this.connect();
+    return this.readLeverage(symbol);
+  }
+
+  /**
+   * 设置交易对的杠杆与保证金模式。
+   */
+  public async setLeverage(symbol: string, setting: LeverageSetting): Promise<void> {
+    this.ensureSymbol(symbol);
+    await this.connect();
+    await this.writeLeverage(symbol, setting);
+  }
+
   /**
    * 根据 clientOrderId 获取订单状态。
    */
@@ -240,6 +305,7 @@ export class HyperliquidGridExchangeAdapter implements GridExchangeAdapter {
     if (response.status === "unknownOid") {
       return null;
     }
+    this.recordOrderAsset(clientOrderId, response.order.order.coin);
     return this.mapOrderStatus(response);
   }
 
@@ -249,6 +315,7 @@ export class HyperliquidGridExchangeAdapter implements GridExchangeAdapter {
   public async getOpenOrders(symbol: string): Promise<ExchangeOrder[]> {
     this.ensureSymbol(symbol);
     await this.connect();
+    const exchangeSymbol = this.getMarket(symbol).context.exchangeSymbol;
     const openOrders = await this.withRateLimit(() =>
       this.clients.infoClient.openOrders({
         user: this.userAddress,
@@ -256,6 +323,7 @@ export class HyperliquidGridExchangeAdapter implements GridExchangeAdapter {
       })
     );
     return openOrders
+      .filter((order) => order.coin === exchangeSymbol)
       .map((order) => this.mapOpenOrder(order))
       .filter((order): order is ExchangeOrder => order !== null);
   }
@@ -266,13 +334,14 @@ export class HyperliquidGridExchangeAdapter implements GridExchangeAdapter {
   public async getOrdersHistory(query: OrderHistoryQuery): Promise<ExchangeOrder[]> {
     this.ensureSymbol(query.symbol);
     await this.connect();
+    const exchangeSymbol = this.getMarket(query.symbol).context.exchangeSymbol;
     const history = await this.withRateLimit(() =>
       this.clients.infoClient.historicalOrders({
         user: this.userAddress,
       })
     );
     return history
-      .filter((item) => item.order.coin === this.exchangeSymbol)
+      .filter((item) => item.order.coin === exchangeSymbol)
       .filter((item) => item.statusTimestamp >= query.sinceMs)
       .map((item) => this.mapHistoricalOrder(item))
       .filter((order): order is ExchangeOrder => order !== null);
@@ -284,20 +353,22 @@ export class HyperliquidGridExchangeAdapter implements GridExchangeAdapter {
   public async placeOrder(request: PlaceOrderRequest): Promise<PlaceOrderResult> {
     this.ensureSymbol(request.symbol);
     await this.connect();
-    const context = this.getMarketContext();
+    const market = this.getMarket(request.symbol);
+    const context = market.context;
     const notional = request.price.times(request.quantity);
-    if (notional.lt(this.minNotional)) {
+    if (notional.lt(market.minNotional)) {
       return {
         status: "REJECTED",
         accountId: this.userAddress,
         exchangeOrderId: undefined,
         statusReason: "minNotionalPrecheck",
         errorCode: "MIN_NOTIONAL_PRECHECK",
-        errorMessage: `notional=${notional.toString()} min=${this.minNotional.toString()}`,
+        errorMessage: `notional=${notional.toString()} min=${market.minNotional.toString()}`,
         updatedAt: Date.now(),
       };
     }
     const cloid = this.orderIds.ensureCloid(request.clientOrderId);
+    this.orderAssets.set(request.clientOrderId, context.assetId);
     const formattedPrice = formatHyperliquidPrice(request.price, context.szDecimals);
     const formattedSize = formatHyperliquidSize(request.quantity, context.szDecimals);
     const tif = this.resolveTimeInForce(request);
@@ -319,7 +390,11 @@ export class HyperliquidGridExchangeAdapter implements GridExchangeAdapter {
         })
       );
       const status = result.response.data.statuses[0];
-      return this.mapPlaceOrderResult(status);
+      return {
+        ...this.mapPlaceOrderResult(status),
+        submittedPrice: Decimal(formattedPrice),
+        submittedQuantity: Decimal(formattedSize),
+      };
     } catch (error) {
       if (!(error instanceof ApiRequestError)) {
         throw error;
@@ -327,7 +402,7 @@ export class HyperliquidGridExchangeAdapter implements GridExchangeAdapter {
       const message = error.message;
       const parsedMinNotional = parseHyperliquidMinNotional(message);
       if (parsedMinNotional) {
-        this.minNotional = parsedMinNotional;
+        market.minNotional = parsedMinNotional;
       }
       const isMinNotional = isHyperliquidMinNotionalError(message);
       return {
@@ -347,12 +422,12 @@ export class HyperliquidGridExchangeAdapter implements GridExchangeAdapter {
    */
   public async cancelOrderByExternalId(externalId: string): Promise<void> {
     await this.connect();
-    const context = this.getMarketContext();
+    const assetId = await this.resolveOrderAssetId(externalId);
     const cloid = this.orderIds.ensureCloid(externalId);
     await this.clients.exchangeClient.cancelByCloid({
       cancels: [
         {
-          asset: context.assetId,
+          asset: assetId,
           cloid,
         },
       ],
@@ -365,7 +440,7 @@ export class HyperliquidGridExchangeAdapter implements GridExchangeAdapter {
   public async massCancel(symbol: string): Promise<void> {
     this.ensureSymbol(symbol);
     await this.connect();
-    const context = this.getMarketContext();
+    const { context } = this.getMarket(symbol);
     const openOrders = await this.withRateLimit(() =>
       this.clients.infoClient.openOrders({
         user: this.userAddress,
@@ -373,7 +448,7 @@ export class HyperliquidGridExchangeAdapter implements GridExchangeAdapter {
       })
     );
     const cancels = openOrders
-      .filter((order) => order.coin === this.exchangeSymbol)
+      .filter((order) => order.coin === context.exchangeSymbol)
       .map((order) => ({ a: context.assetId, o: order.oid }));
     if (cancels.length === 0) {
       return;
@@ -382,16 +457,57 @@ export class HyperliquidGridExchangeAdapter implements GridExchangeAdapter {
   }
 
   private ensureSymbol(symbol: string): void {
-    if (!hyperliquidSymbolMapper.isSameMarket(symbol, this.exchangeSymbol, this.config.dex)) {
-      throw new Error(`交易对不匹配: ${symbol} vs ${this.symbol}`);
+    const configured = this.symbols.some((item) =>
+      hyperliquidSymbolMapper.isSameMarket(
+        symbol,
+        hyperliquidSymbolMapper.toExchangeSymbol(item, this.config.dex),
+        this.config.dex
+      )
+    );
+    if (!configured) {
+      throw new Error(`交易对未配置: ${symbol} (已配置: ${this.symbols.join(", ")})`);
+    }
+  }
+
+  private getMarket(symbol: string): HyperliquidMarket {
+    const market = this.markets.get(
+      hyperliquidSymbolMapper.toExchangeSymbol(symbol, this.config.dex)
+    );
+    if (!market) {
+      throw new Error(`Hyperliquid 市场信息未初始化: ${symbol}`);
+    }
+    return market;
+  }
+
+  /**
+   * 记录订单所属资产，非本适配器承载的交易对忽略。
+   */
+  private recordOrderAsset(clientOrderId: string, coin: string): void {
+    const market = this.markets.get(coin);
+    if (market) {
+      this.orderAssets.set(clientOrderId, market.context.assetId);
     }
   }
 
-  private getMarketContext(): HyperliquidMarketContext {
-    if (!this.marketContext) {
-      throw new Error("Hyperliquid 市场信息未初始化");
+  /**
+   * 撤单所需的资产编号：优先使用下单或回报时记录的映射，仅承载一个交易对时直接使用该交易对，
+   * 否则查询订单状态获取所属交易对（如重启后接管的挂单）。
+   */
+  private async resolveOrderAssetId(clientOrderId: string): Promise<number> {
+    const cached = this.orderAssets.get(clientOrderId);
+    if (cached !== undefined) {
+      return cached;
+    }
+    if (this.markets.size === 1) {
+      const [market] = this.markets.values();
+      return market.context.assetId;
+    }
+    await this.getOrderByClientOrderId(clientOrderId);
+    const resolved = this.orderAssets.get(clientOrderId);
+    if (resolved === undefined) {
+      throw new Error(`无法确定订单所属交易对: ${clientOrderId}`);
     }
-    return this.marketContext;
+    return resolved;
   }
 
   /**
@@ -437,27 +553,80 @@ export class HyperliquidGridExchangeAdapter implements GridExchangeAdapter {
     if (!params.onPositionUpdates) {
       return;
     }
-    const position = this.findPosition(state);
-    if (!position) {
-      params.onPositionUpdates([]);
-      return;
-    }
-    const size = Decimal(position.position.szi);
-    if (size.isZero()) {
-      params.onPositionUpdates([]);
-      return;
+    // 空仓的交易对也推送 size=0，确保平仓后各网格的仓位缓存能及时归零。
+    const positions: ExchangePosition[] = [];
+    for (const market of this.markets.values()) {
+      const position = this.findPosition(state, market.context.exchangeSymbol);
+      const size = position ? Decimal(position.position.szi) : Decimal(0);
+      positions.push({
+        symbol: market.symbol,
+        side: size.isNegative() ? "SHORT" : "LONG",
+        size: size.abs(),
+        updatedAt: state.time,
+      });
     }
-    const mapped: ExchangePosition = {
-      symbol: this.symbol,
-      side: size.isNegative() ? "SHORT" : "LONG",
-      size: size.abs(),
+    params.onPositionUpdates(positions);
+  }
+
+  /**
+   * 映射账户摘要：维持保证金取全仓维持保证金，估值价格由仓位价值反推。
+   */
+  private mapAccountSummary(state: ClearinghouseStateResponse): AccountSummary {
+    const equity = Decimal(state.marginSummary.accountValue);
+    const maintenanceMargin = Decimal(state.crossMaintenanceMarginUsed);
+    const symbols = new Map(
+      Array.from(this.markets.values(), (market) => [market.context.exchangeSymbol, market.symbol])
+    );
+    const positions: AccountPositionRisk[] = state.assetPositions
+      .map(({ position }) => {
+        const size = Decimal(position.szi);
+        return {
+          symbol: symbols.get(position.coin) ?? position.coin,
+          size,
+          entryPrice: Decimal(position.entryPx),
+          markPrice: size.isZero() ? undefined : Decimal(position.positionValue).div(size.abs()),
+          leverage: Decimal(position.leverage.value),
+          liquidationPrice: position.liquidationPx ? Decimal(position.liquidationPx) : null,
+        };
+      })
+      .filter((position) => !position.size.isZero());
+    return {
+      equity,
+      availableMargin: Decimal(state.withdrawable),
+      initialMargin: Decimal(state.marginSummary.totalMarginUsed),
+      maintenanceMargin,
+      marginRatio: computeMarginRatio(maintenanceMargin, equity),
+      positions,
       updatedAt: state.time,
     };
-    params.onPositionUpdates([mapped]);
   }
 
-  private findPosition(state: ClearinghouseStateResponse) {
-    return state.assetPositions.find((item) => item.position.coin === this.exchangeSymbol);
+  private async readLeverage(symbol: string): Promise<LeverageSetting> {
+    const data = await this.withRateLimit(() =>
+      this.clients.infoClient.activeAssetData({
+        user: this.userAddress,
+        coin: this.getMarket(symbol).context.exchangeSymbol,
+      })
+    );
+    return { leverage: data.leverage.value, marginMode: data.leverage.type };
+  }
+
+  private async writeLeverage(symbol: string, setting: LeverageSetting): Promise<void> {
+    if (setting.leverage === null) {
+      throw new Error("Hyperliquid 设置保证金模式时必须指定杠杆倍数");
+    }
+    const leverage = setting.leverage;
+    await this.withRateLimit(() =>
+      this.clients.exchangeClient.updateLeverage({
+        asset: this.getMarket(symbol).context.assetId,
+        isCross: setting.marginMode === "cross",
+        leverage,
+      })
+    );
+  }
+
+  private findPosition(state: ClearinghouseStateResponse, exchangeSymbol: string) {
+    return state.assetPositions.find((item) => item.position.coin === exchangeSymbol);
   }
 
   /**
@@ -507,6 +676,7 @@ export class HyperliquidGridExchangeAdapter implements GridExchangeAdapter {
     if (!clientOrderId) {
       return null;
     }
+    this.recordOrderAsset(clientOrderId, item.order.coin);
     const normalizedStatus = normalizeHyperliquidOrderStatus(item.status);
     return {
       accountId: this.userAddress,
@@ -538,13 +708,14 @@ export class HyperliquidGridExchangeAdapter implements GridExchangeAdapter {
     status: string;
     statusTimestamp: number;
   }): ExchangeOrder | null {
-    if (params.order.coin !== this.exchangeSymbol) {
+    if (!this.markets.has(params.order.coin)) {
       return null;
     }
     const clientOrderId = this.orderIds.resolveClientOrderId(params.order.cloid);
     if (!clientOrderId) {
       return null;
     }
+    this.recordOrderAsset(clientOrderId, params.order.coin);
     const normalizedStatus = normalizeHyperliquidOrderStatus(params.status);
     return {
       accountId: this.userAddress,
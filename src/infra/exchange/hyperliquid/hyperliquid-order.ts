@@ -1,12 +1,24 @@
+import type { OrderIdMappingRepository } from "../../db/order-id-repo";
 import { buildCloid } from "./hyperliquid-utils";
 
+/**
+ * 订单编号映射的交易所键，与适配器名称一致。
+ */
+const HYPERLIQUID_EXCHANGE = "hyperliquid";
+
 /**
  * Hyperliquid cloid 与 clientOrderId 的映射缓存。
+ * 提供仓储时新生成的映射同步落库，内存未命中时回查数据库，保证重启后仍可解析历史订单回报。
  */
 export class HyperliquidOrderIdStore {
+  private readonly repository: OrderIdMappingRepository | null;
   private readonly clientToCloid = new Map<string, `0x${string}`>();
   private readonly cloidToClient = new Map<string, string>();
 
+  constructor(repository?: OrderIdMappingRepository) {
+    this.repository = repository ?? null;
+  }
+
   /**
    * 获取或生成 cloid，并写入映射。
    */
@@ -18,6 +30,7 @@ export class HyperliquidOrderIdStore {
     const cloid = buildCloid(clientOrderId);
     this.clientToCloid.set(clientOrderId, cloid);
     this.cloidToClient.set(cloid, clientOrderId);
+    this.persist(clientOrderId, cloid);
     return cloid;
   }
 
@@ -28,6 +41,46 @@ export class HyperliquidOrderIdStore {
     if (!cloid) {
       return null;
     }
-    return this.cloidToClient.get(cloid) ?? null;
+    const cached = this.cloidToClient.get(cloid);
+    if (cached) {
+      return cached;
+    }
+    const clientOrderId = this.load(cloid);
+    if (!clientOrderId) {
+      return null;
+    }
+    this.clientToCloid.set(clientOrderId, cloid as `0x${string}`);
+    this.cloidToClient.set(cloid, clientOrderId);
+    return clientOrderId;
+  }
+
+  /**
+   * cloid 由 clientOrderId 稳定哈希生成，落库仅为反向解析；写入失败只记录日志。
+   */
+  private persist(clientOrderId: string, cloid: `0x${string}`): void {
+    if (!this.repository) {
+      return;
+    }
+    try {
+      this.repository.upsertMapping({
+        exchange: HYPERLIQUID_EXCHANGE,
+        clientOrderId,
+        exchangeRef: cloid,
+      });
+    } catch (error) {
+      console.warn("写入 Hyperliquid cloid 映射失败", error);
+    }
+  }
+
+  private load(cloid: string): string | null {
+    if (!this.repository) {
+      return null;
+    }
+    try {
+      return this.repository.findByExchangeRef(HYPERLIQUID_EXCHANGE, cloid)?.clientOrderId ?? null;
+    } catch (error) {
+      console.warn("读取 Hyperliquid cloid 映射失败", error);
+      return null;
+    }
   }
 }
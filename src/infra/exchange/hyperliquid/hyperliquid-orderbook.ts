@@ -33,6 +33,8 @@ export class HyperliquidOrderbookStream {
   public async subscribe(onQuote: (quote: ExchangeQuote) => void): Promise<Unsubscribe> {
     let bid: Decimal | null = null;
     let ask: Decimal | null = null;
+    let bidSize: Decimal | null = null;
+    let askSize: Decimal | null = null;
     let mark: Decimal | null = null;
     let lastTs = 0;
 
@@ -47,6 +49,8 @@ export class HyperliquidOrderbookStream {
         bid,
         ask,
         mark: resolvedMark,
+        bidSize: bidSize ?? undefined,
+        askSize: askSize ?? undefined,
         ts,
       });
     };
@@ -59,6 +63,8 @@ export class HyperliquidOrderbookStream {
       }
       bid = Decimal(bestBid.px);
       ask = Decimal(bestAsk.px);
+      bidSize = Decimal(bestBid.sz);
+      askSize = Decimal(bestAsk.sz);
       lastTs = event.time;
       emit(lastTs);
     });
@@ -21,25 +21,36 @@ import type {
   Unsubscribe,
 } from "../../../core/exchange/adapter";
 import type {
+  AccountPositionRisk,
+  AccountSummary,
   ExchangeOrder,
   ExchangePosition,
+  LeverageSetting,
   MarketTradingConfig,
   OrderStatus,
   OrderUpdate,
 } from "../../../core/exchange/models";
+import { computeMarginRatio } from "../../../core/risk/margin-guard";
 import { Decimal } from "../../../shared/number";
 import type { NadoConfig } from "../../config/schema";
+import type { OrderIdMappingRepository } from "../../db/order-id-repo";
+import { AccountSummaryRefresher } from "../account-summary-refresh";
+import { extractRetryAfterMs, isRateLimitError, RateLimitGuard } from "../rate-limit";
 import { createNadoClients } from "./nado-client";
 import { loadNadoMarketContext, roundToStep, type NadoMarketContext } from "./nado-context";
-import { NadoOrderbookStream } from "./nado-orderbook";
 import { buildNadoOrderParams, NadoOrderIdStore } from "./nado-order";
+import { NadoOrderbookStream } from "./nado-orderbook";
 import { nadoSymbolMapper } from "./nado-symbol-mapper";
 import { fromX18, normalizeTimestampMs, toDecimal } from "./nado-utils";
 import { NadoWsManager } from "./nado-ws";
-import { extractRetryAfterMs, isRateLimitError, RateLimitGuard } from "../rate-limit";
 
 /**
- * Nado 交易所适配器实现。
+ * Nado 网格订单均为全仓，保证金由子账户健康度决定。
+ */
+const NADO_LEVERAGE: LeverageSetting = { leverage: null, marginMode: "cross" };
+
+/**
+ * Nado 交易所适配器实现，一个实例可承载同一子账户下的多个交易对。
  */
 export class NadoGridExchangeAdapter implements GridExchangeAdapter {
   public readonly name = "nado";
@@ -50,21 +61,23 @@ export class NadoGridExchangeAdapter implements GridExchangeAdapter {
     supportsMarkPrice: true,
   };
 
-  private readonly symbol: string;
-  private readonly exchangeSymbol: string;
+  private readonly symbols: string[];
   private readonly client: NadoClient;
   private readonly subaccountOwner: string;
   private readonly subaccountNames: string[];
-  private readonly orderIds = new NadoOrderIdStore();
+  private readonly orderIds: NadoOrderIdStore;
   private readonly wsManager: NadoWsManager;
-  private marketContext: NadoMarketContext | null = null;
+  // 已连接的市场信息，键为交易所格式交易对。
+  private readonly markets = new Map<string, { symbol: string; context: NadoMarketContext }>();
+  // 订单所属产品编号，查单与撤单时需要携带。
+  private readonly orderProducts = new Map<string, number>();
   private connectPromise: Promise<void> | null = null;
   // REST 请求全局限流守卫，避免 429 时继续高频打点。
   private readonly rateLimitGuard = new RateLimitGuard();
 
-  constructor(config: NadoConfig, symbol: string) {
-    this.symbol = symbol;
-    this.exchangeSymbol = nadoSymbolMapper.toExchangeSymbol(symbol);
+  constructor(config: NadoConfig, symbols: string[], orderIdRepository?: OrderIdMappingRepository) {
+    this.symbols = symbols;
+    this.orderIds = new NadoOrderIdStore(orderIdRepository);
     const { client } = createNadoClients(config);
     this.client = client;
     const walletClient = this.client.context.walletClient;
@@ -91,16 +104,22 @@ export class NadoGridExchangeAdapter implements GridExchangeAdapter {
    * 初始化市场上下文。
    */
   public async connect(): Promise<void> {
-    if (this.marketContext) {
+    if (this.markets.size > 0) {
       return;
     }
     if (this.connectPromise) {
       return this.connectPromise;
     }
     this.connectPromise = (async () => {
-      this.marketContext = await this.withRateLimit(() =>
-        loadNadoMarketContext(this.client, this.symbol)
-      );
+      const contexts: Array<{ symbol: string; context: NadoMarketContext }> = [];
+      for (const symbol of this.symbols) {
+        const context = await this.withRateLimit(() => loadNadoMarketContext(this.client, symbol));
+        contexts.push({ symbol, context });
+      }
+      // 全部交易对加载成功后再写入，避免部分失败时被视为已连接。
+      for (const item of contexts) {
+        this.markets.set(item.context.exchangeSymbol, item);
+      }
     })();
     try {
       await this.connectPromise;
@@ -114,7 +133,7 @@ export class NadoGridExchangeAdapter implements GridExchangeAdapter {
    */
   public async disconnect(): Promise<void> {
     this.wsManager.close();
-    this.marketContext = null;
+    this.markets.clear();
   }
 
   /**
@@ -131,7 +150,11 @@ export class NadoGridExchangeAdapter implements GridExchangeAdapter {
         if (stopped) {
           return;
         }
-        const stream = new NadoOrderbookStream(this.wsManager, this.getProductId(), this.name);
+        const stream = new NadoOrderbookStream(
+          this.wsManager,
+          this.getProductId(params.symbol),
+          this.name
+        );
         unsubscribe = stream.subscribe(params.onQuote);
       })
       .catch((error) => {
@@ -149,49 +172,59 @@ export class NadoGridExchangeAdapter implements GridExchangeAdapter {
   public subscribeAccount(params: AccountSubscribeParams): Unsubscribe {
     let stopped = false;
     const unsubscribes: Unsubscribe[] = [];
+    // Nado 不推送健康度，仓位变动后重新查询账户摘要。
+    const refresher = params.onAccountSummary
+      ? new AccountSummaryRefresher(() => this.getAccountSummary(), params.onAccountSummary)
+      : null;
 
     const start = async () => {
       await this.connect();
       if (stopped) {
         return;
       }
-      const productId = this.getProductId();
-      for (const subaccountName of this.subaccountNames) {
-        const subaccountHex = subaccountToHex({
-          subaccountOwner: this.subaccountOwner,
-          subaccountName,
-        });
-        unsubscribes.push(
-          this.wsManager.subscribe(
-            "order_update",
-            {
-              product_id: productId,
-              subaccount: subaccountHex,
-            },
-            (event) => this.handleOrderUpdate(event, subaccountName, params)
-          )
-        );
-        unsubscribes.push(
-          this.wsManager.subscribe(
-            "fill",
-            {
-              product_id: productId,
-              subaccount: subaccountHex,
-            },
-            (event) => this.handleFill(event, subaccountName, params)
-          )
-        );
-        unsubscribes.push(
-          this.wsManager.subscribe(
-            "position_change",
-            {
-              product_id: productId,
-              subaccount: subaccountHex,
-            },
-            (event) => this.handlePositionChange(event, subaccountName, params)
-          )
-        );
+      const productIds = Array.from(this.markets.values(), (market) => market.context.productId);
+      for (const productId of productIds) {
+        for (const subaccountName of this.subaccountNames) {
+          const subaccountHex = subaccountToHex({
+            subaccountOwner: this.subaccountOwner,
+            subaccountName,
+          });
+          unsubscribes.push(
+            this.wsManager.subscribe(
+              "order_update",
+              {
+                product_id: productId,
+                subaccount: subaccountHex,
+              },
+              (event) => this.handleOrderUpdate(event, subaccountName, productId, params)
+            )
+          );
+          unsubscribes.push(
+            this.wsManager.subscribe(
+              "fill",
+              {
+                product_id: productId,
+                subaccount: subaccountHex,
+              },
+              (event) => this.handleFill(event, subaccountName, productId, params)
+            )
+          );
+          unsubscribes.push(
+            this.wsManager.subscribe(
+              "position_change",
+              {
+                product_id: productId,
+                subaccount: subaccountHex,
+              },
+              (event) => {
+                this.handlePositionChange(event, subaccountName, params);
+                refresher?.trigger();
+              }
+            )
+          );
+        }
       }
+      refresher?.trigger();
     };
 
     void start().catch((error) => {
@@ -200,6 +233,7 @@ export class NadoGridExchangeAdapter implements GridExchangeAdapter {
 
     return () => {
       stopped = true;
+      refresher?.stop();
       for (const unsubscribe of unsubscribes) {
         unsubscribe();
       }
@@ -212,7 +246,7 @@ export class NadoGridExchangeAdapter implements GridExchangeAdapter {
   public async getMarketConfig(symbol: string): Promise<MarketTradingConfig> {
     this.ensureSymbol(symbol);
     await this.connect();
-    return this.getMarketContext().tradingConfig;
+    return this.getMarketContext(symbol).tradingConfig;
   }
 
   /**
@@ -221,7 +255,7 @@ export class NadoGridExchangeAdapter implements GridExchangeAdapter {
   public async getNetPosition(symbol: string): Promise<Decimal> {
     this.ensureSymbol(symbol);
     await this.connect();
-    const productId = this.getProductId();
+    const productId = this.getProductId(symbol);
     const summaries = [];
     for (const name of this.subaccountNames) {
       const summary = await this.withRateLimit(() =>
@@ -245,6 +279,85 @@ export class NadoGridExchangeAdapter implements GridExchangeAdapter {
     return net;
   }
 
+  /**
+   * 获取账户保证金摘要（跨子账户汇总）。
+   * 权益取未加权健康度，维持/初始保证金为未加权健康度与对应加权健康度之差；
+   * 强平价按单个仓位价格变动使该子账户维持健康度归零估算，忽略其他仓位的同时变动。
+   */
+  public async getAccountSummary(): Promise<AccountSummary> {
+    await this.connect();
+    const symbols = new Map(
+      Array.from(this.markets.values(), (market) => [market.context.productId, market.symbol])
+    );
+    let equity = Decimal(0);
+    let initialMargin = Decimal(0);
+    let maintenanceMargin = Decimal(0);
+    let availableMargin = Decimal(0);
+    const positions: AccountPositionRisk[] = [];
+    for (const name of this.subaccountNames) {
+      const summary = await this.withRateLimit(() =>
+        this.client.subaccount.getSubaccountSummary({
+          subaccountOwner: this.subaccountOwner,
+          subaccountName: name,
+        })
+      );
+      const unweighted = fromX18(summary.health.unweighted.health);
+      const initial = fromX18(summary.health.initial.health);
+      const maintenance = fromX18(summary.health.maintenance.health);
+      equity = equity.plus(unweighted);
+      initialMargin = initialMargin.plus(unweighted.minus(initial));
+      maintenanceMargin = maintenanceMargin.plus(unweighted.minus(maintenance));
+      availableMargin = availableMargin.plus(Decimal.max(initial, 0));
+      for (const balance of summary.balances) {
+        if (balance.type !== ProductEngineType.PERP) {
+          continue;
+        }
+        const size = fromX18(balance.amount);
+        if (size.isZero()) {
+          continue;
+        }
+        const markPrice = toDecimal(balance.oraclePrice);
+        const weight = toDecimal(
+          size.gt(0) ? balance.longWeightMaintenance : balance.shortWeightMaintenance
+        );
+        const liquidationPrice = markPrice.minus(maintenance.div(size.multipliedBy(weight)));
+        positions.push({
+          symbol: symbols.get(balance.productId) ?? `PRODUCT-${balance.productId}`,
+          size,
+          markPrice,
+          liquidationPrice: liquidationPrice.gt(0) ? liquidationPrice : null,
+        });
+      }
+    }
+    return {
+      equity,
+      availableMargin,
+      initialMargin,
+      maintenanceMargin,
+      marginRatio: computeMarginRatio(maintenanceMargin, equity),
+      positions,
+      updatedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Nado 按子账户健康度统一计算保证金，不存在按市场的杠杆设置。
+   */
+  public async getLeverage(symbol: string): Promise<LeverageSetting> {
+    this.ensureSymbol(symbol);
+    return NADO_LEVERAGE;
+  }
+
+  /**
+   * 仅接受与固定全仓一致的设置，其余抛出。
+   */
+  public async setLeverage(symbol: string, setting: LeverageSetting): Promise<void> {
+    this.ensureSymbol(symbol);
+    if (setting.leverage !== null || setting.marginMode !== NADO_LEVERAGE.marginMode) {
+      throw new Error("Nado 不支持按市场设置杠杆或逐仓模式");
+    }
+  }
+
   /**
    * 根据 clientOrderId 查询订单。
    */
@@ -254,21 +367,31 @@ export class NadoGridExchangeAdapter implements GridExchangeAdapter {
     if (!digest) {
       return null;
     }
-    try {
-      const order = await this.withRateLimit(() =>
-        this.client.context.engineClient.getOrder({
-          productId: this.getProductId(),
-          digest,
-        })
-      );
-      return this.mapEngineOrder(order, clientOrderId);
-    } catch (error) {
-      // 2020: digest 不存在（已撤单或已完全成交并被清理），视为无订单。
-      if (error instanceof EngineServerFailureError && error.responseData.error_code === 2020) {
-        return null;
+    // 未记录所属产品时（如重启后接管的订单）逐个产品查询。
+    const cached = this.orderProducts.get(clientOrderId);
+    const productIds =
+      cached !== undefined
+        ? [cached]
+        : Array.from(this.markets.values(), (market) => market.context.productId);
+    for (const productId of productIds) {
+      try {
+        const order = await this.withRateLimit(() =>
+          this.client.context.engineClient.getOrder({
+            productId,
+            digest,
+          })
+        );
+        this.orderProducts.set(clientOrderId, productId);
+        return this.mapEngineOrder(order, clientOrderId);
+      } catch (error) {
+        // 2020: digest 不存在（已撤单或已完全成交并被清理），视为无订单。
+        if (error instanceof EngineServerFailureError && error.responseData.error_code === 2020) {
+          continue;
+        }
+        throw error;
       }
-      throw error;
     }
+    return null;
   }
 
   /**
@@ -277,7 +400,7 @@ export class NadoGridExchangeAdapter implements GridExchangeAdapter {
   public async getOpenOrders(symbol: string): Promise<ExchangeOrder[]> {
     this.ensureSymbol(symbol);
     await this.connect();
-    const productId = this.getProductId();
+    const productId = this.getProductId(symbol);
     const orders = [];
     for (const name of this.subaccountNames) {
       const response = await this.withRateLimit(() =>
@@ -298,7 +421,7 @@ export class NadoGridExchangeAdapter implements GridExchangeAdapter {
   public async getOrdersHistory(query: OrderHistoryQuery): Promise<ExchangeOrder[]> {
     this.ensureSymbol(query.symbol);
     await this.connect();
-    const productId = this.getProductId();
+    const productId = this.getProductId(query.symbol);
     const orders = await this.withRateLimit(() =>
       this.client.market.getHistoricalOrders({
         productIds: [productId],
@@ -320,7 +443,7 @@ export class NadoGridExchangeAdapter implements GridExchangeAdapter {
   public async placeOrder(request: PlaceOrderRequest): Promise<PlaceOrderResult> {
     this.ensureSymbol(request.symbol);
     await this.connect();
-    const context = this.getMarketContext();
+    const context = this.getMarketContext(request.symbol);
     const normalizedPrice = roundToStep(request.price, context.tradingConfig.minPriceChange);
     const normalizedQty = roundToStep(request.quantity, context.tradingConfig.minOrderSizeChange);
     if (normalizedPrice.lte(0) || normalizedQty.lte(0)) {
@@ -338,6 +461,7 @@ export class NadoGridExchangeAdapter implements GridExchangeAdapter {
     }
     const subaccountName = this.getDefaultSubaccountName();
     const clientOrderNum = this.orderIds.registerClientOrder(request.clientOrderId, subaccountName);
+    this.orderProducts.set(request.clientOrderId, context.productId);
     const orderParams = buildNadoOrderParams(
       {
         ...request,
@@ -363,6 +487,8 @@ export class NadoGridExchangeAdapter implements GridExchangeAdapter {
       accountId: subaccountName,
       exchangeOrderId: result.data.digest,
       clientOrderNum,
+      submittedPrice: normalizedPrice,
+      submittedQuantity: normalizedQty,
       updatedAt: Date.now(),
     };
   }
@@ -378,9 +504,10 @@ export class NadoGridExchangeAdapter implements GridExchangeAdapter {
     }
     const subaccountName =
       this.orderIds.resolveSubaccountName(externalId) ?? this.getDefaultSubaccountName();
+    const productId = await this.resolveOrderProductId(externalId);
     await this.withRateLimit(() =>
       this.client.market.cancelOrders({
-        productIds: [this.getProductId()],
+        productIds: [productId],
         digests: [digest],
         subaccountOwner: this.subaccountOwner,
         subaccountName,
@@ -394,7 +521,7 @@ export class NadoGridExchangeAdapter implements GridExchangeAdapter {
   public async massCancel(symbol: string): Promise<void> {
     this.ensureSymbol(symbol);
     await this.connect();
-    const productId = this.getProductId();
+    const productId = this.getProductId(symbol);
     for (const name of this.subaccountNames) {
       await this.withRateLimit(() =>
         this.client.market.cancelProductOrders({
@@ -406,11 +533,33 @@ export class NadoGridExchangeAdapter implements GridExchangeAdapter {
     }
   }
 
-  private getMarketContext(): NadoMarketContext {
-    if (!this.marketContext) {
-      throw new Error("Nado 市场信息未初始化");
+  private getMarketContext(symbol: string): NadoMarketContext {
+    const market = this.markets.get(nadoSymbolMapper.toExchangeSymbol(symbol));
+    if (!market) {
+      throw new Error(`Nado 市场信息未初始化: ${symbol}`);
+    }
+    return market.context;
+  }
+
+  /**
+   * 撤单所需的产品编号：优先使用下单或回报时记录的映射，仅承载一个交易对时直接使用该交易对，
+   * 否则查询订单获取所属产品。
+   */
+  private async resolveOrderProductId(clientOrderId: string): Promise<number> {
+    const cached = this.orderProducts.get(clientOrderId);
+    if (cached !== undefined) {
+      return cached;
     }
-    return this.marketContext;
+    if (this.markets.size === 1) {
+      const [market] = this.markets.values();
+      return market.context.productId;
+    }
+    await this.getOrderByClientOrderId(clientOrderId);
+    const resolved = this.orderProducts.get(clientOrderId);
+    if (resolved === undefined) {
+      throw new Error(`无法确定订单所属交易对: ${clientOrderId}`);
+    }
+    return resolved;
   }
 
   /**
@@ -430,8 +579,8 @@ export class NadoGridExchangeAdapter implements GridExchangeAdapter {
     }
   }
 
-  private getProductId(): number {
-    return this.getMarketContext().productId;
+  private getProductId(symbol: string): number {
+    return this.getMarketContext(symbol).productId;
   }
 
   private getDefaultSubaccountName(): string {
@@ -439,14 +588,18 @@ export class NadoGridExchangeAdapter implements GridExchangeAdapter {
   }
 
   private ensureSymbol(symbol: string): void {
-    if (!nadoSymbolMapper.isSameMarket(symbol, this.exchangeSymbol)) {
-      throw new Error(`交易对不匹配: ${symbol} -> ${this.exchangeSymbol}`);
+    const configured = this.symbols.some((item) =>
+      nadoSymbolMapper.isSameMarket(symbol, nadoSymbolMapper.toExchangeSymbol(item))
+    );
+    if (!configured) {
+      throw new Error(`交易对未配置: ${symbol} (已配置: ${this.symbols.join(", ")})`);
     }
   }
 
   private handleOrderUpdate(
     event: EngineServerSubscriptionOrderUpdateEvent,
     subaccountName: string,
+    productId: number,
     params: AccountSubscribeParams
   ): void {
     const clientOrderNum = this.readClientOrderNum(event);
@@ -457,6 +610,7 @@ export class NadoGridExchangeAdapter implements GridExchangeAdapter {
     if (!clientOrderId) {
       return;
     }
+    this.orderProducts.set(clientOrderId, productId);
     const update: OrderUpdate = {
       accountId: subaccountName,
       clientOrderId,
@@ -472,6 +626,7 @@ export class NadoGridExchangeAdapter implements GridExchangeAdapter {
   private handleFill(
     event: EngineServerSubscriptionFillEvent,
     subaccountName: string,
+    productId: number,
     params: AccountSubscribeParams
   ): void {
     const clientOrderNum = this.readClientOrderNum(event);
@@ -483,6 +638,7 @@ export class NadoGridExchangeAdapter implements GridExchangeAdapter {
     if (!clientOrderId) {
       return;
     }
+    this.orderProducts.set(clientOrderId, productId);
     const original = fromX18(event.original_qty);
     const remaining = fromX18(event.remaining_qty);
     const filled = original.minus(remaining);
@@ -510,13 +666,16 @@ export class NadoGridExchangeAdapter implements GridExchangeAdapter {
     if (!params.onPositionUpdates) {
       return;
     }
-    if (event.product_id !== this.getProductId()) {
+    const market = Array.from(this.markets.values()).find(
+      (item) => item.context.productId === event.product_id
+    );
+    if (!market) {
       return;
     }
     const amount = fromX18(event.amount);
     const side = amount.gte(0) ? "LONG" : "SHORT";
     const position: ExchangePosition = {
-      symbol: this.symbol,
+      symbol: market.symbol,
       side,
       size: amount.abs(),
       updatedAt: normalizeTimestampMs(event.timestamp),
@@ -5,8 +5,14 @@ import {
   type OrderExecutionType,
 } from "@nadohq/client";
 import type { PlaceOrderRequest } from "../../../core/exchange/adapter";
+import type { OrderIdMappingRepository, OrderIdMappingRow } from "../../db/order-id-repo";
 import { toSeconds, toX18 } from "./nado-utils";
 
+/**
+ * 订单编号映射的交易所键，与适配器名称一致。
+ */
+const NADO_EXCHANGE = "nado";
+
 /**
  * 将下单请求转换为 Nado 所需的订单参数。
  */
@@ -60,9 +66,12 @@ function resolveExecutionType(request: PlaceOrderRequest): OrderExecutionType {
 
 /**
  * 订单编号与 digest 的映射管理器。
+ * 提供仓储时映射同步落库，内存未命中时回查数据库，保证重启后仍可解析历史订单；
+ * 数值订单号从已分配的最大值之后继续递增，避免与上一会话的订单冲突。
  */
 export class NadoOrderIdStore {
   private nextOrderNum = 1;
+  private readonly repository: OrderIdMappingRepository | null;
   private readonly clientOrderIdToNum = new Map<string, number>();
   private readonly numToClientOrderId = new Map<number, string>();
   private readonly clientOrderIdToDigest = new Map<string, string>();
@@ -70,18 +79,33 @@ export class NadoOrderIdStore {
   private readonly digestToOrderNum = new Map<string, number>();
   private readonly clientOrderIdToSubaccount = new Map<string, string>();
 
+  constructor(repository?: OrderIdMappingRepository) {
+    this.repository = repository ?? null;
+    const maxOrderNum = this.readRepository((repo) => repo.findMaxClientOrderNum(NADO_EXCHANGE), 0);
+    this.nextOrderNum = maxOrderNum + 1;
+  }
+
   /**
    * 注册 clientOrderId，返回可用于 Nado 的数值订单号。
    */
   public registerClientOrder(clientOrderId: string, subaccountName: string): number {
-    const existing = this.clientOrderIdToNum.get(clientOrderId);
-    if (existing !== undefined) {
+    const existing =
+      this.clientOrderIdToNum.get(clientOrderId) ?? this.loadByClientOrderId(clientOrderId);
+    if (existing !== null) {
       return existing;
     }
     const orderNum = this.nextOrderNum++;
     this.clientOrderIdToNum.set(clientOrderId, orderNum);
     this.numToClientOrderId.set(orderNum, clientOrderId);
     this.clientOrderIdToSubaccount.set(clientOrderId, subaccountName);
+    this.writeRepository((repo) =>
+      repo.upsertMapping({
+        exchange: NADO_EXCHANGE,
+        clientOrderId,
+        clientOrderNum: orderNum,
+        accountId: subaccountName,
+      })
+    );
     return orderNum;
   }
 
@@ -95,17 +119,29 @@ export class NadoOrderIdStore {
     if (orderNum !== undefined) {
       this.digestToOrderNum.set(digest, orderNum);
     }
+    this.writeRepository((repo) =>
+      repo.upsertMapping({ exchange: NADO_EXCHANGE, clientOrderId, exchangeRef: digest })
+    );
   }
 
   /**
    * 根据 digest 或数值订单号解析 clientOrderId。
    */
   public resolveClientOrderId(params: { clientOrderNum?: number; digest?: string }): string | null {
-    if (params.clientOrderNum !== undefined) {
-      return this.numToClientOrderId.get(params.clientOrderNum) ?? null;
+    const { clientOrderNum } = params;
+    if (clientOrderNum !== undefined) {
+      const cached = this.numToClientOrderId.get(clientOrderNum);
+      if (cached) {
+        return cached;
+      }
+      const row = this.readRepository(
+        (repo) => repo.findByClientOrderNum(NADO_EXCHANGE, clientOrderNum),
+        null
+      );
+      return row ? this.cacheMapping(row) : null;
     }
     if (params.digest) {
-      return this.digestToClientOrderId.get(params.digest) ?? null;
+      return this.resolveByDigest(params.digest);
     }
     return null;
   }
@@ -114,6 +150,11 @@ export class NadoOrderIdStore {
    * 获取 clientOrderId 对应的 digest。
    */
   public resolveDigest(clientOrderId: string): string | null {
+    const cached = this.clientOrderIdToDigest.get(clientOrderId);
+    if (cached) {
+      return cached;
+    }
+    this.loadByClientOrderId(clientOrderId);
     return this.clientOrderIdToDigest.get(clientOrderId) ?? null;
   }
 
@@ -121,6 +162,11 @@ export class NadoOrderIdStore {
    * 获取 digest 对应的数值订单号。
    */
   public resolveClientOrderNumByDigest(digest: string): number | null {
+    const cached = this.digestToOrderNum.get(digest);
+    if (cached !== undefined) {
+      return cached;
+    }
+    this.resolveByDigest(digest);
     return this.digestToOrderNum.get(digest) ?? null;
   }
 
@@ -128,13 +174,90 @@ export class NadoOrderIdStore {
    * 获取 clientOrderId 对应的数值订单号。
    */
   public resolveClientOrderNum(clientOrderId: string): number | null {
-    return this.clientOrderIdToNum.get(clientOrderId) ?? null;
+    return this.clientOrderIdToNum.get(clientOrderId) ?? this.loadByClientOrderId(clientOrderId);
   }
 
   /**
    * 获取 clientOrderId 对应的子账户名称。
    */
   public resolveSubaccountName(clientOrderId: string): string | null {
+    const cached = this.clientOrderIdToSubaccount.get(clientOrderId);
+    if (cached) {
+      return cached;
+    }
+    this.loadByClientOrderId(clientOrderId);
     return this.clientOrderIdToSubaccount.get(clientOrderId) ?? null;
   }
+
+  private resolveByDigest(digest: string): string | null {
+    const cached = this.digestToClientOrderId.get(digest);
+    if (cached) {
+      return cached;
+    }
+    const row = this.readRepository((repo) => repo.findByExchangeRef(NADO_EXCHANGE, digest), null);
+    return row ? this.cacheMapping(row) : null;
+  }
+
+  /**
+   * 从数据库加载 clientOrderId 的映射并写入缓存，返回数值订单号。
+   */
+  private loadByClientOrderId(clientOrderId: string): number | null {
+    const row = this.readRepository(
+      (repo) => repo.findByClientOrderId(NADO_EXCHANGE, clientOrderId),
+      null
+    );
+    if (!row) {
+      return null;
+    }
+    this.cacheMapping(row);
+    return row.clientOrderNum;
+  }
+
+  /**
+   * 将数据库记录写回内存缓存，返回 clientOrderId。
+   */
+  private cacheMapping(row: OrderIdMappingRow): string {
+    const { clientOrderId, clientOrderNum, exchangeRef, accountId } = row;
+    if (clientOrderNum !== null) {
+      this.clientOrderIdToNum.set(clientOrderId, clientOrderNum);
+      this.numToClientOrderId.set(clientOrderNum, clientOrderId);
+    }
+    if (exchangeRef) {
+      this.clientOrderIdToDigest.set(clientOrderId, exchangeRef);
+      this.digestToClientOrderId.set(exchangeRef, clientOrderId);
+      if (clientOrderNum !== null) {
+        this.digestToOrderNum.set(exchangeRef, clientOrderNum);
+      }
+    }
+    if (accountId) {
+      this.clientOrderIdToSubaccount.set(clientOrderId, accountId);
+    }
+    return clientOrderId;
+  }
+
+  /**
+   * 读库失败只记录日志并返回兜底值，不阻断下单与回报处理。
+   */
+  private readRepository<T>(read: (repo: OrderIdMappingRepository) => T, fallback: T): T {
+    if (!this.repository) {
+      return fallback;
+    }
+    try {
+      return read(this.repository);
+    } catch (error) {
+      console.warn("读取 Nado 订单编号映射失败", error);
+      return fallback;
+    }
+  }
+
+  private writeRepository(write: (repo: OrderIdMappingRepository) => void): void {
+    if (!this.repository) {
+      return;
+    }
+    try {
+      write(this.repository);
+    } catch (error) {
+      console.warn("写入 Nado 订单编号映射失败", error);
+    }
+  }
 }
@@ -45,6 +45,8 @@ export class NadoOrderbookStream {
       bid,
       ask,
       mark,
+      bidSize: fromX18(event.bid_qty),
+      askSize: fromX18(event.ask_qty),
       ts,
     });
   }
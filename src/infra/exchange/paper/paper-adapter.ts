@@ -0,0 +1,447 @@
+import type {
+  AccountSubscribeParams,
+  GridExchangeAdapter,
+  OrderHistoryQuery,
+  OrderbookSubscribeParams,
+  PlaceOrderRequest,
+  PlaceOrderResult,
+  Unsubscribe,
+} from "../../../core/exchange/adapter";
+import type {
+  AccountSummary,
+  ExchangeOrder,
+  ExchangePosition,
+  ExchangeQuote,
+  LeverageSetting,
+  MarketTradingConfig,
+  OrderUpdate,
+} from "../../../core/exchange/models";
+import { normalizeSymbolInput } from "../../../core/exchange/symbol-mapper";
+import { Decimal } from "../../../shared/number";
+import { type Clock, systemClock } from "../../../shared/time";
+import {
+  type PaperFill,
+  type PaperMatchResult,
+  PaperMatchingEngine,
+  type PaperOrder,
+} from "./paper-matching-engine";
+import type { PaperQuoteSource } from "./paper-quote-source";
+
+/**
+ * 纸面交易适配器参数。
+ */
+export interface PaperAdapterOptions {
+  /** 模拟的交易对，每个交易对独立撮合与记仓 */
+  symbols: string[];
+  quoteSource: PaperQuoteSource;
+  /** 行情来源无法提供市场配置时使用的默认配置 */
+  fallbackMarketConfig: MarketTradingConfig;
+  /** 各交易对的初始仓位，键为大写交易对，未列出的交易对为 0 */
+  initialPositions?: Record<string, Decimal>;
+  /** 时间来源，回测时注入虚拟时钟 */
+  clock?: Clock;
+  /** 成交回调，用于回测统计，不影响账户事件推送 */
+  onFill?: (fill: PaperFill) => void;
+}
+
+/**
+ * 单个交易对的撮合引擎与市场配置。
+ */
+interface PaperMarket {
+  symbol: string;
+  engine: PaperMatchingEngine;
+  marketConfig: MarketTradingConfig;
+  /** 模拟的杠杆设置，未设置杠杆时为 null */
+  leverage: LeverageSetting;
+}
+
+/**
+ * 纸面交易适配器：行情来自真实交易所或录制文件，挂单在本地撮合。
+ * 订单与仓位事件通过 subscribeAccount 异步推送，行为尽量贴近真实交易所。
+ */
+export class PaperGridExchangeAdapter implements GridExchangeAdapter {
+  public readonly name = "paper";
+  public readonly capabilities = {
+    supportsMassCancel: true,
+    supportsPostOnly: true,
+    supportsOrderbook: true,
+    supportsMarkPrice: true,
+  };
+
+  private readonly symbols: string[];
+  private readonly quoteSource: PaperQuoteSource;
+  private readonly fallbackMarketConfig: MarketTradingConfig;
+  private readonly initialPositions: Record<string, Decimal>;
+  private readonly clock: Clock;
+  private readonly onFill?: (fill: PaperFill) => void;
+  private readonly accountListeners = new Map<number, AccountSubscribeParams>();
+  private accountListenerId = 0;
+  // 已初始化的交易对，键为标准化交易对。
+  private readonly markets = new Map<string, PaperMarket>();
+  private connectPromise: Promise<void> | null = null;
+
+  constructor(options: PaperAdapterOptions) {
+    this.symbols = options.symbols;
+    this.quoteSource = options.quoteSource;
+    this.fallbackMarketConfig = options.fallbackMarketConfig;
+    this.initialPositions = options.initialPositions ?? {};
+    this.clock = options.clock ?? systemClock;
+    this.onFill = options.onFill;
+  }
+
+  /**
+   * 交易对格式优先沿用行情来源，保证落库字段与真实交易一致。
+   */
+  public resolveExchangeSymbol(symbol: string): string {
+    return this.quoteSource.resolveExchangeSymbol(symbol) ?? normalizeSymbolInput(symbol);
+  }
+
+  /**
+   * 连接行情来源并初始化撮合引擎（费率来自市场配置）。
+   */
+  public async connect(): Promise<void> {
+    if (this.markets.size > 0) {
+      return;
+    }
+    if (this.connectPromise) {
+      return this.connectPromise;
+    }
+    this.connectPromise = (async () => {
+      await this.quoteSource.connect();
+      for (const symbol of this.symbols) {
+        const sourceConfig = await this.quoteSource.getMarketConfig(symbol);
+        const marketConfig = sourceConfig ?? this.fallbackMarketConfig;
+        const key = normalizeSymbolInput(symbol);
+        const engine = new PaperMatchingEngine({
+          fees: {
+            makerFee: marketConfig.makerFee,
+            takerFee: marketConfig.takerFee,
+          },
+          initialPosition: this.initialPositions[symbol.toUpperCase()] ?? Decimal(0),
+          // 多交易对时按交易对区分订单编号，避免不同引擎的编号重复。
+          orderIdPrefix: this.symbols.length > 1 ? `paper-${key}` : undefined,
+        });
+        this.markets.set(key, {
+          symbol,
+          engine,
+          marketConfig,
+          leverage: { leverage: null, marginMode: "cross" },
+        });
+      }
+      console.info("纸面交易已就绪", {
+        quoteSource: this.quoteSource.name,
+        symbols: this.symbols,
+        initialPositions: Object.fromEntries(
+          Object.entries(this.initialPositions).map(([symbol, amount]) => [
+            symbol,
+            amount.toString(),
+          ])
+        ),
+      });
+    })();
+    try {
+      await this.connectPromise;
+    } finally {
+      this.connectPromise = null;
+    }
+  }
+
+  /**
+   * 断开行情来源。撮合状态保留，便于停止后查询结果。
+   */
+  public async disconnect(): Promise<void> {
+    await this.quoteSource.disconnect();
+  }
+
+  /**
+   * 订阅行情：先驱动本地撮合，再以 paper 名义转发给上层。
+   */
+  public subscribeOrderbook(params: OrderbookSubscribeParams): Unsubscribe {
+    this.ensureSymbol(params.symbol);
+    let unsubscribe: Unsubscribe = () => {
+      // 等待连接完成后替换
+    };
+    let stopped = false;
+    void this.connect()
+      .then(() => {
+        if (stopped) {
+          return;
+        }
+        const market = this.getMarket(params.symbol);
+        unsubscribe = this.quoteSource.subscribe(market.symbol, (quote) => {
+          const paperQuote: ExchangeQuote = { ...quote, exchange: this.name };
+          this.handleQuote(market, paperQuote);
+          params.onQuote(paperQuote);
+        });
+      })
+      .catch((error) => {
+        console.error("纸面交易行情订阅失败", error);
+      });
+    return () => {
+      stopped = true;
+      unsubscribe();
+    };
+  }
+
+  /**
+   * 订阅订单与仓位事件，订阅建立后推送一次仓位快照。
+   */
+  public subscribeAccount(params: AccountSubscribeParams): Unsubscribe {
+    const id = this.accountListenerId++;
+    this.accountListeners.set(id, params);
+    void this.connect()
+      .then(() => {
+        if (!this.accountListeners.has(id) || !params.onPositionUpdates) {
+          return;
+        }
+        params.onPositionUpdates(
+          Array.from(this.markets.values(), (market) => this.buildPosition(market))
+        );
+      })
+      .catch((error) => {
+        console.error("纸面交易账户订阅失败", error);
+      });
+    return () => {
+      this.accountListeners.delete(id);
+    };
+  }
+
+  /**
+   * 获取市场交易配置。
+   */
+  public async getMarketConfig(symbol: string): Promise<MarketTradingConfig> {
+    this.ensureSymbol(symbol);
+    await this.connect();
+    return this.getMarket(symbol).marketConfig;
+  }
+
+  /**
+   * 获取模拟净仓位。
+   */
+  public async getNetPosition(symbol: string): Promise<Decimal> {
+    this.ensureSymbol(symbol);
+    await this.connect();
+    return this.getMarket(symbol).engine.getPosition();
+  }
+
+  /**
+   * 获取模拟账户摘要：纸面交易不模拟资金与保证金，仅返回各交易对仓位与最新 mark。
+   */
+  public async getAccountSummary(): Promise<AccountSummary> {
+    await this.connect();
+    return {
+      equity: null,
+      availableMargin: null,
+      initialMargin: null,
+      maintenanceMargin: null,
+      marginRatio: null,
+      positions: Array.from(this.markets.values())
+        .filter((market) => !market.engine.getPosition().isZero())
+        .map((market) => ({
+          symbol: market.symbol,
+          size: market.engine.getPosition(),
+          markPrice: market.engine.getLastQuote()?.mark,
+          liquidationPrice: null,
+        })),
+      updatedAt: this.clock.now(),
+    };
+  }
+
+  /**
+   * 获取模拟的杠杆设置。
+   */
+  public async getLeverage(symbol: string): Promise<LeverageSetting> {
+    this.ensureSymbol(symbol);
+    await this.connect();
+    return this.getMarket(symbol).leverage;
+  }
+
+  /**
+   * 记录杠杆设置，纸面交易不模拟保证金，设置不影响撮合。
+   */
+  public async setLeverage(symbol: string, setting: LeverageSetting): Promise<void> {
+    this.ensureSymbol(symbol);
+    await this.connect();
+    this.getMarket(symbol).leverage = setting;
+  }
+
+  /**
+   * 根据 clientOrderId 查询模拟订单。
+   */
+  public async getOrderByClientOrderId(clientOrderId: string): Promise<ExchangeOrder | null> {
+    await this.connect();
+    const market = this.findOrderMarket(clientOrderId);
+    if (!market) {
+      return null;
+    }
+    this.expireOrders(market);
+    const order = market.engine.getOrder(clientOrderId);
+    return order ? market.engine.toExchangeOrder(order) : null;
+  }
+
+  /**
+   * 获取模拟挂单。
+   */
+  public async getOpenOrders(symbol: string): Promise<ExchangeOrder[]> {
+    this.ensureSymbol(symbol);
+    await this.connect();
+    const market = this.getMarket(symbol);
+    this.expireOrders(market);
+    const { engine } = market;
+    return engine.getOpenOrders().map((order) => engine.toExchangeOrder(order));
+  }
+
+  /**
+   * 获取模拟历史订单。
+   */
+  public async getOrdersHistory(query: OrderHistoryQuery): Promise<ExchangeOrder[]> {
+    this.ensureSymbol(query.symbol);
+    await this.connect();
+    const { engine } = this.getMarket(query.symbol);
+    return engine
+      .getAllOrders()
+      .filter((order) => order.updatedAt >= query.sinceMs)
+      .map((order) => engine.toExchangeOrder(order));
+  }
+
+  /**
+   * 提交模拟订单，即时成交与状态变化通过账户事件推送。
+   */
+  public async placeOrder(request: PlaceOrderRequest): Promise<PlaceOrderResult> {
+    this.ensureSymbol(request.symbol);
+    await this.connect();
+    const market = this.getMarket(request.symbol);
+    const result = market.engine.submit(request, this.clock.now());
+    const { order } = result;
+    // 提交即拒绝的订单不推送事件，与真实交易所的同步拒单行为保持一致。
+    if (order.status !== "REJECTED") {
+      this.publish(market, result);
+    }
+    return {
+      status: order.status,
+      accountId: "paper",
+      exchangeOrderId: order.exchangeOrderId,
+      statusReason: order.statusReason,
+      errorCode: order.status === "REJECTED" ? order.statusReason : undefined,
+      errorMessage: order.status === "REJECTED" ? order.statusReason : undefined,
+      updatedAt: order.updatedAt,
+    };
+  }
+
+  /**
+   * 撤销模拟订单，订单不存在或已终态时抛错，与真实交易所保持一致。
+   */
+  public async cancelOrderByExternalId(externalId: string): Promise<void> {
+    await this.connect();
+    const market = this.findOrderMarket(externalId);
+    const order = market?.engine.cancel(externalId, this.clock.now());
+    if (!market || !order) {
+      throw new Error(`纸面交易订单不存在或已终态: ${externalId}`);
+    }
+    this.publish(market, { orders: [order], fills: [] });
+  }
+
+  /**
+   * 批量撤销模拟挂单。
+   */
+  public async massCancel(symbol: string): Promise<void> {
+    this.ensureSymbol(symbol);
+    await this.connect();
+    const market = this.getMarket(symbol);
+    const cancelled = market.engine.cancelAll(this.clock.now());
+    this.publish(market, { orders: cancelled, fills: [] });
+  }
+
+  private getMarket(symbol: string): PaperMarket {
+    const market = this.markets.get(normalizeSymbolInput(symbol));
+    if (!market) {
+      throw new Error(`纸面交易撮合引擎未初始化: ${symbol}`);
+    }
+    return market;
+  }
+
+  /**
+   * 按 clientOrderId 定位订单所属交易对。
+   */
+  private findOrderMarket(clientOrderId: string): PaperMarket | null {
+    for (const market of this.markets.values()) {
+      if (market.engine.getOrder(clientOrderId)) {
+        return market;
+      }
+    }
+    return null;
+  }
+
+  private ensureSymbol(symbol: string): void {
+    const normalized = normalizeSymbolInput(symbol);
+    if (!this.symbols.some((item) => normalizeSymbolInput(item) === normalized)) {
+      throw new Error(`交易对未配置: ${symbol} (已配置: ${this.symbols.join(", ")})`);
+    }
+  }
+
+  /**
+   * 行情驱动撮合，并推送订单与仓位变化。
+   */
+  private handleQuote(market: PaperMarket, quote: ExchangeQuote): void {
+    this.publish(market, market.engine.onQuote(quote, this.clock.now()));
+  }
+
+  /**
+   * 查询前处理到期订单，避免返回已过期的挂单。
+   */
+  private expireOrders(market: PaperMarket): void {
+    this.publish(market, market.engine.expire(this.clock.now()));
+  }
+
+  /**
+   * 异步推送撮合结果：订单事件在当前调用栈之后送达，模拟交易所回报延迟。
+   */
+  private publish(market: PaperMarket, result: PaperMatchResult): void {
+    if (result.orders.length === 0) {
+      return;
+    }
+    if (this.onFill) {
+      for (const fill of result.fills) {
+        this.onFill(fill);
+      }
+    }
+    // 先生成快照，避免推送时读到后续变更。
+    const updates = result.orders.map((order) => this.toOrderUpdate(order));
+    const positions = result.fills.length > 0 ? [this.buildPosition(market)] : null;
+    queueMicrotask(() => {
+      for (const listener of this.accountListeners.values()) {
+        listener.onOrderUpdates(updates);
+        if (positions && listener.onPositionUpdates) {
+          listener.onPositionUpdates(positions);
+        }
+      }
+    });
+  }
+
+  private toOrderUpdate(order: PaperOrder): OrderUpdate {
+    return {
+      accountId: "paper",
+      clientOrderId: order.clientOrderId,
+      exchangeOrderId: order.exchangeOrderId,
+      status: order.status,
+      statusReason: order.statusReason,
+      exchangeStatus: order.status,
+      filledQuantity: order.filledQuantity.gt(0) ? order.filledQuantity : undefined,
+      avgFillPrice: order.avgFillPrice,
+      updatedAt: order.updatedAt,
+    };
+  }
+
+  /**
+   * 构建仓位快照。空仓时也推送 size=0 的记录，确保成交后仓位缓存能及时刷新。
+   */
+  private buildPosition(market: PaperMarket): ExchangePosition {
+    const position = market.engine.getPosition();
+    return {
+      symbol: market.symbol,
+      side: position.isNegative() ? "SHORT" : "LONG",
+      size: position.abs(),
+      updatedAt: this.clock.now(),
+    };
+  }
+}
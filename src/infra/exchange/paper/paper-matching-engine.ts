@@ -0,0 +1,355 @@
+import type { PlaceOrderRequest } from "../../../core/exchange/adapter";
+import type {
+  ExchangeOrder,
+  ExchangeQuote,
+  OrderSide,
+  OrderStatus,
+} from "../../../core/exchange/models";
+import { isTerminalOrderStatus } from "../../../core/exchange/order-status";
+import { Decimal } from "../../../shared/number";
+
+/**
+ * 撮合引擎内部订单，保留下单参数以便撮合时校验。
+ */
+export interface PaperOrder {
+  clientOrderId: string;
+  exchangeOrderId: string;
+  side: OrderSide;
+  type: "LIMIT" | "MARKET";
+  timeInForce: "GTT" | "IOC" | "FOK" | "GTC";
+  price: Decimal;
+  quantity: Decimal;
+  filledQuantity: Decimal;
+  avgFillPrice?: Decimal;
+  status: OrderStatus;
+  statusReason?: string;
+  postOnly: boolean;
+  reduceOnly: boolean;
+  expireTimeMs?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * 模拟成交记录。
+ */
+export interface PaperFill {
+  clientOrderId: string;
+  exchangeOrderId: string;
+  side: OrderSide;
+  price: Decimal;
+  quantity: Decimal;
+  fee: Decimal;
+  liquidity: "MAKER" | "TAKER";
+  ts: number;
+}
+
+/**
+ * 撮合结果：状态发生变化的订单与新产生的成交。
+ */
+export interface PaperMatchResult {
+  orders: PaperOrder[];
+  fills: PaperFill[];
+}
+
+/**
+ * 撮合引擎费率配置。
+ */
+export interface PaperFeeConfig {
+  makerFee: Decimal;
+  takerFee: Decimal;
+}
+
+/**
+ * 本地撮合引擎：仅维护我方挂单，按盘口穿越判断成交。
+ * 规则：
+ * - 买单在 ask <= 价格时以挂单价成交（maker），卖单在 bid >= 价格时成交；
+ * - 下单即穿越盘口时，post-only 拒绝，其余以对手价成交（taker）；
+ * - reduce-only 订单只允许减少仓位，超出部分在下单或成交时裁剪；
+ * - 到达 expireTimeMs 的挂单转为 EXPIRED。
+ */
+export class PaperMatchingEngine {
+  private readonly fees: PaperFeeConfig;
+  private readonly orders = new Map<string, PaperOrder>();
+  private position: Decimal;
+  private lastQuote: ExchangeQuote | null = null;
+  private readonly orderIdPrefix: string;
+  private orderSequence = 0;
+
+  constructor(options: {
+    fees: PaperFeeConfig;
+    initialPosition?: Decimal;
+    orderIdPrefix?: string;
+  }) {
+    this.fees = options.fees;
+    this.position = options.initialPosition ?? Decimal(0);
+    this.orderIdPrefix = options.orderIdPrefix ?? "paper";
+  }
+
+  /**
+   * 当前净仓位（多为正，空为负）。
+   */
+  public getPosition(): Decimal {
+    return this.position;
+  }
+
+  /**
+   * 最近一次行情。
+   */
+  public getLastQuote(): ExchangeQuote | null {
+    return this.lastQuote;
+  }
+
+  /**
+   * 获取指定订单快照。
+   */
+  public getOrder(clientOrderId: string): PaperOrder | null {
+    return this.orders.get(clientOrderId) ?? null;
+  }
+
+  /**
+   * 获取全部未终态订单。
+   */
+  public getOpenOrders(): PaperOrder[] {
+    return Array.from(this.orders.values()).filter((order) => !isTerminalOrderStatus(order.status));
+  }
+
+  /**
+   * 获取全部订单（含终态）。
+   */
+  public getAllOrders(): PaperOrder[] {
+    return Array.from(this.orders.values());
+  }
+
+  /**
+   * 提交订单，返回订单最新快照与即时成交。
+   */
+  public submit(request: PlaceOrderRequest, now: number): PaperMatchResult & { order: PaperOrder } {
+    const existing = this.orders.get(request.clientOrderId);
+    if (existing) {
+      return { order: existing, orders: [], fills: [] };
+    }
+    const order: PaperOrder = {
+      clientOrderId: request.clientOrderId,
+      exchangeOrderId: `${this.orderIdPrefix}-${++this.orderSequence}`,
+      side: request.side,
+      type: request.type,
+      timeInForce: request.timeInForce ?? (request.type === "MARKET" ? "IOC" : "GTT"),
+      price: request.price,
+      quantity: request.quantity,
+      filledQuantity: Decimal(0),
+      status: "ACKED",
+      postOnly: request.postOnly ?? false,
+      reduceOnly: request.reduceOnly ?? false,
+      expireTimeMs: request.expireTimeMs,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.orders.set(order.clientOrderId, order);
+
+    if (order.quantity.lte(0)) {
+      this.finish(order, "REJECTED", "INVALID_QUANTITY", now);
+      return { order, orders: [order], fills: [] };
+    }
+    if (order.reduceOnly && this.reducibleQuantity(order.side).lte(0)) {
+      this.finish(order, "REJECTED", "REDUCE_ONLY_REJECTED", now);
+      return { order, orders: [order], fills: [] };
+    }
+    if (order.expireTimeMs !== undefined && order.expireTimeMs <= now) {
+      this.finish(order, "EXPIRED", "EXPIRED_ON_SUBMIT", now);
+      return { order, orders: [order], fills: [] };
+    }
+
+    const quote = this.lastQuote;
+    if (!quote) {
+      if (order.type === "MARKET" || this.isImmediateOnly(order)) {
+        this.finish(order, "REJECTED", "NO_QUOTE", now);
+      }
+      return { order, orders: [order], fills: [] };
+    }
+
+    const crossing = order.type === "MARKET" || this.isCrossing(order, quote);
+    if (crossing && order.postOnly) {
+      this.finish(order, "REJECTED", "POST_ONLY_REJECTED", now);
+      return { order, orders: [order], fills: [] };
+    }
+    if (crossing) {
+      const touchPrice = order.side === "BUY" ? quote.ask : quote.bid;
+      const fill = this.fillOrder(order, touchPrice, "TAKER", now);
+      return { order, orders: [order], fills: fill ? [fill] : [] };
+    }
+    if (this.isImmediateOnly(order)) {
+      this.finish(order, "CANCELLED", "IOC_NOT_FILLED", now);
+    }
+    return { order, orders: [order], fills: [] };
+  }
+
+  /**
+   * 撤销指定订单，订单不存在或已终态时返回 null。
+   */
+  public cancel(clientOrderId: string, now: number): PaperOrder | null {
+    const order = this.orders.get(clientOrderId);
+    if (!order || isTerminalOrderStatus(order.status)) {
+      return null;
+    }
+    this.finish(order, "CANCELLED", "USER_CANCELLED", now);
+    return order;
+  }
+
+  /**
+   * 撤销全部挂单。
+   */
+  public cancelAll(now: number): PaperOrder[] {
+    const cancelled: PaperOrder[] = [];
+    for (const order of this.getOpenOrders()) {
+      this.finish(order, "CANCELLED", "MASS_CANCELLED", now);
+      cancelled.push(order);
+    }
+    return cancelled;
+  }
+
+  /**
+   * 处理行情：先处理过期，再按盘口穿越撮合挂单。
+   */
+  public onQuote(quote: ExchangeQuote, now: number): PaperMatchResult {
+    this.lastQuote = quote;
+    const expired = this.expire(now);
+    const changed: PaperOrder[] = [...expired.orders];
+    const fills: PaperFill[] = [];
+    for (const order of this.getOpenOrders()) {
+      if (!this.isCrossing(order, quote)) {
+        continue;
+      }
+      const fill = this.fillOrder(order, order.price, "MAKER", now);
+      changed.push(order);
+      if (fill) {
+        fills.push(fill);
+      }
+    }
+    return { orders: changed, fills };
+  }
+
+  /**
+   * 将到期挂单标记为 EXPIRED。
+   */
+  public expire(now: number): PaperMatchResult {
+    const expired: PaperOrder[] = [];
+    for (const order of this.getOpenOrders()) {
+      if (order.expireTimeMs !== undefined && order.expireTimeMs <= now) {
+        this.finish(order, "EXPIRED", "EXPIRED", now);
+        expired.push(order);
+      }
+    }
+    return { orders: expired, fills: [] };
+  }
+
+  /**
+   * 将订单快照转换为统一订单结构。
+   */
+  public toExchangeOrder(order: PaperOrder): ExchangeOrder {
+    return {
+      accountId: "paper",
+      clientOrderId: order.clientOrderId,
+      exchangeOrderId: order.exchangeOrderId,
+      status: order.status,
+      statusReason: order.statusReason,
+      exchangeStatus: order.status,
+      side: order.side,
+      price: order.price,
+      quantity: order.quantity,
+      filledQuantity: order.filledQuantity.gt(0) ? order.filledQuantity : undefined,
+      avgFillPrice: order.avgFillPrice,
+      updatedAt: order.updatedAt,
+    };
+  }
+
+  /**
+   * 以指定价格成交订单剩余数量，reduce-only 订单按可减仓数量裁剪。
+   */
+  private fillOrder(
+    order: PaperOrder,
+    price: Decimal,
+    liquidity: "MAKER" | "TAKER",
+    now: number
+  ): PaperFill | null {
+    let quantity = order.quantity.minus(order.filledQuantity);
+    if (order.reduceOnly) {
+      quantity = Decimal.min(quantity, this.reducibleQuantity(order.side));
+      if (quantity.lte(0)) {
+        this.finish(order, "CANCELLED", "REDUCE_ONLY_CANCELLED", now);
+        return null;
+      }
+    }
+    const previousNotional = order.avgFillPrice
+      ? order.avgFillPrice.multipliedBy(order.filledQuantity)
+      : Decimal(0);
+    order.filledQuantity = order.filledQuantity.plus(quantity);
+    order.avgFillPrice = previousNotional
+      .plus(price.multipliedBy(quantity))
+      .dividedBy(order.filledQuantity);
+    this.position =
+      order.side === "BUY" ? this.position.plus(quantity) : this.position.minus(quantity);
+    const remaining = order.quantity.minus(order.filledQuantity);
+    if (remaining.lte(0)) {
+      this.finish(order, "FILLED", undefined, now);
+    } else if (order.reduceOnly) {
+      // reduce-only 剩余部分已无仓位可减，直接撤销。
+      this.finish(order, "CANCELLED", "REDUCE_ONLY_CANCELLED", now);
+    } else {
+      order.status = "PARTIALLY_FILLED";
+      order.updatedAt = now;
+    }
+    const feeRate = liquidity === "MAKER" ? this.fees.makerFee : this.fees.takerFee;
+    return {
+      clientOrderId: order.clientOrderId,
+      exchangeOrderId: order.exchangeOrderId,
+      side: order.side,
+      price,
+      quantity,
+      fee: price.multipliedBy(quantity).multipliedBy(feeRate),
+      liquidity,
+      ts: now,
+    };
+  }
+
+  /**
+   * 判断订单价格是否穿越当前盘口。
+   */
+  private isCrossing(order: PaperOrder, quote: ExchangeQuote): boolean {
+    if (order.side === "BUY") {
+      return quote.ask.lte(order.price);
+    }
+    return quote.bid.gte(order.price);
+  }
+
+  /**
+   * IOC/FOK 订单不允许挂单。
+   */
+  private isImmediateOnly(order: PaperOrder): boolean {
+    return order.timeInForce === "IOC" || order.timeInForce === "FOK";
+  }
+
+  /**
+   * 计算指定方向可减仓的数量。
+   */
+  private reducibleQuantity(side: OrderSide): Decimal {
+    if (side === "BUY") {
+      return this.position.lt(0) ? this.position.negated() : Decimal(0);
+    }
+    return this.position.gt(0) ? this.position : Decimal(0);
+  }
+
+  /**
+   * 将订单置为终态。
+   */
+  private finish(
+    order: PaperOrder,
+    status: OrderStatus,
+    reason: string | undefined,
+    now: number
+  ): void {
+    order.status = status;
+    order.statusReason = reason;
+    order.updatedAt = now;
+  }
+}
@@ -0,0 +1,170 @@
+import type { GridExchangeAdapter, Unsubscribe } from "../../../core/exchange/adapter";
+import type { ExchangeQuote, MarketTradingConfig } from "../../../core/exchange/models";
+import { readQuoteFile } from "../../market-data/quote-file";
+
+/**
+ * 纸面交易的行情来源，屏蔽真实交易所与录制文件的差异。
+ */
+export interface PaperQuoteSource {
+  /** 行情来源标识，用于日志 */
+  readonly name: string;
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  subscribe(symbol: string, onQuote: (quote: ExchangeQuote) => void): Unsubscribe;
+  /** 来源可提供的市场配置，无法提供时返回 null */
+  getMarketConfig(symbol: string): Promise<MarketTradingConfig | null>;
+  /** 来源侧的交易对格式，无法提供时返回 null */
+  resolveExchangeSymbol(symbol: string): string | null;
+}
+
+/**
+ * 使用真实交易所适配器的行情作为纸面交易输入。
+ * 仅调用行情与市场配置相关接口，不会触达下单接口。
+ */
+export class AdapterQuoteSource implements PaperQuoteSource {
+  private readonly adapter: GridExchangeAdapter;
+
+  constructor(adapter: GridExchangeAdapter) {
+    this.adapter = adapter;
+  }
+
+  public get name(): string {
+    return this.adapter.name;
+  }
+
+  public async connect(): Promise<void> {
+    await this.adapter.connect();
+  }
+
+  public async disconnect(): Promise<void> {
+    await this.adapter.disconnect();
+  }
+
+  public subscribe(symbol: string, onQuote: (quote: ExchangeQuote) => void): Unsubscribe {
+    return this.adapter.subscribeOrderbook({ symbol, onQuote });
+  }
+
+  public async getMarketConfig(symbol: string): Promise<MarketTradingConfig | null> {
+    return this.adapter.getMarketConfig(symbol);
+  }
+
+  public resolveExchangeSymbol(symbol: string): string | null {
+    return this.adapter.resolveExchangeSymbol(symbol);
+  }
+}
+
+/**
+ * 回放录制行情文件，按原始时间间隔（可加速）推送，并将时间戳平移到当前时间。
+ */
+export class FileQuoteSource implements PaperQuoteSource {
+  public readonly name = "file";
+  private readonly filePath: string;
+  private readonly replaySpeed: number;
+
+  constructor(filePath: string, replaySpeed: number) {
+    this.filePath = filePath;
+    this.replaySpeed = replaySpeed;
+  }
+
+  public async connect(): Promise<void> {
+    // 文件回放无需建立连接
+  }
+
+  public async disconnect(): Promise<void> {
+    // 文件回放无需释放连接
+  }
+
+  public subscribe(_symbol: string, onQuote: (quote: ExchangeQuote) => void): Unsubscribe {
+    let stopped = false;
+    const run = async () => {
+      const replayStartedAt = Date.now();
+      let firstTs: number | null = null;
+      let count = 0;
+      for await (const quote of readQuoteFile(this.filePath)) {
+        if (stopped) {
+          return;
+        }
+        if (firstTs === null) {
+          firstTs = quote.ts;
+        }
+        const offsetMs = quote.ts - firstTs;
+        if (this.replaySpeed > 0) {
+          const targetAt = replayStartedAt + offsetMs / this.replaySpeed;
+          await sleep(Math.max(0, targetAt - Date.now()));
+        } else {
+          // 不限速回放时让出事件循环，避免阻塞下单流程。
+          await new Promise<void>((resolve) => setImmediate(resolve));
+        }
+        if (stopped) {
+          return;
+        }
+        onQuote({ ...quote, ts: Date.now() });
+        count += 1;
+      }
+      console.info("行情文件回放结束", { filePath: this.filePath, count });
+    };
+    void run().catch((error) => {
+      console.error("行情文件回放失败", error);
+    });
+    return () => {
+      stopped = true;
+    };
+  }
+
+  public async getMarketConfig(): Promise<MarketTradingConfig | null> {
+    return null;
+  }
+
+  public resolveExchangeSymbol(): string | null {
+    return null;
+  }
+}
+
+/**
+ * 由调用方主动推送行情的来源，供回测按虚拟时间逐条驱动。
+ */
+export class ManualQuoteSource implements PaperQuoteSource {
+  public readonly name = "manual";
+  private readonly listeners = new Map<number, (quote: ExchangeQuote) => void>();
+  private listenerId = 0;
+
+  public async connect(): Promise<void> {
+    // 手动推送无需建立连接
+  }
+
+  public async disconnect(): Promise<void> {
+    this.listeners.clear();
+  }
+
+  public subscribe(_symbol: string, onQuote: (quote: ExchangeQuote) => void): Unsubscribe {
+    const id = this.listenerId++;
+    this.listeners.set(id, onQuote);
+    return () => {
+      this.listeners.delete(id);
+    };
+  }
+
+  /**
+   * 同步推送一条行情给全部订阅者。
+   */
+  public push(quote: ExchangeQuote): void {
+    for (const listener of this.listeners.values()) {
+      listener(quote);
+    }
+  }
+
+  public async getMarketConfig(): Promise<MarketTradingConfig | null> {
+    return null;
+  }
+
+  public resolveExchangeSymbol(): string | null {
+    return null;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  if (ms <= 0) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
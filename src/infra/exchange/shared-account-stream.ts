@@ -0,0 +1,161 @@
+import type {
+  AccountSubscribeParams,
+  GridExchangeAdapter,
+  OrderHistoryQuery,
+  OrderbookSubscribeParams,
+  PlaceOrderRequest,
+  PlaceOrderResult,
+  Unsubscribe,
+} from "../../core/exchange/adapter";
+import type {
+  AccountSummary,
+  ExchangeOrder,
+  ExchangePosition,
+  LeverageSetting,
+  MarketTradingConfig,
+  OrderUpdate,
+} from "../../core/exchange/models";
+import type { Decimal } from "../../shared/number";
+
+/**
+ * 账户流共享适配器：多个网格共用同一交易所连接时，只向交易所建立一条账户订阅，
+ * 订单、仓位与账户摘要事件分发给全部订阅者，由各网格按订单前缀与交易对自行过滤。
+ * 其余接口直接委托给被包装的适配器。
+ */
+export class SharedAccountStreamAdapter implements GridExchangeAdapter {
+  private readonly inner: GridExchangeAdapter;
+  private readonly listeners = new Map<number, AccountSubscribeParams>();
+  private listenerId = 0;
+  private upstream: Unsubscribe | null = null;
+
+  constructor(inner: GridExchangeAdapter) {
+    this.inner = inner;
+  }
+
+  public get name(): string {
+    return this.inner.name;
+  }
+
+  public get capabilities(): GridExchangeAdapter["capabilities"] {
+    return this.inner.capabilities;
+  }
+
+  public resolveExchangeSymbol(symbol: string): string {
+    return this.inner.resolveExchangeSymbol(symbol);
+  }
+
+  public connect(): Promise<void> {
+    return this.inner.connect();
+  }
+
+  public disconnect(): Promise<void> {
+    return this.inner.disconnect();
+  }
+
+  public subscribeOrderbook(params: OrderbookSubscribeParams): Unsubscribe {
+    return this.inner.subscribeOrderbook(params);
+  }
+
+  /**
+   * 首个订阅者到来时建立上游订阅，最后一个订阅者取消时释放。
+   */
+  public subscribeAccount(params: AccountSubscribeParams): Unsubscribe {
+    const id = this.listenerId++;
+    this.listeners.set(id, params);
+    this.upstream ??= this.inner.subscribeAccount({
+      onOrderUpdates: (updates) => this.dispatchOrders(updates),
+      onPositionUpdates: (positions) => this.dispatchPositions(positions),
+      onAccountSummary: (summary) => this.dispatchAccountSummary(summary),
+    });
+    return () => {
+      if (!this.listeners.delete(id) || this.listeners.size > 0) {
+        return;
+      }
+      this.upstream?.();
+      this.upstream = null;
+    };
+  }
+
+  public getMarketConfig(symbol: string): Promise<MarketTradingConfig> {
+    return this.inner.getMarketConfig(symbol);
+  }
+
+  public getNetPosition(symbol: string): Promise<Decimal> {
+    return this.inner.getNetPosition(symbol);
+  }
+
+  public getAccountSummary(): Promise<AccountSummary> {
+    return this.inner.getAccountSummary();
+  }
+
+  public getLeverage(symbol: string): Promise<LeverageSetting> {
+    return this.inner.getLeverage(symbol);
+  }
+
+  public setLeverage(symbol: string, setting: LeverageSetting): Promise<void> {
+    return this.inner.setLeverage(symbol, setting);
+  }
+
+  public getOrderByClientOrderId(clientOrderId: string): Promise<ExchangeOrder | null> {
+    return this.inner.getOrderByClientOrderId(clientOrderId);
+  }
+
+  public getOpenOrders(symbol: string): Promise<ExchangeOrder[]> {
+    return this.inner.getOpenOrders(symbol);
+  }
+
+  public getOrdersHistory(query: OrderHistoryQuery): Promise<ExchangeOrder[]> {
+    return this.inner.getOrdersHistory(query);
+  }
+
+  public placeOrder(req: PlaceOrderRequest): Promise<PlaceOrderResult> {
+    return this.inner.placeOrder(req);
+  }
+
+  public cancelOrderByExternalId(externalId: string): Promise<void> {
+    return this.inner.cancelOrderByExternalId(externalId);
+  }
+
+  public massCancel(symbol: string): Promise<void> {
+    return this.inner.massCancel(symbol);
+  }
+
+  /**
+   * 单个订阅者抛错不影响其他订阅者接收事件。
+   */
+  private dispatchOrders(updates: OrderUpdate[]): void {
+    for (const listener of this.listeners.values()) {
+      try {
+        listener.onOrderUpdates(updates);
+      } catch (error) {
+        console.warn("分发订单回报失败", error);
+      }
+    }
+  }
+
+  private dispatchPositions(positions: ExchangePosition[]): void {
+    for (const listener of this.listeners.values()) {
+      if (!listener.onPositionUpdates) {
+        continue;
+      }
+      try {
+        listener.onPositionUpdates(positions);
+      } catch (error) {
+        console.warn("分发仓位更新失败", error);
+      }
+    }
+  }
+
+  private dispatchAccountSummary(summary: AccountSummary): void {
+    for (const listener of this.listeners.values()) {
+      if (!listener.onAccountSummary) {
+        continue;
+      }
+      try {
+        listener.onAccountSummary(summary);
+      } catch (error) {
+        console.warn("分发账户摘要失败", error);
+      }
+    }
+  }
+}
@@ -0,0 +1,248 @@
+import { createWriteStream, existsSync, mkdirSync, openSync, type WriteStream } from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+import type { ExchangePosition, ExchangeQuote, OrderUpdate } from "../../core/exchange/models";
+
+/**
+ * 录制记录：行情、订单回报与仓位快照。
+ * 行情字段与行情文件格式一致，录制结果可直接用于回放与回测。
+ */
+export type CaptureRecord =
+  | { type: "quote"; recordedAt: number; quote: ExchangeQuote }
+  | { type: "order"; recordedAt: number; exchange: string; updates: OrderUpdate[] }
+  | { type: "position"; recordedAt: number; exchange: string; positions: ExchangePosition[] };
+
+/**
+ * 录制文件格式。
+ */
+export type CaptureFormat = "jsonl" | "sqlite";
+
+/**
+ * 录制写入器，实现方负责落盘与文件轮转。
+ */
+export interface CaptureWriter {
+  write(record: CaptureRecord): void;
+  close(): void;
+}
+
+/**
+ * 轮转参数：按 UTC 自然日切分，单文件超过上限时提前切分。
+ */
+export interface CaptureRotationOptions {
+  dir: string;
+  /** 文件名前缀，例如 hyperliquid-BTC */
+  prefix: string;
+  /** 单文件最大字节数 */
+  maxFileBytes: number;
+}
+
+/**
+ * 将录制记录转换为扁平 JSON 结构，Decimal 统一序列化为字符串。
+ */
+export function serializeCaptureRecord(record: CaptureRecord): Record<string, unknown> {
+  if (record.type === "quote") {
+    const { quote } = record;
+    return {
+      type: "quote",
+      exchange: quote.exchange,
+      bid: quote.bid.toString(),
+      ask: quote.ask.toString(),
+      mark: quote.mark.toString(),
+      ts: quote.ts,
+      recordedAt: record.recordedAt,
+    };
+  }
+  if (record.type === "order") {
+    return {
+      type: "order",
+      exchange: record.exchange,
+      ts: record.recordedAt,
+      recordedAt: record.recordedAt,
+      updates: record.updates.map((update) => ({
+        ...update,
+        filledQuantity: update.filledQuantity?.toString(),
+        avgFillPrice: update.avgFillPrice?.toString(),
+      })),
+    };
+  }
+  return {
+    type: "position",
+    exchange: record.exchange,
+    ts: record.recordedAt,
+    recordedAt: record.recordedAt,
+    positions: record.positions.map((position) => ({
+      ...position,
+      size: position.size.toString(),
+    })),
+  };
+}
+
+/**
+ * 轮转逻辑的公共部分：记录当前文件的日期与已写入字节数。
+ */
+abstract class RotatingCaptureWriter implements CaptureWriter {
+  protected readonly options: CaptureRotationOptions;
+  private currentDay: string | null = null;
+  private currentBytes = 0;
+
+  constructor(options: CaptureRotationOptions) {
+    this.options = options;
+    mkdirSync(options.dir, { recursive: true });
+  }
+
+  public write(record: CaptureRecord): void {
+    const payload = JSON.stringify(serializeCaptureRecord(record));
+    const bytes = Buffer.byteLength(payload) + 1;
+    const day = formatUtcDay(record.recordedAt);
+    if (
+      this.currentDay !== day ||
+      (this.currentBytes > 0 && this.currentBytes + bytes > this.options.maxFileBytes)
+    ) {
+      this.rotate(record.recordedAt);
+      this.currentDay = day;
+      this.currentBytes = 0;
+    }
+    this.append(record, payload);
+    this.currentBytes += bytes;
+  }
+
+  public close(): void {
+    this.closeCurrent();
+    this.currentDay = null;
+    this.currentBytes = 0;
+  }
+
+  /**
+   * 生成新文件路径，文件名包含打开时刻；同一秒内多次轮转时追加序号，避免写入旧文件。
+   */
+  protected buildFilePath(openedAt: number, extension: string): string {
+    const stamp = new Date(openedAt)
+      .toISOString()
+      .replace(/[-:]/g, "")
+      .replace(/\.\d+Z$/, "Z");
+    const base = path.join(this.options.dir, `${this.options.prefix}-${stamp}`);
+    let filePath = `${base}.${extension}`;
+    for (let sequence = 1; existsSync(filePath); sequence += 1) {
+      filePath = `${base}-${sequence}.${extension}`;
+    }
+    return filePath;
+  }
+
+  private rotate(openedAt: number): void {
+    this.closeCurrent();
+    this.open(openedAt);
+  }
+
+  protected abstract open(openedAt: number): void;
+  protected abstract append(record: CaptureRecord, payload: string): void;
+  protected abstract closeCurrent(): void;
+}
+
+/**
+ * JSONL 录制：每行一条记录，写入通过文件流异步刷盘。
+ */
+export class JsonlCaptureWriter extends RotatingCaptureWriter {
+  private stream: WriteStream | null = null;
+
+  protected open(openedAt: number): void {
+    const filePath = this.buildFilePath(openedAt, "jsonl");
+    // 同步创建文件，确保同一时刻的下一次轮转能识别到文件已存在。
+    const fd = openSync(filePath, "a");
+    this.stream = createWriteStream(filePath, { fd, encoding: "utf8" });
+    this.stream.on("error", (error) => {
+      console.warn("录制文件写入失败", { filePath, error });
+    });
+    console.info("录制文件已切换", { filePath });
+  }
+
+  protected append(_record: CaptureRecord, payload: string): void {
+    this.stream?.write(`${payload}\n`);
+  }
+
+  protected closeCurrent(): void {
+    this.stream?.end();
+    this.stream = null;
+  }
+}
+
+/**
+ * SQLite 录制：每个轮转周期一个独立数据库文件，记录写入 capture_events 表。
+ */
+export class SqliteCaptureWriter extends RotatingCaptureWriter {
+  private sqlite: Database.Database | null = null;
+  private insert: Database.Statement | null = null;
+
+  protected open(openedAt: number): void {
+    const filePath = this.buildFilePath(openedAt, "db");
+    const sqlite = new Database(filePath);
+    sqlite.pragma("journal_mode = WAL");
+    sqlite.pragma("synchronous = NORMAL");
+    ensureCaptureSchema(sqlite);
+    this.sqlite = sqlite;
+    this.insert = sqlite.prepare(
+      "INSERT INTO capture_events (type, exchange, ts, recorded_at, payload) VALUES (?, ?, ?, ?, ?)"
+    );
+    console.info("录制文件已切换", { filePath });
+  }
+
+  protected append(record: CaptureRecord, payload: string): void {
+    if (!this.insert) {
+      return;
+    }
+    const exchange = record.type === "quote" ? record.quote.exchange : record.exchange;
+    const ts = record.type === "quote" ? record.quote.ts : record.recordedAt;
+    try {
+      this.insert.run(record.type, exchange, ts, record.recordedAt, payload);
+    } catch (error) {
+      console.warn("录制记录写入失败", error);
+    }
+  }
+
+  protected closeCurrent(): void {
+    this.insert = null;
+    if (this.sqlite) {
+      try {
+        this.sqlite.close();
+      } catch (error) {
+        console.warn("关闭录制数据库失败", error);
+      }
+    }
+    this.sqlite = null;
+  }
+}
+
+/**
+ * 按格式创建录制写入器。
+ */
+export function createCaptureWriter(
+  format: CaptureFormat,
+  options: CaptureRotationOptions
+): CaptureWriter {
+  if (format === "sqlite") {
+    return new SqliteCaptureWriter(options);
+  }
+  return new JsonlCaptureWriter(options);
+}
+
+/**
+ * 初始化录制表结构，payload 与 JSONL 单行内容一致。
+ */
+export function ensureCaptureSchema(sqlite: Database.Database): void {
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS capture_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      type TEXT NOT NULL,
+      exchange TEXT NOT NULL,
+      ts INTEGER NOT NULL,
+      recorded_at INTEGER NOT NULL,
+      payload TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS capture_events_type_ts
+      ON capture_events (type, ts);
+  `);
+}
+
+function formatUtcDay(ts: number): string {
+  return new Date(ts).toISOString().slice(0, 10);
+}
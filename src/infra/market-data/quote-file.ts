@@ -0,0 +1,196 @@
+import { createReadStream } from "node:fs";
+import path from "node:path";
+import { createInterface } from "node:readline";
+import Database from "better-sqlite3";
+import type { ExchangeQuote } from "../../core/exchange/models";
+import { Decimal } from "../../shared/number";
+
+/**
+ * 行情文件格式，按扩展名推断。
+ */
+export type QuoteFileFormat = "jsonl" | "csv" | "sqlite";
+
+/**
+ * 根据文件扩展名推断行情文件格式，无法识别时按 JSONL 处理。
+ */
+export function detectQuoteFileFormat(filePath: string): QuoteFileFormat {
+  const ext = path.extname(filePath).toLowerCase();
+  if (ext === ".csv") {
+    return "csv";
+  }
+  if (ext === ".db" || ext === ".sqlite") {
+    return "sqlite";
+  }
+  return "jsonl";
+}
+
+/**
+ * 行情文件读取参数。
+ */
+export interface QuoteFileReadOptions {
+  /** 只输出该交易所的行情，未指定时取首条行情的交易所 */
+  exchange?: string;
+}
+
+/**
+ * 逐行读取行情文件（JSONL/CSV/SQLite 录制文件），输出统一的 ExchangeQuote。
+ * 录制文件可能混有参考价交易所的行情，只输出同一交易所的行情，避免回放时盘口在交易所间跳动。
+ * 无法解析的行会被跳过并输出告警，避免单行脏数据中断回放。
+ */
+export async function* readQuoteFile(
+  filePath: string,
+  options: QuoteFileReadOptions = {}
+): AsyncGenerator<ExchangeQuote> {
+  let exchange = options.exchange ?? null;
+  let skipped = 0;
+  for await (const quote of readAllQuotes(filePath)) {
+    exchange ??= quote.exchange;
+    if (quote.exchange !== exchange) {
+      skipped += 1;
+      continue;
+    }
+    yield quote;
+  }
+  if (skipped > 0) {
+    console.info("已跳过其他交易所的行情", { filePath, exchange, skipped });
+  }
+}
+
+/**
+ * 按文件格式读取全部行情，不区分交易所。
+ */
+async function* readAllQuotes(filePath: string): AsyncGenerator<ExchangeQuote> {
+  const format = detectQuoteFileFormat(filePath);
+  if (format === "sqlite") {
+    yield* readQuoteDb(filePath);
+    return;
+  }
+  const stream = createReadStream(filePath, { encoding: "utf8" });
+  const lines = createInterface({ input: stream, crlfDelay: Number.POSITIVE_INFINITY });
+  let header: string[] | null = null;
+  let lineNumber = 0;
+  try {
+    for await (const rawLine of lines) {
+      lineNumber += 1;
+      const line = rawLine.trim();
+      if (!line) {
+        continue;
+      }
+      if (format === "csv" && !header) {
+        header = parseCsvHeader(line);
+        continue;
+      }
+      const quote =
+        format === "csv" && header ? parseQuoteCsvLine(header, line) : parseQuoteJsonLine(line);
+      if (quote === undefined) {
+        console.warn("行情文件存在无法解析的行，已跳过", { filePath, lineNumber });
+        continue;
+      }
+      if (quote) {
+        yield quote;
+      }
+    }
+  } finally {
+    lines.close();
+    stream.destroy();
+  }
+}
+
+/**
+ * 读取 SQLite 录制文件中的行情记录，按写入顺序输出。
+ */
+async function* readQuoteDb(filePath: string): AsyncGenerator<ExchangeQuote> {
+  const sqlite = new Database(filePath, { readonly: true, fileMustExist: true });
+  try {
+    const rows = sqlite
+      .prepare("SELECT id, payload FROM capture_events WHERE type = 'quote' ORDER BY id")
+      .iterate() as IterableIterator<{ id: number; payload: string }>;
+    for (const row of rows) {
+      const quote = parseQuoteJsonLine(row.payload);
+      if (!quote) {
+        console.warn("录制文件存在无法解析的行情，已跳过", { filePath, id: row.id });
+        continue;
+      }
+      yield quote;
+    }
+  } finally {
+    sqlite.close();
+  }
+}
+
+/**
+ * 解析 JSONL 单行。
+ * 返回 null 表示非行情记录（例如录制文件中的订单事件），undefined 表示解析失败。
+ */
+export function parseQuoteJsonLine(line: string): ExchangeQuote | null | undefined {
+  let record: unknown;
+  try {
+    record = JSON.parse(line);
+  } catch {
+    return undefined;
+  }
+  if (!record || typeof record !== "object") {
+    return undefined;
+  }
+  const fields = record as Record<string, unknown>;
+  if (fields.type !== undefined && fields.type !== "quote") {
+    return null;
+  }
+  return buildQuote(fields);
+}
+
+/**
+ * 解析 CSV 表头，统一为小写字段名。
+ */
+function parseCsvHeader(line: string): string[] {
+  return line.split(",").map((item) => item.trim().toLowerCase());
+}
+
+/**
+ * 解析 CSV 单行，字段顺序由表头决定。
+ */
+function parseQuoteCsvLine(header: string[], line: string): ExchangeQuote | null | undefined {
+  const values = line.split(",").map((item) => item.trim());
+  const fields: Record<string, unknown> = {};
+  header.forEach((key, index) => {
+    fields[key] = values[index];
+  });
+  if (fields.type !== undefined && fields.type !== "" && fields.type !== "quote") {
+    return null;
+  }
+  return buildQuote(fields);
+}
+
+/**
+ * 从原始字段构造行情，缺失或非法字段视为解析失败。
+ */
+function buildQuote(fields: Record<string, unknown>): ExchangeQuote | undefined {
+  const bid = toDecimal(fields.bid);
+  const ask = toDecimal(fields.ask);
+  const mark = toDecimal(fields.mark) ?? (bid && ask ? bid.plus(ask).dividedBy(2) : null);
+  const ts = Number(fields.ts);
+  if (!bid || !ask || !mark || !Number.isFinite(ts)) {
+    return undefined;
+  }
+  return {
+    exchange: typeof fields.exchange === "string" ? fields.exchange : "file",
+    bid,
+    ask,
+    mark,
+    ts,
+  };
+}
+
+/**
+ * 将字符串或数字转换为 Decimal，非法值返回 null。
+ */
+function toDecimal(value: unknown): Decimal | null {
+  if (typeof value !== "string" && typeof value !== "number") {
+    return null;
+  }
+  if (typeof value === "string" && value.trim() === "") {
+    return null;
+  }
+  const decimal = Decimal(value);
+  return decimal.isNaN() ? null : decimal;
+}
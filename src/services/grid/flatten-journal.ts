@@ -0,0 +1,66 @@
+import type { FlattenEventRepository } from "../../infra/db/flatten-event-repo";
+import type { Decimal } from "../../shared/number";
+
+/**
+ * 平仓流程步骤。
+ */
+export type FlattenStep = "START" | "CANCEL" | "POSITION" | "ORDER" | "DONE" | "FAILED";
+
+/**
+ * 平仓所属的策略、交易所与交易对。
+ */
+export interface FlattenJournalKey {
+  strategyId: string;
+  exchange: string;
+  symbol: string;
+}
+
+/**
+ * 单个平仓步骤记录。
+ */
+export interface FlattenStepRecord {
+  runId: string;
+  source: string;
+  step: FlattenStep;
+  position?: Decimal | null;
+  clientOrderId?: string;
+  /** 步骤明细，落库时序列化为 JSON */
+  detail?: Record<string, unknown>;
+  createdAt: number;
+}
+
+/**
+ * 平仓流程日志接口。
+ */
+export interface FlattenJournal {
+  recordStep(key: FlattenJournalKey, record: FlattenStepRecord): Promise<void>;
+}
+
+/**
+ * 基于 SQLite 的平仓流程日志实现。
+ */
+export class DbFlattenJournal implements FlattenJournal {
+  private readonly repo: FlattenEventRepository;
+
+  constructor(repo: FlattenEventRepository) {
+    this.repo = repo;
+  }
+
+  /**
+   * 写入平仓步骤，Decimal 字段在 JSON 中序列化为字符串。
+   */
+  public async recordStep(key: FlattenJournalKey, record: FlattenStepRecord): Promise<void> {
+    await this.repo.insertEvent({
+      runId: record.runId,
+      strategyId: key.strategyId,
+      exchange: key.exchange,
+      symbol: key.symbol,
+      source: record.source,
+      step: record.step,
+      position: record.position?.toString() ?? null,
+      clientOrderId: record.clientOrderId ?? null,
+      detail: record.detail ? JSON.stringify(record.detail) : null,
+      createdAt: record.createdAt,
+    });
+  }
+}
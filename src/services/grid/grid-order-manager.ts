@@ -1,24 +1,68 @@
 import type { GridExchangeAdapter, Unsubscribe } from "../../core/exchange/adapter";
+import { describeLeverageMismatch, resolveLeverageSetting } from "../../core/exchange/leverage";
 import type {
   ExchangeOrder,
   ExchangePosition,
   ExchangeQuote,
+  MarketTradingConfig,
   OrderUpdate,
 } from "../../core/exchange/models";
 import { isTerminalOrderStatus } from "../../core/exchange/order-status";
+import {
+  positionBreachRule,
+  type RiskAction,
+  type RiskPauseRule,
+  type RiskRuleContext,
+} from "../../core/risk/pause-rule";
+import type { PortfolioExposure, PortfolioLimitBreach } from "../../core/risk/portfolio-guard";
 import { canPlaceByMaxPosition } from "../../core/risk/position-guard";
+import { checkPreTrade, type PreTradeRejection } from "../../core/risk/pre-trade";
+import { isBelowMinNotional } from "../../core/grid/quantity";
+import { ReferencePriceResolver } from "../../core/grid/reference-price";
+import { resolveSideSpacing } from "../../core/grid/spacing";
 import { GridState } from "../../core/grid/state";
 import { GridStrategy } from "../../core/grid/strategy";
-import type { GridLevel, GridOrderState } from "../../core/grid/types";
-import type { GridConfig } from "../../infra/config/schema";
+import { VolatilitySpacingEstimator } from "../../core/grid/volatility";
+import type {
+  GridClosedPair,
+  GridLevel,
+  GridOrderState,
+  GridPair,
+  GridSideSpacing,
+  GridSkew,
+  GridSpacingConfig,
+} from "../../core/grid/types";
+import type {
+  GridConfig,
+  GridPausePolicy,
+  GridRangeConfig,
+  GridShutdownPolicy,
+} from "../../infra/config/schema";
 import type { OrderRecordInput, OrderRecorder } from "../recorder/order-recorder";
+import type { DrawdownGuard, DrawdownGuardStatus } from "../risk/drawdown-guard";
+import type { MarginGuard, MarginGuardStatus } from "../risk/margin-guard";
+import type { PortfolioRiskManager } from "../risk/portfolio-risk-manager";
 import { Decimal } from "../../shared/number";
+import { type Clock, systemClock, withTimeout } from "../../shared/time";
 import type { MarketDataService } from "../market-data/market-data-service";
+import type {
+  GridStateKey,
+  GridStateStore,
+  PersistedGridOrder,
+  PersistedGridState,
+} from "./grid-state-store";
 import type { NotificationService } from "../../infra/notification/notification-service";
+import type { FillSource } from "../pnl/fill-store";
+import type { GridPnlService } from "../pnl/grid-pnl-service";
+import type { FlattenJournal } from "./flatten-journal";
+import type { GridPairStatus, GridPairStore } from "./grid-pair-store";
+import { type FlattenResult, PositionFlattener } from "./position-flattener";
 
 /**
- * 网格订单管理器负责将行情快照转化为下单/撤单行为。
- * 当前实现聚焦对称滑动网格的核心流程。
+ * 网格订单管理器负责将行情快照与成交回报转化为下单/撤单行为。
+ * 支持跟随参考价平移的滑动网格与固定边界的区间网格，买卖两侧档位数与间距可不对称，
+ * 成交后平移中心价或按配对止盈挂单；按净仓位偏移档位，并在补单前执行下单前检查、
+ * 仓位、组合、亏损与保证金等风控规则，行情、成交与外部指令经同一串行队列处理。
  */
 export class GridOrderManager {
   private readonly exchange: GridExchangeAdapter;
@@ -26,18 +70,42 @@ export class GridOrderManager {
   private readonly config: GridConfig;
   private readonly recorder?: OrderRecorder;
   private readonly notifier?: NotificationService;
-  private readonly strategy: GridStrategy;
+  private readonly stateStore?: GridStateStore;
+  private readonly pairStore?: GridPairStore;
+  private readonly pnl?: GridPnlService;
+  private readonly riskRules: RiskPauseRule[];
+  private readonly portfolioRisk?: PortfolioRiskManager;
+  private readonly drawdownGuard?: DrawdownGuard;
+  private readonly marginGuard?: MarginGuard;
+  private readonly clock: Clock;
+  private strategy: GridStrategy;
   private readonly state: GridState;
+  private readonly flattener: PositionFlattener;
   private readonly orderIdPrefix: string;
   // 每次进程启动生成的会话标识，用于避免 clientOrderId 重启重复。
   private readonly orderSessionId: string;
   private readonly exchangeSymbol: string;
   private quoteUnsubscribe: Unsubscribe | null = null;
   private accountUnsubscribe: Unsubscribe | null = null;
+  private portfolioUnregister: Unsubscribe | null = null;
   private maintenanceInProgress = false;
   private pendingQuote: ExchangeQuote | null = null;
+  // 最近一次行情快照中各交易所的最新行情，供多交易所参考价使用
+  private referenceQuotes: Record<string, ExchangeQuote> = {};
+  private lastReferencePrice: Decimal | null = null;
+  // 下单前检查被拒的档位及原因，同一档位原因不变时不重复落库
+  private readonly preTradeRejections = new Map<number, PreTradeRejection>();
   private pendingFillShiftSteps: number[] = [];
+  private pendingPairedFills: GridOrderState[] = [];
+  private pendingCommands: Array<() => Promise<void>> = [];
   private processing = false;
+  // 暂停期间不补单、不平移，撤单超时、对账与成交记账照常进行
+  private paused = false;
+  // 区间网格中价格是否位于区间之外
+  private outOfRange = false;
+  private pauseReason: string | null = null;
+  private pauseSource: GridPauseSource | null = null;
+  private pausedAt: number | null = null;
   private orderSequence = 0;
   private pendingCancels = new Set<string>();
   private cachedNetPosition: Decimal | null = null;
@@ -58,43 +126,99 @@ export class GridOrderManager {
   // 定时维护节奏：撤单超时检查与对账修复
   private readonly maintenanceIntervalMs = 1000;
   private readonly reconcileIntervalMs = 5000;
+  // 无成交记录时历史成交回补的回溯窗口
+  private readonly fillBackfillWindowMs = 24 * 60 * 60 * 1000;
   // 最近一次维护任务执行时间
   private lastMaintenanceAt: number | null = null;
   // 最近一次对账执行时间
   private lastReconcileAt: number | null = null;
   // 最小下单金额不足时，记录阻断价格（该价及更低价不再下单）。
   private minNotionalBlockPrice: Decimal | null = null;
+  // 启动时加载的市场配置，提供最小下单步长与最小名义金额
+  private marketConfig: MarketTradingConfig | null = null;
+  // 名义金额不足而跳过的档位，变化时才重新告警
+  private undersizedLevels: number[] = [];
+  // 最近一次告警的步长问题，变化时才重新告警
+  private layoutIssuesKey = "";
+  // 当前生效的间距，自适应模式下随波动率调整
+  private spacingConfig: GridSpacingConfig;
+  private readonly volatility: VolatilitySpacingEstimator | null;
+  private readonly referencePrice: ReferencePriceResolver;
+  // 最近一次应用库存偏移时的净仓位比例
+  private skewRatio = Decimal(0);
+  // 最近一次因组合限额延后补单的原因，限额解除后清空
+  private portfolioDeferral: GridPortfolioDeferral | null = null;
+  // 本次运行闭合的配对往返数量与累计价差
+  private pairedRoundTrips = 0;
+  private pairedSpread = Decimal(0);
 
   constructor(
     exchange: GridExchangeAdapter,
     marketData: MarketDataService,
     config: GridConfig,
-    recorder?: OrderRecorder,
-    notifier?: NotificationService
+    options: GridOrderManagerOptions = {}
   ) {
     this.exchange = exchange;
     this.marketData = marketData;
     this.config = config;
-    this.recorder = recorder;
-    this.notifier = notifier;
-    this.strategy = new GridStrategy({
-      mode: config.spacingMode,
-      spacing: config.spacing,
-      spacingPercent: config.spacingPercent,
-      levels: config.levels,
-    });
+    this.recorder = options.recorder;
+    this.notifier = options.notifier;
+    this.stateStore = options.stateStore;
+    this.pairStore = options.pairStore;
+    this.pnl = options.pnl;
+    this.drawdownGuard = options.drawdownGuard;
+    this.marginGuard = options.marginGuard;
+    this.riskRules = [
+      ...(options.riskRules ?? [positionBreachRule]),
+      ...(options.drawdownGuard ? [options.drawdownGuard] : []),
+      ...(options.marginGuard ? [options.marginGuard] : []),
+    ];
+    this.portfolioRisk = options.portfolioRisk;
+    this.clock = options.clock ?? systemClock;
+    const spacing = this.buildSpacingConfig();
+    this.spacingConfig = spacing;
+    this.strategy = this.buildStrategy(spacing);
+    this.referencePrice = new ReferencePriceResolver(config.referencePrice);
+    this.volatility = config.adaptiveSpacing
+      ? new VolatilitySpacingEstimator(config.adaptiveSpacing)
+      : null;
     this.state = new GridState({
-      mode: config.spacingMode,
-      spacing: config.spacing,
-      spacingPercent: config.spacingPercent,
+      ...spacing,
       levels: config.levels,
+      buyLevels: config.buyLevels,
+      sellLevels: config.sellLevels,
       quantity: config.quantity,
+      quantityProfile: config.quantityProfile,
+      quantityUnit: config.quantityUnit,
+      range: config.mode === "range" ? config.range : undefined,
+      fillMode: config.fillMode,
       strategyId: config.strategyId,
       symbol: config.symbol,
+      clock: this.clock,
     });
     this.orderIdPrefix = `${config.strategyId}-${config.symbol}-`;
-    this.orderSessionId = this.buildOrderSessionId();
+    this.orderSessionId = options.orderSessionId ?? this.buildOrderSessionId();
     this.exchangeSymbol = this.exchange.resolveExchangeSymbol(this.config.symbol);
+    this.flattener = new PositionFlattener({
+      exchange,
+      marketData,
+      strategyId: config.strategyId,
+      symbol: config.symbol,
+      exchangeSymbol: this.exchangeSymbol,
+      clientOrderIdPrefix: this.orderIdPrefix,
+      slippage: config.flattenSlippage,
+      recorder: this.recorder,
+      pnl: this.pnl,
+      journal: options.flattenJournal,
+      clock: this.clock,
+    });
+  }
+
+  /**
+   * 本网格订单的 clientOrderId 前缀，用于在共享账户流中识别本网格订单。
+   */
+  public getClientOrderIdPrefix(): string {
+    return this.orderIdPrefix;
   }
 
   /**
@@ -104,18 +228,85 @@ export class GridOrderManager {
     if (this.quoteUnsubscribe || this.accountUnsubscribe) {
       return;
     }
+    await this.applyLeverage();
+    await this.restoreDrawdownTrip();
     this.accountUnsubscribe = this.exchange.subscribeAccount({
       onOrderUpdates: (updates) => this.handleOrderUpdates(updates),
       onPositionUpdates: (positions) => this.handlePositionUpdates(positions),
     });
-    this.quoteUnsubscribe = this.marketData.subscribe([this.exchange.name], (snapshot) => {
+    this.portfolioUnregister =
+      this.portfolioRisk?.register(this.config.strategyId, () =>
+        this.cachedNetPosition ? this.buildPortfolioExposure(this.cachedNetPosition) : null
+      ) ?? null;
+    const exchanges = [this.exchange.name, ...this.config.referencePrice.exchanges];
+    this.quoteUnsubscribe = this.marketData.subscribe(this.config.symbol, exchanges, (snapshot) => {
       const quote = snapshot.latest[this.exchange.name] ?? snapshot.source;
       if (quote.exchange !== this.exchange.name) {
         return;
       }
+      this.referenceQuotes = snapshot.latest;
       this.enqueueQuote(quote);
     });
+    await this.loadMarketConfig();
     await this.refreshNetPosition("启动初始化");
+    await this.backfillFillsFromHistory();
+  }
+
+  /**
+   * 按退出策略处理挂单与仓位，需在 stop() 之前调用。
+   * 先停止行情驱动并暂停网格，再在总超时内撤单或平仓，结果写日志并发送通知。
+   */
+  public async shutdown(): Promise<GridShutdownOutcome> {
+    const policy = this.config.shutdownPolicy;
+    const outcome: GridShutdownOutcome = { policy, ok: true, flatten: null, error: null };
+    if (policy === "keep") {
+      return outcome;
+    }
+    const deadline = this.clock.now() + this.config.shutdownTimeoutMs;
+    this.quoteUnsubscribe?.();
+    this.quoteUnsubscribe = null;
+    this.pendingQuote = null;
+    try {
+      await withTimeout(
+        this.runExclusive(async () => {
+          this.setPaused("进程退出", "shutdown");
+          if (policy === "flatten") {
+            outcome.flatten = await this.flattener.flatten({
+              deadline,
+              reason: "进程退出",
+              source: "shutdown",
+              cancelOrders: () => this.cancelForShutdown(),
+            });
+            return;
+          }
+          await this.cancelForShutdown();
+        }),
+        deadline - this.clock.now(),
+        `退出处理超时: ${this.config.shutdownTimeoutMs}ms`
+      );
+    } catch (error) {
+      outcome.ok = false;
+      outcome.error = error instanceof Error ? error.message : String(error);
+    }
+    if (outcome.flatten && !outcome.flatten.flat) {
+      outcome.ok = false;
+      outcome.error ??= outcome.flatten.error ?? "仓位未平";
+    }
+    const summary = {
+      symbol: this.config.symbol,
+      policy,
+      ok: outcome.ok,
+      error: outcome.error,
+      initialPosition: outcome.flatten?.initialPosition?.toString() ?? null,
+      remainingPosition: outcome.flatten?.remainingPosition?.toString() ?? null,
+    };
+    if (outcome.ok) {
+      console.info("退出处理完成", summary);
+    } else {
+      console.error("退出处理未完成", summary);
+    }
+    await this.notifyShutdown(outcome);
+    return outcome;
   }
 
   /**
@@ -124,8 +315,10 @@ export class GridOrderManager {
   public async stop(): Promise<void> {
     this.quoteUnsubscribe?.();
     this.accountUnsubscribe?.();
+    this.portfolioUnregister?.();
     this.quoteUnsubscribe = null;
     this.accountUnsubscribe = null;
+    this.portfolioUnregister = null;
     this.pendingQuote = null;
   }
 
@@ -149,6 +342,37 @@ export class GridOrderManager {
   public getStatus(): GridOrderManagerStatus {
     return {
       centerPrice: this.state.centerPrice ?? null,
+      paused: this.paused,
+      pauseReason: this.pauseReason,
+      pauseSource: this.pauseSource,
+      pausedAt: this.pausedAt,
+      outOfRange: this.outOfRange,
+      referencePrice: this.lastReferencePrice,
+      undersizedLevels: this.undersizedLevels,
+      inventorySkew: this.config.inventorySkew
+        ? { ratio: this.skewRatio, centerSteps: this.state.getSkew().centerSteps }
+        : null,
+      adaptiveSpacing: this.config.adaptiveSpacing
+        ? ((this.spacingConfig.mode === "ABS"
+            ? this.spacingConfig.spacing
+            : this.spacingConfig.spacingPercent) ?? null)
+        : null,
+      paired:
+        this.config.fillMode === "paired"
+          ? {
+              openPairs: this.state.getPairs().length,
+              roundTrips: this.pairedRoundTrips,
+              realizedSpread: this.pairedSpread,
+            }
+          : null,
+      portfolioDeferral: this.portfolioDeferral,
+      preTradeRejections: [...this.preTradeRejections].map(([levelIndex, rejection]) => ({
+        levelIndex,
+        ...rejection,
+      })),
+      drawdown: this.drawdownGuard?.getStatus() ?? null,
+      margin: this.marginGuard?.getStatus() ?? null,
+      netPosition: this.cachedNetPosition,
       lastOrderUpdateAt: this.lastOrderUpdateAt,
       lastPositionUpdateAt: this.lastPositionUpdateAt,
       lastMaintenanceAt: this.lastMaintenanceAt,
@@ -156,11 +380,104 @@ export class GridOrderManager {
     };
   }
 
+  /**
+   * 获取当前网格档位（按索引排序）。
+   */
+  public getLevels(): GridLevel[] {
+    return this.state.getLevels();
+  }
+
+  /**
+   * 暂停网格：停止补单与平移；挂单按暂停策略保留或撤销，未指定时使用配置的 pausePolicy。
+   * 已暂停时仅更新原因，并在策略为 cancel 时补做撤单。
+   */
+  public async pause(reason: string, options: GridPauseOptions = {}): Promise<void> {
+    await this.runExclusive(async () => {
+      this.setPaused(reason, options.source ?? "manual");
+      const policy = options.policy ?? this.config.pausePolicy;
+      if (policy === "cancel") {
+        await this.cancelAllManagedOrders(reason);
+      }
+    });
+  }
+
+  /**
+   * 恢复网格，并按当前档位补齐挂单。
+   */
+  public async resume(): Promise<void> {
+    await this.runExclusive(async () => {
+      if (!this.paused) {
+        return;
+      }
+      console.info("网格已恢复", {
+        symbol: this.config.symbol,
+        pauseReason: this.pauseReason,
+        pauseSource: this.pauseSource,
+      });
+      if (await this.drawdownGuard?.acknowledge()) {
+        console.info("亏损熔断已解除", { symbol: this.config.symbol });
+      }
+      this.paused = false;
+      this.pauseReason = null;
+      this.pauseSource = null;
+      this.pausedAt = null;
+      await this.syncOrders();
+    });
+  }
+
+  /**
+   * 撤销当前策略的全部挂单并暂停，避免随后的行情立即补单。
+   */
+  public async cancelAllOrders(reason: string, source: GridPauseSource = "manual"): Promise<void> {
+    await this.pause(reason, { source, policy: "cancel" });
+  }
+
+  /**
+   * 紧急平仓：暂停网格、撤销全部本策略挂单，并以 reduce-only 单平掉净仓位。
+   * 完成后网格保持暂停，需人工恢复；结果通过通知发送。
+   */
+  public async flattenPosition(
+    reason: string,
+    source: GridPauseSource = "manual"
+  ): Promise<FlattenResult> {
+    let result: FlattenResult | null = null;
+    await this.runExclusive(async () => {
+      result = await this.executeFlatten(reason, source);
+    });
+    if (!result) {
+      throw new Error("紧急平仓未执行");
+    }
+    return result;
+  }
+
+  /**
+   * 以最新 mark 价重建网格：撤销全部挂单后重新布档。
+   */
+  public async rebuild(): Promise<void> {
+    await this.runExclusive(async () => {
+      const price = this.lastReferencePrice ?? this.state.lastMark;
+      if (!price) {
+        throw new Error("暂无行情，无法重建网格");
+      }
+      await this.recenterGrid(price, "手动重建");
+    });
+  }
+
+  /**
+   * 以指定价格为中心重建网格。
+   */
+  public async recenter(price: Decimal): Promise<void> {
+    if (!price.isFinite() || !price.gt(0)) {
+      throw new Error(`中心价无效: ${price.toString()}`);
+    }
+    await this.runExclusive(() => this.recenterGrid(price, "手动重建"));
+  }
+
   /**
    * 处理账户侧订单更新，仅关注当前策略生成的订单。
    */
   private handleOrderUpdates(updates: OrderUpdate[]): void {
-    this.lastOrderUpdateAt = Date.now();
+    this.lastOrderUpdateAt = this.clock.now();
     for (const update of updates) {
       if (!this.isManagedOrder(update.clientOrderId)) {
         continue;
@@ -177,7 +494,10 @@ export class GridOrderManager {
         updatedAt: update.updatedAt,
       };
       this.upsertOrderState(nextOrder, this.buildRecordExtraFromUpdate(update));
-      if (filledLevelIndex !== null && filledLevelIndex !== 0) {
+      this.observeFill(nextOrder, update, "UPDATE");
+      if (filledLevelIndex !== null && this.config.fillMode === "paired") {
+        this.enqueuePairedFill(nextOrder);
+      } else if (filledLevelIndex !== null && filledLevelIndex !== 0) {
         this.enqueueFilledShift(filledLevelIndex);
       }
       if (update.status === "FILLED" || update.status === "PARTIALLY_FILLED") {
@@ -190,7 +510,7 @@ export class GridOrderManager {
    * 处理仓位更新，用于刷新本地净仓位缓存。
    */
   private handlePositionUpdates(positions: ExchangePosition[]): void {
-    const now = Date.now();
+    const now = this.clock.now();
     const isFirstSnapshot = !this.positionSnapshotReady;
     if (isFirstSnapshot) {
       this.positionSnapshotReady = true;
@@ -227,6 +547,14 @@ export class GridOrderManager {
     this.drainQueue();
   }
 
+  /**
+   * 配对模式的成交进入队列，由串行队列开立或闭合配对。
+   */
+  private enqueuePairedFill(order: GridOrderState): void {
+    this.pendingPairedFills.push(order);
+    this.drainQueue();
+  }
+
   /**
    * 串行执行行情与成交触发的平移，避免状态并发修改。
    */
@@ -234,102 +562,810 @@ export class GridOrderManager {
     if (this.processing) {
       return;
     }
-    if (this.pendingFillShiftSteps.length > 0) {
-      const steps = this.pendingFillShiftSteps.shift();
-      if (steps !== undefined) {
-        this.processing = true;
-        void this.processFilledShift(steps).finally(() => {
-          this.processing = false;
-          this.drainQueue();
-        });
-        return;
+    const command = this.pendingCommands.shift();
+    if (command) {
+      this.runQueued(command);
+      return;
+    }
+    if (this.pendingFillShiftSteps.length > 0) {
+      const steps = this.pendingFillShiftSteps.shift();
+      if (steps !== undefined) {
+        this.runQueued(() => this.processFilledShift(steps));
+        return;
+      }
+    }
+    const pairedFill = this.pendingPairedFills.shift();
+    if (pairedFill) {
+      this.runQueued(() => this.processPairedFill(pairedFill));
+      return;
+    }
+    if (this.pendingQuote) {
+      const next = this.pendingQuote;
+      this.pendingQuote = null;
+      this.runQueued(() => this.processQuote(next));
+    }
+  }
+
+  /**
+   * 执行一个队列任务，失败时交由 handleTaskFailure 处理，完成后继续取下一个任务。
+   */
+  private runQueued(task: () => Promise<void>): void {
+    this.processing = true;
+    void task()
+      .catch((error) => this.handleTaskFailure(error))
+      .finally(() => {
+        this.processing = false;
+        this.drainQueue();
+      });
+  }
+
+  /**
+   * 队列任务失败时以 error 来源暂停本网格并按暂停策略处理挂单，维护、对账与风控照常运行，
+   * 可经控制接口撤单、平仓或恢复。错误止于本网格，不会成为未处理的 rejection 而触发进程级退出。
+   */
+  private handleTaskFailure(error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("网格任务失败", {
+      strategyId: this.config.strategyId,
+      symbol: this.config.symbol,
+      error,
+    });
+    const reason = `任务失败: ${message}`;
+    this.setPaused(reason, "error");
+    void this.pause(reason, { source: "error" }).catch((pauseError) => {
+      console.warn("任务失败后暂停网格失败", { symbol: this.config.symbol, error: pauseError });
+    });
+    this.notifyOrderFailure({
+      title: "网格任务失败",
+      body: [
+        `策略: ${this.config.strategyId}`,
+        `交易对: ${this.config.symbol}`,
+        `错误: ${message}`,
+      ].join("\n"),
+    });
+  }
+
+  /**
+   * 执行网格逻辑：按参考价初始化中心价、平移或重建，并同步订单。
+   */
+  private async processQuote(quote: ExchangeQuote): Promise<void> {
+    const price = this.referencePrice.resolve(
+      quote,
+      this.referenceQuotes,
+      this.state.centerPrice ?? null
+    );
+    this.lastReferencePrice = price;
+    this.state.updateMark(quote.mark, quote.ts);
+    this.volatility?.observe(price, quote.ts);
+    if (this.paused) {
+      return;
+    }
+
+    if (this.config.mode === "range") {
+      await this.processRangeQuote(price);
+      return;
+    }
+
+    if (!this.state.centerPrice) {
+      await this.handleFirstQuote(price);
+      return;
+    }
+
+    if (await this.relayoutByVolatility(price)) {
+      return;
+    }
+
+    await this.cancelExpiredOrders();
+
+    const steps = this.strategy.calculateShiftSteps(this.state.centerPrice, price);
+    if (steps === 0) {
+      this.resetPendingMarkShift();
+      await this.syncOrders();
+      return;
+    }
+
+    // 平移步数达到该方向的档位数时，现有挂单已全部失效，直接全量重建
+    if (Math.abs(steps) >= (steps > 0 ? this.state.sellLevels : this.state.buyLevels)) {
+      this.resetPendingMarkShift();
+      await this.fullRebuild(price);
+      return;
+    }
+
+    if (Math.abs(steps) < 2) {
+      this.resetPendingMarkShift();
+      await this.syncOrders();
+      return;
+    }
+
+    if (!this.shouldConfirmMarkShift(steps)) {
+      await this.syncOrders();
+      return;
+    }
+
+    const shiftResult = this.state.shiftCenter(steps);
+    this.abandonPairs(shiftResult.droppedPairs, "mark 平移");
+    this.persistGridState();
+    await this.cancelOrders(shiftResult.outOfRangeOrders, "mark 确认平移");
+    await this.syncOrders();
+  }
+
+  /**
+   * 区间网格：档位固定，不随 mark 平移；价格离开区间时按 exitPolicy 处理，回到区间后继续补单。
+   */
+  private async processRangeQuote(price: Decimal): Promise<void> {
+    const range = this.config.range;
+    if (!range) {
+      return;
+    }
+    if (price.lt(range.lower) || price.gt(range.upper)) {
+      await this.handleRangeExit(price, range);
+      return;
+    }
+    if (this.outOfRange) {
+      this.outOfRange = false;
+      console.info("价格回到区间，恢复挂单", {
+        symbol: this.config.symbol,
+        price: price.toString(),
+      });
+    }
+    if (!this.state.centerPrice) {
+      await this.handleFirstQuote(price);
+      return;
+    }
+    await this.cancelExpiredOrders();
+    await this.syncOrders();
+  }
+
+  /**
+   * 价格离开区间：stop 仅停止补单，cancel 撤销全部挂单，close 撤单平仓并暂停（需人工恢复）。
+   */
+  private async handleRangeExit(mark: Decimal, range: GridRangeConfig): Promise<void> {
+    if (this.outOfRange) {
+      return;
+    }
+    this.outOfRange = true;
+    const reason = `价格 ${mark.toString()} 离开区间 [${range.lower.toString()}, ${range.upper.toString()}]`;
+    console.warn("价格离开区间", {
+      symbol: this.config.symbol,
+      mark: mark.toString(),
+      exitPolicy: range.exitPolicy,
+    });
+    this.notifyOrderFailure({
+      title: "价格离开网格区间",
+      body: [`交易对: ${this.config.symbol}`, reason, `处理: ${range.exitPolicy}`].join("\n"),
+    });
+    if (range.exitPolicy === "cancel") {
+      await this.cancelAllManagedOrders(reason);
+      return;
+    }
+    if (range.exitPolicy === "close") {
+      await this.executeFlatten(reason, "range");
+    }
+  }
+
+  /**
+   * 成交触发的平移处理，按档位步数移动中心价。
+   */
+  private async processFilledShift(steps: number): Promise<void> {
+    if (!this.state.centerPrice || this.paused) {
+      return;
+    }
+    if (steps === 0) {
+      return;
+    }
+    this.resetPendingMarkShift();
+    const shiftResult = this.state.shiftCenter(steps);
+    this.persistGridState();
+    await this.cancelOrders(shiftResult.outOfRangeOrders, "成交平移");
+    await this.syncOrders();
+  }
+
+  /**
+   * 配对模式的成交处理：闭合配对时记录往返价差，开立配对时撤销止盈档位上的反向挂单并补出止盈单。
+   * 暂停期间仍维护配对，保证恢复后止盈单与持仓一致。
+   */
+  private async processPairedFill(order: GridOrderState): Promise<void> {
+    if (!this.state.centerPrice) {
+      return;
+    }
+    const result = this.state.applyPairedFill(order, order.updatedAt);
+    if (result.closed) {
+      this.recordClosedPair(result.closed);
+    }
+    if (result.opened) {
+      console.info("配对开仓，挂出止盈单", {
+        symbol: this.config.symbol,
+        entrySide: result.opened.entrySide,
+        entryPrice: result.opened.entryPrice.toString(),
+        exitLevelIndex: result.opened.exitLevelIndex,
+        exitPrice: result.opened.exitPrice.toString(),
+      });
+      this.savePair(result.opened, "OPEN");
+    }
+    if (!result.opened && !result.closed) {
+      console.warn("成交未能配对，持仓不挂止盈单", {
+        symbol: this.config.symbol,
+        clientOrderId: order.clientOrderId,
+        levelIndex: order.levelIndex,
+      });
+    }
+    await this.cancelOrders(result.conflictingOrders, "配对止盈档位冲突");
+    await this.syncOrders();
+  }
+
+  /**
+   * 统计并落库已闭合的配对往返。
+   */
+  private recordClosedPair(pair: GridClosedPair): void {
+    this.pairedRoundTrips += 1;
+    this.pairedSpread = this.pairedSpread.plus(pair.spread);
+    console.info("配对止盈完成", {
+      symbol: this.config.symbol,
+      entrySide: pair.entrySide,
+      entryPrice: pair.entryPrice.toString(),
+      closePrice: pair.closePrice.toString(),
+      quantity: pair.quantity.toString(),
+      spread: pair.spread.toString(),
+    });
+    if (!this.pairStore) {
+      return;
+    }
+    void this.pairStore.saveClosedPair(this.buildStateKey(), pair).catch((error) => {
+      console.warn("配对落库失败", error);
+    });
+  }
+
+  private savePair(pair: GridPair, status: GridPairStatus): void {
+    if (!this.pairStore) {
+      return;
+    }
+    void this.pairStore
+      .savePair(this.buildStateKey(), pair, status, this.clock.now())
+      .catch((error) => {
+        console.warn("配对落库失败", error);
+      });
+  }
+
+  /**
+   * 止盈档位已不在网格内的配对停止跟踪，对应持仓交由后续网格成交消化。
+   */
+  private abandonPairs(pairs: GridPair[], reason: string): void {
+    if (pairs.length === 0) {
+      return;
+    }
+    console.warn(`配对止盈档位失效，停止跟踪: ${reason}`, {
+      symbol: this.config.symbol,
+      pairs: pairs.length,
+    });
+    for (const pair of pairs) {
+      this.savePair(pair, "ABANDONED");
+    }
+  }
+
+  /**
+   * 外部指令与行情处理共用串行队列，执行结果通过 Promise 返回给调用方。
+   */
+  private runExclusive(task: () => Promise<void>): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      this.pendingCommands.push(() => task().then(resolve, reject));
+      this.drainQueue();
+    });
+  }
+
+  private setPaused(reason: string, source: GridPauseSource): void {
+    if (!this.paused) {
+      console.warn("网格已暂停", { symbol: this.config.symbol, reason, source });
+      this.pausedAt = this.clock.now();
+    }
+    this.paused = true;
+    this.pauseReason = reason;
+    this.pauseSource = source;
+  }
+
+  /**
+   * 退出撤单：支持批量撤单时整体撤销交易对挂单后对账，失败或不支持时逐笔撤销本策略挂单。
+   */
+  private async cancelForShutdown(): Promise<void> {
+    if (this.exchange.capabilities.supportsMassCancel) {
+      try {
+        await this.exchange.massCancel(this.config.symbol);
+        await this.reconcileActiveOrders();
+        return;
+      } catch (error) {
+        console.warn("批量撤单失败，改为逐笔撤单", error);
+      }
+    }
+    await this.cancelAllManagedOrders("进程退出");
+  }
+
+  /**
+   * 发送退出处理结果通知，进程即将退出，等待发送完成但不超过固定时长。
+   */
+  private async notifyShutdown(outcome: GridShutdownOutcome): Promise<void> {
+    if (!this.notifier) {
+      return;
+    }
+    const lines = [`交易对: ${this.config.symbol}`, `策略: ${outcome.policy}`];
+    if (outcome.flatten) {
+      lines.push(
+        `平仓前仓位: ${outcome.flatten.initialPosition?.toString() ?? "未知"}`,
+        `剩余仓位: ${outcome.flatten.remainingPosition?.toString() ?? "未知"}`
+      );
+    }
+    if (outcome.error) {
+      lines.push(`错误: ${outcome.error}`);
+    }
+    try {
+      await withTimeout(
+        this.notifier.notify({
+          title: outcome.ok ? "网格退出处理完成" : "网格退出处理失败",
+          body: lines.join("\n"),
+        }),
+        SHUTDOWN_NOTIFY_TIMEOUT_MS,
+        "发送退出通知超时"
+      );
+    } catch (error) {
+      console.warn("发送通知失败", error);
+    }
+  }
+
+  /**
+   * 在串行队列内执行紧急平仓：暂停、撤单、平仓并刷新仓位。
+   */
+  private async executeFlatten(reason: string, source: GridPauseSource): Promise<FlattenResult> {
+    this.setPaused(reason, source);
+    const result = await this.flattener.flatten({
+      deadline: this.clock.now() + this.config.flattenTimeoutMs,
+      reason,
+      source,
+      cancelOrders: () => this.cancelAllManagedOrders(reason),
+    });
+    this.invalidatePositionCache();
+    await this.refreshNetPosition("紧急平仓");
+    this.notifyFlattenResult(result, reason);
+    return result;
+  }
+
+  private notifyFlattenResult(result: FlattenResult, reason: string): void {
+    const summary = {
+      symbol: this.config.symbol,
+      runId: result.runId,
+      flat: result.flat,
+      attempts: result.attempts,
+      initialPosition: result.initialPosition?.toString() ?? null,
+      remainingPosition: result.remainingPosition?.toString() ?? null,
+      error: result.error ?? null,
+    };
+    if (result.flat) {
+      console.info("紧急平仓完成", summary);
+    } else {
+      console.error("紧急平仓未完成", summary);
+    }
+    this.notifyOrderFailure({
+      title: result.flat ? "紧急平仓完成" : "紧急平仓失败",
+      body: [
+        `交易对: ${this.config.symbol}`,
+        `原因: ${reason}`,
+        `平仓前仓位: ${summary.initialPosition ?? "未知"}`,
+        `剩余仓位: ${summary.remainingPosition ?? "未知"}`,
+        ...(result.error ? [`错误: ${result.error}`] : []),
+      ].join("\n"),
+    });
+  }
+
+  /**
+   * 撤销本地记录与交易所上的全部本策略挂单。
+   */
+  private async cancelAllManagedOrders(reason: string): Promise<void> {
+    const activeOrders = this.state
+      .getOrders()
+      .filter((order) => !isTerminalOrderStatus(order.status));
+    await this.cancelOrders(activeOrders, reason);
+    await this.cancelManagedOpenOrders();
+  }
+
+  /**
+   * 评估风控暂停规则，任一规则触发即暂停网格；已暂停时只推进规则状态，不重复触发。
+   */
+  private async evaluateRiskRules(): Promise<void> {
+    if (this.riskRules.length === 0) {
+      return;
+    }
+    const context: RiskRuleContext = {
+      symbol: this.config.symbol,
+      netPosition: this.cachedNetPosition,
+      markPrice: this.state.lastMark,
+      maxPosition: this.config.maxPosition,
+      now: this.clock.now(),
+    };
+    // 暂停期间只推进规则状态（如亏损熔断的峰值与日初水位），不触发动作
+    if (this.paused) {
+      for (const rule of this.riskRules) {
+        rule.observe?.(context);
+      }
+      return;
+    }
+    for (const rule of this.riskRules) {
+      const reason = rule.evaluate(context);
+      if (!reason) {
+        continue;
+      }
+      const action = rule.action ?? this.config.riskAction;
+      this.notifyOrderFailure({
+        title: RISK_ACTION_TITLES[action],
+        body: [`交易对: ${this.config.symbol}`, `规则: ${rule.name}`, `原因: ${reason}`].join("\n"),
+      });
+      if (action === "flatten") {
+        await this.flattenPosition(`[${rule.name}] ${reason}`, "risk");
+      } else {
+        await this.pause(`[${rule.name}] ${reason}`, {
+          source: "risk",
+          policy: action === "cancel" ? "cancel" : undefined,
+        });
+      }
+      return;
+    }
+  }
+
+  /**
+   * 首次下单前按配置写入本交易对的杠杆与保证金模式，已一致时不重复设置。
+   * 写入后重新读取确认，未生效时本网格启动失败，不影响共享连接上的其他网格。
+   */
+  private async applyLeverage(): Promise<void> {
+    const target = this.config.leverage;
+    if (!target) {
+      return;
+    }
+    const symbol = this.config.symbol;
+    const current = await this.exchange.getLeverage(symbol);
+    if (!describeLeverageMismatch(current, target)) {
+      return;
+    }
+    const next = resolveLeverageSetting(current, target);
+    await this.exchange.setLeverage(symbol, next);
+    const mismatch = describeLeverageMismatch(await this.exchange.getLeverage(symbol), target);
+    if (mismatch) {
+      throw new Error(`${symbol} 杠杆设置未生效: ${mismatch}`);
+    }
+    console.info("已设置杠杆", { exchange: this.exchange.name, symbol, from: current, to: next });
+  }
+
+  /**
+   * 恢复上次运行未解除的亏损熔断：网格以暂停状态启动，需人工恢复后才会挂单。
+   */
+  private async restoreDrawdownTrip(): Promise<void> {
+    const trip = await this.drawdownGuard?.restore();
+    if (!trip) {
+      return;
+    }
+    const reason = `[${this.drawdownGuard?.name}] ${trip.reason}`;
+    this.setPaused(reason, "risk");
+    this.notifyOrderFailure({
+      title: "亏损熔断未解除",
+      body: [
+        `交易对: ${this.config.symbol}`,
+        `原因: ${trip.reason}`,
+        `触发时间: ${new Date(trip.at).toISOString()}`,
+      ].join("\n"),
+    });
+  }
+
+  /**
+   * 以指定中心价重建档位并撤销旧挂单，暂停中不补单。
+   */
+  private async recenterGrid(centerPrice: Decimal, reason: string): Promise<void> {
+    this.resetPendingMarkShift();
+    const activeOrders = this.state
+      .getOrders()
+      .filter((order) => !isTerminalOrderStatus(order.status));
+    await this.cancelOrders(activeOrders, reason);
+    this.resetGrid(centerPrice);
+    await this.cancelManagedOpenOrders();
+    await this.syncOrders();
+    console.info("网格已按指定中心价重建", {
+      symbol: this.config.symbol,
+      centerPrice: centerPrice.toString(),
+      reason,
+    });
+  }
+
+  /**
+   * 首次接收行情时建立网格：adopt 模式优先接管已有挂单，否则以参考价重建。
+   * 买方绝对价差铺过参考价时配置不可用，拒绝建立网格。
+   */
+  private async handleFirstQuote(price: Decimal): Promise<void> {
+    const depth = this.state.getAbsoluteBuyDepth();
+    if (depth?.gte(price)) {
+      throw new Error(
+        `${this.config.symbol} 买方档位深度 ${depth.toString()} 不小于参考价 ${price.toString()}，最外侧买档价格不为正，请减少买方档位数或间距`
+      );
+    }
+    if (this.config.recoveryMode === "adopt" && (await this.adoptExistingOrders())) {
+      await this.syncOrders();
+      return;
+    }
+    this.resetGrid(price);
+    await this.cancelManagedOpenOrders();
+    await this.syncOrders();
+  }
+
+  /**
+   * 全量重建：取消旧订单后以最新参考价重建网格。
+   */
+  private async fullRebuild(price: Decimal): Promise<void> {
+    this.resetGrid(price);
+    await this.cancelManagedOpenOrders();
+    await this.syncOrders();
+  }
+
+  /**
+   * 以指定中心价重置网格，并持久化中心价。
+   */
+  private resetGrid(centerPrice: Decimal): void {
+    this.abandonPairs(this.state.getPairs(), "网格重建");
+    if (this.config.fillMode === "paired" && this.pairStore) {
+      // 上次运行遗留的未闭合配对同样随重建失效
+      void this.pairStore
+        .abandonOpenPairs(this.buildStateKey(), this.clock.now())
+        .catch((error) => {
+          console.warn("配对落库失败", error);
+        });
+    }
+    this.state.reset(centerPrice);
+    this.persistGridState();
+  }
+
+  /**
+   * 热重启接管：恢复上次中心价，将仍在有效档位的挂单映射回网格，仅撤销游离订单。
+   * 无持久化状态或网格参数已变更时返回 false，由调用方回退为全量重建。
+   */
+  private async adoptExistingOrders(): Promise<boolean> {
+    if (!this.stateStore) {
+      console.warn("未配置网格状态存储，无法接管挂单，按全量重建启动");
+      return false;
+    }
+    const key = this.buildStateKey();
+    let persisted: PersistedGridState | null;
+    let records: PersistedGridOrder[];
+    let openOrders: ExchangeOrder[];
+    let pairs: GridPair[] = [];
+    try {
+      persisted = await this.stateStore.loadState(key);
+      if (!persisted) {
+        console.info("无持久化网格状态，按全量重建启动", key);
+        return false;
+      }
+      if (!this.isSameGridLayout(persisted)) {
+        console.warn("网格参数已变更，放弃接管并全量重建", key);
+        return false;
+      }
+      if (this.config.adaptiveSpacing) {
+        this.applySpacing({
+          ...this.spacingConfig,
+          spacing: persisted.spacing ?? this.spacingConfig.spacing,
+          spacingPercent: persisted.spacingPercent ?? this.spacingConfig.spacingPercent,
+        });
+      }
+      records = await this.stateStore.loadActiveOrders(key);
+      openOrders = await this.exchange.getOpenOrders(this.config.symbol);
+      if (this.config.fillMode === "paired" && this.pairStore) {
+        pairs = await this.pairStore.loadOpenPairs(key);
+      }
+    } catch (error) {
+      console.warn("加载恢复数据失败，按全量重建启动", error);
+      return false;
+    }
+
+    this.state.reset(persisted.centerPrice);
+    // 先恢复配对，使止盈档位的方向正确，止盈单才能被接管
+    const restoredPairs = this.state.restorePairs(pairs);
+    const recordMap = new Map(records.map((record) => [record.clientOrderId, record]));
+    const strays: GridOrderState[] = [];
+    let adopted = 0;
+    for (const order of openOrders) {
+      if (!this.isManagedOrder(order.clientOrderId)) {
+        continue;
+      }
+      const record = recordMap.get(order.clientOrderId);
+      recordMap.delete(order.clientOrderId);
+      // 落库档位随平移更新，优先使用；缺失时回退为 clientOrderId 中的下单档位。
+      const preferredIndex = record?.levelIndex ?? this.parseLevelIndex(order.clientOrderId);
+      const level = this.state.matchLevel(order.side, order.price, preferredIndex);
+      const orderState: GridOrderState = {
+        ...this.buildOrderStateFromExchange(order),
+        levelIndex: level?.index ?? preferredIndex ?? 0,
+        placedAt: record?.placedAt ?? order.updatedAt,
+      };
+      if (!level || this.hasActiveOrderAtLevel(level.index)) {
+        strays.push(orderState);
+        continue;
       }
+      this.upsertOrderState(orderState, this.buildRecordExtraFromExchange(order));
+      adopted += 1;
     }
-    if (this.pendingQuote) {
-      const next = this.pendingQuote;
-      this.pendingQuote = null;
-      this.processing = true;
-      void this.processQuote(next).finally(() => {
-        this.processing = false;
-        this.drainQueue();
-      });
+
+    console.info("热重启接管挂单", {
+      centerPrice: persisted.centerPrice.toString(),
+      adopted,
+      strays: strays.length,
+      pairs: restoredPairs,
+    });
+    await this.cancelOrders(strays, "热重启游离订单");
+    // 库中未完结但交易所已无挂单的记录，逐一查询最终状态落库。
+    for (const record of recordMap.values()) {
+      await this.reconcileCancelFailure(
+        {
+          clientOrderId: record.clientOrderId,
+          exchangeOrderId: record.exchangeOrderId,
+          status: record.status,
+          side: record.side,
+          price: record.price,
+          quantity: record.quantity,
+          levelIndex: record.levelIndex ?? 0,
+          placedAt: record.placedAt,
+          updatedAt: this.clock.now(),
+        },
+        "热重启对账"
+      );
     }
+    this.persistGridState();
+    return true;
   }
 
   /**
-   * 执行网格逻辑：初始化中心价、平移或重建，并同步订单。
+   * 判断持久化状态的档位参数是否与当前配置一致。
    */
-  private async processQuote(quote: ExchangeQuote): Promise<void> {
-    this.state.updateMark(quote.mark, quote.ts);
-
-    if (!this.state.centerPrice) {
-      await this.handleFirstQuote(quote);
-      return;
+  private isSameGridLayout(persisted: PersistedGridState): boolean {
+    const sameDecimal = (a?: Decimal, b?: Decimal) => (a && b ? a.eq(b) : a === b);
+    if (persisted.mode !== this.config.mode) {
+      return false;
     }
-
-    await this.cancelExpiredOrders();
-
-    const steps = this.strategy.calculateShiftSteps(this.state.centerPrice, quote.mark);
-    if (steps === 0) {
-      this.resetPendingMarkShift();
-      await this.syncOrders();
-      return;
+    if (persisted.spacingMode !== this.config.spacingMode) {
+      return false;
     }
-
-    if (Math.abs(steps) >= this.config.levels) {
-      this.resetPendingMarkShift();
-      await this.fullRebuild(quote);
-      return;
+    const range = this.config.mode === "range" ? this.config.range : undefined;
+    if (range) {
+      return (
+        persisted.levels === range.levels &&
+        sameDecimal(persisted.range?.lower, range.lower) &&
+        sameDecimal(persisted.range?.upper, range.upper)
+      );
     }
-
-    if (Math.abs(steps) < 2) {
-      this.resetPendingMarkShift();
-      await this.syncOrders();
-      return;
+    if (
+      persisted.levels !== this.config.levels ||
+      (persisted.buyLevels ?? persisted.levels) !== this.state.buyLevels ||
+      (persisted.sellLevels ?? persisted.levels) !== this.state.sellLevels
+    ) {
+      return false;
     }
-
-    if (!this.shouldConfirmMarkShift(steps)) {
-      await this.syncOrders();
-      return;
+    // 自适应间距随波动率变化，接管时沿用持久化的间距
+    if (this.config.adaptiveSpacing) {
+      return true;
     }
-
-    const shiftResult = this.state.shiftCenter(steps);
-    await this.cancelOrders(shiftResult.outOfRangeOrders, "mark 确认平移");
-    await this.syncOrders();
+    const sameSpacing = (a: GridSideSpacing, b: GridSideSpacing) =>
+      a.mode === b.mode &&
+      (a.mode === "ABS"
+        ? sameDecimal(a.spacing, b.spacing)
+        : sameDecimal(a.spacingPercent, b.spacingPercent));
+    const persistedSpacing: GridSpacingConfig = {
+      mode: persisted.spacingMode,
+      spacing: persisted.spacing,
+      spacingPercent: persisted.spacingPercent,
+      buy: persisted.buySpacing,
+      sell: persisted.sellSpacing,
+    };
+    const currentSpacing = this.spacingConfig;
+    return (["BUY", "SELL"] as const).every((side) =>
+      sameSpacing(
+        resolveSideSpacing(persistedSpacing, side),
+        resolveSideSpacing(currentSpacing, side)
+      )
+    );
   }
 
   /**
-   * 成交触发的平移处理，按档位步数移动中心价。
+   * 自适应间距：波动率估计相对当前间距的变化超过容忍度时更新间距，并以最新 mark 重新铺设网格。
+   * 返回 true 表示已重建，本次行情无需继续处理。
    */
-  private async processFilledShift(steps: number): Promise<void> {
-    if (!this.state.centerPrice) {
-      return;
+  private async relayoutByVolatility(mark: Decimal): Promise<boolean> {
+    const adaptive = this.config.adaptiveSpacing;
+    const estimated = this.volatility?.estimate() ?? null;
+    if (!adaptive || !estimated) {
+      return false;
     }
-    if (steps === 0) {
-      return;
+    const isAbs = this.spacingConfig.mode === "ABS";
+    const current = isAbs ? this.spacingConfig.spacing : this.spacingConfig.spacingPercent;
+    if (
+      current?.gt(0) &&
+      estimated.minus(current).abs().dividedBy(current).lte(adaptive.tolerance)
+    ) {
+      return false;
     }
-    this.resetPendingMarkShift();
-    const shiftResult = this.state.shiftCenter(steps);
-    await this.cancelOrders(shiftResult.outOfRangeOrders, "成交平移");
-    await this.syncOrders();
+    this.applySpacing({
+      ...this.spacingConfig,
+      spacing: isAbs ? estimated : undefined,
+      spacingPercent: isAbs ? undefined : estimated,
+    });
+    console.info("波动率变化，按新间距重新铺设网格", {
+      symbol: this.config.symbol,
+      source: adaptive.source,
+      previous: current?.toString() ?? null,
+      spacing: estimated.toString(),
+    });
+    await this.recenterGrid(mark, "波动率间距调整");
+    return true;
   }
 
   /**
-   * 首次接收行情时，以 mark 价作为中心价并建立网格。
+   * 更新生效间距，同步到跨档计算与档位构建。
    */
-  private async handleFirstQuote(quote: ExchangeQuote): Promise<void> {
-    this.state.reset(quote.mark);
-    await this.cancelManagedOpenOrders();
-    await this.syncOrders();
+  private applySpacing(spacing: GridSpacingConfig): void {
+    this.spacingConfig = spacing;
+    this.strategy = this.buildStrategy(spacing);
+    this.state.setSpacing(spacing);
+  }
+
+  private buildStrategy(spacing: GridSpacingConfig): GridStrategy {
+    return new GridStrategy({
+      ...spacing,
+      levels: this.config.levels,
+      buyLevels: this.config.buyLevels,
+      sellLevels: this.config.sellLevels,
+    });
   }
 
   /**
-   * 全量重建：取消旧订单后以最新 mark 重建网格。
+   * 组装网格间距配置，单边间距未配置时沿用基础间距。
    */
-  private async fullRebuild(quote: ExchangeQuote): Promise<void> {
-    this.state.reset(quote.mark);
-    await this.cancelManagedOpenOrders();
-    await this.syncOrders();
+  private buildSpacingConfig(): GridSpacingConfig {
+    return {
+      mode: this.config.spacingMode,
+      spacing: this.config.spacing,
+      spacingPercent: this.config.spacingPercent,
+      buy: this.config.buySpacing,
+      sell: this.config.sellSpacing,
+    };
+  }
+
+  /**
+   * 持久化中心价，并同步订单的最新档位索引，保证重启后档位映射可恢复。
+   */
+  private persistGridState(): void {
+    if (!this.stateStore || !this.state.centerPrice) {
+      return;
+    }
+    const range = this.config.mode === "range" ? this.config.range : undefined;
+    const state: PersistedGridState = {
+      centerPrice: this.state.centerPrice,
+      mode: this.config.mode,
+      levels: range?.levels ?? this.config.levels,
+      spacingMode: this.config.spacingMode,
+      spacing: this.spacingConfig.spacing,
+      spacingPercent: this.spacingConfig.spacingPercent,
+      buyLevels: range ? undefined : this.config.buyLevels,
+      sellLevels: range ? undefined : this.config.sellLevels,
+      buySpacing: range ? undefined : this.config.buySpacing,
+      sellSpacing: range ? undefined : this.config.sellSpacing,
+      range: range ? { lower: range.lower, upper: range.upper } : undefined,
+      updatedAt: this.clock.now(),
+    };
+    void this.stateStore.saveState(this.buildStateKey(), state).catch((error) => {
+      console.warn("网格状态落库失败", error);
+    });
+    for (const order of this.state.getOrders()) {
+      this.recordOrderState(order);
+    }
+    for (const pair of this.state.getPairs()) {
+      this.savePair(pair, "OPEN");
+    }
+  }
+
+  private buildStateKey(): GridStateKey {
+    return {
+      strategyId: this.config.strategyId,
+      exchange: this.exchange.name,
+      symbol: this.config.symbol,
+    };
   }
 
   /**
@@ -337,7 +1373,7 @@ export class GridOrderManager {
    */
   private shouldConfirmMarkShift(steps: number): boolean {
     const sign = steps > 0 ? 1 : -1;
-    const now = Date.now();
+    const now = this.clock.now();
     if (this.pendingMarkShiftStartedAt === null || this.pendingMarkShiftSign !== sign) {
       this.pendingMarkShiftStartedAt = now;
       this.pendingMarkShiftSign = sign;
@@ -437,6 +1473,57 @@ export class GridOrderManager {
     };
   }
 
+  /**
+   * 将订单累计成交交给盈亏服务记账。
+   * 网格单为限价挂单：post-only 时按 maker 计费，否则保守按 taker 计费。
+   */
+  private observeFill(
+    order: GridOrderState,
+    progress: Pick<OrderUpdate, "filledQuantity" | "avgFillPrice">,
+    source: FillSource
+  ): void {
+    if (!this.pnl) {
+      return;
+    }
+    this.pnl.observeOrder({
+      clientOrderId: order.clientOrderId,
+      exchangeOrderId: order.exchangeOrderId,
+      side: order.side,
+      status: order.status,
+      orderPrice: order.price,
+      orderQuantity: order.quantity,
+      filledQuantity: progress.filledQuantity,
+      avgFillPrice: progress.avgFillPrice,
+      levelIndex: order.levelIndex,
+      liquidity: this.config.postOnly ? "MAKER" : "TAKER",
+      source,
+      updatedAt: order.updatedAt,
+    });
+  }
+
+  /**
+   * 启动时从历史订单回补停机期间的成交，起点为最近一次已记录成交。
+   */
+  private async backfillFillsFromHistory(): Promise<void> {
+    if (!this.pnl) {
+      return;
+    }
+    const sinceMs = this.pnl.getLastFillAt() ?? this.clock.now() - this.fillBackfillWindowMs;
+    let history: ExchangeOrder[] = [];
+    try {
+      history = await this.exchange.getOrdersHistory({ symbol: this.config.symbol, sinceMs });
+    } catch (error) {
+      console.warn("拉取历史订单失败，跳过成交回补", error);
+      return;
+    }
+    for (const order of history) {
+      if (!this.isManagedOrder(order.clientOrderId)) {
+        continue;
+      }
+      this.observeFill(this.buildOrderStateFromExchange(order), order, "HISTORY");
+    }
+  }
+
   /**
    * 取消指定订单列表，避免重复撤单。
    */
@@ -454,7 +1541,7 @@ export class GridOrderManager {
         this.upsertOrderState({
           ...order,
           status: "CANCELLED",
-          updatedAt: Date.now(),
+          updatedAt: this.clock.now(),
         });
       } catch (error) {
         console.warn(`撤单失败: ${reason}`, error);
@@ -482,7 +1569,7 @@ export class GridOrderManager {
         this.upsertOrderState({
           ...orderState,
           status: "CANCELLED",
-          updatedAt: Date.now(),
+          updatedAt: this.clock.now(),
         });
       } catch (error) {
         console.warn("启动前清理挂单失败", error);
@@ -497,7 +1584,8 @@ export class GridOrderManager {
    * 对齐当前网格档位，补齐缺失订单。
    */
   private async syncOrders(): Promise<void> {
-    if (!this.state.centerPrice) {
+    // 区间网格越界期间不挂新单，价格回到区间后由行情驱动补单
+    if (!this.state.centerPrice || this.paused || this.outOfRange) {
       return;
     }
     const netPosition = await this.loadNetPosition();
@@ -505,9 +1593,13 @@ export class GridOrderManager {
       console.warn("仓位信息不可用，跳过本次补单");
       return;
     }
+    await this.updateInventorySkew(netPosition);
     const pending = this.countPendingQuantities();
     const levels = this.state.getLevels();
+    this.reportLayoutIssues();
+    this.reportUndersizedLevels(levels);
     let activeCount = this.countActiveOrders();
+    let portfolioBreach: PortfolioLimitBreach | null = null;
     for (const level of levels) {
       if (!level.targetSide) {
         continue;
@@ -516,7 +1608,7 @@ export class GridOrderManager {
         continue;
       }
       if (activeCount >= this.config.maxOpenOrders) {
-        return;
+        break;
       }
       if (
         !canPlaceByMaxPosition({
@@ -524,12 +1616,25 @@ export class GridOrderManager {
           netPosition,
           pendingBuy: pending.buy,
           pendingSell: pending.sell,
-          orderQuantity: this.config.quantity,
+          orderQuantity: level.quantity,
           maxPosition: this.config.maxPosition,
         })
       ) {
         continue;
       }
+      // 组合限额按最新敞口检查，未通过的档位留待下一轮补单；挂单数量达上限时不再检查后续档位
+      const breach = this.portfolioRisk?.checkOrder(
+        this.config.strategyId,
+        this.buildPortfolioExposure(netPosition),
+        { side: level.targetSide, quantity: level.quantity, price: level.price }
+      );
+      if (breach) {
+        portfolioBreach ??= breach;
+        if (breach.limit === "open-orders") {
+          break;
+        }
+        continue;
+      }
       const placedOrder = await this.placeOrderForLevel(level);
       if (!placedOrder || isTerminalOrderStatus(placedOrder.status)) {
         continue;
@@ -541,6 +1646,83 @@ export class GridOrderManager {
       }
       activeCount += 1;
     }
+    this.updatePortfolioDeferral(portfolioBreach);
+  }
+
+  /**
+   * 当前敞口：未终态挂单直接取自订单状态，补单过程中已提交的订单即时计入。
+   */
+  private buildPortfolioExposure(netPosition: Decimal): PortfolioExposure {
+    const pending = this.countPendingQuantities();
+    return {
+      symbol: this.config.symbol,
+      netPosition,
+      pendingBuy: pending.buy,
+      pendingSell: pending.sell,
+      openOrders: this.countActiveOrders(),
+      markPrice: this.state.lastMark ?? this.lastReferencePrice,
+    };
+  }
+
+  /**
+   * 记录组合限额延后补单的原因，限额类型变化或解除时才输出日志。
+   */
+  private updatePortfolioDeferral(breach: PortfolioLimitBreach | null): void {
+    const previous = this.portfolioDeferral;
+    if (!breach) {
+      if (previous) {
+        console.info("组合限额解除，恢复补单", { symbol: this.config.symbol });
+        this.portfolioDeferral = null;
+      }
+      return;
+    }
+    if (previous?.limit === breach.limit) {
+      this.portfolioDeferral = { ...previous, message: breach.message };
+      return;
+    }
+    console.warn("组合限额阻止补单", {
+      symbol: this.config.symbol,
+      limit: breach.limit,
+      message: breach.message,
+    });
+    this.portfolioDeferral = { ...breach, since: this.clock.now() };
+  }
+
+  /**
+   * 库存偏移：按净仓位占最大持仓的比例移动档位价格并缩放两侧数量，使减仓一侧更靠近市场。
+   * 比例变化未超过 minChange 时不调整（回到零仓位除外），偏离新档位价的挂单撤销后由本轮补单重挂。
+   */
+  private async updateInventorySkew(netPosition: Decimal): Promise<void> {
+    const skewConfig = this.config.inventorySkew;
+    if (!skewConfig || !this.config.maxPosition.gt(0)) {
+      return;
+    }
+    const ratio = Decimal.min(Decimal.max(netPosition.dividedBy(this.config.maxPosition), -1), 1);
+    const backToFlat = ratio.isZero() && !this.skewRatio.isZero();
+    if (!backToFlat && ratio.minus(this.skewRatio).abs().lt(skewConfig.minChange)) {
+      return;
+    }
+    this.skewRatio = ratio;
+    const magnitude = ratio.abs().multipliedBy(skewConfig.sizeFactor);
+    const reduceScale = Decimal(1).plus(magnitude);
+    const addScale = Decimal.max(Decimal(1).minus(magnitude), 0);
+    const isLong = ratio.gt(0);
+    const skew: GridSkew = {
+      centerSteps: -ratio.toNumber() * skewConfig.centerLevels,
+      buyScale: isLong ? addScale : reduceScale,
+      sellScale: isLong ? reduceScale : addScale,
+    };
+    const result = this.state.applySkew(skew);
+    this.abandonPairs(result.droppedPairs, "库存偏移");
+    this.persistGridState();
+    console.info("按库存调整网格偏移", {
+      symbol: this.config.symbol,
+      ratio: ratio.toString(),
+      centerSteps: skew.centerSteps,
+      buyScale: skew.buyScale.toString(),
+      sellScale: skew.sellScale.toString(),
+    });
+    await this.cancelOrders(result.outOfRangeOrders, "库存偏移调整");
   }
 
   /**
@@ -573,17 +1755,27 @@ export class GridOrderManager {
       return null;
     }
     const clientOrderId = this.nextClientOrderId(level);
-    const now = Date.now();
+    const now = this.clock.now();
     const pendingOrder: GridOrderState = {
       clientOrderId,
       side: level.targetSide,
       price: level.price,
-      quantity: this.config.quantity,
+      quantity: level.quantity,
       levelIndex: level.index,
       status: "PENDING_SEND",
       placedAt: now,
       updatedAt: now,
     };
+    const rejection = checkPreTrade(
+      pendingOrder,
+      this.marketData.getLatestQuote(this.exchange.name, this.config.symbol),
+      this.config.preTrade ?? {},
+      now
+    );
+    if (rejection) {
+      return this.rejectPreTrade(pendingOrder, rejection);
+    }
+    this.preTradeRejections.delete(level.index);
     this.upsertOrderState(pendingOrder);
     try {
       const result = await this.exchange.placeOrder({
@@ -592,12 +1784,15 @@ export class GridOrderManager {
         side: level.targetSide,
         type: "LIMIT",
         price: level.price,
-        quantity: this.config.quantity,
+        quantity: level.quantity,
         expireTimeMs: now + this.config.cancelTimeoutMs,
         postOnly: this.config.postOnly,
       });
+      // 适配器可能按交易所精度再次取整，记录实际提交的价格与数量
       const updated: GridOrderState = {
         ...pendingOrder,
+        price: result.submittedPrice ?? pendingOrder.price,
+        quantity: result.submittedQuantity ?? pendingOrder.quantity,
         exchangeOrderId: result.exchangeOrderId,
         status: result.status,
         updatedAt: result.updatedAt,
@@ -626,13 +1821,46 @@ export class GridOrderManager {
       const rejected: GridOrderState = {
         ...pendingOrder,
         status: "REJECTED",
-        updatedAt: Date.now(),
+        updatedAt: this.clock.now(),
       };
       this.upsertOrderState(rejected);
       return rejected;
     }
   }
 
+  /**
+   * 下单前检查未通过：订单不提交，以拒单状态落库并记录原因。
+   * 同一档位原因不变时不重复落库；任一档位首次出现某类原因时告警并通知。
+   */
+  private rejectPreTrade(
+    order: GridOrderState,
+    rejection: PreTradeRejection
+  ): GridOrderState | null {
+    const previous = this.preTradeRejections.get(order.levelIndex);
+    if (previous?.reason === rejection.reason) {
+      return null;
+    }
+    const newReason = ![...this.preTradeRejections.values()].some(
+      (item) => item.reason === rejection.reason
+    );
+    this.preTradeRejections.set(order.levelIndex, rejection);
+    const rejected: GridOrderState = { ...order, status: "REJECTED" };
+    this.upsertOrderState(rejected, { statusReason: rejection.reason });
+    if (newReason) {
+      console.warn("下单前检查拒绝", {
+        symbol: this.config.symbol,
+        levelIndex: order.levelIndex,
+        reason: rejection.reason,
+        message: rejection.message,
+      });
+      this.notifyOrderFailure({
+        title: "下单前检查拒绝",
+        body: this.buildOrderFailureBody(order, rejection.message),
+      });
+    }
+    return rejected;
+  }
+
   /**
    * 组装下单失败通知内容。
    */
@@ -704,15 +1932,105 @@ export class GridOrderManager {
   }
 
   /**
-   * 若价格不满足最小名义金额约束，则跳过该档及更低价档位下单。
+   * 档位名义金额低于交易所下限时跳过；此外若价格不满足拒单得到的阻断价，则跳过该档及更低价档位下单。
    */
   private shouldSkipByMinNotional(level: GridLevel): boolean {
+    if (isBelowMinNotional(level, this.marketConfig?.minNotional)) {
+      return true;
+    }
     if (!this.minNotionalBlockPrice) {
       return false;
     }
     return level.price.lte(this.minNotionalBlockPrice);
   }
 
+  /**
+   * 加载市场配置，档位价格与数量据此对齐到交易所步长。
+   * 按名义金额下单时失败则无法保证数量精度，直接抛错；按基础币下单时仅告警，档位不做对齐与名义金额预检。
+   */
+  private async loadMarketConfig(): Promise<void> {
+    try {
+      this.marketConfig = await this.exchange.getMarketConfig(this.config.symbol);
+    } catch (error) {
+      if (this.config.quantityUnit === "quote") {
+        throw new Error(
+          `加载市场配置失败，无法按名义金额计算下单数量: ${this.formatErrorReason(error)}`
+        );
+      }
+      console.warn("加载市场配置失败，档位不按交易所步长对齐", error);
+      return;
+    }
+    this.state.setMarketSteps({
+      tickSize: this.marketConfig.minPriceChange,
+      lotSize: this.marketConfig.minOrderSizeChange,
+    });
+  }
+
+  /**
+   * 档位构建发现问题时告警：间距小于一个价格步长、取整后档位重合被去除，或价格不为正的档位被去除；
+   * 问题变化时才重新告警。
+   */
+  private reportLayoutIssues(): void {
+    const issues = this.state.getLayoutIssues();
+    const key = `${issues.subTickSpacing}|${issues.collapsedLevels.join(",")}|${issues.nonPositiveLevels.join(",")}`;
+    if (key === this.layoutIssuesKey) {
+      return;
+    }
+    this.layoutIssuesKey = key;
+    if (issues.nonPositiveLevels.length > 0) {
+      console.warn("买方档位价格不为正，已去除", {
+        symbol: this.config.symbol,
+        centerPrice: this.state.centerPrice?.toString() ?? null,
+        levels: issues.nonPositiveLevels,
+      });
+    }
+    if (!issues.subTickSpacing && issues.collapsedLevels.length === 0) {
+      return;
+    }
+    console.warn("网格间距小于交易所最小价格步长，重合档位已去除", {
+      symbol: this.config.symbol,
+      tickSize: this.marketConfig?.minPriceChange.toString() ?? null,
+      subTickSpacing: issues.subTickSpacing,
+      collapsedLevels: issues.collapsedLevels,
+    });
+  }
+
+  /**
+   * 在下单前汇总名义金额不足的档位，集合变化时写日志并通知，避免逐单被交易所拒绝后才发现。
+   */
+  private reportUndersizedLevels(levels: GridLevel[]): void {
+    const minNotional = this.marketConfig?.minNotional;
+    const undersized = levels.filter(
+      (level) => level.targetSide && isBelowMinNotional(level, minNotional)
+    );
+    const indexes = undersized.map((level) => level.index);
+    if (indexes.join(",") === this.undersizedLevels.join(",")) {
+      return;
+    }
+    this.undersizedLevels = indexes;
+    if (undersized.length === 0) {
+      console.info("全部档位已满足最小名义金额", { symbol: this.config.symbol });
+      return;
+    }
+    const details = undersized.map(
+      (level) =>
+        `档位 ${level.index}: 价格 ${level.price.toString()} 数量 ${level.quantity.toString()} 名义金额 ${level.price.multipliedBy(level.quantity).toString()}`
+    );
+    console.warn("部分档位不满足最小名义金额，将跳过下单", {
+      symbol: this.config.symbol,
+      minNotional: minNotional?.toString() ?? null,
+      levels: indexes,
+    });
+    this.notifyOrderFailure({
+      title: "网格档位名义金额不足",
+      body: [
+        `交易对: ${this.config.symbol}`,
+        `最小名义金额: ${minNotional?.toString() ?? "未知"}`,
+        ...details,
+      ].join("\n"),
+    });
+  }
+
   /**
    * post-only 保护：避免下单价格穿越盘口而变为吃单。
    */
@@ -720,7 +2038,7 @@ export class GridOrderManager {
     if (!this.config.postOnly) {
       return false;
     }
-    const quote = this.marketData.getLatestQuote(this.exchange.name);
+    const quote = this.marketData.getLatestQuote(this.exchange.name, this.config.symbol);
     if (!quote) {
       return true;
     }
@@ -756,14 +2074,15 @@ export class GridOrderManager {
       return;
     }
     this.maintenanceInProgress = true;
-    this.lastMaintenanceAt = Date.now();
+    this.lastMaintenanceAt = this.clock.now();
     try {
       await this.cancelExpiredOrders();
-      const now = Date.now();
+      const now = this.clock.now();
       if (this.lastReconcileAt === null || now - this.lastReconcileAt >= this.reconcileIntervalMs) {
         this.lastReconcileAt = now;
         await this.reconcileActiveOrders();
       }
+      await this.evaluateRiskRules();
     } finally {
       this.maintenanceInProgress = false;
     }
@@ -780,7 +2099,7 @@ export class GridOrderManager {
           {
             ...order,
             status: "CANCELLED",
-            updatedAt: Date.now(),
+            updatedAt: this.clock.now(),
           },
           {
             exchangeStatus: "not_found",
@@ -789,15 +2108,14 @@ export class GridOrderManager {
         );
         return;
       }
-      this.upsertOrderState(
-        {
-          ...order,
-          status: latest.status,
-          exchangeOrderId: latest.exchangeOrderId ?? order.exchangeOrderId,
-          updatedAt: latest.updatedAt,
-        },
-        this.buildRecordExtraFromExchange(latest)
-      );
+      const next: GridOrderState = {
+        ...order,
+        status: latest.status,
+        exchangeOrderId: latest.exchangeOrderId ?? order.exchangeOrderId,
+        updatedAt: latest.updatedAt,
+      };
+      this.upsertOrderState(next, this.buildRecordExtraFromExchange(latest));
+      this.observeFill(next, latest, "SNAPSHOT");
     } catch (error) {
       console.warn(`撤单对账失败: ${reason}`, error);
     }
@@ -824,6 +2142,7 @@ export class GridOrderManager {
       const existing = this.state.getOrder(order.clientOrderId);
       const next = this.mergeOrderFromExchange(order, existing);
       this.upsertOrderState(next, this.buildRecordExtraFromExchange(order));
+      this.observeFill(next, order, "SNAPSHOT");
     }
 
     const activeOrders = this.state
@@ -839,6 +2158,17 @@ export class GridOrderManager {
       }
       await this.reconcileCancelFailure(order, "周期对账");
     }
+
+    // 挂单与对账后仍未终态的订单之外，启动时重放的订单均已终态，释放其累计成交进度
+    if (this.pnl) {
+      const activeIds = new Set(openMap.keys());
+      for (const order of this.state.getOrders()) {
+        if (!isTerminalOrderStatus(order.status)) {
+          activeIds.add(order.clientOrderId);
+        }
+      }
+      this.pnl.releaseReplayedOrders(activeIds);
+    }
   }
 
   /**
@@ -878,7 +2208,7 @@ export class GridOrderManager {
       return null;
     }
     const rest = clientOrderId.slice(this.orderIdPrefix.length);
-    const match = rest.match(/^(BUY|SELL)-(-?\\d+)-\\d+(?:-.+)?$/);
+    const match = rest.match(/^(BUY|SELL)-(-?\d+)-\d+(?:-.+)?$/);
     if (!match) {
       return null;
     }
@@ -890,7 +2220,7 @@ export class GridOrderManager {
    * 生成订单会话标识，避免重启后 clientOrderId 重复。
    */
   private buildOrderSessionId(): string {
-    const timestamp = Date.now().toString(36);
+    const timestamp = this.clock.now().toString(36);
     const random = Math.random().toString(36).slice(2, 8);
     return `${timestamp}-${random}`;
   }
@@ -918,7 +2248,7 @@ export class GridOrderManager {
    * 获取净仓位（多为正，空为负），WS 优先，必要时回退 REST。
    */
   private async loadNetPosition(): Promise<Decimal | null> {
-    const now = Date.now();
+    const now = this.clock.now();
     if (
       this.cachedNetPosition !== null &&
       this.lastPositionUpdateAt !== null &&
@@ -937,7 +2267,7 @@ export class GridOrderManager {
    * 使用 REST 刷新仓位，适用于启动或 WS 长时间无更新时。
    */
   private async refreshNetPosition(reason: string): Promise<Decimal | null> {
-    const now = Date.now();
+    const now = this.clock.now();
     if (
       this.lastPositionRefreshAt !== null &&
       now - this.lastPositionRefreshAt < this.positionRefreshIntervalMs
@@ -949,7 +2279,7 @@ export class GridOrderManager {
       const netPosition = await this.exchange.getNetPosition(this.config.symbol);
       this.cachedNetPosition = netPosition;
       this.positionSnapshotReady = true;
-      this.lastPositionUpdateAt = Date.now();
+      this.lastPositionUpdateAt = this.clock.now();
       return netPosition;
     } catch (error) {
       console.warn(`获取仓位失败: ${reason}`, error);
@@ -972,7 +2302,7 @@ export class GridOrderManager {
     if (!this.state.centerPrice) {
       return;
     }
-    const now = Date.now();
+    const now = this.clock.now();
     const expiredOrders = this.state
       .getOrders()
       .filter(
@@ -987,17 +2317,145 @@ export class GridOrderManager {
   }
 }
 
+/**
+ * 订单管理器可选依赖。
+ */
+export interface GridOrderManagerOptions {
+  /** 订单落库 */
+  recorder?: OrderRecorder;
+  /** 下单失败通知 */
+  notifier?: NotificationService;
+  /** 网格状态存储，热重启接管挂单依赖 */
+  stateStore?: GridStateStore;
+  /** 成交记账与盈亏统计 */
+  pnl?: GridPnlService;
+  /** 风控暂停规则，默认启用仓位越界规则 */
+  riskRules?: RiskPauseRule[];
+  /** 亏损熔断，作为风控规则参与评估，并在启动与恢复时读写熔断状态 */
+  drawdownGuard?: DrawdownGuard;
+  /** 保证金风控，作为风控规则参与评估，账户保证金率或强平距离越限时停止补单 */
+  marginGuard?: MarginGuard;
+  /** 组合风控，多个网格共享同一账户时汇总敞口检查组合限额 */
+  portfolioRisk?: PortfolioRiskManager;
+  /** 平仓步骤日志 */
+  flattenJournal?: FlattenJournal;
+  /** 配对止盈存储，记录往返价差并供热重启恢复配对 */
+  pairStore?: GridPairStore;
+  /** 时间来源，回测时注入虚拟时钟 */
+  clock?: Clock;
+  /** 固定的订单会话标识，回测时使用以保证 clientOrderId 可复现 */
+  orderSessionId?: string;
+}
+
+/**
+ * 退出处理结果。
+ */
+export interface GridShutdownOutcome {
+  policy: GridShutdownPolicy;
+  ok: boolean;
+  /** 仅 flatten 策略有值 */
+  flatten: FlattenResult | null;
+  error: string | null;
+}
+
+const SHUTDOWN_NOTIFY_TIMEOUT_MS = 5000;
+
+/**
+ * 风控触发通知标题。
+ */
+const RISK_ACTION_TITLES: Record<RiskAction, string> = {
+  pause: "风控触发暂停",
+  cancel: "风控触发撤单暂停",
+  flatten: "风控触发紧急平仓",
+};
+
+/**
+ * 暂停来源：程序调用、控制接口、进程信号、风控规则、区间越界、进程退出、命令行或队列任务失败。
+ */
+export type GridPauseSource =
+  | "manual"
+  | "control"
+  | "signal"
+  | "risk"
+  | "range"
+  | "shutdown"
+  | "cli"
+  | "error";
+
+/**
+ * 暂停参数。
+ */
+export interface GridPauseOptions {
+  source?: GridPauseSource;
+  /** 覆盖配置中的暂停策略 */
+  policy?: GridPausePolicy;
+}
+
 /**
  * 订单管理器运行状态快照。
  */
 export interface GridOrderManagerStatus {
   centerPrice: Decimal | null;
+  paused: boolean;
+  pauseReason: string | null;
+  pauseSource: GridPauseSource | null;
+  pausedAt: number | null;
+  /** 区间网格中价格是否位于区间之外，滑动网格恒为 false */
+  outOfRange: boolean;
+  /** 最近一次按参考价来源计算的网格参考价，未收到行情时为 null */
+  referencePrice: Decimal | null;
+  /** 名义金额低于交易所下限而跳过下单的档位索引 */
+  undersizedLevels: number[];
+  /** 库存偏移状态，未启用时为 null */
+  inventorySkew: GridInventorySkewStatus | null;
+  /** 自适应间距模式下当前生效的间距（ABS 为价差、PERCENT 为比例），固定间距时为 null */
+  adaptiveSpacing: Decimal | null;
+  /** 配对止盈统计，仅 paired 模式有值 */
+  paired: GridPairedStatus | null;
+  /** 亏损熔断状态，未启用时为 null */
+  drawdown: DrawdownGuardStatus | null;
+  /** 账户保证金风控状态，未启用时为 null */
+  margin: MarginGuardStatus | null;
+  /** 最近一次补单因组合限额延后的原因，未触发或已解除时为 null */
+  portfolioDeferral: GridPortfolioDeferral | null;
+  /** 下单前检查未通过的档位及原因，档位通过检查后移除 */
+  preTradeRejections: Array<PreTradeRejection & { levelIndex: number }>;
+  /** 本地缓存的净仓位（多为正，空为负），未获取时为 null */
+  netPosition: Decimal | null;
   lastOrderUpdateAt: number | null;
   lastPositionUpdateAt: number | null;
   lastMaintenanceAt: number | null;
   lastReconcileAt: number | null;
 }
 
+/**
+ * 组合限额延后补单的原因。
+ */
+export interface GridPortfolioDeferral extends PortfolioLimitBreach {
+  /** 同类限额首次阻止补单的时间 */
+  since: number;
+}
+
+/**
+ * 库存偏移状态。
+ */
+export interface GridInventorySkewStatus {
+  /** 最近一次应用偏移时的净仓位比例（净仓位 / 最大持仓） */
+  ratio: Decimal;
+  /** 档位价格偏移的档数，负数向下 */
+  centerSteps: number;
+}
+
+/**
+ * 配对止盈统计，往返数量与价差为本次运行累计值。
+ */
+export interface GridPairedStatus {
+  openPairs: number;
+  roundTrips: number;
+  /** 已实现价差合计（计价币，未扣手续费） */
+  realizedSpread: Decimal;
+}
+
 /**
  * 订单落库所需的补充字段。
  */
@@ -0,0 +1,97 @@
+import type { GridClosedPair, GridPair } from "../../core/grid/types";
+import type { GridPairRepository } from "../../infra/db/grid-pair-repo";
+import { Decimal } from "../../shared/number";
+import type { GridStateKey } from "./grid-state-store";
+
+/**
+ * 配对状态：未闭合、已闭合或放弃跟踪。
+ */
+export type GridPairStatus = "OPEN" | "CLOSED" | "ABANDONED";
+
+/**
+ * 配对止盈存储接口：记录配对与往返价差，并供热重启恢复未闭合配对。
+ */
+export interface GridPairStore {
+  savePair(key: GridStateKey, pair: GridPair, status: GridPairStatus, at: number): Promise<void>;
+  saveClosedPair(key: GridStateKey, pair: GridClosedPair): Promise<void>;
+  loadOpenPairs(key: GridStateKey): Promise<GridPair[]>;
+  abandonOpenPairs(key: GridStateKey, at: number): Promise<void>;
+}
+
+/**
+ * 基于 SQLite 的配对止盈存储实现。
+ */
+export class DbGridPairStore implements GridPairStore {
+  private readonly repo: GridPairRepository;
+
+  constructor(repo: GridPairRepository) {
+    this.repo = repo;
+  }
+
+  /**
+   * 写入未闭合或放弃跟踪的配对，未闭合时同步最新档位索引。
+   */
+  public async savePair(
+    key: GridStateKey,
+    pair: GridPair,
+    status: GridPairStatus,
+    at: number
+  ): Promise<void> {
+    await this.repo.upsertPair({ ...this.buildRow(key, pair), status, updatedAt: at });
+  }
+
+  /**
+   * 写入已闭合的配对及其止盈单与已实现价差。
+   */
+  public async saveClosedPair(key: GridStateKey, pair: GridClosedPair): Promise<void> {
+    await this.repo.upsertPair({
+      ...this.buildRow(key, pair),
+      status: "CLOSED",
+      exitClientOrderId: pair.exitClientOrderId,
+      closePrice: pair.closePrice.toString(),
+      spread: pair.spread.toString(),
+      closedAt: pair.closedAt,
+      updatedAt: pair.closedAt,
+    });
+  }
+
+  /**
+   * 读取未闭合的配对。
+   */
+  public async loadOpenPairs(key: GridStateKey): Promise<GridPair[]> {
+    const rows = await this.repo.findOpenPairs(key);
+    return rows.map((row) => ({
+      entryClientOrderId: row.entryClientOrderId,
+      entrySide: row.entrySide,
+      entryLevelIndex: row.entryLevelIndex,
+      entryPrice: Decimal(row.entryPrice),
+      exitLevelIndex: row.exitLevelIndex,
+      exitPrice: Decimal(row.exitPrice),
+      quantity: Decimal(row.quantity),
+      openedAt: row.openedAt,
+    }));
+  }
+
+  /**
+   * 网格重建后旧配对的档位失效，全部标记为放弃跟踪。
+   */
+  public async abandonOpenPairs(key: GridStateKey, at: number): Promise<void> {
+    await this.repo.abandonOpenPairs(key, at);
+  }
+
+  private buildRow(key: GridStateKey, pair: GridPair) {
+    return {
+      strategyId: key.strategyId,
+      exchange: key.exchange,
+      symbol: key.symbol,
+      entryClientOrderId: pair.entryClientOrderId,
+      entrySide: pair.entrySide,
+      entryLevelIndex: pair.entryLevelIndex,
+      entryPrice: pair.entryPrice.toString(),
+      exitLevelIndex: pair.exitLevelIndex,
+      exitPrice: pair.exitPrice.toString(),
+      quantity: pair.quantity.toString(),
+      openedAt: pair.openedAt,
+    };
+  }
+}
@@ -0,0 +1,171 @@
+import type { OrderSide, OrderStatus } from "../../core/exchange/models";
+import type {
+  GridMode,
+  GridRangeLayout,
+  GridSideSpacing,
+  GridSpacingMode,
+} from "../../core/grid/types";
+import type { GridStateRepository } from "../../infra/db/grid-state-repo";
+import type { OrderRepository } from "../../infra/db/order-repo";
+import { Decimal } from "../../shared/number";
+
+/**
+ * 网格状态的定位键。
+ */
+export interface GridStateKey {
+  strategyId: string;
+  exchange: string;
+  symbol: string;
+}
+
+/**
+ * 持久化的网格状态：中心价与决定档位价格的参数。
+ */
+export interface PersistedGridState {
+  centerPrice: Decimal;
+  mode: GridMode;
+  /** 滑动网格为单边档位数，区间网格为价格线数量 */
+  levels: number;
+  spacingMode: GridSpacingMode;
+  spacing?: Decimal;
+  spacingPercent?: Decimal;
+  /** 单边档位数与间距，未单独配置时为空 */
+  buyLevels?: number;
+  sellLevels?: number;
+  buySpacing?: GridSideSpacing;
+  sellSpacing?: GridSideSpacing;
+  /** 区间边界，仅区间网格有值 */
+  range?: Pick<GridRangeLayout, "lower" | "upper">;
+  updatedAt: number;
+}
+
+/**
+ * 持久化的未终态订单，levelIndex 为相对最新中心价的档位。
+ */
+export interface PersistedGridOrder {
+  clientOrderId: string;
+  exchangeOrderId?: string;
+  side: OrderSide;
+  price: Decimal;
+  quantity: Decimal;
+  status: OrderStatus;
+  levelIndex: number | null;
+  placedAt: number;
+}
+
+/**
+ * 网格状态存储接口，供热重启恢复档位映射。
+ */
+export interface GridStateStore {
+  loadState(key: GridStateKey): Promise<PersistedGridState | null>;
+  saveState(key: GridStateKey, state: PersistedGridState): Promise<void>;
+  loadActiveOrders(key: GridStateKey): Promise<PersistedGridOrder[]>;
+}
+
+/**
+ * 基于 SQLite 的网格状态存储实现。
+ */
+export class DbGridStateStore implements GridStateStore {
+  private readonly gridStateRepo: GridStateRepository;
+  private readonly orderRepo: OrderRepository;
+
+  constructor(gridStateRepo: GridStateRepository, orderRepo: OrderRepository) {
+    this.gridStateRepo = gridStateRepo;
+    this.orderRepo = orderRepo;
+  }
+
+  /**
+   * 读取网格状态，字段非法时视为不存在。
+   */
+  public async loadState(key: GridStateKey): Promise<PersistedGridState | null> {
+    const row = await this.gridStateRepo.findState(key);
+    if (!row) {
+      return null;
+    }
+    const centerPrice = Decimal(row.centerPrice);
+    if (centerPrice.isNaN() || (row.spacingMode !== "ABS" && row.spacingMode !== "PERCENT")) {
+      console.warn("网格状态记录无效，忽略", { ...key, centerPrice: row.centerPrice });
+      return null;
+    }
+    return {
+      centerPrice,
+      mode: row.gridMode === "range" ? "range" : "sliding",
+      levels: row.levels,
+      spacingMode: row.spacingMode,
+      spacing: row.spacing ? Decimal(row.spacing) : undefined,
+      spacingPercent: row.spacingPercent ? Decimal(row.spacingPercent) : undefined,
+      buyLevels: row.buyLevels ?? undefined,
+      sellLevels: row.sellLevels ?? undefined,
+      buySpacing: parseSideSpacing(row.buySpacingMode, row.buySpacing, row.buySpacingPercent),
+      sellSpacing: parseSideSpacing(row.sellSpacingMode, row.sellSpacing, row.sellSpacingPercent),
+      range:
+        row.rangeLower && row.rangeUpper
+          ? { lower: Decimal(row.rangeLower), upper: Decimal(row.rangeUpper) }
+          : undefined,
+      updatedAt: row.updatedAt,
+    };
+  }
+
+  /**
+   * 覆盖写入网格状态。
+   */
+  public async saveState(key: GridStateKey, state: PersistedGridState): Promise<void> {
+    await this.gridStateRepo.upsertState({
+      strategyId: key.strategyId,
+      exchange: key.exchange,
+      symbol: key.symbol,
+      centerPrice: state.centerPrice.toString(),
+      levels: state.levels,
+      spacingMode: state.spacingMode,
+      spacing: state.spacing?.toString(),
+      spacingPercent: state.spacingPercent?.toString(),
+      buyLevels: state.buyLevels ?? null,
+      sellLevels: state.sellLevels ?? null,
+      buySpacingMode: state.buySpacing?.mode ?? null,
+      buySpacing: state.buySpacing?.spacing?.toString() ?? null,
+      buySpacingPercent: state.buySpacing?.spacingPercent?.toString() ?? null,
+      sellSpacingMode: state.sellSpacing?.mode ?? null,
+      sellSpacing: state.sellSpacing?.spacing?.toString() ?? null,
+      sellSpacingPercent: state.sellSpacing?.spacingPercent?.toString() ?? null,
+      gridMode: state.mode,
+      rangeLower: state.range?.lower.toString(),
+      rangeUpper: state.range?.upper.toString(),
+      updatedAt: state.updatedAt,
+    });
+  }
+
+  /**
+   * 读取未终态订单记录。
+   */
+  public async loadActiveOrders(key: GridStateKey): Promise<PersistedGridOrder[]> {
+    const rows = await this.orderRepo.findActiveOrders(key);
+    return rows.map((row) => ({
+      clientOrderId: row.clientOrderId,
+      exchangeOrderId: row.exchangeOrderId ?? undefined,
+      side: row.side,
+      price: Decimal(row.price),
+      quantity: Decimal(row.quantity),
+      status: row.status,
+      levelIndex: row.gridLevelIndex,
+      placedAt: row.placedAt,
+    }));
+  }
+}
+
+/**
+ * 解析单边间距列，模式为空或非法时视为未单独配置。
+ */
+function parseSideSpacing(
+  mode: string | null,
+  spacing: string | null,
+  spacingPercent: string | null
+): GridSideSpacing | undefined {
+  if (mode !== "ABS" && mode !== "PERCENT") {
+    return undefined;
+  }
+  return {
+    mode,
+    spacing: spacing ? Decimal(spacing) : undefined,
+    spacingPercent: spacingPercent ? Decimal(spacingPercent) : undefined,
+  };
+}
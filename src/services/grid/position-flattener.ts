@@ -0,0 +1,395 @@
+import type { GridExchangeAdapter } from "../../core/exchange/adapter";
+import type { OrderSide, OrderStatus } from "../../core/exchange/models";
+import { alignToStep, Decimal } from "../../shared/number";
+import { type Clock, sleep, systemClock } from "../../shared/time";
+import type { MarketDataService } from "../market-data/market-data-service";
+import type { GridPnlService } from "../pnl/grid-pnl-service";
+import type { OrderRecorder } from "../recorder/order-recorder";
+import type { FlattenJournal, FlattenStep } from "./flatten-journal";
+
+/**
+ * 平仓器依赖与参数。
+ */
+export interface PositionFlattenerOptions {
+  exchange: GridExchangeAdapter;
+  marketData: MarketDataService;
+  strategyId: string;
+  symbol: string;
+  exchangeSymbol: string;
+  /** 平仓单 clientOrderId 前缀，需与网格单前缀一致以便对账与回补识别 */
+  clientOrderIdPrefix: string;
+  /** 相对盘口的最大滑点比例，例如 0.005 表示 0.5% */
+  slippage: Decimal;
+  recorder?: OrderRecorder;
+  pnl?: GridPnlService;
+  /** 平仓步骤日志，未提供时仅输出日志 */
+  journal?: FlattenJournal;
+  clock?: Clock;
+  /** 两次下单之间的等待时间 */
+  retryIntervalMs?: number;
+}
+
+/**
+ * 平仓请求。
+ */
+export interface FlattenRequest {
+  /** 截止时间戳（毫秒） */
+  deadline: number;
+  reason: string;
+  /** 触发来源，例如 cli、control、risk、shutdown */
+  source: string;
+  /** 平仓前的撤单动作，失败时记录后继续平仓 */
+  cancelOrders?: () => Promise<void>;
+}
+
+/**
+ * 平仓结果。
+ */
+export interface FlattenResult {
+  runId: string;
+  /** 剩余仓位不足一个最小下单步长即视为已平 */
+  flat: boolean;
+  initialPosition: Decimal | null;
+  remainingPosition: Decimal | null;
+  attempts: number;
+  filledQuantity: Decimal;
+  error?: string;
+}
+
+/**
+ * 平仓单落库快照。
+ */
+interface FlattenOrderSnapshot {
+  clientOrderId: string;
+  side: OrderSide;
+  price: Decimal;
+  quantity: Decimal;
+  placedAt: number;
+  status: OrderStatus;
+  accountId?: string;
+  clientOrderNum?: number;
+  exchangeOrderId?: string;
+  statusReason?: string;
+  filledQuantity?: Decimal;
+  avgFillPrice?: Decimal;
+  updatedAt?: number;
+}
+
+/**
+ * 单次平仓的标识与触发来源。
+ */
+interface FlattenRun {
+  runId: string;
+  source: string;
+}
+
+const DEFAULT_RETRY_INTERVAL_MS = 1000;
+
+/**
+ * 仓位平仓器：以 reduce-only 的 IOC 限价单按盘口加滑点吃单，循环直至仓位归零或超时。
+ * 限价保护避免薄盘口下市价单成交在极端价格，未成交部分在下一轮按最新盘口重试。
+ */
+export class PositionFlattener {
+  private readonly exchange: GridExchangeAdapter;
+  private readonly marketData: MarketDataService;
+  private readonly strategyId: string;
+  private readonly symbol: string;
+  private readonly exchangeSymbol: string;
+  private readonly clientOrderIdPrefix: string;
+  private readonly slippage: Decimal;
+  private readonly recorder?: OrderRecorder;
+  private readonly pnl?: GridPnlService;
+  private readonly journal?: FlattenJournal;
+  private readonly clock: Clock;
+  private readonly retryIntervalMs: number;
+  private sequence = 0;
+  private runSequence = 0;
+
+  constructor(options: PositionFlattenerOptions) {
+    this.exchange = options.exchange;
+    this.marketData = options.marketData;
+    this.strategyId = options.strategyId;
+    this.symbol = options.symbol;
+    this.exchangeSymbol = options.exchangeSymbol;
+    this.clientOrderIdPrefix = options.clientOrderIdPrefix;
+    this.slippage = options.slippage;
+    this.recorder = options.recorder;
+    this.pnl = options.pnl;
+    this.journal = options.journal;
+    this.clock = options.clock ?? systemClock;
+    this.retryIntervalMs = options.retryIntervalMs ?? DEFAULT_RETRY_INTERVAL_MS;
+  }
+
+  /**
+   * 撤单后平掉当前净仓位，每个步骤写入平仓日志。
+   */
+  public async flatten(request: FlattenRequest): Promise<FlattenResult> {
+    const result: FlattenResult = {
+      runId: this.nextRunId(),
+      flat: false,
+      initialPosition: null,
+      remainingPosition: null,
+      attempts: 0,
+      filledQuantity: Decimal(0),
+    };
+    const run = { runId: result.runId, source: request.source };
+    console.warn("开始平仓", { symbol: this.symbol, ...run, reason: request.reason });
+    this.recordStep(run, "START", { detail: { reason: request.reason } });
+    if (request.cancelOrders) {
+      try {
+        await request.cancelOrders();
+        this.recordStep(run, "CANCEL");
+      } catch (error) {
+        console.warn("平仓前撤单失败，继续平仓", error);
+        this.recordStep(run, "CANCEL", { detail: { error: formatError(error) } });
+      }
+    }
+    await this.closePosition(request.deadline, result, run);
+    this.recordStep(run, result.flat ? "DONE" : "FAILED", {
+      position: result.remainingPosition,
+      detail: {
+        attempts: result.attempts,
+        filledQuantity: result.filledQuantity,
+        initialPosition: result.initialPosition,
+        error: result.error,
+      },
+    });
+    return result;
+  }
+
+  /**
+   * 循环下 reduce-only 单直至仓位归零或超过截止时间。
+   */
+  private async closePosition(
+    deadline: number,
+    result: FlattenResult,
+    run: FlattenRun
+  ): Promise<void> {
+    let lotSize: Decimal;
+    let tickSize: Decimal;
+    try {
+      const marketConfig = await this.exchange.getMarketConfig(this.symbol);
+      lotSize = marketConfig.minOrderSizeChange;
+      tickSize = marketConfig.minPriceChange;
+    } catch (error) {
+      result.error = `加载市场配置失败: ${formatError(error)}`;
+      return;
+    }
+    while (true) {
+      let position: Decimal;
+      try {
+        position = await this.exchange.getNetPosition(this.symbol);
+      } catch (error) {
+        result.error = `查询仓位失败: ${formatError(error)}`;
+        if (this.clock.now() >= deadline) {
+          return;
+        }
+        await sleep(this.retryIntervalMs);
+        continue;
+      }
+      result.initialPosition ??= position;
+      result.remainingPosition = position;
+      this.recordStep(run, "POSITION", { position });
+      const quantity = alignToStep(position.abs(), lotSize);
+      if (!quantity.gt(0)) {
+        result.flat = true;
+        result.error = undefined;
+        return;
+      }
+      if (this.clock.now() >= deadline) {
+        result.error ??= "平仓超时";
+        return;
+      }
+      const side: OrderSide = position.gt(0) ? "SELL" : "BUY";
+      const price = this.resolveLimitPrice(side, tickSize);
+      if (!price) {
+        result.error = "暂无盘口行情";
+        await sleep(this.retryIntervalMs);
+        continue;
+      }
+      result.attempts += 1;
+      try {
+        const filled = await this.submit(side, price, quantity, run);
+        result.filledQuantity = result.filledQuantity.plus(filled);
+        result.error = undefined;
+      } catch (error) {
+        result.error = `平仓下单失败: ${formatError(error)}`;
+        console.warn("平仓下单失败", { symbol: this.symbol, side, error });
+      }
+      await sleep(this.retryIntervalMs);
+    }
+  }
+
+  /**
+   * 买单取卖一上浮滑点、卖单取买一下浮滑点，并按最小价格步长向不利方向对齐以保证可成交。
+   */
+  private resolveLimitPrice(side: OrderSide, tickSize: Decimal): Decimal | null {
+    const quote = this.marketData.getLatestQuote(this.exchange.name, this.symbol);
+    if (!quote) {
+      return null;
+    }
+    if (side === "BUY") {
+      const raw = quote.ask.multipliedBy(Decimal(1).plus(this.slippage));
+      return alignToStep(raw, tickSize, Decimal.ROUND_UP);
+    }
+    const raw = quote.bid.multipliedBy(Decimal(1).minus(this.slippage));
+    const price = alignToStep(raw, tickSize, Decimal.ROUND_DOWN);
+    return price.gt(0) ? price : null;
+  }
+
+  /**
+   * 提交 reduce-only IOC 单并查询最终成交，返回本单成交数量。
+   */
+  private async submit(
+    side: OrderSide,
+    price: Decimal,
+    quantity: Decimal,
+    run: FlattenRun
+  ): Promise<Decimal> {
+    const clientOrderId = this.nextClientOrderId();
+    const placedAt = this.clock.now();
+    this.record({ clientOrderId, side, price, quantity, status: "PENDING_SEND", placedAt });
+    const result = await this.exchange.placeOrder({
+      clientOrderId,
+      symbol: this.symbol,
+      side,
+      type: "LIMIT",
+      price,
+      quantity,
+      timeInForce: "IOC",
+      postOnly: false,
+      reduceOnly: true,
+    });
+    this.record({ clientOrderId, side, price, quantity, placedAt, ...result });
+    console.info("平仓单已提交", {
+      symbol: this.symbol,
+      clientOrderId,
+      side,
+      price: price.toString(),
+      quantity: quantity.toString(),
+      status: result.status,
+    });
+    const orderDetail = {
+      side,
+      price,
+      quantity,
+      status: result.status,
+      statusReason: result.statusReason,
+      errorMessage: result.errorMessage,
+    };
+    if (result.status === "REJECTED") {
+      this.recordStep(run, "ORDER", { clientOrderId, detail: orderDetail });
+      throw new Error(result.errorMessage ?? result.statusReason ?? "订单被拒绝");
+    }
+    const latest = await this.exchange.getOrderByClientOrderId(clientOrderId);
+    this.recordStep(run, "ORDER", {
+      clientOrderId,
+      detail: {
+        ...orderDetail,
+        status: latest?.status ?? result.status,
+        filledQuantity: latest?.filledQuantity,
+        avgFillPrice: latest?.avgFillPrice,
+      },
+    });
+    if (!latest) {
+      return Decimal(0);
+    }
+    this.record({ ...latest, price, quantity, placedAt });
+    this.pnl?.observeOrder({
+      clientOrderId,
+      exchangeOrderId: latest.exchangeOrderId,
+      side,
+      status: latest.status,
+      orderPrice: price,
+      orderQuantity: quantity,
+      filledQuantity: latest.filledQuantity,
+      avgFillPrice: latest.avgFillPrice,
+      levelIndex: null,
+      liquidity: "TAKER",
+      source: "SNAPSHOT",
+      updatedAt: latest.updatedAt,
+    });
+    if (latest.filledQuantity) {
+      return latest.filledQuantity;
+    }
+    return latest.status === "FILLED" ? quantity : Decimal(0);
+  }
+
+  /**
+   * 平仓单状态异步落库，与网格单共用订单表。
+   */
+  private record(order: FlattenOrderSnapshot): void {
+    if (!this.recorder) {
+      return;
+    }
+    void this.recorder
+      .recordOrder({
+        strategyId: this.strategyId,
+        exchange: this.exchange.name,
+        accountId: order.accountId,
+        symbol: this.symbol,
+        exchangeSymbol: this.exchangeSymbol,
+        clientOrderId: order.clientOrderId,
+        clientOrderNum: order.clientOrderNum,
+        exchangeOrderId: order.exchangeOrderId,
+        side: order.side,
+        orderType: "LIMIT",
+        timeInForce: "IOC",
+        postOnly: false,
+        reduceOnly: true,
+        price: order.price,
+        quantity: order.quantity,
+        filledQuantity: order.filledQuantity,
+        avgFillPrice: order.avgFillPrice,
+        status: order.status,
+        statusReason: order.statusReason,
+        placedAt: order.placedAt,
+        exchangeUpdatedAt: order.updatedAt ?? order.placedAt,
+      })
+      .catch((error) => {
+        console.warn("平仓单落库失败", error);
+      });
+  }
+
+  /**
+   * 平仓步骤异步落库。
+   */
+  private recordStep(
+    run: FlattenRun,
+    step: FlattenStep,
+    extra: {
+      position?: Decimal | null;
+      clientOrderId?: string;
+      detail?: Record<string, unknown>;
+    } = {}
+  ): void {
+    if (!this.journal) {
+      return;
+    }
+    void this.journal
+      .recordStep(
+        { strategyId: this.strategyId, exchange: this.exchange.name, symbol: this.symbol },
+        { ...run, step, ...extra, createdAt: this.clock.now() }
+      )
+      .catch((error) => {
+        console.warn("平仓步骤落库失败", error);
+      });
+  }
+
+  private nextRunId(): string {
+    const sequence = this.runSequence++;
+    return `${this.clientOrderIdPrefix}flatten-${this.clock.now().toString(36)}-${sequence}`;
+  }
+
+  /**
+   * 平仓单编号：沿用网格前缀并以 FLAT 区分，不会被解析为网格档位。
+   */
+  private nextClientOrderId(): string {
+    const sequence = this.sequence++;
+    return `${this.clientOrderIdPrefix}FLAT-${sequence}-${this.clock.now().toString(36)}`;
+  }
+}
+
+function formatError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -12,33 +12,38 @@ export type QuoteListener = (quote: ExchangeQuote) => void;
 export interface MarketDataSource {
   /** 交易所标识 */
   exchange: string;
+  /** 统一格式交易对，行情按交易对分区缓存与分发 */
+  symbol: string;
   /** 订阅入口，返回取消函数 */
   subscribe: (listener: QuoteListener) => Unsubscribe;
 }
 
 /**
- * 行情快照，记录触发更新的来源与各交易所最新行情。
+ * 行情快照，记录触发更新的来源与同一交易对下各交易所最新行情。
  */
 export interface MarketDataSnapshot {
+  symbol: string;
   source: ExchangeQuote;
   latest: Record<string, ExchangeQuote>;
 }
 
 /**
- * 行情订阅配置，支持按交易所过滤。
+ * 行情订阅配置，按交易对订阅并支持按交易所过滤。
  */
 export interface MarketDataSubscription {
+  symbol: string;
   exchanges: string[];
   listener: (snapshot: MarketDataSnapshot) => void;
 }
 
 /**
- * 行情聚合服务，负责汇总多交易所行情并分发给订阅者。
+ * 行情聚合服务，负责汇总多交易所、多交易对行情并分发给订阅者。
  */
 export class MarketDataService {
   private readonly sources: MarketDataSource[];
   private readonly subscriptions = new Map<number, MarketDataSubscription>();
-  private readonly latestQuotes: Record<string, ExchangeQuote> = {};
+  // 各交易对下各交易所的最新行情。
+  private readonly latestQuotes = new Map<string, Record<string, ExchangeQuote>>();
   private readonly unsubscribes: Unsubscribe[] = [];
   private subscriptionId = 0;
   private started = false;
@@ -56,7 +61,7 @@ export class MarketDataService {
     }
     this.started = true;
     for (const source of this.sources) {
-      const unsubscribe = source.subscribe((quote) => this.handleQuote(quote));
+      const unsubscribe = source.subscribe((quote) => this.handleQuote(source.symbol, quote));
       this.unsubscribes.push(unsubscribe);
     }
   }
@@ -73,56 +78,71 @@ export class MarketDataService {
   }
 
   /**
-   * 订阅行情变化，返回取消订阅函数。
+   * 订阅指定交易对的行情变化，返回取消订阅函数。
    */
   public subscribe(
+    symbol: string,
     exchanges: string[],
     listener: (snapshot: MarketDataSnapshot) => void
   ): Unsubscribe {
     const id = this.subscriptionId++;
-    this.subscriptions.set(id, { exchanges, listener });
+    this.subscriptions.set(id, { symbol, exchanges, listener });
     return () => {
       this.subscriptions.delete(id);
     };
   }
 
   /**
-   * 获取指定交易所的最新行情。
+   * 获取指定交易所、交易对的最新行情。
    */
-  public getLatestQuote(exchange: string): ExchangeQuote | null {
-    return this.latestQuotes[exchange] ?? null;
+  public getLatestQuote(exchange: string, symbol: string): ExchangeQuote | null {
+    return this.latestQuotes.get(symbol)?.[exchange] ?? null;
   }
 
   /**
-   * 获取最近一次行情快照（按更新时间取最新来源）。
+   * 获取指定交易对最近一次行情快照（按更新时间取最新来源）。
    */
-  public getLatestSnapshot(): MarketDataSnapshot | null {
-    const exchanges = Object.keys(this.latestQuotes);
+  public getLatestSnapshot(symbol: string): MarketDataSnapshot | null {
+    const quotes = this.latestQuotes.get(symbol);
+    if (!quotes) {
+      return null;
+    }
+    const exchanges = Object.keys(quotes);
     if (exchanges.length === 0) {
       return null;
     }
     const latestExchange = exchanges.reduce((acc, current) => {
-      const accTs = this.latestQuotes[acc]?.ts ?? 0;
-      const currentTs = this.latestQuotes[current]?.ts ?? 0;
+      const accTs = quotes[acc]?.ts ?? 0;
+      const currentTs = quotes[current]?.ts ?? 0;
       return currentTs > accTs ? current : acc;
     });
-    const source = this.latestQuotes[latestExchange];
+    const source = quotes[latestExchange];
     if (!source) {
       return null;
     }
     return {
+      symbol,
       source,
-      latest: { ...this.latestQuotes },
+      latest: { ...quotes },
     };
   }
 
-  private handleQuote(quote: ExchangeQuote): void {
-    this.latestQuotes[quote.exchange] = quote;
+  private handleQuote(symbol: string, quote: ExchangeQuote): void {
+    let quotes = this.latestQuotes.get(symbol);
+    if (!quotes) {
+      quotes = {};
+      this.latestQuotes.set(symbol, quotes);
+    }
+    quotes[quote.exchange] = quote;
     const snapshot: MarketDataSnapshot = {
+      symbol,
       source: quote,
-      latest: { ...this.latestQuotes },
+      latest: { ...quotes },
     };
     for (const subscription of this.subscriptions.values()) {
+      if (subscription.symbol !== symbol) {
+        continue;
+      }
       if (subscription.exchanges.length > 0 && !subscription.exchanges.includes(quote.exchange)) {
         continue;
       }
@@ -0,0 +1,106 @@
+import type { OrderSide } from "../../core/exchange/models";
+import type { FillRepository } from "../../infra/db/fill-repo";
+import { Decimal } from "../../shared/number";
+
+/**
+ * 成交流动性类型。
+ */
+export type FillLiquidity = "MAKER" | "TAKER";
+
+/**
+ * 成交来源：实时订单回报、对账快照或历史订单回补。
+ */
+export type FillSource = "UPDATE" | "SNAPSHOT" | "HISTORY";
+
+/**
+ * 成交所属的策略、交易所与交易对。
+ */
+export interface FillStoreKey {
+  strategyId: string;
+  exchange: string;
+  symbol: string;
+}
+
+/**
+ * 单次增量成交记录。
+ */
+export interface FillRecord {
+  clientOrderId: string;
+  exchangeOrderId?: string;
+  side: OrderSide;
+  price: Decimal;
+  quantity: Decimal;
+  /** 本次成交后订单的累计成交量 */
+  cumulativeQuantity: Decimal;
+  fee: Decimal;
+  liquidity: FillLiquidity;
+  /** 平均成本法下本次成交的已实现盈亏（未扣手续费） */
+  realizedPnl: Decimal;
+  levelIndex: number | null;
+  source: FillSource;
+  filledAt: number;
+}
+
+/**
+ * 成交存储接口。
+ */
+export interface FillStore {
+  recordFill(key: FillStoreKey, fill: FillRecord): Promise<void>;
+  loadFills(key: FillStoreKey): Promise<FillRecord[]>;
+}
+
+/**
+ * 基于 SQLite 的成交存储实现。
+ */
+export class DbFillStore implements FillStore {
+  private readonly repo: FillRepository;
+
+  constructor(repo: FillRepository) {
+    this.repo = repo;
+  }
+
+  /**
+   * 写入成交，重复回报由唯一索引去重。
+   */
+  public async recordFill(key: FillStoreKey, fill: FillRecord): Promise<void> {
+    await this.repo.insertFill({
+      strategyId: key.strategyId,
+      exchange: key.exchange,
+      symbol: key.symbol,
+      clientOrderId: fill.clientOrderId,
+      exchangeOrderId: fill.exchangeOrderId,
+      side: fill.side,
+      price: fill.price.toString(),
+      quantity: fill.quantity.toString(),
+      cumulativeQuantity: fill.cumulativeQuantity.toString(),
+      fee: fill.fee.toString(),
+      liquidity: fill.liquidity,
+      realizedPnl: fill.realizedPnl.toString(),
+      gridLevelIndex: fill.levelIndex,
+      source: fill.source,
+      filledAt: fill.filledAt,
+      recordCreatedAt: Date.now(),
+    });
+  }
+
+  /**
+   * 按成交时间升序读取全部成交，用于重启后重放账本。
+   */
+  public async loadFills(key: FillStoreKey): Promise<FillRecord[]> {
+    const rows = await this.repo.findFills(key);
+    return rows.map((row) => ({
+      clientOrderId: row.clientOrderId,
+      exchangeOrderId: row.exchangeOrderId ?? undefined,
+      side: row.side,
+      price: Decimal(row.price),
+      quantity: Decimal(row.quantity),
+      cumulativeQuantity: Decimal(row.cumulativeQuantity),
+      fee: Decimal(row.fee),
+      liquidity: row.liquidity,
+      realizedPnl: Decimal(row.realizedPnl),
+      levelIndex: row.gridLevelIndex,
+      source: row.source,
+      filledAt: row.filledAt,
+    }));
+  }
+}
@@ -0,0 +1,319 @@
+import type { MarketTradingConfig, OrderSide, OrderStatus } from "../../core/exchange/models";
+import { isTerminalOrderStatus } from "../../core/exchange/order-status";
+import { computeFillDelta, type FillProgress } from "../../core/pnl/fill-delta";
+import { PositionLedger } from "../../core/pnl/position-ledger";
+import { type RoundTrip, RoundTripMatcher } from "../../core/pnl/round-trip-matcher";
+import { Decimal } from "../../shared/number";
+import type { FillLiquidity, FillRecord, FillSource, FillStore, FillStoreKey } from "./fill-store";
+
+/**
+ * 订单累计成交进度观测值，来自订单回报、对账快照或历史订单。
+ */
+export interface OrderFillObservation {
+  clientOrderId: string;
+  exchangeOrderId?: string;
+  side: OrderSide;
+  status: OrderStatus;
+  /** 委托价，缺少成交均价时作为成交价 */
+  orderPrice: Decimal;
+  /** 委托数量，FILLED 但未回传累计成交量时视为全部成交 */
+  orderQuantity: Decimal;
+  filledQuantity?: Decimal;
+  avgFillPrice?: Decimal;
+  levelIndex: number | null;
+  liquidity: FillLiquidity;
+  source: FillSource;
+  updatedAt: number;
+}
+
+/**
+ * 盈亏快照，金额单位均为计价币。
+ */
+export interface GridPnlSnapshot {
+  position: Decimal;
+  avgEntryPrice: Decimal | null;
+  /** 平均成本法已实现盈亏（未扣手续费） */
+  realizedPnl: Decimal;
+  fees: Decimal;
+  netRealizedPnl: Decimal;
+  markPrice: Decimal | null;
+  /** 按最新 mark 计算，缺少行情时为 null */
+  unrealizedPnl: Decimal | null;
+  totalPnl: Decimal | null;
+  volume: Decimal;
+  notional: Decimal;
+  fillCount: number;
+  roundTripCount: number;
+  roundTripNetPnl: Decimal;
+  lastFillAt: number | null;
+}
+
+/**
+ * 盈亏服务依赖。
+ */
+export interface GridPnlServiceOptions {
+  key: FillStoreKey;
+  store: FillStore;
+  /** 费率来源，通常为交易所市场配置 */
+  loadTradingConfig: () => Promise<MarketTradingConfig>;
+  /** 最新 mark 价格来源，用于未实现盈亏 */
+  markProvider?: () => Decimal | null;
+}
+
+const MAX_RECENT_ROUND_TRIPS = 200;
+// 已终态订单保留的数量，用于忽略终态后重复到达的回报或快照
+const MAX_CLOSED_ORDERS = 1000;
+
+/**
+ * 网格盈亏服务：将订单累计成交转换为增量成交落库，并维护均价、已实现/未实现盈亏与往返统计。
+ * 启动时从成交表重放账本，重启后统计口径保持连续。
+ */
+export class GridPnlService {
+  private readonly key: FillStoreKey;
+  private readonly store: FillStore;
+  private readonly loadTradingConfig: () => Promise<MarketTradingConfig>;
+  private readonly markProvider?: () => Decimal | null;
+  private readonly ledger = new PositionLedger();
+  private readonly matcher = new RoundTripMatcher();
+  private readonly progressMap = new Map<string, FillProgress>();
+  // 已终态订单，按终态先后排列，超过上限时淘汰最早的
+  private readonly closedOrders = new Set<string>();
+  // 启动时从成交表重放出累计进度、尚未确认终态的订单
+  private readonly replayedOrders = new Set<string>();
+  private readonly recentRoundTrips: RoundTrip[] = [];
+  private tradingConfig: MarketTradingConfig | null = null;
+  private tradingConfigLoading: Promise<void> | null = null;
+  private roundTripCount = 0;
+  private roundTripNetPnl = Decimal(0);
+  private lastFillAt: number | null = null;
+
+  constructor(options: GridPnlServiceOptions) {
+    this.key = options.key;
+    this.store = options.store;
+    this.loadTradingConfig = options.loadTradingConfig;
+    this.markProvider = options.markProvider;
+  }
+
+  /**
+   * 加载费率并重放历史成交。
+   */
+  public async start(): Promise<void> {
+    await this.ensureTradingConfig();
+    let records: FillRecord[] = [];
+    try {
+      records = await this.store.loadFills(this.key);
+    } catch (error) {
+      console.warn("加载历史成交失败，盈亏从零开始统计", error);
+      return;
+    }
+    for (const record of records) {
+      this.applyFill(record);
+      this.replayedOrders.add(record.clientOrderId);
+    }
+    if (records.length > 0) {
+      console.info("历史成交重放完成", {
+        ...this.key,
+        fills: records.length,
+        realizedPnl: this.ledger.getSnapshot().realizedPnl.toString(),
+      });
+    }
+  }
+
+  /**
+   * 观测订单累计成交，存在增量时记账并异步落库。
+   */
+  public observeOrder(observation: OrderFillObservation): void {
+    if (this.closedOrders.has(observation.clientOrderId)) {
+      return;
+    }
+    this.recordDelta(observation);
+    // 终态订单不会再有成交，记完最后一笔增量后释放累计进度
+    if (isTerminalOrderStatus(observation.status)) {
+      this.closeOrder(observation.clientOrderId);
+    }
+  }
+
+  /**
+   * 对账确认后释放启动重放的累计进度：不在 activeClientOrderIds 中的重放订单均已终态，
+   * 此后不会再有成交，否则其进度会一直留在内存中。
+   */
+  public releaseReplayedOrders(activeClientOrderIds: ReadonlySet<string>): void {
+    let released = 0;
+    for (const clientOrderId of this.replayedOrders) {
+      if (activeClientOrderIds.has(clientOrderId)) {
+        continue;
+      }
+      this.closeOrder(clientOrderId);
+      released += 1;
+    }
+    if (released > 0) {
+      console.info("已释放终态订单的成交进度", { ...this.key, released });
+    }
+  }
+
+  /**
+   * 最近一次成交时间，用于历史订单回补的起点。
+   */
+  public getLastFillAt(): number | null {
+    return this.lastFillAt;
+  }
+
+  /**
+   * 获取盈亏快照。
+   */
+  public getSnapshot(): GridPnlSnapshot {
+    const ledger = this.ledger.getSnapshot();
+    const markPrice = this.markProvider?.() ?? null;
+    const unrealizedPnl = markPrice ? this.ledger.unrealizedPnl(markPrice) : null;
+    const netRealizedPnl = ledger.realizedPnl.minus(ledger.fees);
+    return {
+      position: ledger.position,
+      avgEntryPrice: ledger.avgEntryPrice,
+      realizedPnl: ledger.realizedPnl,
+      fees: ledger.fees,
+      netRealizedPnl,
+      markPrice,
+      unrealizedPnl,
+      totalPnl: unrealizedPnl ? netRealizedPnl.plus(unrealizedPnl) : null,
+      volume: ledger.volume,
+      notional: ledger.notional,
+      fillCount: ledger.fillCount,
+      roundTripCount: this.roundTripCount,
+      roundTripNetPnl: this.roundTripNetPnl,
+      lastFillAt: this.lastFillAt,
+    };
+  }
+
+  /**
+   * 获取最近闭合的往返（新到旧）。
+   */
+  public getRecentRoundTrips(limit = 20): RoundTrip[] {
+    return this.recentRoundTrips.slice(-limit).reverse();
+  }
+
+  /**
+   * 计算相对已记账进度的增量成交，存在增量时记账并异步落库。
+   */
+  private recordDelta(observation: OrderFillObservation): void {
+    const filledQuantity =
+      observation.filledQuantity ??
+      (observation.status === "FILLED" ? observation.orderQuantity : null);
+    if (!filledQuantity) {
+      return;
+    }
+    const previous = this.progressMap.get(observation.clientOrderId) ?? null;
+    const next: FillProgress = {
+      filledQuantity,
+      avgFillPrice: observation.avgFillPrice ?? null,
+    };
+    const delta = computeFillDelta(previous, next, observation.orderPrice);
+    if (!delta) {
+      return;
+    }
+    const fee = this.computeFee(delta.price.multipliedBy(delta.quantity), observation.liquidity);
+    const record: FillRecord = {
+      clientOrderId: observation.clientOrderId,
+      exchangeOrderId: observation.exchangeOrderId,
+      side: observation.side,
+      price: delta.price,
+      quantity: delta.quantity,
+      cumulativeQuantity: filledQuantity,
+      fee,
+      liquidity: observation.liquidity,
+      realizedPnl: Decimal(0),
+      levelIndex: observation.levelIndex,
+      source: observation.source,
+      filledAt: observation.updatedAt,
+    };
+    record.realizedPnl = this.applyFill(record);
+    void this.store.recordFill(this.key, record).catch((error) => {
+      console.warn("成交落库失败", error);
+    });
+  }
+
+  /**
+   * 释放终态订单的累计进度，并记入已终态集合。
+   */
+  private closeOrder(clientOrderId: string): void {
+    this.progressMap.delete(clientOrderId);
+    this.replayedOrders.delete(clientOrderId);
+    this.closedOrders.add(clientOrderId);
+    if (this.closedOrders.size > MAX_CLOSED_ORDERS) {
+      const oldest = this.closedOrders.values().next().value;
+      if (oldest !== undefined) {
+        this.closedOrders.delete(oldest);
+      }
+    }
+  }
+
+  /**
+   * 成交记入账本、往返配对与累计进度，返回平均成本法的已实现盈亏。
+   */
+  private applyFill(record: FillRecord): Decimal {
+    const result = this.ledger.apply({
+      side: record.side,
+      price: record.price,
+      quantity: record.quantity,
+      fee: record.fee,
+    });
+    const trips = this.matcher.apply({
+      clientOrderId: record.clientOrderId,
+      side: record.side,
+      price: record.price,
+      quantity: record.quantity,
+      fee: record.fee,
+      levelIndex: record.levelIndex,
+      filledAt: record.filledAt,
+    });
+    for (const trip of trips) {
+      this.roundTripCount += 1;
+      this.roundTripNetPnl = this.roundTripNetPnl.plus(trip.netPnl);
+      this.recentRoundTrips.push(trip);
+    }
+    if (this.recentRoundTrips.length > MAX_RECENT_ROUND_TRIPS) {
+      this.recentRoundTrips.splice(0, this.recentRoundTrips.length - MAX_RECENT_ROUND_TRIPS);
+    }
+    const previous = this.progressMap.get(record.clientOrderId);
+    const previousNotional = previous?.avgFillPrice
+      ? previous.avgFillPrice.multipliedBy(previous.filledQuantity)
+      : Decimal(0);
+    const notional = previousNotional.plus(record.price.multipliedBy(record.quantity));
+    this.progressMap.set(record.clientOrderId, {
+      filledQuantity: record.cumulativeQuantity,
+      avgFillPrice: notional.dividedBy(record.cumulativeQuantity),
+    });
+    if (this.lastFillAt === null || record.filledAt > this.lastFillAt) {
+      this.lastFillAt = record.filledAt;
+    }
+    return result.realizedPnl;
+  }
+
+  /**
+   * 按市场费率计算手续费，费率未加载时记为 0 并在后台重试加载。
+   */
+  private computeFee(notional: Decimal, liquidity: FillLiquidity): Decimal {
+    if (!this.tradingConfig) {
+      void this.ensureTradingConfig();
+      return Decimal(0);
+    }
+    const rate = liquidity === "MAKER" ? this.tradingConfig.makerFee : this.tradingConfig.takerFee;
+    return notional.multipliedBy(rate);
+  }
+
+  private async ensureTradingConfig(): Promise<void> {
+    if (this.tradingConfig) {
+      return;
+    }
+    this.tradingConfigLoading ??= this.loadTradingConfig()
+      .then((config) => {
+        this.tradingConfig = config;
+      })
+      .catch((error) => {
+        console.warn("加载市场费率失败，手续费暂按 0 计", error);
+      })
+      .finally(() => {
+        this.tradingConfigLoading = null;
+      });
+    await this.tradingConfigLoading;
+  }
+}
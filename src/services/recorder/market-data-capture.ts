@@ -0,0 +1,109 @@
+import type { GridExchangeAdapter, Unsubscribe } from "../../core/exchange/adapter";
+import type { CaptureWriter } from "../../infra/market-data/capture-writer";
+import type { MarketDataService } from "../market-data/market-data-service";
+
+/**
+ * 录制范围：单个网格的交易对与订单前缀，多网格共享账户流时按此过滤账户事件。
+ */
+export interface MarketDataCaptureScope {
+  symbol: string;
+  clientOrderIdPrefix: string;
+}
+
+/**
+ * 行情录制服务：订阅行情与账户事件并交给写入器落盘。
+ * 与交易所实现无关，所有接入 MarketDataService 的交易所均可录制；
+ * 只录制交易所自身的行情，参考价交易所的行情不写入，回放时盘口来源单一。
+ */
+export class MarketDataCapture {
+  private readonly marketData: MarketDataService;
+  private readonly exchange: GridExchangeAdapter;
+  private readonly writer: CaptureWriter;
+  private readonly scope: MarketDataCaptureScope;
+  private quoteUnsubscribe: Unsubscribe | null = null;
+  private accountUnsubscribe: Unsubscribe | null = null;
+
+  constructor(
+    marketData: MarketDataService,
+    exchange: GridExchangeAdapter,
+    writer: CaptureWriter,
+    scope: MarketDataCaptureScope
+  ) {
+    this.marketData = marketData;
+    this.exchange = exchange;
+    this.writer = writer;
+    this.scope = scope;
+  }
+
+  /**
+   * 开始录制，重复调用不会重复订阅。
+   */
+  public start(): void {
+    if (this.quoteUnsubscribe || this.accountUnsubscribe) {
+      return;
+    }
+    this.quoteUnsubscribe = this.marketData.subscribe(
+      this.scope.symbol,
+      [this.exchange.name],
+      (snapshot) => {
+        this.safeWrite(() =>
+          this.writer.write({ type: "quote", recordedAt: Date.now(), quote: snapshot.source })
+        );
+      }
+    );
+    this.accountUnsubscribe = this.exchange.subscribeAccount({
+      onOrderUpdates: (allUpdates) => {
+        const updates = allUpdates.filter((update) =>
+          update.clientOrderId.startsWith(this.scope.clientOrderIdPrefix)
+        );
+        if (updates.length === 0) {
+          return;
+        }
+        this.safeWrite(() =>
+          this.writer.write({
+            type: "order",
+            recordedAt: Date.now(),
+            exchange: this.exchange.name,
+            updates,
+          })
+        );
+      },
+      onPositionUpdates: (allPositions) => {
+        const positions = allPositions.filter((position) => position.symbol === this.scope.symbol);
+        if (positions.length === 0) {
+          return;
+        }
+        this.safeWrite(() =>
+          this.writer.write({
+            type: "position",
+            recordedAt: Date.now(),
+            exchange: this.exchange.name,
+            positions,
+          })
+        );
+      },
+    });
+  }
+
+  /**
+   * 停止录制并关闭写入器。
+   */
+  public stop(): void {
+    this.quoteUnsubscribe?.();
+    this.accountUnsubscribe?.();
+    this.quoteUnsubscribe = null;
+    this.accountUnsubscribe = null;
+    this.writer.close();
+  }
+
+  /**
+   * 录制失败只记录日志，不影响交易主流程。
+   */
+  private safeWrite(write: () => void): void {
+    try {
+      write();
+    } catch (error) {
+      console.warn("录制写入失败", error);
+    }
+  }
+}
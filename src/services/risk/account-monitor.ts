@@ -0,0 +1,104 @@
+import type { GridExchangeAdapter, Unsubscribe } from "../../core/exchange/adapter";
+import type { AccountSummary } from "../../core/exchange/models";
+import { type Clock, systemClock } from "../../shared/time";
+
+/**
+ * 账户监控依赖。
+ */
+export interface AccountMonitorOptions {
+  /** 轮询间隔，推送缺失或中断时以轮询兜底 */
+  pollIntervalMs: number;
+  clock?: Clock;
+}
+
+/**
+ * 账户监控状态快照。
+ */
+export interface AccountMonitorStatus {
+  summary: AccountSummary | null;
+  /** 最近一次收到摘要的本地时间 */
+  receivedAt: number | null;
+  /** 超过三个轮询间隔未收到摘要 */
+  stale: boolean;
+  lastError: string | null;
+}
+
+/**
+ * 账户监控：同一账户上的全部网格共享一份保证金摘要。
+ * 摘要来自账户流推送与定时轮询，以最后收到的为准。
+ */
+export class AccountMonitor {
+  private readonly exchange: GridExchangeAdapter;
+  private readonly pollIntervalMs: number;
+  private readonly clock: Clock;
+  private summary: AccountSummary | null = null;
+  private receivedAt: number | null = null;
+  private lastError: string | null = null;
+  private unsubscribe: Unsubscribe | null = null;
+
+  constructor(exchange: GridExchangeAdapter, options: AccountMonitorOptions) {
+    this.exchange = exchange;
+    this.pollIntervalMs = options.pollIntervalMs;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /**
+   * 订阅账户摘要推送，重复调用不会重复订阅。
+   */
+  public start(): void {
+    this.unsubscribe ??= this.exchange.subscribeAccount({
+      onOrderUpdates: () => undefined,
+      onAccountSummary: (summary) => this.update(summary),
+    });
+  }
+
+  /**
+   * 取消账户摘要推送。
+   */
+  public stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * 主动查询一次账户摘要，失败时保留上一次摘要并记录错误。
+   */
+  public async refresh(): Promise<void> {
+    try {
+      this.update(await this.exchange.getAccountSummary());
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      console.warn("查询账户摘要失败", error);
+    }
+  }
+
+  public getPollIntervalMs(): number {
+    return this.pollIntervalMs;
+  }
+
+  /**
+   * 最新账户摘要，尚未收到时为 null。
+   */
+  public getSummary(): AccountSummary | null {
+    return this.summary;
+  }
+
+  /**
+   * 获取监控状态快照。
+   */
+  public getStatus(): AccountMonitorStatus {
+    return {
+      summary: this.summary,
+      receivedAt: this.receivedAt,
+      stale:
+        this.receivedAt === null || this.clock.now() - this.receivedAt > this.pollIntervalMs * 3,
+      lastError: this.lastError,
+    };
+  }
+
+  private update(summary: AccountSummary): void {
+    this.summary = summary;
+    this.receivedAt = this.clock.now();
+    this.lastError = null;
+  }
+}
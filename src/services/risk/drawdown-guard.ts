@@ -0,0 +1,196 @@
+import {
+  advanceWatermark,
+  type DrawdownLimits,
+  type EquityWatermark,
+  evaluateDrawdown,
+} from "../../core/risk/drawdown-guard";
+import type { RiskAction, RiskPauseRule, RiskRuleContext } from "../../core/risk/pause-rule";
+import type { Decimal } from "../../shared/number";
+import { type Clock, systemClock } from "../../shared/time";
+import type { GridStateKey } from "../grid/grid-state-store";
+import type { DrawdownStore, DrawdownTrip } from "./drawdown-store";
+
+/**
+ * 亏损熔断依赖。
+ */
+export interface DrawdownGuardOptions {
+  key: GridStateKey;
+  limits: DrawdownLimits;
+  /** 触发动作，未指定时使用配置的 riskAction */
+  action?: RiskAction;
+  /** 当前权益（累计净盈亏），缺少行情时为 null */
+  equity: () => Decimal | null;
+  store?: DrawdownStore;
+  clock?: Clock;
+}
+
+/**
+ * 亏损熔断状态快照。
+ */
+export interface DrawdownGuardStatus {
+  equity: Decimal | null;
+  dayStartEquity: Decimal | null;
+  peakEquity: Decimal | null;
+  /** 当日亏损（日初权益 - 当前权益），缺少权益时为 null */
+  dailyLoss: Decimal | null;
+  /** 峰值回撤（峰值权益 - 当前权益），缺少权益时为 null */
+  drawdown: Decimal | null;
+  /** 未解除的熔断，正常时为 null */
+  trip: DrawdownTrip | null;
+}
+
+/**
+ * 峰值等水位变化的落库间隔；跨日、熔断与人工恢复立即落库。
+ */
+const WATERMARK_SAVE_INTERVAL_MS = 60_000;
+
+/**
+ * 亏损熔断：跟踪权益的当日亏损与峰值回撤，超过阈值时触发风控动作。
+ * 熔断与水位持久化，重启后仍保持暂停，直到人工恢复网格才解除。
+ */
+export class DrawdownGuard implements RiskPauseRule {
+  public readonly name = "drawdown";
+  public readonly action?: RiskAction;
+  private readonly key: GridStateKey;
+  private readonly limits: DrawdownLimits;
+  private readonly equity: () => Decimal | null;
+  private readonly store?: DrawdownStore;
+  private readonly clock: Clock;
+  private watermark: EquityWatermark | null = null;
+  private trip: DrawdownTrip | null = null;
+  private dirty = false;
+  private lastSavedAt: number | null = null;
+
+  constructor(options: DrawdownGuardOptions) {
+    this.key = options.key;
+    this.limits = options.limits;
+    this.action = options.action;
+    this.equity = options.equity;
+    this.store = options.store;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /**
+   * 读取持久化的水位与熔断，返回未解除的熔断；读取失败时抛出，避免在未知状态下恢复交易。
+   */
+  public async restore(): Promise<DrawdownTrip | null> {
+    const state = await this.store?.load(this.key);
+    if (state) {
+      this.watermark = state.watermark;
+      this.trip = state.trip;
+    }
+    return this.trip;
+  }
+
+  /**
+   * 推进水位并检查阈值；存在未解除的熔断时直接返回其原因。
+   */
+  public evaluate(context: RiskRuleContext): string | null {
+    if (this.trip) {
+      return this.trip.reason;
+    }
+    const equity = this.equity();
+    if (!equity) {
+      return null;
+    }
+    const { watermark, dayChanged } = this.advance(equity, context.now);
+    const reason = evaluateDrawdown(watermark, equity, this.limits);
+    if (reason) {
+      this.trip = { reason, at: context.now };
+      this.save(context.now);
+      return reason;
+    }
+    this.saveWatermark(context.now, dayChanged);
+    return null;
+  }
+
+  /**
+   * 网格暂停期间仍推进日初与峰值水位，恢复后按最新的峰值与当日计算亏损，不判断阈值。
+   */
+  public observe(context: RiskRuleContext): void {
+    if (this.trip) {
+      return;
+    }
+    const equity = this.equity();
+    if (!equity) {
+      return;
+    }
+    this.saveWatermark(context.now, this.advance(equity, context.now).dayChanged);
+  }
+
+  /**
+   * 人工恢复时解除熔断：以当前权益重置日初与峰值，避免恢复后立即再次触发。
+   * 未处于熔断时返回 false。
+   */
+  public async acknowledge(): Promise<boolean> {
+    if (!this.trip) {
+      return false;
+    }
+    const now = this.clock.now();
+    const equity = this.equity();
+    if (equity) {
+      this.watermark = advanceWatermark(null, equity, now);
+    }
+    this.trip = null;
+    this.dirty = true;
+    await this.saveNow(now);
+    return true;
+  }
+
+  /**
+   * 获取熔断状态快照。
+   */
+  public getStatus(): DrawdownGuardStatus {
+    const equity = this.equity();
+    const watermark = this.watermark;
+    return {
+      equity,
+      dayStartEquity: watermark?.dayStartEquity ?? null,
+      peakEquity: watermark?.peakEquity ?? null,
+      dailyLoss: equity && watermark ? watermark.dayStartEquity.minus(equity) : null,
+      drawdown: equity && watermark ? watermark.peakEquity.minus(equity) : null,
+      trip: this.trip,
+    };
+  }
+
+  /**
+   * 以当前权益推进水位，返回新水位与是否跨日。
+   */
+  private advance(
+    equity: Decimal,
+    now: number
+  ): { watermark: EquityWatermark; dayChanged: boolean } {
+    const previous = this.watermark;
+    const next = advanceWatermark(previous, equity, now);
+    const dayChanged = previous?.day !== next.day;
+    this.dirty ||= dayChanged || !next.peakEquity.eq(previous?.peakEquity ?? next.peakEquity);
+    this.watermark = next;
+    return { watermark: next, dayChanged };
+  }
+
+  /**
+   * 水位有变化时按间隔落库，跨日立即落库。
+   */
+  private saveWatermark(now: number, dayChanged: boolean): void {
+    const intervalElapsed =
+      this.lastSavedAt === null || now - this.lastSavedAt >= WATERMARK_SAVE_INTERVAL_MS;
+    if (this.dirty && (dayChanged || intervalElapsed)) {
+      this.save(now);
+    }
+  }
+
+  private save(at: number): void {
+    void this.saveNow(at).catch((error) => {
+      console.warn("亏损熔断状态落库失败", error);
+    });
+  }
+
+  private async saveNow(at: number): Promise<void> {
+    if (!this.store || !this.watermark) {
+      return;
+    }
+    this.dirty = false;
+    this.lastSavedAt = at;
+    await this.store.save(this.key, { watermark: this.watermark, trip: this.trip }, at);
+  }
+}
@@ -0,0 +1,74 @@
+import type { EquityWatermark } from "../../core/risk/drawdown-guard";
+import type { DrawdownStateRepository } from "../../infra/db/drawdown-state-repo";
+import { Decimal } from "../../shared/number";
+import type { GridStateKey } from "../grid/grid-state-store";
+
+/**
+ * 熔断记录：触发原因与时间。
+ */
+export interface DrawdownTrip {
+  reason: string;
+  at: number;
+}
+
+/**
+ * 持久化的熔断状态：权益水位与未解除的熔断。
+ */
+export interface PersistedDrawdownState {
+  watermark: EquityWatermark;
+  trip: DrawdownTrip | null;
+}
+
+/**
+ * 亏损熔断存储接口。
+ */
+export interface DrawdownStore {
+  save(key: GridStateKey, state: PersistedDrawdownState, at: number): Promise<void>;
+  load(key: GridStateKey): Promise<PersistedDrawdownState | null>;
+}
+
+/**
+ * 基于 SQLite 的亏损熔断存储实现。
+ */
+export class DbDrawdownStore implements DrawdownStore {
+  private readonly repo: DrawdownStateRepository;
+
+  constructor(repo: DrawdownStateRepository) {
+    this.repo = repo;
+  }
+
+  /**
+   * 写入或覆盖熔断状态。
+   */
+  public async save(key: GridStateKey, state: PersistedDrawdownState, at: number): Promise<void> {
+    await this.repo.upsertState({
+      strategyId: key.strategyId,
+      exchange: key.exchange,
+      symbol: key.symbol,
+      day: state.watermark.day,
+      dayStartEquity: state.watermark.dayStartEquity.toString(),
+      peakEquity: state.watermark.peakEquity.toString(),
+      trippedAt: state.trip?.at ?? null,
+      tripReason: state.trip?.reason ?? null,
+      updatedAt: at,
+    });
+  }
+
+  /**
+   * 读取熔断状态，不存在时返回 null。
+   */
+  public async load(key: GridStateKey): Promise<PersistedDrawdownState | null> {
+    const row = await this.repo.findState(key);
+    if (!row) {
+      return null;
+    }
+    return {
+      watermark: {
+        day: row.day,
+        dayStartEquity: Decimal(row.dayStartEquity),
+        peakEquity: Decimal(row.peakEquity),
+      },
+      trip: row.trippedAt !== null ? { reason: row.tripReason ?? "", at: row.trippedAt } : null,
+    };
+  }
+}
@@ -0,0 +1,64 @@
+import {
+  evaluateMargin,
+  type MarginLimits,
+  nearestLiquidation,
+} from "../../core/risk/margin-guard";
+import type { RiskAction, RiskPauseRule } from "../../core/risk/pause-rule";
+import type { Decimal } from "../../shared/number";
+import type { AccountMonitor, AccountMonitorStatus } from "./account-monitor";
+
+/**
+ * 保证金风控依赖。
+ */
+export interface MarginGuardOptions {
+  monitor: AccountMonitor;
+  limits: MarginLimits;
+  /** 触发动作，未指定时使用配置的 riskAction */
+  action?: RiskAction;
+}
+
+/**
+ * 保证金风控状态快照。
+ */
+export interface MarginGuardStatus extends AccountMonitorStatus {
+  limits: MarginLimits;
+  /** 距强平价最近的仓位，无可计算仓位时为 null */
+  nearestLiquidation: { symbol: string; distance: Decimal } | null;
+}
+
+/**
+ * 保证金风控：账户保证金率过高或仓位距强平价过近时停止补单并告警。
+ * 依据账户整体摘要判断，同一账户上的各网格共用一个实例；尚未收到摘要时不触发。
+ */
+export class MarginGuard implements RiskPauseRule {
+  public readonly name = "margin";
+  public readonly action?: RiskAction;
+  private readonly monitor: AccountMonitor;
+  private readonly limits: MarginLimits;
+
+  constructor(options: MarginGuardOptions) {
+    this.monitor = options.monitor;
+    this.limits = options.limits;
+    this.action = options.action;
+  }
+
+  public evaluate(): string | null {
+    const summary = this.monitor.getSummary();
+    return summary ? evaluateMargin(summary, this.limits) : null;
+  }
+
+  /**
+   * 获取账户摘要与阈值快照。
+   */
+  public getStatus(): MarginGuardStatus {
+    const status = this.monitor.getStatus();
+    const nearest = status.summary ? nearestLiquidation(status.summary) : null;
+    return {
+      ...status,
+      limits: this.limits,
+      nearestLiquidation: nearest
+        ? { symbol: nearest.position.symbol, distance: nearest.distance }
+        : null,
+    };
+  }
+}
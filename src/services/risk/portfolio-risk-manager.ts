@@ -0,0 +1,122 @@
+import type { Unsubscribe } from "../../core/exchange/adapter";
+import type { OrderSide } from "../../core/exchange/models";
+import {
+  checkPortfolioLimits,
+  type PortfolioExposure,
+  type PortfolioLimitBreach,
+  summarizePortfolioExposure,
+} from "../../core/risk/portfolio-guard";
+import type { PortfolioRiskConfig } from "../../infra/config/schema";
+import { Decimal } from "../../shared/number";
+
+/**
+ * 敞口来源：返回网格当前敞口，仓位未知时返回 null（不计入汇总）。
+ */
+export type PortfolioExposureSource = () => PortfolioExposure | null;
+
+/**
+ * 待检查的新订单。
+ */
+export interface PortfolioOrderRequest {
+  side: OrderSide;
+  quantity: Decimal;
+  price: Decimal;
+}
+
+/**
+ * 组合敞口快照，名义金额按最坏情况（同向挂单全部成交）计算。
+ */
+export interface PortfolioRiskSnapshot {
+  grossNotional: Decimal;
+  /** 全部买单成交与全部卖单成交两种情形下净名义金额绝对值的较大者 */
+  netDelta: Decimal;
+  openOrders: number;
+  symbols: Array<{ strategyId: string; symbol: string; notional: Decimal | null }>;
+  limits: PortfolioRiskConfig;
+}
+
+/**
+ * 组合风控：同一账户上的各网格登记自身敞口，补单前汇总全部网格检查组合限额。
+ * 各网格只在自己的补单流程中调用，检查结果不缓存，始终基于最新敞口。
+ */
+export class PortfolioRiskManager {
+  private readonly limits: PortfolioRiskConfig;
+  private readonly sources = new Map<string, PortfolioExposureSource>();
+
+  constructor(limits: PortfolioRiskConfig) {
+    this.limits = limits;
+  }
+
+  /**
+   * 登记网格敞口来源，返回注销函数。
+   */
+  public register(strategyId: string, source: PortfolioExposureSource): Unsubscribe {
+    this.sources.set(strategyId, source);
+    return () => {
+      if (this.sources.get(strategyId) === source) {
+        this.sources.delete(strategyId);
+      }
+    };
+  }
+
+  /**
+   * 检查新订单是否会突破组合限额，exposure 为下单网格在本轮补单中的最新敞口。
+   */
+  public checkOrder(
+    strategyId: string,
+    exposure: PortfolioExposure,
+    order: PortfolioOrderRequest
+  ): PortfolioLimitBreach | null {
+    return checkPortfolioLimits({
+      exposures: [...this.collectOthers(strategyId), exposure],
+      symbol: exposure.symbol,
+      side: order.side,
+      quantity: order.quantity,
+      price: order.price,
+      limits: this.limits,
+    });
+  }
+
+  /**
+   * 获取组合敞口快照，用于状态查询。
+   */
+  public getSnapshot(): PortfolioRiskSnapshot {
+    const entries = Array.from(this.sources.entries()).map(([strategyId, source]) => ({
+      strategyId,
+      exposure: source(),
+    }));
+    const exposures = entries.flatMap((entry) => (entry.exposure ? [entry.exposure] : []));
+    const totals = summarizePortfolioExposure(exposures);
+    return {
+      grossNotional: totals.grossNotional,
+      netDelta: Decimal.max(totals.longNotional.abs(), totals.shortNotional.abs()),
+      openOrders: totals.openOrders,
+      symbols: entries.flatMap(({ strategyId, exposure }) =>
+        exposure
+          ? [
+              {
+                strategyId,
+                symbol: exposure.symbol,
+                notional: totals.symbolNotional.get(exposure.symbol.toUpperCase()) ?? null,
+              },
+            ]
+          : []
+      ),
+      limits: this.limits,
+    };
+  }
+
+  private collectOthers(strategyId: string): PortfolioExposure[] {
+    const exposures: PortfolioExposure[] = [];
+    for (const [id, source] of this.sources) {
+      if (id === strategyId) {
+        continue;
+      }
+      const exposure = source();
+      if (exposure) {
+        exposures.push(exposure);
+      }
+    }
+    return exposures;
+  }
+}
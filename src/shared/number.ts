@@ -7,3 +7,17 @@ export const Decimal = BigNumber;
 
 export type Decimal = BigNumber;
 export type RoundingMode = BigNumber.RoundingMode;
+
+/**
+ * 按步长对齐数值，默认向下取整；步长非正时原样返回。
+ */
+export function alignToStep(
+  value: Decimal,
+  step: Decimal,
+  mode: RoundingMode = BigNumber.ROUND_DOWN
+): Decimal {
+  if (!step.gt(0)) {
+    return value;
+  }
+  return value.dividedBy(step).integerValue(mode).multipliedBy(step);
+}
@@ -0,0 +1,63 @@
+/**
+ * 时间来源抽象，实盘使用系统时间，回测使用虚拟时间。
+ */
+export interface Clock {
+  /** 当前时间戳（毫秒） */
+  now(): number;
+}
+
+/**
+ * 系统时钟，直接读取 Date.now()。
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+/**
+ * 手动推进的虚拟时钟，仅允许时间单调递增。
+ */
+export class ManualClock implements Clock {
+  private current: number;
+
+  constructor(start = 0) {
+    this.current = start;
+  }
+
+  public now(): number {
+    return this.current;
+  }
+
+  /**
+   * 将时钟推进到指定时间，早于当前时间时保持不变。
+   */
+  public set(ts: number): void {
+    if (ts > this.current) {
+      this.current = ts;
+    }
+  }
+}
+
+/**
+ * 等待指定毫秒数。
+ */
+export function sleep(ms: number): Promise<void> {
+  if (ms <= 0) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * 为异步任务设置超时，超时后以指定信息拒绝；原任务不会被中断。
+ */
+export async function withTimeout<T>(task: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), Math.max(0, ms));
+  });
+  try {
+    return await Promise.race([task, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}